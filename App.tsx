@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef, useLayoutEffect } from 'react';
-import { Note, SortOption, Project } from './types';
+import { Note, SortOption, Project, TrashEntry } from './types';
 import { useLocalStorage } from './hooks/useLocalStorage';
 import { useTheme } from './hooks/useTheme';
 import { ToastProvider, useToasts } from './hooks/useToasts';
@@ -7,7 +7,8 @@ import { getSharedNoteFromUrl, clearShareFromUrl } from './utils/shareUtils';
 import { useMediaQuery } from './hooks/useMediaQuery';
 import { useProjects } from './hooks/useProjects';
 import { ProjectService } from './services/projectService';
-import { migrateNotesToProjects, applyDefaultProject } from './utils/projectMigration';
+import { migrationService } from './services/migrationService';
+import { storageService } from './services/storageService';
 import NoteEditor from './components/NoteEditor';
 import CombinedSidebar from './components/CombinedSidebar';
 import ProjectModal from './components/ProjectModal';
@@ -19,6 +20,31 @@ import CommandPalette from './components/CommandPalette';
 import KeyboardShortcutsModal from './components/KeyboardShortcutsModal';
 import { useEnhancedKeyboardShortcuts } from './hooks/useEnhancedKeyboardShortcuts';
 import VersionHistoryModal from './components/VersionHistory/VersionHistoryModal';
+import RestoreWorkspaceModal from './components/RestoreWorkspaceModal';
+import StorageUsageModal from './components/StorageUsageModal';
+import WorkspaceSearchModal from './components/WorkspaceSearchModal';
+import TasksModal from './components/TasksModal';
+import TemplateGalleryModal, { TemplateNoteData } from './components/TemplateGalleryModal';
+import EncryptionSettingsModal from './components/EncryptionSettingsModal';
+import PlaintextWarning from './components/PlaintextWarning';
+import { useWorkspaceLock } from './hooks/useWorkspaceLock';
+import { encryptionService } from './services/encryptionService';
+import NoteConflictModal from './components/NoteConflictModal';
+import SyncStatusButton from './components/SyncStatusButton';
+import { useNoteSync } from './hooks/useNoteSync';
+import { useProjectOutbox } from './hooks/useProjectOutbox';
+import { useTrash } from './hooks/useTrash';
+import { TrashService } from './services/trashService';
+import { mergeRecordsById } from './utils/crossTabMerge';
+import { BackupService, RestorePlan } from './services/backupService';
+import { CleanupResult } from './services/storageUsageService';
+import { WorkspaceReplaceResult } from './services/workspaceSearchService';
+import { versionControlService } from './services/versionControlService';
+import { WikiLinkService } from './services/wikiLinkService';
+import { TemplateService } from './services/templateService';
+import { FrontMatterService } from './services/frontMatterService';
+import { TaskService } from './services/taskService';
+import { AttachmentService } from './services/attachmentService';
 import FeatureAnnouncementManager from './components/FeatureAnnouncementExample';
 import { summarizeText } from './services/geminiService';
 import { FaXmark } from 'react-icons/fa6';
@@ -26,15 +52,30 @@ import { FaSun, FaMoon, FaSearch, FaStar, FaQuestionCircle } from 'react-icons/f
 import { PiSidebarSimpleBold } from 'react-icons/pi';
 import FullScreenLoader from './components/FullScreenLoader';
 
+// Minimum time between "could not save" warnings while the browser storage keeps failing
+const WRITE_ERROR_WARNING_INTERVAL_MS = 30 * 1000;
+// Minimum time between "changed in another tab" warnings for the same note
+const OTHER_TAB_WARNING_INTERVAL_MS = 30 * 1000;
+// How long a title must stay unchanged before links to the old title are updated
+const RENAME_LINKS_DELAY_MS = 1000;
+// How long the text must stay unchanged before its front matter updates the note's metadata
+const FRONT_MATTER_SYNC_DELAY_MS = 1000;
+// Unreferenced attachments are cleaned up once the app has settled after load
+const ATTACHMENT_GC_DELAY_MS = 30 * 1000;
+
 const AppContent: React.FC = () => {
   const [isAppLoading, setIsAppLoading] = useState(true);
 
-  const [notes, setNotes] = useLocalStorage<Note[]>('stellar-scribe-notes-v2', []);
-  const [activeNoteId, setActiveNoteId] = useLocalStorage<string | null>('stellar-scribe-active-note-id', null);
+  const [notes, setNotes] = useLocalStorage<Note[]>('stellar-scribe-notes-v2', [], {
+    mergeExternal: mergeRecordsById,
+    onExternalChange: (previous, next, incoming) => warnIfActiveNoteChangedElsewhere(previous, next, incoming),
+  });
+  // Each tab keeps its own open note
+  const [activeNoteId, setActiveNoteId] = useLocalStorage<string | null>('stellar-scribe-active-note-id', null, {
+    ignoreExternal: true,
+  });
   const [searchTerm, setSearchTerm] = useState('');
   const [isSidebarOpen, setIsSidebarOpen] = useLocalStorage('stellar-scribe-sidebar-open', true);
-  const [hasMigrated, setHasMigrated] = useLocalStorage<boolean>('stellar-scribe-migrated-v2', false);
-  const [hasProjectMigrated, setHasProjectMigrated] = useLocalStorage<boolean>('stellar-scribe-project-migrated-v1', false);
   const [theme, toggleTheme] = useTheme();
   const [sortOption, setSortOption] = useState<SortOption>('updatedAt');
   const [viewMode, setViewMode] = useState<'split' | 'editor' | 'preview'>('split');
@@ -49,6 +90,12 @@ const AppContent: React.FC = () => {
   
   // Use projects hook
   const projectsHook = useProjects(notes);
+  const noteSync = useNoteSync(notes, setNotes);
+  const projectOutbox = useProjectOutbox();
+  const trash = useTrash();
+  const [trashEntryToDelete, setTrashEntryToDelete] = useState<TrashEntry | null>(null);
+  const [isEmptyTrashModalOpen, setIsEmptyTrashModalOpen] = useState(false);
+  const [isConflictModalOpen, setIsConflictModalOpen] = useState(false);
 
   // Helper function to update notes state with de-duplication and sorting
   const updateNotesState = useCallback((newNotes: Note[], currentNotes: Note[]) => {
@@ -72,7 +119,23 @@ const AppContent: React.FC = () => {
   const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false); // New state for command palette
   const [isKeyboardShortcutsOpen, setIsKeyboardShortcutsOpen] = useState(false); // New state for keyboard shortcuts modal
   const [isVersionHistoryOpen, setIsVersionHistoryOpen] = useState(false); // New state for version history modal
+  const [isRestoreWorkspaceOpen, setIsRestoreWorkspaceOpen] = useState(false);
+  const [isStorageUsageOpen, setIsStorageUsageOpen] = useState(false);
+  const [isWorkspaceSearchOpen, setIsWorkspaceSearchOpen] = useState(false);
+  const [isTasksOpen, setIsTasksOpen] = useState(false);
+  const [isEncryptionSettingsOpen, setIsEncryptionSettingsOpen] = useState(false);
+  const [isBackupWarningOpen, setIsBackupWarningOpen] = useState(false);
+  // Project the new note goes into and the template to fill in, while the template gallery is open
+  const [templateGallery, setTemplateGallery] = useState<{ projectId: string | null; templateId?: string } | null>(null);
+  const workspaceLock = useWorkspaceLock();
   const { addToast } = useToasts();
+  // Last time each note was reported as changed in another tab
+  const otherTabWarningsRef = useRef<Map<string, number>>(new Map());
+  // Title each note had before its current rename began, by note id
+  const renamedFromRef = useRef<Map<string, string>>(new Map());
+  // Text each note had before its current front matter edit began, by note id
+  const frontMatterEditsRef = useRef<Map<string, string>>(new Map());
+  const markdownInputRef = useRef<HTMLInputElement>(null);
   const [placeholderText, setPlaceholderText] = useState('Search notes...');
   const [showRecommendations, setShowRecommendations] = useState(false);
   const isSmallScreen = useMediaQuery('(max-width: 640px)'); // Tailwind's 'sm' breakpoint is 640px
@@ -153,6 +216,7 @@ const AppContent: React.FC = () => {
         document.exitFullscreen();
       }
     },
+    toggleOutline: () => document.dispatchEvent(new CustomEvent('toggleOutline')),
     zoomIn: () => {
       const editor = document.querySelector('.note-editor') as HTMLElement;
       if (editor) {
@@ -229,6 +293,10 @@ const AppContent: React.FC = () => {
     
     // Search & Find
     findInNote: () => {
+      if (activeNote) {
+        document.dispatchEvent(new CustomEvent('findInNote', { detail: { action: 'find' } }));
+        return;
+      }
       const searchInput = document.querySelector('input[placeholder*="Search"]') as HTMLInputElement;
       if (searchInput) {
         searchInput.focus();
@@ -236,17 +304,16 @@ const AppContent: React.FC = () => {
       }
     },
     findAndReplace: () => {
-      // This would open a find and replace dialog
-      console.log('Find and replace');
+      document.dispatchEvent(new CustomEvent('findInNote', { detail: { action: 'replace' } }));
     },
     findNext: () => {
-      // This would find next occurrence
-      console.log('Find next');
+      document.dispatchEvent(new CustomEvent('findInNote', { detail: { action: 'next' } }));
     },
     findPrevious: () => {
-      // This would find previous occurrence
-      console.log('Find previous');
+      document.dispatchEvent(new CustomEvent('findInNote', { detail: { action: 'previous' } }));
     },
+    searchWorkspace: () => setIsWorkspaceSearchOpen(true),
+    showTasks: () => setIsTasksOpen(true),
     
     // Help & Info
     showShortcuts: () => setIsKeyboardShortcutsOpen(true),
@@ -280,79 +347,47 @@ const AppContent: React.FC = () => {
     }
   }, [addToast]);
 
-  // Effect to migrate notes from old local storage keys
+  // Report data migrations that ran at startup
   useEffect(() => {
-    if (!hasMigrated) {
-      const oldNoteKeys: string[] = [];
-      const migratedNotes: Note[] = [];
-
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith('note_versions_')) {
-          try {
-            const item = localStorage.getItem(key);
-            if (item) {
-              const parsed = JSON.parse(item);
-              // Check if it's an array of notes or a single note
-              if (Array.isArray(parsed)) {
-                migratedNotes.push(...parsed);
-              } else if (parsed && typeof parsed === 'object' && parsed.id && parsed.title && parsed.content) {
-                migratedNotes.push(parsed);
-              }
-            }
-          } catch (error) {
-            console.error(`Error parsing old note key ${key}:`, error);
-          }
-          oldNoteKeys.push(key);
-        }
-      }
-
-      if (migratedNotes.length > 0) {
-        setNotes((prevNotes) => updateNotesState(migratedNotes, prevNotes));
-        addToast(`Migrated ${migratedNotes.length} notes from old storage!`, 'success');
-      }
-
-      // Clean up old keys
-      oldNoteKeys.forEach(key => {
-        localStorage.removeItem(key);
-      });
+    const lastRun = migrationService.takeLastRun();
+    if (!lastRun) return;
+    lastRun.applied.forEach(migration => {
+      migration.changes.forEach(change => addToast(change, 'success'));
+    });
+    if (lastRun.error) {
+      addToast(`${lastRun.error}. Your data was left unchanged.`, 'error');
+    }
+  }, [addToast]);
 
-      // Also remove the generic 'note_versions' key if it exists and is empty
-      if (localStorage.getItem('note_versions') === '[]') {
-        localStorage.removeItem('note_versions');
-      }
+  // Warn when a change could not be saved to the browser, since it would be gone after a reload
+  useEffect(() => {
+    let lastWarnedAt = 0;
+    return storageService.onWriteError(() => {
+      const now = Date.now();
+      if (now - lastWarnedAt < WRITE_ERROR_WARNING_INTERVAL_MS) return;
+      lastWarnedAt = now;
+      addToast('Your latest changes could not be saved and will be lost on reload. Open "Storage Usage" from the command palette to free up space.', 'error');
+    });
+  }, [addToast]);
 
-      setHasMigrated(true); // Mark migration as complete
+  // Point users at the storage panel before old versions start being removed automatically
+  useEffect(() => {
+    if (versionControlService.checkStorageQuota().needsCleanup) {
+      addToast('Version history is almost out of space. Open "Storage Usage" from the command palette to clean up.', 'info');
     }
-  }, [hasMigrated, setNotes, addToast, setHasMigrated]);
+  }, [addToast]);
 
-  // Effect to migrate notes to project system
+  // Delete attachments no note, trashed note or version references, and move
+  // files of older attachments out of their records
+  const notesRef = useRef(notes);
+  notesRef.current = notes;
   useEffect(() => {
-    if (!hasProjectMigrated && notes.length > 0) {
-      const migrationResult = migrateNotesToProjects(notes, projectsHook.projects, hasProjectMigrated);
-      
-      if (migrationResult.success && migrationResult.defaultProject) {
-        // Create default project
-        const newProject = projectsHook.createProject({
-          title: migrationResult.defaultProject.title,
-          description: migrationResult.defaultProject.description,
-          color: migrationResult.defaultProject.color,
-          icon: migrationResult.defaultProject.icon,
-          isPinned: migrationResult.defaultProject.isPinned,
-          isArchived: migrationResult.defaultProject.isArchived,
-          settings: migrationResult.defaultProject.settings,
-        });
-        
-        // Assign existing notes to this project
-        const updatedNotes = applyDefaultProject(notes, newProject.id);
-        setNotes(updatedNotes);
-        
-        addToast(migrationResult.message, 'success');
-      }
-      
-      setHasProjectMigrated(true);
-    }
-  }, [hasProjectMigrated, notes, projectsHook, setNotes, addToast, setHasProjectMigrated]);
+    const timer = setTimeout(() => {
+      AttachmentService.collectGarbage(notesRef.current);
+      AttachmentService.moveLegacyFiles();
+    }, ATTACHMENT_GC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, []);
 
   // Effect to set the initial active note
   useEffect(() => {
@@ -434,16 +469,28 @@ const AppContent: React.FC = () => {
   const addNote = useCallback((noteToAdd?: Note, projectId?: string | null) => {
     console.log('🔍 addNote called:', { noteToAdd: !!noteToAdd, projectId, source: noteToAdd ? 'modal' : 'button' });
     
+    const targetProjectId = projectId ?? projectsHook.activeProjectId ?? null;
+    // A blank note in a project with a default template starts from that
+    // template, through the gallery when it has fields to fill in
+    const targetProject = projectsHook.projects.find(project => project.id === targetProjectId);
+    const defaultTemplateId = noteToAdd ? undefined : targetProject?.settings.defaultTemplateId;
+    const defaultTemplate = defaultTemplateId ? TemplateService.getTemplate(defaultTemplateId) : null;
+    if (defaultTemplate && TemplateService.getFields(defaultTemplate).length > 0) {
+      setTemplateGallery({ projectId: targetProjectId, templateId: defaultTemplate.id });
+      return;
+    }
+    const fromTemplate = defaultTemplate ? TemplateService.apply(defaultTemplate, { project: targetProject?.title }) : null;
+
     const newNote: Note = noteToAdd || {
       id: crypto.randomUUID(),
-      title: 'New Note',
-      content: '',
+      title: fromTemplate?.title ?? 'New Note',
+      content: fromTemplate?.content ?? '',
       createdAt: Date.now(),
       updatedAt: Date.now(),
-      tags: [],
+      tags: fromTemplate?.tags ?? [],
       isPinned: false,
       isImported: false, // Ensure this is explicitly set for default notes
-      projectId: projectId ?? projectsHook.activeProjectId ?? null,
+      projectId: targetProjectId,
     };
     const noteWithProject = noteToAdd
       ? { ...noteToAdd, projectId: projectId ?? noteToAdd.projectId ?? projectsHook.activeProjectId ?? null }
@@ -485,10 +532,31 @@ const AppContent: React.FC = () => {
     addToast(noteToAdd ? 'Note generated successfully!' : 'New note created!', 'success');
   }, [setNotes, setActiveNoteId, setIsSidebarOpen, addToast, projectsHook, updateNotesState]);
 
+  const openTemplateGallery = useCallback((projectId?: string | null) => {
+    setTemplateGallery({ projectId: projectId === undefined ? projectsHook.activeProjectId ?? null : projectId });
+  }, [projectsHook.activeProjectId]);
+
+  const addNoteFromTemplate = useCallback((data: TemplateNoteData) => {
+    const projectId = templateGallery?.projectId ?? null;
+    const now = Date.now();
+    addNote({
+      id: crypto.randomUUID(),
+      ...data,
+      createdAt: now,
+      updatedAt: now,
+      isPinned: false,
+      isImported: false,
+      projectId,
+    }, projectId);
+  }, [addNote, templateGallery]);
+
   const deleteNote = useCallback((id: string) => {
     const noteToDelete = notes.find(n => n.id === id);
     const remainingNotes = notes.filter(note => note.id !== id);
     setNotes(remainingNotes);
+    if (noteToDelete) {
+      trash.moveNotesToTrash([noteToDelete]);
+    }
 
     if (activeNoteId === id) {
         if (remainingNotes.length > 0) {
@@ -498,21 +566,129 @@ const AppContent: React.FC = () => {
             setActiveNoteId(null);
         }
     }
-    addToast(`Deleted "${noteToDelete?.title || 'note'}"`, 'info');
-  }, [activeNoteId, notes, setNotes, selectNote, addToast]);
+    addToast(`Moved "${noteToDelete?.title || 'note'}" to trash`, 'info');
+  }, [activeNoteId, notes, setNotes, selectNote, addToast, trash]);
 
   const updateNote = useCallback((updatedFields: Partial<Note>) => {
     if (!activeNoteId) return;
 
+    const current = notes.find(note => note.id === activeNoteId);
+    if (current && updatedFields.title !== undefined && updatedFields.title !== current.title
+        && !renamedFromRef.current.has(activeNoteId)) {
+      renamedFromRef.current.set(activeNoteId, current.title);
+    }
+
+    // Edits to the front matter update the note's metadata once typing
+    // settles, and metadata changed elsewhere is written back to it
+    let fields = updatedFields;
+    if (current && updatedFields.content !== undefined) {
+      if (!frontMatterEditsRef.current.has(activeNoteId)) {
+        frontMatterEditsRef.current.set(activeNoteId, current.content);
+      }
+    } else if (current && (updatedFields.tags || updatedFields.isPinned !== undefined || updatedFields.projectId !== undefined)) {
+      fields = { ...updatedFields, content: FrontMatterService.applyNoteMetadata({ ...current, ...updatedFields }, projectsHook.projects) };
+    }
+
     setNotes(prevNotes => {
       const updatedNotes = prevNotes.map(note =>
         note.id === activeNoteId
-          ? { ...note, ...updatedFields, updatedAt: Date.now() }
+          ? { ...note, ...fields, updatedAt: Date.now() }
           : note
       );
       return updateNotesState(updatedNotes, prevNotes);
     });
-  }, [activeNoteId, setNotes]);
+
+    if (current && fields.projectId !== undefined && fields.projectId !== current.projectId) {
+      const updatedNotes = notes.map(note => note.id === current.id ? { ...note, ...fields } : note);
+      [current.projectId, fields.projectId].forEach(id => {
+        if (id) projectsHook.recalculateProjectMetadata(id, updatedNotes);
+      });
+    }
+  }, [activeNoteId, notes, setNotes, projectsHook]);
+
+  // Point [[links]] at renamed notes once their titles stop changing, so the
+  // links don't pass through every partly typed title
+  useEffect(() => {
+    if (renamedFromRef.current.size === 0) return;
+    const timer = setTimeout(() => {
+      let updatedNotes = notes;
+      renamedFromRef.current.forEach((oldTitle, noteId) => {
+        const note = updatedNotes.find(n => n.id === noteId);
+        // Keep waiting while the title is empty or can't be linked to
+        if (note && !WikiLinkService.isLinkableTitle(note.title)) return;
+        renamedFromRef.current.delete(noteId);
+        const changedNotes = note ? WikiLinkService.renameLinks(updatedNotes, noteId, oldTitle) : [];
+        if (changedNotes.length > 0) {
+          updatedNotes = updateNotesState(changedNotes, updatedNotes);
+        }
+      });
+      if (updatedNotes !== notes) {
+        setNotes(updatedNotes);
+      }
+    }, RENAME_LINKS_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [notes]);
+
+  // Take the tags, pin and project from edited front matter once the text
+  // stops changing or the note is left, so partly typed values such as a
+  // project title don't move the note around
+  useEffect(() => {
+    if (frontMatterEditsRef.current.size === 0) return;
+    const delay = activeNoteId && frontMatterEditsRef.current.has(activeNoteId) ? FRONT_MATTER_SYNC_DELAY_MS : 0;
+    const timer = setTimeout(() => {
+      const changedNotes: Note[] = [];
+      frontMatterEditsRef.current.forEach((previousContent, noteId) => {
+        const note = notes.find(n => n.id === noteId);
+        if (!note) return;
+        const metadata = FrontMatterService.getNoteMetadata(note.content, projectsHook.projects, previousContent);
+        const updated = { ...note, ...metadata };
+        if (updated.tags.join('\n') !== note.tags.join('\n') || updated.isPinned !== note.isPinned
+            || updated.projectId !== note.projectId) {
+          changedNotes.push({ ...updated, updatedAt: Date.now() });
+        }
+      });
+      frontMatterEditsRef.current.clear();
+      if (changedNotes.length === 0) return;
+
+      const updatedNotes = updateNotesState(changedNotes, notes);
+      setNotes(updatedNotes);
+      changedNotes.forEach(changed => {
+        const previousProjectId = notes.find(note => note.id === changed.id)?.projectId;
+        if (changed.projectId === previousProjectId) return;
+        [previousProjectId, changed.projectId].forEach(id => {
+          if (id) projectsHook.recalculateProjectMetadata(id, updatedNotes);
+        });
+      });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [notes, activeNoteId]);
+
+  /**
+   * Tell the user when the open note was edited or deleted in another tab
+   */
+  const warnIfActiveNoteChangedElsewhere = (previous: Note[], next: Note[], incoming: Note[]) => {
+    const before = previous.find(note => note.id === activeNoteId);
+    if (!before) return;
+    const theirs = incoming.find(note => note.id === activeNoteId);
+    if (theirs && theirs.title === before.title && theirs.content === before.content) return;
+
+    // Typing in the other tab saves on every keystroke; warn once per burst
+    const now = Date.now();
+    const lastWarnedAt = otherTabWarningsRef.current.get(before.id) || 0;
+    otherTabWarningsRef.current.set(before.id, now);
+    if (now - lastWarnedAt < OTHER_TAB_WARNING_INTERVAL_MS) return;
+
+    const after = next.find(note => note.id === activeNoteId);
+    if (!after) {
+      addToast(`"${before.title}" was deleted in another tab`, 'info');
+    } else if (!theirs) {
+      addToast(`"${before.title}" was deleted in another tab. It was kept because you edited it here.`, 'info');
+    } else if (after === before) {
+      addToast(`"${before.title}" was also edited in another tab. Your newer changes were kept.`, 'info');
+    } else {
+      addToast(`"${after.title}" was changed in another tab`, 'info');
+    }
+  };
 
   // Handle version restoration
   const handleRestoreVersion = useCallback((restoredNote: Note) => {
@@ -533,6 +709,12 @@ const AppContent: React.FC = () => {
     });
   }, [activeNoteId, setNotes]);
   
+  // Rewrite a note's front matter after its tags, pin or project changed
+  const withNoteMetadata = useCallback((note: Note, projects: Project[] = projectsHook.projects): Note => {
+    const content = FrontMatterService.applyNoteMetadata(note, projects);
+    return content === note.content ? note : { ...note, content, updatedAt: Date.now() };
+  }, [projectsHook.projects]);
+
   const togglePinNote = useCallback((id: string) => {
       setNotes(prevNotes => {
           const noteToPin = prevNotes.find(note => note.id === id);
@@ -540,11 +722,11 @@ const AppContent: React.FC = () => {
               addToast(noteToPin.isPinned ? `Unpinned "${noteToPin.title}"` : `Pinned "${noteToPin.title}"`, 'info');
           }
           const updatedNotes = prevNotes.map(note =>
-              note.id === id ? { ...note, isPinned: !note.isPinned } : note
+              note.id === id ? withNoteMetadata({ ...note, isPinned: !note.isPinned }) : note
           );
           return updateNotesState(updatedNotes, prevNotes);
       });
-  }, [setNotes, addToast]);
+  }, [setNotes, addToast, withNoteMetadata]);
 
   const handleImportSharedNote = useCallback(() => {
     if (!sharedNote) return;
@@ -570,6 +752,59 @@ const AppContent: React.FC = () => {
     addToast(`Imported note: "${newNote.title}"`, 'success');
   }, [sharedNote, setNotes, selectNote, addToast]);
 
+  const handleImportMarkdownFiles = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      const now = Date.now();
+      const importedNotes: Note[] = await Promise.all(files.map(async file => {
+        const { projectId, ...note } = FrontMatterService.fromMarkdown(file.name, await file.text(), projectsHook.projects);
+        return {
+          id: crypto.randomUUID(),
+          ...note,
+          createdAt: now,
+          updatedAt: now,
+          // Files whose front matter names no project go where a new note would
+          projectId: projectId !== undefined ? projectId : projectsHook.activeProjectId ?? null,
+        };
+      }));
+
+      const updatedNotes = updateNotesState(importedNotes, notes);
+      setNotes(updatedNotes);
+      new Set(importedNotes.map(note => note.projectId)).forEach(id => {
+        if (id) projectsHook.recalculateProjectMetadata(id, updatedNotes);
+      });
+      selectNote(importedNotes[0].id);
+      addToast(
+        importedNotes.length === 1
+          ? `Imported note: "${importedNotes[0].title}"`
+          : `Imported ${importedNotes.length} notes`,
+        'success'
+      );
+    } catch (error) {
+      console.error('Error importing markdown files:', error);
+      addToast('Failed to import markdown files', 'error');
+    }
+  }, [notes, setNotes, updateNotesState, projectsHook, selectNote, addToast]);
+
+  const toggleTaskInNote = useCallback((noteId: string, line: number) => {
+    setNotes(prevNotes => {
+      const note = prevNotes.find(other => other.id === noteId);
+      const content = note ? TaskService.toggleTask(note.content, line) : null;
+      if (!note || content === null) return prevNotes;
+      return updateNotesState([{ ...note, content, updatedAt: Date.now() }], prevNotes);
+    });
+  }, [setNotes, updateNotesState]);
+
+  const openTask = useCallback((noteId: string, line: number) => {
+    // The editor shows the line once the note has opened
+    document.dispatchEvent(new CustomEvent('revealNoteLine', { detail: { noteId, line } }));
+    selectNote(noteId);
+    setIsTasksOpen(false);
+  }, [selectNote]);
+
   const handleCancelImport = useCallback(() => {
     setIsImportModalOpen(false);
     setSharedNote(null);
@@ -634,11 +869,19 @@ const AppContent: React.FC = () => {
       projectsHook.setActiveProjectId(newProject.id);
     } else if (selectedProject) {
       projectsHook.updateProject(selectedProject.id, projectData);
+      if (projectData.title !== selectedProject.title) {
+        const projects = projectsHook.projects.map(project =>
+          project.id === selectedProject.id ? { ...project, title: projectData.title } : project
+        );
+        setNotes(prevNotes => prevNotes.map(note =>
+          note.projectId === selectedProject.id ? withNoteMetadata(note, projects) : note
+        ));
+      }
       addToast(`Updated project "${projectData.title}"`, 'success');
     }
     setIsProjectModalOpen(false);
     setSelectedProject(null);
-  }, [projectModalMode, selectedProject, projectsHook, addToast]);
+  }, [projectModalMode, selectedProject, projectsHook, addToast, setNotes, withNoteMetadata]);
 
   const handleDeleteProject = useCallback((project: Project) => {
     setProjectToDelete(project);
@@ -648,20 +891,60 @@ const AppContent: React.FC = () => {
   const handleConfirmDeleteProject = useCallback((strategy: 'unorganize' | 'delete' | 'move', targetProjectId?: string) => {
     if (!projectToDelete) return;
 
+    const movedIds = new Set(notes.filter(note => note.projectId === projectToDelete.id).map(note => note.id));
     const updatedNotes = ProjectService.deleteProject(
       projectToDelete.id,
       notes,
       strategy,
       targetProjectId
-    );
+    ).map(note => movedIds.has(note.id) ? withNoteMetadata(note) : note);
     
+    // Notes removed along with the project go to the trash with it
+    const remainingIds = new Set(updatedNotes.map(note => note.id));
+    const deletedNotes = notes.filter(note => !remainingIds.has(note.id));
+
     setNotes(updatedNotes);
     projectsHook.deleteProject(projectToDelete.id, strategy, targetProjectId);
+    trash.moveProjectToTrash(projectToDelete, deletedNotes);
     
-    addToast(`Deleted project "${projectToDelete.title}"`, 'info');
+    addToast(`Moved project "${projectToDelete.title}" to trash`, 'info');
     setIsDeleteProjectModalOpen(false);
     setProjectToDelete(null);
-  }, [projectToDelete, notes, setNotes, projectsHook, addToast]);
+  }, [projectToDelete, notes, setNotes, projectsHook, addToast, trash, withNoteMetadata]);
+
+  const handleRestoreFromTrash = useCallback((entry: TrashEntry) => {
+    const result = TrashService.restoreEntry(entry, notes, projectsHook.projects);
+    setNotes(result.notes);
+    if (result.project) {
+      projectsHook.restoreProject(result.project);
+    }
+    trash.removeEntry(entry.id);
+
+    if (entry.kind === 'note' && result.restoredNotes.length > 0) {
+      selectNote(result.restoredNotes[0].id);
+    }
+    addToast(`Restored "${TrashService.getTitle(entry)}"`, 'success');
+    if (result.unassignedCount > 0) {
+      addToast(
+        `${result.unassignedCount} restored ${result.unassignedCount === 1 ? 'note was' : 'notes were'} moved to "No project" because the original project no longer exists`,
+        'info'
+      );
+    }
+  }, [notes, setNotes, projectsHook, trash, selectNote, addToast]);
+
+  const handleConfirmDeleteFromTrash = useCallback(() => {
+    if (trashEntryToDelete) {
+      trash.deletePermanently(trashEntryToDelete.id);
+      addToast(`Permanently deleted "${TrashService.getTitle(trashEntryToDelete)}"`, 'info');
+    }
+    setTrashEntryToDelete(null);
+  }, [trashEntryToDelete, trash, addToast]);
+
+  const handleConfirmEmptyTrash = useCallback(() => {
+    trash.emptyTrash();
+    setIsEmptyTrashModalOpen(false);
+    addToast('Trash emptied', 'info');
+  }, [trash, addToast]);
 
   const handleDuplicateProject = useCallback((project: Project) => {
     const result = projectsHook.duplicateProject(project.id, true);
@@ -673,15 +956,105 @@ const AppContent: React.FC = () => {
   }, [projectsHook, setNotes, updateNotesState, addToast]);
 
   const handleDropNoteOnProject = useCallback((projectId: string | null, noteIds: string[]) => {
-    const updatedNotes = ProjectService.moveNotesToProject(notes, noteIds, projectId);
+    const updatedNotes = ProjectService.moveNotesToProject(notes, noteIds, projectId)
+      .map(note => noteIds.includes(note.id) ? withNoteMetadata(note) : note);
     setNotes(updatedNotes);
+
+    // Refresh counts for the target project and every project the notes left
+    const affectedProjectIds = new Set(
+      notes.filter(note => noteIds.includes(note.id)).map(note => note.projectId)
+    );
+    affectedProjectIds.add(projectId);
+    affectedProjectIds.forEach(id => {
+      if (id) projectsHook.recalculateProjectMetadata(id, updatedNotes);
+    });
     
     // Toast removed - no notification on drag and drop
     // const projectName = projectId 
     //   ? projectsHook.getProject(projectId)?.title || 'project'
     //   : 'Unorganized';
     // addToast(`Moved ${noteIds.length} ${noteIds.length === 1 ? 'note' : 'notes'} to ${projectName}`, 'success');
-  }, [notes, setNotes, projectsHook]);
+  }, [notes, setNotes, projectsHook, withNoteMetadata]);
+
+  const downloadWorkspaceBackup = useCallback(async () => {
+    setIsBackupWarningOpen(false);
+    try {
+      const backup = await BackupService.downloadBackup(notes, projectsHook.projects, theme);
+      const { notes: noteCount, projects: projectCount, versions, attachments = 0 } = backup.manifest.counts;
+      addToast(
+        `Backed up ${noteCount} notes, ${projectCount} projects, ${versions} versions and ${attachments} attachments`,
+        'success'
+      );
+    } catch (error) {
+      console.error('Error creating workspace backup:', error);
+      addToast('Failed to create workspace backup', 'error');
+    }
+  }, [notes, projectsHook.projects, theme, addToast]);
+
+  // Backups are written unencrypted, so an encrypted workspace confirms first
+  const handleBackupWorkspace = useCallback(() => {
+    if (workspaceLock.isEncrypted) {
+      setIsBackupWarningOpen(true);
+    } else {
+      downloadWorkspaceBackup();
+    }
+  }, [workspaceLock.isEncrypted, downloadWorkspaceBackup]);
+
+  const handleStorageCleanupComplete = useCallback((result: CleanupResult) => {
+    const freed = result.bytesFreed >= 1024 * 1024
+      ? `${(result.bytesFreed / (1024 * 1024)).toFixed(1)} MB`
+      : `${Math.ceil(result.bytesFreed / 1024)} KB`;
+    addToast(
+      result.versionsRemoved > 0
+        ? `Removed ${result.versionsRemoved} ${result.versionsRemoved === 1 ? 'version' : 'versions'} and freed ${freed}`
+        : `Freed ${freed}`,
+      'success'
+    );
+  }, [addToast]);
+
+  const handleWorkspaceReplaceComplete = useCallback((result: WorkspaceReplaceResult) => {
+    if (result.changedNotes.length > 0) {
+      setNotes(prevNotes => updateNotesState(result.changedNotes, prevNotes));
+      const notesLabel = `${result.changedNotes.length} ${result.changedNotes.length === 1 ? 'note' : 'notes'}`;
+      const matchesLabel = `${result.replacedCount} ${result.replacedCount === 1 ? 'match' : 'matches'}`;
+      addToast(`Replaced ${matchesLabel} in ${notesLabel}. Previous content is in version history`, 'success');
+    }
+    const skipped = result.staleNoteIds.length + result.unversionedNoteIds.length;
+    if (skipped > 0) {
+      addToast(
+        result.unversionedNoteIds.length > 0
+          ? `Skipped ${skipped} ${skipped === 1 ? 'note' : 'notes'} that could not be saved to version history`
+          : `Skipped ${skipped} ${skipped === 1 ? 'note' : 'notes'} edited since the search`,
+        result.unversionedNoteIds.length > 0 ? 'error' : 'info'
+      );
+    }
+    setIsWorkspaceSearchOpen(false);
+  }, [setNotes, updateNotesState, addToast]);
+
+  const handleRestoreWorkspace = useCallback(async (plan: RestorePlan) => {
+    const historiesRestored = await BackupService.applyRestore(plan);
+    const restoredNotes = [...plan.result.notes].sort((a, b) => b.updatedAt - a.updatedAt);
+    setNotes(restoredNotes);
+    projectsHook.setProjects(plan.result.projects);
+
+    if (activeNoteId && !restoredNotes.some(note => note.id === activeNoteId)) {
+      setActiveNoteId(restoredNotes[0]?.id ?? null);
+    }
+    if (projectsHook.activeProjectId && !plan.result.projects.some(p => p.id === projectsHook.activeProjectId)) {
+      projectsHook.setActiveProjectId(null);
+    }
+    if (plan.includePreferences && plan.preferences.theme && plan.preferences.theme !== theme) {
+      toggleTheme();
+    }
+
+    setIsRestoreWorkspaceOpen(false);
+    addToast(
+      historiesRestored
+        ? `Workspace ${plan.mode === 'replace' ? 'replaced' : 'merged'} from backup`
+        : 'Workspace restored, but some version history could not be saved',
+      historiesRestored ? 'success' : 'error'
+    );
+  }, [activeNoteId, setActiveNoteId, setNotes, projectsHook, theme, toggleTheme, addToast]);
 
   const handleSummarize = useCallback(async () => {
     if (!activeNote) return;
@@ -853,8 +1226,19 @@ const AppContent: React.FC = () => {
           onTogglePinProject={(project) => projectsHook.togglePinProject(project.id)}
           onToggleArchiveProject={(project) => projectsHook.toggleArchiveProject(project.id)}
           onDrop={handleDropNoteOnProject}
+          pendingSyncCount={projectOutbox.pendingCount}
+          failedSyncCount={projectOutbox.failedCount}
+          onRetryFailedSync={projectOutbox.retryFailed}
+          onDiscardFailedSync={projectOutbox.discardFailed}
+          trashEntries={trash.entries}
+          trashRetentionDays={trash.retentionDays}
+          onChangeTrashRetention={trash.setRetentionDays}
+          onRestoreFromTrash={handleRestoreFromTrash}
+          onDeleteFromTrash={setTrashEntryToDelete}
+          onEmptyTrash={() => setIsEmptyTrashModalOpen(true)}
           onToggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)}
           onAddNoteToProject={(projectId) => addNote(undefined, projectId)}
+          onAddNoteFromTemplate={openTemplateGallery}
         />
         </aside>
       )}
@@ -1024,6 +1408,16 @@ const AppContent: React.FC = () => {
     </div>
   )}
   
+  <SyncStatusButton
+    status={noteSync.status}
+    lastSyncedAt={noteSync.lastSyncedAt}
+    conflictCount={noteSync.conflicts.length}
+    strategy={noteSync.strategy}
+    onStrategyChange={noteSync.setStrategy}
+    onSyncNow={noteSync.syncNow}
+    onShowConflicts={() => setIsConflictModalOpen(true)}
+  />
+
   <button
     onClick={() => setIsKeyboardShortcutsOpen(true)}
     className="hidden md:flex p-2.5 rounded-lg hover:bg-gray-100/80 dark:hover:bg-gray-800/80 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 transition-all duration-200 flex-shrink-0"
@@ -1051,6 +1445,9 @@ const AppContent: React.FC = () => {
             onAddNote={addNote}
             viewMode={viewMode}
             onRestoreVersion={handleRestoreVersion}
+            notes={notes}
+            onSelectNote={selectNote}
+            projectTitle={projectsHook.projects.find(project => project.id === activeNote?.projectId)?.title}
           />
         </main>
       </div>
@@ -1081,6 +1478,36 @@ const AppContent: React.FC = () => {
         icon="danger"
       />
 
+      <ConfirmationModal
+        isOpen={trashEntryToDelete !== null}
+        onClose={() => setTrashEntryToDelete(null)}
+        onConfirm={handleConfirmDeleteFromTrash}
+        title="Delete Permanently"
+        message={
+          <>
+            Permanently delete "<strong className="text-gray-900 dark:text-gray-100">{trashEntryToDelete && TrashService.getTitle(trashEntryToDelete)}</strong>"
+            {trashEntryToDelete?.kind === 'project' && trashEntryToDelete.notes.length > 0 && ` and its ${trashEntryToDelete.notes.length} notes`}
+            {' '}along with its version history? This cannot be undone.
+          </>
+        }
+        confirmText="Delete Forever"
+        cancelText="Cancel"
+        confirmVariant="danger"
+        icon="danger"
+      />
+
+      <ConfirmationModal
+        isOpen={isEmptyTrashModalOpen}
+        onClose={() => setIsEmptyTrashModalOpen(false)}
+        onConfirm={handleConfirmEmptyTrash}
+        title="Empty Trash"
+        message={`Permanently delete all ${trash.entries.length} items in the trash, including their version histories? This cannot be undone.`}
+        confirmText="Empty Trash"
+        cancelText="Cancel"
+        confirmVariant="danger"
+        icon="danger"
+      />
+
       <SummaryModal
         isOpen={isSummaryModalOpen}
         onClose={() => setIsSummaryModalOpen(false)}
@@ -1094,13 +1521,103 @@ const AppContent: React.FC = () => {
         isOpen={isCommandPaletteOpen}
         onClose={() => setIsCommandPaletteOpen(false)}
         addNote={addNote}
+        onOpenTemplates={() => openTemplateGallery()}
         toggleTheme={toggleTheme}
         handleSummarize={handleSummarize}
+        onBackupWorkspace={handleBackupWorkspace}
+        onRestoreWorkspace={() => setIsRestoreWorkspaceOpen(true)}
+        onImportMarkdown={() => markdownInputRef.current?.click()}
+        onOpenTasks={() => setIsTasksOpen(true)}
+        onOpenStorageUsage={() => setIsStorageUsageOpen(true)}
+        onOpenWorkspaceSearch={() => setIsWorkspaceSearchOpen(true)}
+        onOpenEncryption={() => setIsEncryptionSettingsOpen(true)}
+        onLockWorkspace={workspaceLock.state === 'unlocked' ? () => encryptionService.lock() : undefined}
         selectNote={selectNote}
         notes={notes}
         theme={theme}
       />
 
+      <NoteConflictModal
+        isOpen={isConflictModalOpen}
+        onClose={() => setIsConflictModalOpen(false)}
+        conflicts={noteSync.conflicts}
+        onResolve={noteSync.resolveConflict}
+      />
+
+      <RestoreWorkspaceModal
+        isOpen={isRestoreWorkspaceOpen}
+        onClose={() => setIsRestoreWorkspaceOpen(false)}
+        notes={notes}
+        projects={projectsHook.projects}
+        onRestore={handleRestoreWorkspace}
+      />
+
+      <StorageUsageModal
+        isOpen={isStorageUsageOpen}
+        onClose={() => setIsStorageUsageOpen(false)}
+        notes={notes}
+        projects={projectsHook.projects}
+        onCleanupComplete={handleStorageCleanupComplete}
+      />
+
+      <WorkspaceSearchModal
+        isOpen={isWorkspaceSearchOpen}
+        onClose={() => setIsWorkspaceSearchOpen(false)}
+        notes={notes}
+        projects={projectsHook.projects}
+        onReplaceComplete={handleWorkspaceReplaceComplete}
+        onOpenNote={(noteId) => {
+          selectNote(noteId);
+          setIsWorkspaceSearchOpen(false);
+        }}
+      />
+
+      <TasksModal
+        isOpen={isTasksOpen}
+        onClose={() => setIsTasksOpen(false)}
+        notes={notes}
+        projects={projectsHook.projects}
+        onToggleTask={toggleTaskInNote}
+        onOpenTask={openTask}
+      />
+
+      <input
+        ref={markdownInputRef}
+        type="file"
+        accept=".md,.markdown,.txt,text/markdown,text/plain"
+        multiple
+        className="hidden"
+        onChange={handleImportMarkdownFiles}
+      />
+
+      <TemplateGalleryModal
+        isOpen={templateGallery !== null}
+        onClose={() => setTemplateGallery(null)}
+        initialTemplateId={templateGallery?.templateId}
+        projectTitle={projectsHook.projects.find(project => project.id === templateGallery?.projectId)?.title}
+        activeNote={activeNote}
+        onCreateNote={addNoteFromTemplate}
+        onToast={addToast}
+      />
+
+      <EncryptionSettingsModal
+        isOpen={isEncryptionSettingsOpen}
+        onClose={() => setIsEncryptionSettingsOpen(false)}
+        onToast={addToast}
+      />
+
+      <ConfirmationModal
+        isOpen={isBackupWarningOpen}
+        onClose={() => setIsBackupWarningOpen(false)}
+        onConfirm={downloadWorkspaceBackup}
+        title="Download Unencrypted Backup"
+        message={<PlaintextWarning subject="the backup file" />}
+        confirmText="Download Anyway"
+        cancelText="Cancel"
+        confirmVariant="danger"
+        icon="warning"
+      />
+
       <KeyboardShortcutsModal
         isOpen={isKeyboardShortcutsOpen}
         onClose={() => setIsKeyboardShortcutsOpen(false)}
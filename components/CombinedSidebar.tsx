@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Note, Project, SortOption } from '../types';
+import { Note, Project, SortOption, TrashEntry } from '../types';
 import {
   FaPlus,
   FaThumbtack,
@@ -26,11 +26,16 @@ import {
   FaGripVertical,
   FaPencil,
   FaBoxArchive,
-  FaCopy
+  FaCopy,
+  FaArrowsRotate,
+  FaTriangleExclamation,
+  FaRotateLeft,
+  FaXmark
 } from 'react-icons/fa6';
 import { MdCloudDownload, MdWork, MdHome, MdSettings } from 'react-icons/md';
 import { PiSidebarSimpleBold } from 'react-icons/pi';
 import Dropdown from './Dropdown';
+import { TrashService, TRASH_RETENTION_OPTIONS, DEFAULT_TRASH_RETENTION_DAYS } from '../services/trashService';
 
 const hexToRgba = (hex: string, alpha: number) => {
   if (!hex) return `rgba(99, 102, 241, ${alpha})`;
@@ -74,6 +79,18 @@ interface CombinedSidebarProps {
   onDrop: (projectId: string | null, noteIds: string[]) => void;
   onToggleSidebar: () => void;
   onAddNoteToProject: (projectId: string | null) => void;
+  // Open the template gallery; without a project the note goes into the active one
+  onAddNoteFromTemplate: (projectId?: string | null) => void;
+  pendingSyncCount?: number;
+  failedSyncCount?: number;
+  onRetryFailedSync?: () => void;
+  onDiscardFailedSync?: () => void;
+  trashEntries?: TrashEntry[];
+  trashRetentionDays?: number;
+  onChangeTrashRetention?: (days: number) => void;
+  onRestoreFromTrash?: (entry: TrashEntry) => void;
+  onDeleteFromTrash?: (entry: TrashEntry) => void;
+  onEmptyTrash?: () => void;
 }
 
 const CombinedSidebar: React.FC<CombinedSidebarProps> = ({
@@ -99,6 +116,17 @@ const CombinedSidebar: React.FC<CombinedSidebarProps> = ({
   onDrop,
   onToggleSidebar,
   onAddNoteToProject,
+  onAddNoteFromTemplate,
+  pendingSyncCount = 0,
+  failedSyncCount = 0,
+  onRetryFailedSync,
+  onDiscardFailedSync,
+  trashEntries = [],
+  trashRetentionDays = DEFAULT_TRASH_RETENTION_DAYS,
+  onChangeTrashRetention,
+  onRestoreFromTrash,
+  onDeleteFromTrash,
+  onEmptyTrash,
 }) => {
   const [expandedProjects, setExpandedProjects] = useState<Set<string>>(() => {
     const stored = localStorage.getItem('stellar-scribe-expanded-projects');
@@ -632,6 +660,13 @@ const CombinedSidebar: React.FC<CombinedSidebarProps> = ({
             <FaPlus className="w-4 h-4" />
             <span>Note</span>
           </button>
+          <button
+            onClick={() => onAddNoteFromTemplate()}
+            title="New note from template"
+            className="flex items-center justify-center px-3 py-2.5 bg-blue-600 dark:bg-blue-500 text-white rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 transition-all duration-200 shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/30 border border-blue-400/20 backdrop-blur-sm"
+          >
+            <FaFileLines className="w-4 h-4" />
+          </button>
           <button
             onClick={onCreateProject}
             className="flex-1 flex items-center justify-center space-x-2 px-4 py-2.5 bg-gray-600 dark:bg-gray-700 text-white rounded-xl hover:bg-gray-700 dark:hover:bg-gray-600 transition-all duration-200 text-sm font-medium shadow-lg shadow-gray-500/15 hover:shadow-xl hover:shadow-gray-500/25 border border-gray-400/20 backdrop-blur-sm"
@@ -708,6 +743,82 @@ const CombinedSidebar: React.FC<CombinedSidebarProps> = ({
           </div>
         )}
 
+        {/* Trash Section */}
+        {trashEntries.length > 0 && (
+          <div className="mb-6">
+            <SectionHeader
+              title="Trash"
+              sectionId="trash"
+              count={trashEntries.length}
+              icon={<FaRegTrashCan className="w-3 h-3" />}
+            />
+            {expandedSections.has('trash') && (
+              <div className="mt-2 space-y-1">
+                {trashEntries.map(entry => {
+                  const daysLeft = Math.max(0, Math.ceil((TrashService.getExpiresAt(entry, trashRetentionDays) - Date.now()) / (24 * 60 * 60 * 1000)));
+                  return (
+                    <div
+                      key={entry.id}
+                      className="group flex items-center px-3 py-2 rounded-lg text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100/50 dark:hover:bg-gray-800/30"
+                    >
+                      {entry.kind === 'project' ? (
+                        <FaFolder className="w-3 h-3 mr-2 flex-shrink-0 opacity-60" />
+                      ) : (
+                        <FaFileLines className="w-3 h-3 mr-2 flex-shrink-0 opacity-60" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate">{TrashService.getTitle(entry)}</div>
+                        <div className="text-xs text-gray-400 dark:text-gray-500">
+                          {entry.kind === 'project' && entry.notes.length > 0 && `${entry.notes.length} ${entry.notes.length === 1 ? 'note' : 'notes'} · `}
+                          {daysLeft === 1 ? '1 day left' : `${daysLeft} days left`}
+                        </div>
+                      </div>
+                      {onRestoreFromTrash && (
+                        <button
+                          onClick={() => onRestoreFromTrash(entry)}
+                          className="p-1 ml-1 rounded opacity-0 group-hover:opacity-100 hover:text-accent dark:hover:text-dark-accent transition-opacity"
+                          title="Restore"
+                        >
+                          <FaRotateLeft className="w-3 h-3" />
+                        </button>
+                      )}
+                      {onDeleteFromTrash && (
+                        <button
+                          onClick={() => onDeleteFromTrash(entry)}
+                          className="p-1 ml-1 rounded opacity-0 group-hover:opacity-100 hover:text-red-600 dark:hover:text-red-400 transition-opacity"
+                          title="Delete forever"
+                        >
+                          <FaXmark className="w-3 h-3" />
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+                <div className="flex items-center justify-between px-3 pt-2 text-xs text-gray-500 dark:text-gray-400">
+                  <label className="flex items-center">
+                    Keep for
+                    <select
+                      value={trashRetentionDays}
+                      onChange={(e) => onChangeTrashRetention?.(Number(e.target.value))}
+                      disabled={!onChangeTrashRetention}
+                      className="ml-1.5 bg-transparent border border-gray-200 dark:border-gray-700 rounded px-1 py-0.5"
+                    >
+                      {TRASH_RETENTION_OPTIONS.map(days => (
+                        <option key={days} value={days}>{days} days</option>
+                      ))}
+                    </select>
+                  </label>
+                  {onEmptyTrash && (
+                    <button onClick={onEmptyTrash} className="font-medium text-red-600 dark:text-red-400 hover:underline">
+                      Empty trash
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Empty State */}
         {activeProjects.length === 0 && notes.length === 0 && (
           <div className="text-center py-12 px-4">
@@ -722,6 +833,34 @@ const CombinedSidebar: React.FC<CombinedSidebarProps> = ({
         )}
       </div>
 
+      {/* Project sync outbox status */}
+      {(pendingSyncCount > 0 || failedSyncCount > 0) && (
+        <div className="flex-shrink-0 px-4 py-2.5 border-t border-gray-200 dark:border-dark-border-color text-xs space-y-1.5">
+          {pendingSyncCount > 0 && (
+            <div className="flex items-center text-gray-500 dark:text-gray-400">
+              <FaArrowsRotate className="w-3 h-3 mr-2 flex-shrink-0" />
+              {pendingSyncCount} project {pendingSyncCount === 1 ? 'change' : 'changes'} waiting to sync
+            </div>
+          )}
+          {failedSyncCount > 0 && (
+            <div className="flex items-center text-red-600 dark:text-red-400">
+              <FaTriangleExclamation className="w-3 h-3 mr-2 flex-shrink-0" />
+              <span className="flex-1">{failedSyncCount} failed to sync</span>
+              {onRetryFailedSync && (
+                <button onClick={onRetryFailedSync} className="ml-2 font-medium hover:underline">
+                  Retry
+                </button>
+              )}
+              {onDiscardFailedSync && (
+                <button onClick={onDiscardFailedSync} className="ml-2 text-gray-500 dark:text-gray-400 hover:underline">
+                  Discard
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Context Menu */}
       {contextMenu && (
         <>
@@ -749,6 +888,16 @@ const CombinedSidebar: React.FC<CombinedSidebarProps> = ({
                         <FaPlus className="w-4 h-4 mr-3" />
                         New note
                       </button>
+                      <button
+                        onClick={() => {
+                          onAddNoteFromTemplate(project.id);
+                          setContextMenu(null);
+                        }}
+                        className="w-full flex items-center px-4 py-2 text-sm text-gray-700 dark:text-dark-text-secondary hover:bg-gray-100 dark:hover:bg-dark-bg-secondary"
+                      >
+                        <FaFileLines className="w-4 h-4 mr-3" />
+                        New note from template
+                      </button>
                       <button
                         onClick={() => {
                           onEditProject(project);
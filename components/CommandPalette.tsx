@@ -1,16 +1,26 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo, useDeferredValue } from 'react';
 import { Command } from 'cmdk';
 import { Note } from '../types';
-import { FaPlus, FaSun, FaMoon, FaThumbtack, FaClock } from 'react-icons/fa';
-import { FaFileLines } from 'react-icons/fa6';
+import { FaPlus, FaSun, FaMoon, FaThumbtack, FaClock, FaDownload, FaUpload, FaFileImport } from 'react-icons/fa';
+import { FaFileLines, FaHardDrive, FaListCheck, FaLock, FaMagnifyingGlass } from 'react-icons/fa6';
 import { FaSearch, FaStickyNote } from 'react-icons/fa';
 
 interface CommandPaletteProps {
   isOpen: boolean;
   onClose: () => void;
   addNote: () => void;
+  onOpenTemplates: () => void;
   toggleTheme: () => void;
   handleSummarize: () => void;
+  onBackupWorkspace: () => void;
+  onRestoreWorkspace: () => void;
+  onImportMarkdown: () => void;
+  onOpenTasks: () => void;
+  onOpenStorageUsage: () => void;
+  onOpenWorkspaceSearch: () => void;
+  onOpenEncryption: () => void;
+  // Only passed while the workspace is encrypted and unlocked
+  onLockWorkspace?: () => void;
   selectNote: (id: string) => void;
   notes: Note[];
   theme: 'light' | 'dark';
@@ -20,8 +30,17 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
   isOpen,
   onClose,
   addNote,
+  onOpenTemplates,
   toggleTheme,
   handleSummarize,
+  onBackupWorkspace,
+  onRestoreWorkspace,
+  onImportMarkdown,
+  onOpenTasks,
+  onOpenStorageUsage,
+  onOpenWorkspaceSearch,
+  onOpenEncryption,
+  onLockWorkspace,
   selectNote,
   notes,
   theme,
@@ -63,6 +82,12 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
     }
   }, [addNote, onClose, isLoading]);
 
+  const handleOpenTemplates = useCallback(() => {
+    if (isLoading) return;
+    onClose();
+    onOpenTemplates();
+  }, [onOpenTemplates, onClose, isLoading]);
+
   const handleToggleTheme = useCallback(async () => {
     if (isLoading) return;
     setIsLoading(true);
@@ -85,6 +110,54 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
     }
   }, [handleSummarize, onClose, isLoading]);
 
+  const handleBackupWorkspace = useCallback(() => {
+    if (isLoading) return;
+    onClose();
+    onBackupWorkspace();
+  }, [onBackupWorkspace, onClose, isLoading]);
+
+  const handleRestoreWorkspace = useCallback(() => {
+    if (isLoading) return;
+    onClose();
+    onRestoreWorkspace();
+  }, [onRestoreWorkspace, onClose, isLoading]);
+
+  const handleOpenTasks = useCallback(() => {
+    if (isLoading) return;
+    onClose();
+    onOpenTasks();
+  }, [onOpenTasks, onClose, isLoading]);
+
+  const handleImportMarkdown = useCallback(() => {
+    if (isLoading) return;
+    onClose();
+    onImportMarkdown();
+  }, [onImportMarkdown, onClose, isLoading]);
+
+  const handleOpenStorageUsage = useCallback(() => {
+    if (isLoading) return;
+    onClose();
+    onOpenStorageUsage();
+  }, [onOpenStorageUsage, onClose, isLoading]);
+
+  const handleOpenWorkspaceSearch = useCallback(() => {
+    if (isLoading) return;
+    onClose();
+    onOpenWorkspaceSearch();
+  }, [onOpenWorkspaceSearch, onClose, isLoading]);
+
+  const handleOpenEncryption = useCallback(() => {
+    if (isLoading) return;
+    onClose();
+    onOpenEncryption();
+  }, [onOpenEncryption, onClose, isLoading]);
+
+  const handleLockWorkspace = useCallback(() => {
+    if (isLoading || !onLockWorkspace) return;
+    onClose();
+    onLockWorkspace();
+  }, [onLockWorkspace, onClose, isLoading]);
+
   // Enhanced keyboard shortcuts with proper dependencies
   useEffect(() => {
     const handleKeydown = (e: KeyboardEvent) => {
@@ -221,7 +294,7 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
           </Command.Empty>
 
           {/* Quick Actions */}
-          {(!search || ['new', 'theme', 'summary'].some(term => search.toLowerCase().includes(term))) && (
+          {(!search || ['new', 'template', 'theme', 'summary', 'backup', 'restore', 'workspace', 'import', 'markdown', 'task', 'todo'].some(term => search.toLowerCase().includes(term))) && (
             <>
               {(!search || search.toLowerCase().includes('new')) && (
                 <Command.Item
@@ -240,6 +313,23 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
                 </Command.Item>
               )}
 
+              {(!search || ['new', 'template'].some(term => search.toLowerCase().includes(term))) && (
+                <Command.Item
+                  onSelect={handleOpenTemplates}
+                  className="flex items-center px-4 py-4 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer mb-2 transition-colors"
+                  disabled={isLoading}
+                >
+                  <div className="w-10 h-10 rounded-lg bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center mr-4">
+                    <FaFileLines className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                  </div>
+                  <div className="flex-1">
+                    <div className="text-base font-medium text-gray-900 dark:text-gray-100">New Note from Template</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">Pick a template or manage your templates</div>
+                  </div>
+                  
+                </Command.Item>
+              )}
+
               {(!search || search.toLowerCase().includes('theme')) && (
                 <Command.Item
                   onSelect={handleToggleTheme}
@@ -279,6 +369,134 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
                 </Command.Item>
               )}
 
+              {(!search || ['backup', 'workspace'].some(term => search.toLowerCase().includes(term))) && (
+                <Command.Item
+                  onSelect={handleBackupWorkspace}
+                  className="flex items-center px-4 py-4 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer mb-2 transition-colors"
+                  disabled={isLoading}
+                >
+                  <div className="w-10 h-10 rounded-lg bg-purple-100 dark:bg-purple-900/30 flex items-center justify-center mr-4">
+                    <FaDownload className="w-5 h-5 text-purple-600 dark:text-purple-400" />
+                  </div>
+                  <div className="flex-1">
+                    <div className="text-base font-medium text-gray-900 dark:text-gray-100">Backup Workspace</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">Download notes, projects, history and settings</div>
+                  </div>
+                </Command.Item>
+              )}
+
+              {(!search || ['restore', 'workspace'].some(term => search.toLowerCase().includes(term))) && (
+                <Command.Item
+                  onSelect={handleRestoreWorkspace}
+                  className="flex items-center px-4 py-4 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer mb-2 transition-colors"
+                  disabled={isLoading}
+                >
+                  <div className="w-10 h-10 rounded-lg bg-purple-100 dark:bg-purple-900/30 flex items-center justify-center mr-4">
+                    <FaUpload className="w-5 h-5 text-purple-600 dark:text-purple-400" />
+                  </div>
+                  <div className="flex-1">
+                    <div className="text-base font-medium text-gray-900 dark:text-gray-100">Restore Workspace</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">Replace or merge from a backup file</div>
+                  </div>
+                </Command.Item>
+              )}
+
+              {(!search || ['import', 'markdown'].some(term => search.toLowerCase().includes(term))) && (
+                <Command.Item
+                  onSelect={handleImportMarkdown}
+                  className="flex items-center px-4 py-4 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer mb-2 transition-colors"
+                  disabled={isLoading}
+                >
+                  <div className="w-10 h-10 rounded-lg bg-purple-100 dark:bg-purple-900/30 flex items-center justify-center mr-4">
+                    <FaFileImport className="w-5 h-5 text-purple-600 dark:text-purple-400" />
+                  </div>
+                  <div className="flex-1">
+                    <div className="text-base font-medium text-gray-900 dark:text-gray-100">Import Markdown Files</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">Add .md files as notes, with their front matter</div>
+                  </div>
+                </Command.Item>
+              )}
+
+              {(!search || ['search', 'replace', 'rename', 'all notes'].some(term => search.toLowerCase().includes(term))) && (
+                <Command.Item
+                  onSelect={handleOpenWorkspaceSearch}
+                  className="flex items-center px-4 py-4 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer mb-2 transition-colors"
+                  disabled={isLoading}
+                >
+                  <div className="w-10 h-10 rounded-lg bg-purple-100 dark:bg-purple-900/30 flex items-center justify-center mr-4">
+                    <FaMagnifyingGlass className="w-5 h-5 text-purple-600 dark:text-purple-400" />
+                  </div>
+                  <div className="flex-1">
+                    <div className="text-base font-medium text-gray-900 dark:text-gray-100">Search and Replace in All Notes</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">Find text across notes and replace selected matches</div>
+                  </div>
+                </Command.Item>
+              )}
+
+              {(!search || ['task', 'todo', 'due'].some(term => search.toLowerCase().includes(term))) && (
+                <Command.Item
+                  onSelect={handleOpenTasks}
+                  className="flex items-center px-4 py-4 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer mb-2 transition-colors"
+                  disabled={isLoading}
+                >
+                  <div className="w-10 h-10 rounded-lg bg-green-100 dark:bg-green-900/30 flex items-center justify-center mr-4">
+                    <FaListCheck className="w-5 h-5 text-green-600 dark:text-green-400" />
+                  </div>
+                  <div className="flex-1">
+                    <div className="text-base font-medium text-gray-900 dark:text-gray-100">Tasks</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">Open and done tasks from every note, by project</div>
+                  </div>
+                </Command.Item>
+              )}
+
+              {(!search || ['storage', 'cleanup', 'space', 'usage'].some(term => search.toLowerCase().includes(term))) && (
+                <Command.Item
+                  onSelect={handleOpenStorageUsage}
+                  className="flex items-center px-4 py-4 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer mb-2 transition-colors"
+                  disabled={isLoading}
+                >
+                  <div className="w-10 h-10 rounded-lg bg-purple-100 dark:bg-purple-900/30 flex items-center justify-center mr-4">
+                    <FaHardDrive className="w-5 h-5 text-purple-600 dark:text-purple-400" />
+                  </div>
+                  <div className="flex-1">
+                    <div className="text-base font-medium text-gray-900 dark:text-gray-100">Storage Usage</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">See what takes up space and clean up old versions</div>
+                  </div>
+                </Command.Item>
+              )}
+
+              {onLockWorkspace && (!search || ['lock', 'workspace'].some(term => search.toLowerCase().includes(term))) && (
+                <Command.Item
+                  onSelect={handleLockWorkspace}
+                  className="flex items-center px-4 py-4 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer mb-2 transition-colors"
+                  disabled={isLoading}
+                >
+                  <div className="w-10 h-10 rounded-lg bg-purple-100 dark:bg-purple-900/30 flex items-center justify-center mr-4">
+                    <FaLock className="w-5 h-5 text-purple-600 dark:text-purple-400" />
+                  </div>
+                  <div className="flex-1">
+                    <div className="text-base font-medium text-gray-900 dark:text-gray-100">Lock Workspace</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">Hide your notes until the passphrase is entered</div>
+                  </div>
+                </Command.Item>
+              )}
+
+              {(!search || ['encrypt', 'passphrase', 'lock', 'security'].some(term => search.toLowerCase().includes(term))) && (
+                <Command.Item
+                  onSelect={handleOpenEncryption}
+                  className="flex items-center px-4 py-4 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer mb-2 transition-colors"
+                  disabled={isLoading}
+                >
+                  <div className="w-10 h-10 rounded-lg bg-purple-100 dark:bg-purple-900/30 flex items-center justify-center mr-4">
+                    <FaLock className="w-5 h-5 text-purple-600 dark:text-purple-400" />
+                  </div>
+                  <div className="flex-1">
+                    <div className="text-base font-medium text-gray-900 dark:text-gray-100">Workspace Encryption</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">Encrypt notes with a passphrase</div>
+                  </div>
+                </Command.Item>
+              )}
+
               {(pinnedNotes.length > 0 || recentNotes.length > 0) && (
                 <div className="h-px bg-gray-100 dark:bg-gray-800 my-4" />
               )}
@@ -0,0 +1,69 @@
+import React, { useEffect, useRef } from 'react';
+
+export interface CompletionMenuItem {
+  key: string;
+  label: string;
+  detail?: string;
+  icon?: React.ReactNode;
+}
+
+interface CompletionMenuProps {
+  items: CompletionMenuItem[];
+  activeIndex: number;
+  // Offsets within the positioned parent; `bottom` opens the menu upwards
+  top?: number;
+  bottom?: number;
+  left: number;
+  onSelect: (index: number) => void;
+  onHover: (index: number) => void;
+}
+
+/**
+ * Autocomplete list shown under the caret in the editor
+ */
+const CompletionMenu: React.FC<CompletionMenuProps> = ({ items, activeIndex, top, bottom, left, onSelect, onHover }) => {
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    const active = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    active?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  return (
+    <ul
+      ref={listRef}
+      role="listbox"
+      className="absolute w-72 max-h-60 overflow-y-auto py-1 rounded-lg bg-surface dark:bg-dark-surface border border-border-color dark:border-dark-border-color shadow-lg text-sm"
+      style={{ top, bottom, left, zIndex: 3 }}
+    >
+      {items.map((item, index) => (
+        <li
+          key={item.key}
+          role="option"
+          aria-selected={index === activeIndex}
+          // Keep focus (and the caret) in the textarea
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(index);
+          }}
+          onMouseEnter={() => onHover(index)}
+          className={`flex items-center gap-2 px-3 py-1.5 cursor-pointer ${
+            index === activeIndex
+              ? 'bg-accent/10 dark:bg-dark-accent/20 text-text-primary dark:text-dark-text-primary'
+              : 'text-text-secondary dark:text-dark-text-secondary'
+          }`}
+        >
+          {item.icon && <span className="flex-shrink-0 text-text-muted dark:text-dark-text-muted">{item.icon}</span>}
+          <span className="truncate">{item.label}</span>
+          {item.detail && (
+            <span className="ml-auto pl-2 flex-shrink-0 max-w-[45%] truncate text-xs text-text-muted dark:text-dark-text-muted">
+              {item.detail}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default CompletionMenu;
@@ -19,7 +19,7 @@ const actionButtons = [
     { action: 'modify-expand', icon: FaPencil, title: 'Modify or expand text with AI' },
 ] as const;
 
-const languages = ['English', 'Spanish', 'French', 'German', 'Hindi', 'Japanese'] as const;
+export const TRANSLATION_LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Hindi', 'Japanese'] as const;
 const dictionaryLanguages = ['English', 'Hindi', 'Spanish', 'French', 'German'] as const;
 
 const ContextualMenu: React.FC<ContextualMenuProps> = ({ top, left, onAction, isLoading, selectedText }) => {
@@ -141,7 +141,7 @@ const ContextualMenu: React.FC<ContextualMenuProps> = ({ top, left, onAction, is
               }`}
             >
                 <ul className="py-1">
-                    {languages.map(lang => (
+                    {TRANSLATION_LANGUAGES.map(lang => (
                         <li key={lang}>
                             <button
                                 onClick={() => handleActionClick('translate', lang)}
@@ -147,7 +147,7 @@ const DeleteProjectModal: React.FC<DeleteProjectModalProps> = ({
                       Delete All Notes
                     </div>
                     <p className="text-sm text-red-600/80 dark:text-red-400/80 mt-1">
-                      <strong>Permanently delete</strong> all {noteCount} {noteCount === 1 ? 'note' : 'notes'} in this project. This cannot be undone!
+                      <strong>Move</strong> all {noteCount} {noteCount === 1 ? 'note' : 'notes'} in this project to the trash along with the project.
                     </p>
                   </div>
                 </label>
@@ -157,7 +157,7 @@ const DeleteProjectModal: React.FC<DeleteProjectModalProps> = ({
 
           {noteCount === 0 && (
             <p className="text-sm text-gray-600 dark:text-dark-text-muted">
-              This project is empty. It will be permanently deleted.
+              This project is empty. It will be moved to the trash.
             </p>
           )}
         </div>
@@ -1,30 +1,36 @@
 import React, { useState } from 'react';
 import { Note } from '../types';
-import { downloadAsPDF, downloadAsDOCX } from '../services/downloadService';
+import { downloadAsPDF, downloadAsDOCX, downloadAsMarkdown } from '../services/downloadService';
 import { useToasts } from '../hooks/useToasts';
+import PlaintextWarning from './PlaintextWarning';
 import { FaXmark, FaDownload } from 'react-icons/fa6';
 
 interface DownloadModalProps {
   isOpen: boolean;
   onClose: () => void;
   note: Note;
+  // Title of the note's project, written to the markdown file's front matter
+  projectTitle?: string;
 }
 
-const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, note }) => {
-  const [isDownloading, setIsDownloading] = useState<'pdf' | 'docx' | null>(null);
+const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, note, projectTitle }) => {
+  const [isDownloading, setIsDownloading] = useState<'pdf' | 'docx' | 'md' | null>(null);
   const { addToast } = useToasts();
 
   if (!isOpen) return null;
 
-  const handleDownload = async (format: 'pdf' | 'docx') => {
+  const handleDownload = async (format: 'pdf' | 'docx' | 'md') => {
     setIsDownloading(format);
     try {
       if (format === 'pdf') {
         await downloadAsPDF(note);
         addToast('PDF downloaded successfully!', 'success');
-      } else {
+      } else if (format === 'docx') {
         await downloadAsDOCX(note);
         addToast('DOCX downloaded successfully!', 'success');
+      } else {
+        downloadAsMarkdown(note, projectTitle);
+        addToast('Markdown downloaded successfully!', 'success');
       }
       onClose();
     } catch (error) {
@@ -59,6 +65,8 @@ const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, note })
             </p>
           </div>
 
+          <PlaintextWarning subject="the downloaded file" className="mb-4" />
+
           <div className="space-y-3">
             <button
               onClick={() => handleDownload('pdf')}
@@ -85,11 +93,21 @@ const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, note })
               )}
               <span className="font-medium">Download as DOCX</span>
             </button>
+
+            <button
+              onClick={() => handleDownload('md')}
+              disabled={isDownloading === 'md'}
+              className="w-full flex items-center justify-center gap-3 p-4 bg-gray-500/10 hover:bg-gray-500/20 border border-gray-500/30 rounded-lg text-gray-700 dark:text-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FaDownload className="w-5 h-5" />
+              <span className="font-medium">Download as Markdown</span>
+            </button>
           </div>
 
           <div className="mt-4 text-xs text-text-muted dark:text-dark-text-muted">
             <p>• PDF: Best for reading and sharing</p>
             <p>• DOCX: Best for editing in Microsoft Word</p>
+            <p>• Markdown: Keeps the note's text, tags and project for importing again</p>
           </div>
         </div>
 
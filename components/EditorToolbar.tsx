@@ -1,8 +1,11 @@
 /// <reference path="../types/speechRecognition.d.ts" />
 import React, { useState } from 'react';
-import { FaBold, FaItalic, FaUnderline, FaLink, FaCode, FaListUl, FaStrikethrough, FaQuoteRight, FaListCheck, FaMinus, FaEllipsis, FaWandMagicSparkles, FaHeading, FaMicrophone, FaStop, FaLightbulb, FaClock } from 'react-icons/fa6';
+import { FaBold, FaItalic, FaUnderline, FaLink, FaCode, FaListUl, FaStrikethrough, FaQuoteRight, FaListCheck, FaMinus, FaEllipsis, FaWandMagicSparkles, FaHeading, FaMicrophone, FaStop, FaLightbulb, FaClock, FaTable, FaBarsStaggered } from 'react-icons/fa6';
 import { FaRegStar, FaSave } from 'react-icons/fa';
 import ConfirmationModal from './ConfirmationModal';
+import TableMenu from './TableMenu';
+import { TextEdit } from './NoteEditor/markdownEditing';
+import { TableCommand, applyTableCommand, insertTable, isInTable } from './NoteEditor/markdownTables';
 import { performTextAction } from '../services/geminiService';
 import { AITextAction } from '../types';
 
@@ -18,11 +21,14 @@ interface EditorToolbarProps {
   onCreateVersion?: () => void;
   hasUnsavedChanges?: boolean;
   versionCount?: number;
+  // Outline panel
+  isOutlineOpen?: boolean;
+  onToggleOutline?: () => void;
   // AI loading state
   isAiActionLoading?: boolean;
 }
 
-const ToolbarButton: React.FC<{ onClick: () => void; children: React.ReactNode; title: string; disabled?: boolean; className?: string }> = ({ onClick, children, title, disabled, className }) => (
+const ToolbarButton: React.FC<{ onClick: (e: React.MouseEvent<HTMLButtonElement>) => void; children: React.ReactNode; title: string; disabled?: boolean; className?: string }> = ({ onClick, children, title, disabled, className }) => (
   <button
     type="button"
     onClick={onClick}
@@ -44,6 +50,8 @@ const EditorToolbar: React.FC<EditorToolbarProps> = ({
   onCreateVersion,
   hasUnsavedChanges = false,
   versionCount = 0,
+  isOutlineOpen = false,
+  onToggleOutline,
   isAiActionLoading = false
 }) => {
   const [showConfirmationModal, setShowConfirmationModal] = useState(false);
@@ -53,6 +61,7 @@ const EditorToolbar: React.FC<EditorToolbarProps> = ({
   const [isBeautifying, setIsBeautifying] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [isSpeechRecognitionSupported, setIsSpeechRecognitionSupported] = useState(false); // New state for API support
+  const [tableMenu, setTableMenu] = useState<{ anchor: HTMLElement; isInTable: boolean } | null>(null);
   const recognitionRef = React.useRef<SpeechRecognition | null>(null);
 
   React.useEffect(() => {
@@ -245,6 +254,41 @@ const EditorToolbar: React.FC<EditorToolbarProps> = ({
     }, 0);
   };
 
+  const openTableMenu = (e: React.MouseEvent<HTMLButtonElement>) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    setTableMenu(tableMenu ? null : {
+      anchor: e.currentTarget,
+      isInTable: isInTable(textarea.value, textarea.selectionStart),
+    });
+  };
+
+  const closeTableMenu = React.useCallback(() => setTableMenu(null), []);
+
+  const applyTableEdit = (edit: TextEdit | null) => {
+    const textarea = textareaRef.current;
+    setTableMenu(null);
+    if (!textarea || !edit) return;
+
+    onUpdate(edit.value);
+    setTimeout(() => {
+      textarea.focus();
+      textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    }, 0);
+  };
+
+  const handleInsertTable = (rows: number, columns: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    applyTableEdit(insertTable(textarea.value, textarea.selectionStart, textarea.selectionEnd, rows, columns));
+  };
+
+  const handleTableCommand = (command: TableCommand) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    applyTableEdit(applyTableCommand(textarea.value, textarea.selectionStart, command));
+  };
+
   const handleBeautifyClick = async () => {
     const textarea = textareaRef.current;
     if (!textarea) return;
@@ -316,6 +360,9 @@ const EditorToolbar: React.FC<EditorToolbarProps> = ({
       <ToolbarButton onClick={() => applyFormat('list')} title="Bulleted List">
         <FaListUl className="w-5 h-5" />
       </ToolbarButton>
+      <ToolbarButton onClick={openTableMenu} title="Table" className={tableMenu ? 'bg-bg-secondary dark:bg-dark-bg-secondary' : ''}>
+        <FaTable className="w-5 h-5" />
+      </ToolbarButton>
     </>
   );
 
@@ -354,6 +401,15 @@ const EditorToolbar: React.FC<EditorToolbarProps> = ({
             </div>
           </div>
           <div className="flex items-center space-x-1">
+            {onToggleOutline && (
+              <ToolbarButton
+                onClick={onToggleOutline}
+                title={isOutlineOpen ? "Hide Outline (Ctrl+Shift+O)" : "Show Outline (Ctrl+Shift+O)"}
+                className={isOutlineOpen ? "text-accent dark:text-dark-accent" : ""}
+              >
+                <FaBarsStaggered className="w-5 h-5" />
+              </ToolbarButton>
+            )}
             {/* Version Control Buttons */}
             {onOpenVersionHistory && (
               <ToolbarButton
@@ -420,6 +476,15 @@ const EditorToolbar: React.FC<EditorToolbarProps> = ({
           </div>
         )}
       </div>
+      {tableMenu && (
+        <TableMenu
+          anchor={tableMenu.anchor}
+          isInTable={tableMenu.isInTable}
+          onInsert={handleInsertTable}
+          onCommand={handleTableCommand}
+          onClose={closeTableMenu}
+        />
+      )}
       <ConfirmationModal
         isOpen={showConfirmationModal}
         onClose={() => setShowConfirmationModal(false)}
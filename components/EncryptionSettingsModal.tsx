@@ -0,0 +1,287 @@
+import React, { useState, useEffect } from 'react';
+import {
+  encryptionService,
+  AUTO_LOCK_OPTIONS,
+  DEFAULT_AUTO_LOCK_MINUTES,
+  MIN_PASSPHRASE_LENGTH,
+} from '../services/encryptionService';
+import { useWorkspaceLock } from '../hooks/useWorkspaceLock';
+import { FaXmark, FaLock, FaTriangleExclamation } from 'react-icons/fa6';
+
+interface EncryptionSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onToast: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+const describeAutoLock = (minutes: number): string =>
+  minutes === 0 ? 'Never' : minutes < 60 ? `After ${minutes} minutes` : `After ${minutes / 60} hour${minutes > 60 ? 's' : ''}`;
+
+const inputClassName = 'w-full px-3 py-2 text-sm rounded-lg border border-border-color dark:border-dark-border-color bg-bg-primary dark:bg-dark-bg-primary text-text-primary dark:text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-accent dark:focus:ring-dark-accent';
+const secondaryButtonClassName = 'px-3 py-1.5 text-sm font-medium rounded-md border border-border-color dark:border-dark-border-color hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-primary dark:text-dark-text-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+/**
+ * Returns a message if a new passphrase is not acceptable
+ */
+const validateNewPassphrase = (passphrase: string, confirmation: string): string | null => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `Use at least ${MIN_PASSPHRASE_LENGTH} characters`;
+  }
+  if (passphrase !== confirmation) {
+    return 'Passphrases do not match';
+  }
+  return null;
+};
+
+const EncryptionSettingsModal: React.FC<EncryptionSettingsModalProps> = ({ isOpen, onClose, onToast }) => {
+  const { isEncrypted, autoLockMinutes } = useWorkspaceLock();
+  const [passphrase, setPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [newAutoLockMinutes, setNewAutoLockMinutes] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [mode, setMode] = useState<'overview' | 'change' | 'disable'>('overview');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const switchMode = (next: typeof mode) => {
+    setPassphrase('');
+    setNewPassphrase('');
+    setConfirmation('');
+    setError(null);
+    setMode(next);
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      switchMode('overview');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const run = async (task: () => Promise<boolean>, failure: string, success: string) => {
+    setIsWorking(true);
+    setError(null);
+    const ok = await task();
+    setIsWorking(false);
+    if (!ok) {
+      setError(failure);
+      return;
+    }
+    onToast(success, 'success');
+    onClose();
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validateNewPassphrase(newPassphrase, confirmation);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    run(
+      () => encryptionService.enable(newPassphrase, newAutoLockMinutes),
+      'Could not encrypt the workspace',
+      'Workspace encrypted'
+    );
+  };
+
+  const handleChangePassphrase = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validateNewPassphrase(newPassphrase, confirmation);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    run(
+      () => encryptionService.changePassphrase(passphrase, newPassphrase),
+      'Current passphrase is wrong',
+      'Passphrase changed'
+    );
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(
+      () => encryptionService.disable(passphrase),
+      'Wrong passphrase',
+      'Encryption turned off'
+    );
+  };
+
+  const handleLockNow = () => {
+    onClose();
+    encryptionService.lock();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-surface dark:bg-dark-surface border border-border-color dark:border-dark-border-color rounded-lg shadow-xl w-full max-w-md mx-4">
+        <div className="flex items-center justify-between p-4 border-b border-border-color dark:border-dark-border-color">
+          <h2 className="text-lg font-semibold text-text-primary dark:text-dark-text-primary flex items-center gap-2">
+            <FaLock className="w-4 h-4" />
+            Workspace Encryption
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+          >
+            <FaXmark className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!isEncrypted ? (
+          <form onSubmit={handleEnable} className="p-6 space-y-4">
+            <p className="text-sm text-text-secondary dark:text-dark-text-secondary">
+              Encrypt notes, projects, version history and the trash with a passphrase. The workspace has to be
+              unlocked each time the app opens.
+            </p>
+            <div className="flex items-start gap-2 text-sm text-orange-600 dark:text-orange-400">
+              <FaTriangleExclamation className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>The passphrase cannot be recovered. If you forget it, your notes are lost.</span>
+            </div>
+            <input
+              type="password"
+              value={newPassphrase}
+              onChange={(e) => setNewPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              autoComplete="new-password"
+              className={inputClassName}
+            />
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder="Repeat passphrase"
+              autoComplete="new-password"
+              className={inputClassName}
+            />
+            <label className="flex items-center justify-between text-sm text-text-secondary dark:text-dark-text-secondary">
+              Lock when inactive
+              <select
+                value={newAutoLockMinutes}
+                onChange={(e) => setNewAutoLockMinutes(Number(e.target.value))}
+                className="ml-2 px-2 py-1 rounded-md border border-border-color dark:border-dark-border-color bg-surface dark:bg-dark-surface"
+              >
+                {AUTO_LOCK_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{describeAutoLock(minutes)}</option>
+                ))}
+              </select>
+            </label>
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isWorking || !newPassphrase}
+                className="px-4 py-2 text-sm font-medium text-white rounded-lg bg-accent dark:bg-dark-accent hover:bg-accent-hover dark:hover:bg-dark-accent-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isWorking ? 'Encrypting…' : 'Encrypt Workspace'}
+              </button>
+            </div>
+          </form>
+        ) : mode === 'change' ? (
+          <form onSubmit={handleChangePassphrase} className="p-6 space-y-4">
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Current passphrase"
+              autoComplete="current-password"
+              className={inputClassName}
+            />
+            <input
+              type="password"
+              value={newPassphrase}
+              onChange={(e) => setNewPassphrase(e.target.value)}
+              placeholder="New passphrase"
+              autoComplete="new-password"
+              className={inputClassName}
+            />
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder="Repeat new passphrase"
+              autoComplete="new-password"
+              className={inputClassName}
+            />
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+            <div className="flex justify-end gap-3">
+              <button type="button" onClick={() => switchMode('overview')} className={secondaryButtonClassName}>
+                Back
+              </button>
+              <button
+                type="submit"
+                disabled={isWorking || !passphrase || !newPassphrase}
+                className="px-4 py-2 text-sm font-medium text-white rounded-lg bg-accent dark:bg-dark-accent hover:bg-accent-hover dark:hover:bg-dark-accent-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isWorking ? 'Re-encrypting…' : 'Change Passphrase'}
+              </button>
+            </div>
+          </form>
+        ) : mode === 'disable' ? (
+          <form onSubmit={handleDisable} className="p-6 space-y-4">
+            <p className="text-sm text-text-secondary dark:text-dark-text-secondary">
+              Your notes will be stored unencrypted on this device again.
+            </p>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              autoComplete="current-password"
+              className={inputClassName}
+            />
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+            <div className="flex justify-end gap-3">
+              <button type="button" onClick={() => switchMode('overview')} className={secondaryButtonClassName}>
+                Back
+              </button>
+              <button
+                type="submit"
+                disabled={isWorking || !passphrase}
+                className="px-4 py-2 text-sm font-medium text-white rounded-lg bg-red-600 hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isWorking ? 'Decrypting…' : 'Turn Off Encryption'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-text-secondary dark:text-dark-text-secondary">
+              Notes, projects, version history and the trash are encrypted on this device.
+            </p>
+            <label className="flex items-center justify-between text-sm text-text-secondary dark:text-dark-text-secondary">
+              Lock when inactive
+              <select
+                value={autoLockMinutes}
+                onChange={(e) => encryptionService.setAutoLockMinutes(Number(e.target.value))}
+                className="ml-2 px-2 py-1 rounded-md border border-border-color dark:border-dark-border-color bg-surface dark:bg-dark-surface"
+              >
+                {AUTO_LOCK_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{describeAutoLock(minutes)}</option>
+                ))}
+              </select>
+            </label>
+            <div className="flex flex-wrap gap-2 pt-2">
+              <button onClick={handleLockNow} className={secondaryButtonClassName}>
+                Lock Now
+              </button>
+              <button onClick={() => switchMode('change')} className={secondaryButtonClassName}>
+                Change Passphrase
+              </button>
+              <button
+                onClick={() => switchMode('disable')}
+                className="px-3 py-1.5 text-sm font-medium rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+              >
+                Turn Off
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EncryptionSettingsModal;
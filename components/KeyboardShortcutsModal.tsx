@@ -75,7 +75,8 @@ const KeyboardShortcutsModal: React.FC<ShortcutHelpModalProps> = ({
     else if (key === 'End') key = 'End';
     else if (key === 'PageUp') key = 'Page Up';
     else if (key === 'PageDown') key = 'Page Down';
-    else key = key.toUpperCase();
+    // Vim keys are case sensitive
+    else if (shortcut.category !== 'keymap' || parts.length > 0) key = key.toUpperCase();
     
     parts.push(key);
     return parts.join(' + ');
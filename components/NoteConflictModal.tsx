@@ -0,0 +1,169 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { NoteVersion } from '../types';
+import { NoteConflict, ConflictResolution } from '../services/noteSyncService';
+import DiffView from './VersionHistory/DiffView';
+import { FaXmark } from 'react-icons/fa6';
+
+interface NoteConflictModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conflicts: NoteConflict[];
+  onResolve: (noteId: string, resolution: ConflictResolution) => Promise<boolean>;
+}
+
+const NoteConflictModal: React.FC<NoteConflictModalProps> = ({ isOpen, onClose, conflicts, onResolve }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [diffView, setDiffView] = useState<'side-by-side' | 'unified'>('side-by-side');
+  const [isEditing, setIsEditing] = useState(false);
+  const [mergedContent, setMergedContent] = useState('');
+  const [isResolving, setIsResolving] = useState(false);
+
+  const conflict = conflicts.find(c => c.noteId === selectedId) ?? conflicts[0] ?? null;
+
+  useEffect(() => {
+    setIsEditing(false);
+    setMergedContent(conflict?.local.content ?? '');
+  }, [conflict?.noteId]);
+
+  useEffect(() => {
+    if (isOpen && conflicts.length === 0) onClose();
+  }, [isOpen, conflicts.length, onClose]);
+
+  // DiffView compares versions, so present both sides as pseudo-versions
+  const [remoteVersion, localVersion] = useMemo((): [NoteVersion, NoteVersion] | [null, null] => {
+    if (!conflict) return [null, null];
+    const toVersion = (title: string, content: string, version: number, createdAt: number): NoteVersion => ({
+      id: `${conflict.noteId}-${createdAt}`,
+      noteId: conflict.noteId,
+      version,
+      title,
+      content,
+      createdAt,
+    });
+    return [
+      toVersion(conflict.remote.note.title, conflict.remote.note.content, conflict.remote.version, conflict.remote.updatedAt),
+      toVersion(conflict.local.title, conflict.local.content, conflict.local.version ?? 0, conflict.local.updatedAt),
+    ];
+  }, [conflict]);
+
+  if (!isOpen || !conflict || !remoteVersion || !localVersion) return null;
+
+  const resolve = async (resolution: ConflictResolution) => {
+    setIsResolving(true);
+    try {
+      await onResolve(conflict.noteId, resolution);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-surface dark:bg-dark-surface border border-border-color dark:border-dark-border-color rounded-lg shadow-xl w-full max-w-5xl mx-4 h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-border-color dark:border-dark-border-color">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-text-primary dark:text-dark-text-primary">
+              Resolve Sync Conflict
+            </h2>
+            <p className="text-sm text-text-muted dark:text-dark-text-muted truncate">
+              "{conflict.local.title || 'Untitled Note'}" was changed on this device and remotely.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+          >
+            <FaXmark className="w-5 h-5" />
+          </button>
+        </div>
+
+        {conflicts.length > 1 && (
+          <div className="flex gap-2 px-4 pt-3 overflow-x-auto flex-shrink-0">
+            {conflicts.map(c => (
+              <button
+                key={c.noteId}
+                onClick={() => setSelectedId(c.noteId)}
+                className={`px-3 py-1.5 rounded-md text-sm whitespace-nowrap transition-colors ${
+                  c.noteId === conflict.noteId
+                    ? 'bg-primary/10 text-primary'
+                    : 'text-text-muted dark:text-dark-text-muted hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary'
+                }`}
+              >
+                {c.local.title || 'Untitled Note'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {isEditing ? (
+          <div className="flex-1 min-h-0 p-6 flex flex-col">
+            <p className="text-sm text-text-muted dark:text-dark-text-muted mb-2">
+              Edit the merged content. Saving replaces both copies.
+            </p>
+            <textarea
+              value={mergedContent}
+              onChange={e => setMergedContent(e.target.value)}
+              className="flex-1 w-full p-4 font-mono text-sm rounded-lg border border-border-color dark:border-dark-border-color bg-bg-primary dark:bg-dark-bg-primary text-text-primary dark:text-dark-text-primary resize-none focus:outline-none focus:ring-2 focus:ring-primary/30"
+            />
+          </div>
+        ) : (
+          <DiffView
+            compareVersion={remoteVersion}
+            selectedVersion={localVersion}
+            diffView={diffView}
+            setDiffView={setDiffView}
+            originalLabel={`Remote · ${new Date(conflict.remote.updatedAt).toLocaleString()}`}
+            currentLabel={`This device · ${new Date(conflict.local.updatedAt).toLocaleString()}`}
+          />
+        )}
+
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-border-color dark:border-dark-border-color">
+          {isEditing ? (
+            <>
+              <button
+                onClick={() => setIsEditing(false)}
+                disabled={isResolving}
+                className="px-4 py-2 text-sm font-medium text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+              >
+                Back to Diff
+              </button>
+              <button
+                onClick={() => resolve({ title: conflict.local.title, content: mergedContent })}
+                disabled={isResolving}
+                className="px-4 py-2 text-sm font-medium text-white bg-primary hover:bg-primary/90 rounded-lg transition-colors disabled:opacity-50"
+              >
+                Save Merged Note
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={() => setIsEditing(true)}
+                disabled={isResolving}
+                className="px-4 py-2 text-sm font-medium text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+              >
+                Merge Manually
+              </button>
+              <button
+                onClick={() => resolve('remote')}
+                disabled={isResolving}
+                className="px-4 py-2 text-sm font-medium rounded-lg border border-border-color dark:border-dark-border-color text-text-primary dark:text-dark-text-primary hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary transition-colors disabled:opacity-50"
+              >
+                Keep Remote
+              </button>
+              <button
+                onClick={() => resolve('local')}
+                disabled={isResolving}
+                className="px-4 py-2 text-sm font-medium text-white bg-primary hover:bg-primary/90 rounded-lg transition-colors disabled:opacity-50"
+              >
+                Keep This Device
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NoteConflictModal;
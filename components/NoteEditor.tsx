@@ -15,8 +15,12 @@ import {
 import { getWordMeaning } from "../services/dictionaryService";
 import { useToasts } from "../hooks/useToasts";
 import { useMediaQuery } from "../hooks/useMediaQuery";
+import { useLocalStorage } from "../hooks/useLocalStorage";
 import { useVersionControl } from "../hooks/useVersionControl";
 import { versionControlService } from "../services/versionControlService";
+import { AttachmentService, MAX_ATTACHMENT_SIZE } from "../services/attachmentService";
+import { keyboardShortcutsService } from "../services/keyboardShortcutsService";
+import { EditorKeymap } from "../types/keyboardShortcuts";
 
 import {
   FaPencil,
@@ -40,10 +44,17 @@ import {
   useContextualMenu,
   useSelectionNavigator,
   useMarkdownProcessing,
+  useFindReplace,
+  useWikiLinks,
+  useOutline,
+  useTasks,
+  useEditorKeymap,
 } from "./NoteEditor/hooks";
 import { initializeMarkdownProcessing, setupScrollSync } from "./NoteEditor/utils";
 import EditorPane from "./NoteEditor/EditorPane";
 import PreviewPane from "./NoteEditor/PreviewPane";
+import FindReplaceBar from "./NoteEditor/FindReplaceBar";
+import OutlinePanel from "./NoteEditor/OutlinePanel";
 
 const NoteEditor: React.FC<NoteEditorProps> = ({
   activeNote,
@@ -52,6 +63,9 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
   onAddNote,
   viewMode = "split",
   onRestoreVersion,
+  notes,
+  onSelectNote,
+  projectTitle,
 }) => {
   // Basic state
   const [isSummarizing, setIsSummarizing] = useState(false);
@@ -68,6 +82,8 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
   );
   const [mobileView, setMobileView] = useState<"editor" | "preview">("preview");
   const [isVersionHistoryOpen, setIsVersionHistoryOpen] = useState(false);
+  const [isOutlineOpen, setIsOutlineOpen] = useLocalStorage('stellar-scribe-outline-open', false);
+  const [keymap, setKeymap] = useState<EditorKeymap>(() => keyboardShortcutsService.getConfig().editorKeymap);
 
   const isDesktop = useMediaQuery("(min-width: 768px)");
   const { addToast } = useToasts();
@@ -76,12 +92,20 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
   const editorRef = useRef<HTMLTextAreaElement>(null!);
   const previewRef = useRef<HTMLDivElement>(null!);
   const editorContainerRef = useRef<HTMLDivElement>(null!);
+  // Read after async work to tell whether the user moved to another note
+  const activeNoteIdRef = useRef(activeNote?.id);
+  activeNoteIdRef.current = activeNote?.id;
 
   // Custom hooks
   const modalStates = useModalStates();
   const { contextualMenu, setContextualMenu, handleTextSelection } = useContextualMenu();
   const { selectionNavigator, setSelectionNavigator, handlePreviewSelection, navigateMatches } = useSelectionNavigator();
-  const { renderedMarkdown, mermaidDiagrams } = useMarkdownProcessing(activeNote?.content || "", addToast);
+  const wikiLinks = useWikiLinks(notes, activeNote, editorRef, previewRef, onSelectNote, onAddNote, addToast);
+  const { renderedMarkdown, mermaidDiagrams } = useMarkdownProcessing(
+    activeNote?.content || "",
+    addToast,
+    wikiLinks.isLinkTarget
+  );
   
   const {
     undoStack,
@@ -89,7 +113,6 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
     pushToUndoStack,
     undo,
     redo,
-    clearStacks,
   } = useUndoRedo(
     activeNote,
     currentEditorContent,
@@ -98,6 +121,50 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
     editorRef
   );
 
+  const findReplace = useFindReplace(
+    currentEditorContent,
+    setCurrentEditorContent,
+    onUpdateNote,
+    pushToUndoStack,
+    editorRef
+  );
+
+  const editorKeymap = useEditorKeymap(
+    keymap,
+    activeNote?.id,
+    editorRef,
+    setCurrentEditorContent,
+    onUpdateNote,
+    pushToUndoStack,
+    { undo, redo, find: () => findReplace.open(false) }
+  );
+
+  const handleChangeKeymap = useCallback((next: EditorKeymap) => {
+    keyboardShortcutsService.updateConfig({ editorKeymap: next });
+    setKeymap(next);
+  }, []);
+
+  const outline = useOutline(
+    currentEditorContent,
+    editorRef,
+    previewRef,
+    setCurrentEditorContent,
+    onUpdateNote,
+    pushToUndoStack,
+    isOutlineOpen && !!activeNote,
+    `${viewMode}-${mobileView}-${isDesktop}`
+  );
+
+  const tasks = useTasks(
+    activeNote?.id,
+    activeNote?.content || "",
+    editorRef,
+    previewRef,
+    setCurrentEditorContent,
+    onUpdateNote,
+    pushToUndoStack
+  );
+
   // Version control hook
   const {
     hasUnsavedChanges,
@@ -178,19 +245,19 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
     });
     if (activeNote) {
       setCurrentEditorContent(activeNote.content || '');
-      clearStacks();
       
       // Force focus to editor when new note is created
       setTimeout(() => {
         const editor = editorRef.current;
-        if (editor) {
+        // A link to a heading or a task from the Tasks view opens the note there
+        if (editor && !wikiLinks.revealPendingHeading() && !tasks.revealPendingLine()) {
           console.log('🔍 NoteEditor: Focusing editor for new note');
           editor.focus();
           editor.setSelectionRange(editor.value.length, editor.value.length);
         }
       }, 200);
     }
-  }, [activeNote?.id, clearStacks]);
+  }, [activeNote?.id]);
 
   // Additional effect to ensure editor content stays in sync with note content
   useEffect(() => {
@@ -519,11 +586,75 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
     }
   };
 
+  // Store pasted or dropped files and insert references to them at the cursor
+  const handleAttachFiles = async (files: File[]) => {
+    if (!activeNote) return;
+    const noteId = activeNote.id;
+    if (!AttachmentService.isAvailable()) {
+      addToast("Attachments need IndexedDB storage, which this browser is not providing.", "error");
+      return;
+    }
+
+    const links: string[] = [];
+    for (const file of files) {
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        addToast(`"${file.name}" is too large to attach (max ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB).`, "error");
+        continue;
+      }
+      const attachment = await AttachmentService.save(file);
+      if (attachment) {
+        links.push(AttachmentService.toMarkdown(attachment));
+      } else {
+        addToast(`Failed to attach "${file.name}". Storage may be full.`, "error");
+      }
+    }
+
+    const textarea = editorRef.current;
+    if (links.length === 0 || !textarea || activeNoteIdRef.current !== noteId) return;
+
+    const { value, selectionStart, selectionEnd } = textarea;
+    const before = value.slice(0, selectionStart);
+    const text = (before && !before.endsWith("\n") ? "\n" : "") + links.join("\n") + "\n";
+    const newContent = before + text + value.slice(selectionEnd);
+    const newCursorPos = selectionStart + text.length;
+
+    pushToUndoStack(value);
+    setCurrentEditorContent(newContent);
+    onUpdateNote({ content: newContent });
+    setTimeout(() => {
+      textarea.focus();
+      textarea.setSelectionRange(newCursorPos, newCursorPos);
+    }, 0);
+  };
+
   const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (!activeNote || !editorRef.current) return;
 
     const textarea = editorRef.current;
 
+    // Vim and Emacs keys come first; keys they leave are handled as usual
+    if (editorKeymap.handleKeyDown(e)) return;
+
+    // Find / replace
+    if ((e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey && ['f', 'h'].includes(e.key.toLowerCase())) {
+      e.preventDefault();
+      findReplace.open(e.key.toLowerCase() === 'h');
+      return;
+    }
+    if (findReplace.isOpen) {
+      if (e.key === 'F3' || ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'g')) {
+        e.preventDefault();
+        if (e.shiftKey) findReplace.findPrevious();
+        else findReplace.findNext();
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        findReplace.close();
+        return;
+      }
+    }
+
     // Handle Undo/Redo
     if (e.ctrlKey || e.metaKey) {
       if (e.key.toLowerCase() === 'z' && !e.shiftKey) {
@@ -628,7 +759,41 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
         );
       }, 0);
     }
-  }, [activeNote, undoStack, redoStack, undo, redo, pushToUndoStack, onUpdateNote]);
+  }, [activeNote, undoStack, redoStack, undo, redo, pushToUndoStack, onUpdateNote, findReplace, editorKeymap]);
+
+  const handleReplaceAll = useCallback(() => {
+    const count = findReplace.replaceAll();
+    if (count > 0) {
+      addToast(`Replaced ${count} ${count === 1 ? 'match' : 'matches'}`, 'success');
+    }
+  }, [findReplace, addToast]);
+
+  // Listen for find shortcuts fired outside the editor
+  useEffect(() => {
+    const handleFindEvent = (event: CustomEvent) => {
+      const { action } = event.detail;
+      if (action === 'find' || action === 'replace') {
+        findReplace.open(action === 'replace');
+      } else if (action === 'next') {
+        findReplace.findNext();
+      } else if (action === 'previous') {
+        findReplace.findPrevious();
+      }
+    };
+
+    document.addEventListener('findInNote', handleFindEvent as EventListener);
+
+    return () => {
+      document.removeEventListener('findInNote', handleFindEvent as EventListener);
+    };
+  }, [findReplace]);
+
+  // Listen for the outline shortcut fired outside the editor
+  useEffect(() => {
+    const handleToggleOutline = () => setIsOutlineOpen(open => !open);
+    document.addEventListener('toggleOutline', handleToggleOutline);
+    return () => document.removeEventListener('toggleOutline', handleToggleOutline);
+  }, [setIsOutlineOpen]);
 
   const handleWrappedTextSelection = useCallback((
     e: React.MouseEvent<HTMLTextAreaElement> | React.TouchEvent<HTMLTextAreaElement>
@@ -690,6 +855,16 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
         onCreateVersion={handleCreateVersion}
         hasUnsavedChanges={hasUnsavedChanges}
         versionCount={versionCount}
+        findMatches={findReplace.isOpen ? findReplace.matches : undefined}
+        currentFindMatch={findReplace.currentIndex}
+        getWikiLinkCompletions={wikiLinks.getCompletions}
+        onAttachFiles={handleAttachFiles}
+        isOutlineOpen={isOutlineOpen}
+        onToggleOutline={() => setIsOutlineOpen(open => !open)}
+        projectTitle={projectTitle}
+        keymap={keymap}
+        onChangeKeymap={handleChangeKeymap}
+        keymapStatus={editorKeymap.status}
       />
     </div>
   );
@@ -714,21 +889,46 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
       onDownload={() => modalStates.setIsDownloadModalOpen(true)}
       onCopyAll={handleCopyAll}
       onDelete={() => modalStates.setIsDeleteModalOpen(true)}
+      findHighlight={findReplace.searchRegex}
+      backlinks={wikiLinks.backlinks}
+      onOpenWikiLink={wikiLinks.openLink}
+      onOpenNote={onSelectNote}
+      onToggleTask={tasks.toggleTask}
+    />
+  );
+
+  const outlinePanel = isOutlineOpen && (
+    <OutlinePanel
+      headings={outline.headings}
+      activeIndex={outline.activeIndex}
+      onSelect={outline.jumpTo}
+      onMoveSection={outline.moveSection}
+      onClose={() => setIsOutlineOpen(false)}
+      // On mobile the panel covers the right side of the note
+      className={isDesktop ? "flex-shrink-0" : "absolute top-0 right-0 z-20 shadow-lg"}
     />
   );
 
   return (
     <>
-      <div className="w-full h-full bg-bg-primary dark:bg-dark-bg-primary">
+      <div className="relative w-full h-full bg-bg-primary dark:bg-dark-bg-primary">
+        {findReplace.isOpen && (
+          <FindReplaceBar findReplace={findReplace} onReplaceAll={handleReplaceAll} />
+        )}
         {isDesktop ? (
           // Desktop view modes
-          viewMode === "split" ? (
-            <SplitPane left={editorPane} right={previewPane} />
-          ) : viewMode === "editor" ? (
-            editorPane
-          ) : (
-            previewPane
-          )
+          <div className="flex h-full">
+            <div className="flex-grow min-w-0 h-full">
+              {viewMode === "split" ? (
+                <SplitPane left={editorPane} right={previewPane} />
+              ) : viewMode === "editor" ? (
+                editorPane
+              ) : (
+                previewPane
+              )}
+            </div>
+            {outlinePanel}
+          </div>
         ) : (
           // Mobile view with toggle
           <div className="h-full flex flex-col">
@@ -759,8 +959,9 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
                 <FaEye className="w-5 h-5 mx-auto" />
               </button>
             </div>
-            <div className="flex-grow overflow-hidden">
+            <div className="relative flex-grow overflow-hidden">
               {mobileView === "editor" ? editorPane : previewPane}
+              {outlinePanel}
             </div>
           </div>
         )}
@@ -803,6 +1004,7 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
         isOpen={modalStates.isDownloadModalOpen}
         onClose={() => modalStates.setIsDownloadModalOpen(false)}
         note={activeNote}
+        projectTitle={projectTitle}
       />
 
       <SummaryModal
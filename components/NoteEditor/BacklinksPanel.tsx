@@ -0,0 +1,61 @@
+import React, { useState } from "react";
+import { FaChevronRight, FaLink } from "react-icons/fa6";
+import { Backlink } from "../../services/wikiLinkService";
+
+interface BacklinksPanelProps {
+  backlinks: Backlink[];
+  onOpenNote: (id: string) => void;
+}
+
+/**
+ * Notes that link to the open note, shown under the preview
+ */
+const BacklinksPanel: React.FC<BacklinksPanelProps> = ({ backlinks, onOpenNote }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  return (
+    <section className="mt-10 pt-4 border-t border-gray-200 dark:border-dark-border-color text-sm">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center gap-2 font-semibold text-gray-600 dark:text-dark-text-secondary hover:text-gray-900 dark:hover:text-dark-text-primary"
+      >
+        <FaChevronRight className={`w-3 h-3 transition-transform ${isExpanded ? "rotate-90" : ""}`} />
+        <FaLink className="w-3.5 h-3.5" />
+        {backlinks.length === 0
+          ? "No linked mentions"
+          : `Linked from ${backlinks.length} ${backlinks.length === 1 ? "note" : "notes"}`}
+      </button>
+
+      {isExpanded && (
+        backlinks.length === 0 ? (
+          <p className="mt-2 ml-5 text-gray-500 dark:text-dark-text-muted">
+            Other notes can link here with [[{"Note title"}]].
+          </p>
+        ) : (
+          <ul className="mt-2 space-y-2">
+            {backlinks.map((backlink) => (
+              <li key={backlink.noteId} className="ml-5">
+                <button
+                  onClick={() => onOpenNote(backlink.noteId)}
+                  className="font-medium text-accent dark:text-dark-accent hover:underline text-left"
+                >
+                  {backlink.title || "Untitled Note"}
+                </button>
+                {backlink.contexts.map((context, index) => (
+                  <p
+                    key={index}
+                    className="mt-0.5 pl-3 border-l-2 border-gray-200 dark:border-dark-border-color text-gray-500 dark:text-dark-text-muted break-words"
+                  >
+                    {context}
+                  </p>
+                ))}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </section>
+  );
+};
+
+export default BacklinksPanel;
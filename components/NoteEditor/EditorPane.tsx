@@ -1,11 +1,82 @@
 import React, { KeyboardEvent } from "react";
 import { FaMagic } from "react-icons/fa";
 import { MdCloudDownload } from "react-icons/md";
-import { EditorPaneProps } from "./types";
+import { EditorPaneProps, KeymapStatus } from "./types";
+import { EditorKeymap } from "../../types/keyboardShortcuts";
 import { LoadingSpinner, Tag } from "./UIElements";
 import EditorToolbar from "../EditorToolbar";
 import SuggestionTextarea from "../SuggestionTextarea";
 import ContextualMenu from "../ContextualMenu";
+import { CompletionMenuItem } from "../CompletionMenu";
+import {
+  TextEdit,
+  continueBlock,
+  indentLines,
+  outdentLines,
+  moveLines,
+  pairBracket,
+  deleteBracketPair,
+} from "./markdownEditing";
+import { moveToCell, nextTableRow, pasteTable } from "./markdownTables";
+import {
+  SlashCommand,
+  getSlashCommands,
+  filterSlashCommands,
+  applySlashCommand,
+  getParagraphRange,
+} from "./slashCommands";
+
+/**
+ * Structural edit for a key press in the editor, if any
+ */
+const getStructuralEdit = (e: KeyboardEvent<HTMLTextAreaElement>): TextEdit | null => {
+  if (e.nativeEvent.isComposing || e.ctrlKey || e.metaKey) return null;
+  const { value, selectionStart, selectionEnd } = e.currentTarget;
+
+  if (e.altKey) {
+    if (e.key === "ArrowUp") return moveLines(value, selectionStart, selectionEnd, "up");
+    if (e.key === "ArrowDown") return moveLines(value, selectionStart, selectionEnd, "down");
+    return null;
+  }
+
+  switch (e.key) {
+    case "Enter":
+      return e.shiftKey
+        ? null
+        : nextTableRow(value, selectionStart, selectionEnd) ?? continueBlock(value, selectionStart, selectionEnd);
+    case "Tab":
+      return (
+        moveToCell(value, selectionStart, selectionEnd, e.shiftKey ? "previous" : "next") ??
+        (e.shiftKey
+          ? outdentLines(value, selectionStart, selectionEnd)
+          : indentLines(value, selectionStart, selectionEnd))
+      );
+    case "Backspace":
+      return deleteBracketPair(value, selectionStart, selectionEnd);
+    default:
+      return e.key.length === 1 ? pairBracket(value, selectionStart, selectionEnd, e.key) : null;
+  }
+};
+
+// Keymap status badge colors, by mode
+const KEYMAP_STATUS_COLORS: Record<KeymapStatus["label"], string> = {
+  NORMAL: "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300",
+  INSERT: "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300",
+  VISUAL: "bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300",
+  "VISUAL LINE": "bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300",
+  EMACS: "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300",
+};
+
+/**
+ * Slash command menu entries for what was typed after "/"
+ */
+const getSlashCommandItems = (commands: SlashCommand[], query: string): CompletionMenuItem[] =>
+  filterSlashCommands(commands, query).map((command) => ({
+    key: command.id,
+    label: command.label,
+    detail: command.group,
+    icon: <command.icon className="w-3.5 h-3.5" />,
+  }));
 
 const EditorPane: React.FC<EditorPaneProps> = ({
   activeNote,
@@ -29,7 +100,20 @@ const EditorPane: React.FC<EditorPaneProps> = ({
   onCreateVersion,
   hasUnsavedChanges,
   versionCount,
+  findMatches,
+  currentFindMatch,
+  getWikiLinkCompletions,
+  onAttachFiles,
+  isOutlineOpen,
+  onToggleOutline,
+  projectTitle,
+  keymap,
+  onChangeKeymap,
+  keymapStatus,
 }) => {
+  // Ghost suggestions and completion menus only while typing, not in Vim's normal mode
+  const typing = !keymapStatus || keymapStatus.typing;
+
   const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onUpdateNote({ title: e.target.value });
   };
@@ -57,6 +141,100 @@ const EditorPane: React.FC<EditorPaneProps> = ({
     }
   };
 
+  const handleEditorKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    onKeyDown(e);
+    if (e.defaultPrevented) return;
+
+    const edit = getStructuralEdit(e);
+    if (!edit) {
+      // Keep Tab from moving focus out of the editor when there is nothing to indent
+      if (e.key === "Tab" && !e.altKey && !e.ctrlKey && !e.metaKey) e.preventDefault();
+      return;
+    }
+
+    e.preventDefault();
+    const textarea = e.currentTarget;
+    if (edit.value !== textarea.value) {
+      pushToUndoStack(textarea.value);
+      setCurrentEditorContent(edit.value);
+      onUpdateNote({ content: edit.value });
+      setTimeout(() => {
+        editorRef.current?.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+      }, 0);
+    } else {
+      textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    }
+  };
+
+  // Spreadsheet cells pasted into the editor become a markdown table, pasted
+  // images and files become attachments
+  const handleEditorPaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget;
+    const edit = pasteTable(
+      textarea.value,
+      textarea.selectionStart,
+      textarea.selectionEnd,
+      e.clipboardData.getData("text/plain")
+    );
+    if (!edit) {
+      const files = Array.from(e.clipboardData.files);
+      if (files.length > 0 && onAttachFiles) {
+        e.preventDefault();
+        onAttachFiles(files);
+      }
+      return;
+    }
+
+    e.preventDefault();
+    pushToUndoStack(textarea.value);
+    setCurrentEditorContent(edit.value);
+    onUpdateNote({ content: edit.value });
+    setTimeout(() => {
+      editorRef.current?.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    }, 0);
+  };
+
+  const handleEditorDragOver = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    if (onAttachFiles && e.dataTransfer.types.includes("Files")) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "copy";
+    }
+  };
+
+  // Dropped files are attached at the cursor
+  const handleEditorDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length === 0 || !onAttachFiles) return;
+    e.preventDefault();
+    onAttachFiles(files);
+  };
+
+  // Built when the menu is used, so templates get the current date and note title
+  const getCurrentSlashCommands = () => getSlashCommands({ title: activeNote.title, project: projectTitle });
+
+  const handleSlashCommand = (key: string, start: number, end: number) => {
+    const command = getCurrentSlashCommands().find((c) => c.id === key);
+    const textarea = editorRef.current;
+    if (!command || !textarea) return;
+
+    const edit = applySlashCommand(textarea.value, start, end, command);
+    pushToUndoStack(textarea.value);
+    setCurrentEditorContent(edit.value);
+    onUpdateNote({ content: edit.value });
+    setTimeout(() => {
+      const editor = editorRef.current;
+      if (!editor) return;
+      if (command.kind === "ai") {
+        // AI commands work on the paragraph the command was typed in
+        const [from, to] = getParagraphRange(edit.value, edit.selectionStart);
+        editor.setSelectionRange(from, to);
+        onAiTextAction(command.action, command.language);
+      } else {
+        editor.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+      }
+    }, 0);
+  };
+
   const removeTag = (tagToRemove: string) => {
     onUpdateNote({ tags: activeNote?.tags.filter((t) => t !== tagToRemove) });
   };
@@ -161,6 +339,8 @@ const EditorPane: React.FC<EditorPaneProps> = ({
         onCreateVersion={onCreateVersion}
         hasUnsavedChanges={hasUnsavedChanges}
         versionCount={versionCount}
+        isOutlineOpen={isOutlineOpen}
+        onToggleOutline={onToggleOutline}
         // AI loading state
         isAiActionLoading={isAiActionLoading}
       />
@@ -176,12 +356,15 @@ const EditorPane: React.FC<EditorPaneProps> = ({
               isDifferent: val !== currentEditorContent 
             });
             if (val !== currentEditorContent) {
-              pushToUndoStack(currentEditorContent);
+              pushToUndoStack(currentEditorContent, { coalesce: true });
             }
             setCurrentEditorContent(val);
             onUpdateNote({ content: val });
           }}
-          onKeyDown={onKeyDown}
+          onKeyDown={handleEditorKeyDown}
+          onPaste={handleEditorPaste}
+          onDragOver={handleEditorDragOver}
+          onDrop={handleEditorDrop}
           onMouseUp={onTextSelection}
           onTouchEnd={onTextSelection}
           onContextMenu={(e: React.MouseEvent<HTMLTextAreaElement>) => {
@@ -227,7 +410,12 @@ const EditorPane: React.FC<EditorPaneProps> = ({
           }}
           className="w-full h-full bg-transparent text-gray-800 dark:text-dark-text-secondary focus:outline-none resize-none leading-relaxed font-mono editor-textarea"
           placeholder="Start writing..."
-          suggestionsEnabled={suggestionsEnabled}
+          suggestionsEnabled={suggestionsEnabled && typing}
+          highlights={findMatches}
+          activeHighlight={currentFindMatch}
+          getWikiLinkCompletions={typing ? getWikiLinkCompletions : undefined}
+          getSlashCommands={typing ? (query: string) => getSlashCommandItems(getCurrentSlashCommands(), query) : undefined}
+          onSlashCommand={handleSlashCommand}
           noteTitle={activeNote.title}
           onExtractTitle={(title: string, newContent?: string) => {
             // If we have newContent from the paste, update content and title together
@@ -251,10 +439,34 @@ const EditorPane: React.FC<EditorPaneProps> = ({
           <span>
             {(activeNote.content || '').split(/\s+/).filter(Boolean).length} words
           </span>
+          {keymapStatus && (
+            <span
+              className={`px-1.5 py-0.5 rounded font-mono font-semibold ${KEYMAP_STATUS_COLORS[keymapStatus.label] || KEYMAP_STATUS_COLORS.EMACS}`}
+              title="Editor keybindings"
+            >
+              {keymapStatus.label}
+              {keymapStatus.detail && <span className="ml-1.5 font-normal">{keymapStatus.detail}</span>}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={keymap}
+            onChange={(e) => {
+              onChangeKeymap(e.target.value as EditorKeymap);
+              editorRef.current?.focus();
+            }}
+            className="bg-transparent border border-gray-200 dark:border-dark-border-color rounded px-1 py-0.5 focus:outline-none"
+            title="Editor keybindings"
+          >
+            <option value="default">Standard keys</option>
+            <option value="vim">Vim</option>
+            <option value="emacs">Emacs</option>
+          </select>
+          <span>
+            Last updated: {new Date(activeNote.updatedAt).toLocaleString()}
+          </span>
         </div>
-        <span>
-          Last updated: {new Date(activeNote.updatedAt).toLocaleString()}
-        </span>
       </footer>
       
       {contextualMenu && (
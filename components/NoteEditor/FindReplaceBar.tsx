@@ -0,0 +1,157 @@
+import React, { useEffect, useRef, KeyboardEvent } from "react";
+import { FaChevronDown, FaChevronUp, FaChevronRight, FaXmark } from "react-icons/fa6";
+import { UseFindReplaceReturn } from "./types";
+import SearchOptionToggles, { handleSearchOptionShortcut } from "../SearchOptionToggles";
+
+interface FindReplaceBarProps {
+  findReplace: UseFindReplaceReturn;
+  onReplaceAll: () => void;
+}
+
+const inputClassName =
+  "flex-1 min-w-0 px-2 py-1 text-sm rounded-md border bg-bg-primary dark:bg-dark-bg-primary text-text-primary dark:text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-accent dark:focus:ring-dark-accent";
+const iconButtonClassName =
+  "p-1.5 rounded-md text-text-muted dark:text-dark-text-muted hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary hover:text-text-primary dark:hover:text-dark-text-primary disabled:opacity-40 disabled:cursor-not-allowed";
+const textButtonClassName =
+  "px-2 py-1 text-xs font-medium rounded-md border border-border-color dark:border-dark-border-color text-text-primary dark:text-dark-text-primary hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary disabled:opacity-40 disabled:cursor-not-allowed";
+
+/**
+ * Floating find/replace bar for the note editor
+ */
+const FindReplaceBar: React.FC<FindReplaceBarProps> = ({ findReplace, onReplaceAll }) => {
+  const {
+    showReplace,
+    query,
+    replacement,
+    options,
+    error,
+    matches,
+    currentIndex,
+    focusRequest,
+    close,
+    setShowReplace,
+    setQuery,
+    setReplacement,
+    toggleOption,
+    findNext,
+    findPrevious,
+    replaceCurrent,
+  } = findReplace;
+  const queryInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    queryInputRef.current?.focus();
+    queryInputRef.current?.select();
+  }, [focusRequest]);
+
+  // Shortcuts shared by both inputs
+  const handleCommonKeys = (e: KeyboardEvent<HTMLInputElement>): boolean => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      close();
+      return true;
+    }
+    if (handleSearchOptionShortcut(e, toggleOption)) {
+      return true;
+    }
+    if (e.key === "F3") {
+      e.preventDefault();
+      if (e.shiftKey) findPrevious();
+      else findNext();
+      return true;
+    }
+    return false;
+  };
+
+  const handleQueryKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (handleCommonKeys(e)) return;
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (e.shiftKey) findPrevious();
+      else findNext();
+    }
+  };
+
+  const handleReplaceKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (handleCommonKeys(e)) return;
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (e.ctrlKey || e.metaKey) onReplaceAll();
+      else replaceCurrent();
+    }
+  };
+
+  const status = error
+    ? "Invalid pattern"
+    : !query
+    ? ""
+    : matches.length === 0
+    ? "No results"
+    : `${currentIndex + 1} of ${matches.length}`;
+
+  return (
+    <div
+      className="absolute top-2 right-4 z-30 w-[min(30rem,calc(100%-2rem))] p-2 space-y-2 rounded-lg bg-surface dark:bg-dark-surface border border-border-color dark:border-dark-border-color shadow-lg"
+      role="search"
+    >
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => setShowReplace(!showReplace)}
+          title={showReplace ? "Hide replace" : "Show replace"}
+          className={iconButtonClassName}
+        >
+          <FaChevronRight className={`w-3 h-3 transition-transform ${showReplace ? "rotate-90" : ""}`} />
+        </button>
+        <input
+          ref={queryInputRef}
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleQueryKeyDown}
+          placeholder="Find"
+          aria-invalid={error !== null}
+          className={`${inputClassName} ${error ? "border-red-500" : "border-border-color dark:border-dark-border-color"}`}
+        />
+        <SearchOptionToggles options={options} onToggle={toggleOption} />
+        <span
+          className={`w-20 text-center text-xs whitespace-nowrap ${
+            error || (query && matches.length === 0) ? "text-red-600 dark:text-red-400" : "text-text-muted dark:text-dark-text-muted"
+          }`}
+          title={error ?? undefined}
+        >
+          {status}
+        </span>
+        <button onClick={findPrevious} disabled={matches.length === 0} title="Previous match (Shift+Enter)" className={iconButtonClassName}>
+          <FaChevronUp className="w-3 h-3" />
+        </button>
+        <button onClick={findNext} disabled={matches.length === 0} title="Next match (Enter)" className={iconButtonClassName}>
+          <FaChevronDown className="w-3 h-3" />
+        </button>
+        <button onClick={close} title="Close (Escape)" className={iconButtonClassName}>
+          <FaXmark className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {showReplace && (
+        <div className="flex items-center gap-1 pl-7">
+          <input
+            type="text"
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={handleReplaceKeyDown}
+            placeholder={options.useRegex ? "Replace ($1, $<name>)" : "Replace"}
+            className={`${inputClassName} border-border-color dark:border-dark-border-color`}
+          />
+          <button onClick={replaceCurrent} disabled={matches.length === 0} title="Replace (Enter)" className={textButtonClassName}>
+            Replace
+          </button>
+          <button onClick={onReplaceAll} disabled={matches.length === 0} title="Replace all (Ctrl+Enter)" className={textButtonClassName}>
+            All
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FindReplaceBar;
@@ -0,0 +1,74 @@
+import React from "react";
+import { FaChevronRight, FaCircleInfo } from "react-icons/fa6";
+import { FrontMatterEntry, FrontMatterScalar } from "../../services/frontMatterService";
+import { useLocalStorage } from "../../hooks/useLocalStorage";
+
+interface FrontMatterCardProps {
+  entries: FrontMatterEntry[];
+}
+
+const formatScalar = (value: FrontMatterScalar): string => {
+  if (value === null) return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+/**
+ * The note's front matter as a compact list of keys and values, shown above
+ * the preview. It can be collapsed to its header.
+ */
+const FrontMatterCard: React.FC<FrontMatterCardProps> = ({ entries }) => {
+  const [isExpanded, setIsExpanded] = useLocalStorage("stellar-scribe-front-matter-expanded", true);
+
+  return (
+    <section className="mb-6 rounded-lg border border-gray-200 dark:border-dark-border-color bg-white/60 dark:bg-dark-bg-secondary/60 text-sm">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 font-semibold text-gray-600 dark:text-dark-text-secondary hover:text-gray-900 dark:hover:text-dark-text-primary"
+        aria-expanded={isExpanded}
+      >
+        <FaChevronRight className={`w-3 h-3 transition-transform ${isExpanded ? "rotate-90" : ""}`} />
+        <FaCircleInfo className="w-3.5 h-3.5" />
+        Metadata
+        {!isExpanded && (
+          <span className="font-normal text-gray-400 dark:text-dark-text-muted">
+            {entries.length} {entries.length === 1 ? "field" : "fields"}
+          </span>
+        )}
+      </button>
+
+      {isExpanded && (
+        entries.length === 0 ? (
+          <p className="px-3 pb-3 ml-5 text-gray-500 dark:text-dark-text-muted">No fields yet.</p>
+        ) : (
+          <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1.5 px-3 pb-3 ml-5">
+            {entries.map(({ key, value }) => (
+              <React.Fragment key={key}>
+                <dt className="font-medium text-gray-500 dark:text-dark-text-muted">{key}</dt>
+                <dd className="min-w-0 text-gray-800 dark:text-dark-text-secondary break-words whitespace-pre-line">
+                  {Array.isArray(value) ? (
+                    <span className="flex flex-wrap gap-1.5">
+                      {value.length === 0 && "—"}
+                      {value.map((item, index) => (
+                        <span
+                          key={index}
+                          className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 dark:bg-dark-bg-primary dark:text-dark-text-secondary"
+                        >
+                          {formatScalar(item)}
+                        </span>
+                      ))}
+                    </span>
+                  ) : (
+                    formatScalar(value)
+                  )}
+                </dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        )
+      )}
+    </section>
+  );
+};
+
+export default FrontMatterCard;
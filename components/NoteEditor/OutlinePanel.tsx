@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+import { FaBarsStaggered, FaXmark } from "react-icons/fa6";
+import { OutlineDropPosition, OutlineHeading, isWithinSection } from "./outline";
+
+interface OutlinePanelProps {
+  headings: OutlineHeading[];
+  // Heading of the section in view, or -1
+  activeIndex: number;
+  onSelect: (index: number) => void;
+  onMoveSection: (from: number, to: number, position: OutlineDropPosition) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+/**
+ * The note's headings. Clicking one shows it in the editor and the preview;
+ * dragging one moves its whole section.
+ */
+const OutlinePanel: React.FC<OutlinePanelProps> = ({
+  headings,
+  activeIndex,
+  onSelect,
+  onMoveSection,
+  onClose,
+  className = "",
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ index: number; position: OutlineDropPosition } | null>(null);
+  const minLevel = Math.min(...headings.map((heading) => heading.level));
+
+  const handleDragOver = (e: React.DragEvent<HTMLLIElement>, index: number) => {
+    // A section can't be dropped into itself
+    if (dragIndex === null || isWithinSection(headings, dragIndex, index)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    const rect = e.currentTarget.getBoundingClientRect();
+    const position = e.clientY < rect.top + rect.height / 2 ? "before" : "after";
+    if (dropTarget?.index !== index || dropTarget.position !== position) {
+      setDropTarget({ index, position });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLLIElement>) => {
+    e.preventDefault();
+    if (dragIndex !== null && dropTarget) {
+      onMoveSection(dragIndex, dropTarget.index, dropTarget.position);
+    }
+    setDragIndex(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <aside
+      className={`flex flex-col w-64 h-full border-l border-gray-200 dark:border-dark-border-color bg-gray-50 dark:bg-dark-surface text-sm ${className}`}
+      aria-label="Outline"
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-dark-border-color">
+        <span className="flex items-center gap-2 font-semibold text-gray-600 dark:text-dark-text-secondary">
+          <FaBarsStaggered className="w-3.5 h-3.5" />
+          Outline
+        </span>
+        <button
+          onClick={onClose}
+          title="Close outline"
+          className="p-1 rounded-md text-gray-500 dark:text-dark-text-muted hover:bg-gray-200 dark:hover:bg-dark-bg-secondary"
+        >
+          <FaXmark className="w-4 h-4" />
+        </button>
+      </div>
+
+      {headings.length === 0 ? (
+        <p className="p-3 text-gray-500 dark:text-dark-text-muted">
+          Headings you add to the note (# Heading) show up here.
+        </p>
+      ) : (
+        <ul className="flex-grow overflow-y-auto py-2" onDragLeave={() => setDropTarget(null)}>
+          {headings.map((heading, index) => {
+            const isDropTarget = dropTarget?.index === index;
+            return (
+              <li
+                key={`${heading.line}-${heading.text}`}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  e.dataTransfer.setData("text/plain", heading.text);
+                  setDragIndex(index);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setDropTarget(null);
+                }}
+                onDragOver={(e) => handleDragOver(e, index)}
+                onDrop={handleDrop}
+                className={`border-y-2 border-transparent ${
+                  isDropTarget && dropTarget.position === "before" ? "!border-t-accent dark:!border-t-dark-accent" : ""
+                } ${isDropTarget && dropTarget.position === "after" ? "!border-b-accent dark:!border-b-dark-accent" : ""} ${
+                  dragIndex !== null && isWithinSection(headings, dragIndex, index) ? "opacity-50" : ""
+                }`}
+              >
+                <button
+                  onClick={() => onSelect(index)}
+                  title={heading.text}
+                  style={{ paddingLeft: `${0.75 + (heading.level - minLevel) * 0.875}rem` }}
+                  className={`w-full pr-3 py-1 text-left truncate cursor-grab active:cursor-grabbing ${
+                    index === activeIndex
+                      ? "text-accent dark:text-dark-accent font-semibold bg-accent/10 dark:bg-dark-accent/10"
+                      : "text-gray-600 dark:text-dark-text-secondary hover:bg-gray-100 dark:hover:bg-dark-bg-secondary"
+                  } ${heading.level === minLevel ? "font-medium" : ""}`}
+                >
+                  {heading.text}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </aside>
+  );
+};
+
+export default OutlinePanel;
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from "react";
+import React, { useEffect, useState, useRef, useMemo } from "react";
 import {
   FaTag,
   FaDownload,
@@ -14,6 +14,10 @@ import { LoadingSpinner } from "./UIElements";
 import SelectionNavigator from "../SelectionNavigator";
 import { versionControlService } from "../../services/versionControlService";
 import { MermaidDiagram } from "./types";
+import { highlightPreviewMatches } from "./utils";
+import BacklinksPanel from "./BacklinksPanel";
+import FrontMatterCard from "./FrontMatterCard";
+import { FrontMatterService } from "../../services/frontMatterService";
 
 // Component to render markdown with embedded Mermaid diagrams
 const MarkdownWithDiagrams: React.FC<{
@@ -23,7 +27,8 @@ const MarkdownWithDiagrams: React.FC<{
   className?: string;
   style?: React.CSSProperties;
   onMouseUp?: (e: React.MouseEvent<HTMLDivElement>) => void;
-}> = ({ renderedMarkdown, mermaidDiagrams, id, className, style, onMouseUp }) => {
+  onClick?: (e: React.MouseEvent<HTMLDivElement>) => void;
+}> = ({ renderedMarkdown, mermaidDiagrams, id, className, style, onMouseUp, onClick }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const diagramRefs = useRef<{ [key: string]: HTMLDivElement }>({});
 
@@ -304,6 +309,7 @@ const MarkdownWithDiagrams: React.FC<{
       className={className}
       style={style}
       onMouseUp={onMouseUp}
+      onClick={onClick}
     >
       <div dangerouslySetInnerHTML={{ __html: renderedMarkdown }} />
     </div>
@@ -329,7 +335,14 @@ const PreviewPane: React.FC<PreviewPaneProps> = ({
   onDownload,
   onCopyAll,
   onDelete,
+  findHighlight,
+  backlinks,
+  onOpenWikiLink,
+  onOpenNote,
+  onToggleTask,
 }) => {
+  const frontMatter = useMemo(() => FrontMatterService.parse(activeNote.content), [activeNote.content]);
+
   // Compact footer when pane becomes narrow
   const [compact, setCompact] = useState(false);
   useEffect(() => {
@@ -356,6 +369,39 @@ const PreviewPane: React.FC<PreviewPaneProps> = ({
     return () => clearTimeout(timer);
   }, [renderedMarkdown]);
 
+  // Highlight the open find bar's matches in the rendered note
+  useEffect(() => {
+    const content = previewRef.current?.querySelector("#preview-content");
+    if (!content || !findHighlight) return;
+    return highlightPreviewMatches(content, findHighlight);
+  }, [renderedMarkdown, findHighlight, previewRef]);
+
+  // [[Note]] links are handled here instead of navigating, and task
+  // checkboxes toggle the task in the note
+  const handleContentClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const checkbox = (e.target as HTMLElement).closest<HTMLInputElement>("input.task-checkbox");
+    if (checkbox) {
+      // The box shows the new state once the note has changed
+      e.preventDefault();
+      onToggleTask(Array.from(e.currentTarget.querySelectorAll("input.task-checkbox")).indexOf(checkbox));
+      return;
+    }
+
+    // Footnote links scroll the preview rather than changing the page's URL
+    const footnoteLink = (e.target as HTMLElement).closest<HTMLAnchorElement>("a.footnote-link");
+    if (footnoteLink) {
+      e.preventDefault();
+      const target = e.currentTarget.querySelector(`[id="${footnoteLink.hash.slice(1)}"]`);
+      target?.scrollIntoView({ behavior: "smooth", block: "center" });
+      return;
+    }
+
+    const link = (e.target as HTMLElement).closest<HTMLAnchorElement>("a.wiki-link");
+    if (!link) return;
+    e.preventDefault();
+    onOpenWikiLink(link.dataset.wikiTarget ?? "", link.dataset.wikiHeading);
+  };
+
   return (
     <div className="flex flex-col h-full bg-gray-100 dark:bg-dark-bg-primary relative min-w-0">
       {selectionNavigator && (
@@ -407,15 +453,20 @@ const PreviewPane: React.FC<PreviewPaneProps> = ({
           )}
         </div>
         
+        {frontMatter && <FrontMatterCard entries={frontMatter.entries} />}
+
         {/* Content Section */}
         <MarkdownWithDiagrams
           id="preview-content"
           className="prose prose-sm sm:prose-base lg:prose-lg dark:prose-invert max-w-none w-full"
           style={{ userSelect: "text", cursor: "text" }}
           onMouseUp={onPreviewSelection}
+          onClick={handleContentClick}
           renderedMarkdown={renderedMarkdown}
           mermaidDiagrams={mermaidDiagrams}
         />
+
+        <BacklinksPanel backlinks={backlinks} onOpenNote={onOpenNote} />
       </div>
 
       <div className="flex-shrink-0 p-2 sm:p-3 border-t border-gray-200 dark:border-dark-border-color">
@@ -508,7 +559,11 @@ function areEqual(prev: Readonly<PreviewPaneProps>, next: Readonly<PreviewPanePr
          prev.selectionNavigator === next.selectionNavigator &&
          prev.isSuggestingTags === next.isSuggestingTags &&
          prev.isSummarizing === next.isSummarizing &&
-         prev.suggestedTags === next.suggestedTags;
+         prev.suggestedTags === next.suggestedTags &&
+         prev.findHighlight === next.findHighlight &&
+         prev.backlinks === next.backlinks &&
+         prev.onOpenWikiLink === next.onOpenWikiLink &&
+         prev.onToggleTask === next.onToggleTask;
 }
 
 export default React.memo(PreviewPane, areEqual);
@@ -0,0 +1,259 @@
+import {
+  KeymapBinding,
+  KeymapContext,
+  KeymapResult,
+  backwardWord,
+  forwardWord,
+  lineEndAt,
+  lineStartAt,
+  offsetLines,
+} from "./keymaps";
+
+// ============================================================================
+// EMACS KEYMAP
+// ============================================================================
+// The common Emacs movement and kill keys. Typing is left to the editor.
+// C-SPC sets the mark and movement then extends the region; kills go to a
+// kill ring of their own, where kills in a row join into one entry, C-y
+// yanks the latest and M-y swaps it for an older one. Ctrl and Alt keys
+// that aren't bound here are left to the editor and the app's shortcuts.
+
+export interface EmacsState {
+  // Where C-SPC set the mark, while the region is active
+  mark: number | null;
+  // The end of the region that moves
+  point: number;
+  killRing: string[];
+  // Kill ring entry the last C-y or M-y inserted, and where
+  yank: { index: number; start: number; end: number } | null;
+  // Kills in a row join up, and M-y only follows a yank
+  lastCommand: "kill" | "yank" | null;
+  // A prefix key such as C-x waiting for the next key
+  prefix: string | null;
+}
+
+type Region = [number, number];
+
+const KILL_RING_SIZE = 60;
+
+// Listed in the keyboard shortcuts help
+export const EMACS_BINDINGS: KeymapBinding[] = [
+  { key: "f", ctrlKey: true, description: "Forward a character (Ctrl + B back)" },
+  { key: "n", ctrlKey: true, description: "Next line (Ctrl + P previous)" },
+  { key: "a", ctrlKey: true, description: "Start of the line (Ctrl + E end)" },
+  { key: "f", altKey: true, description: "Forward a word (Alt + B back)" },
+  { key: "<", altKey: true, description: "Start of the note (Alt + > end)" },
+  { key: " ", ctrlKey: true, description: "Set the mark" },
+  { key: "g", ctrlKey: true, description: "Cancel" },
+  { key: "d", ctrlKey: true, description: "Delete a character" },
+  { key: "k", ctrlKey: true, description: "Kill to the end of the line" },
+  { key: "d", altKey: true, description: "Kill a word (Alt + Backspace backwards)" },
+  { key: "w", ctrlKey: true, description: "Kill the region (Alt + W copies it)" },
+  { key: "y", ctrlKey: true, description: "Yank (Alt + Y for an older kill)" },
+  { key: "t", ctrlKey: true, description: "Transpose characters" },
+  { key: "u", altKey: true, description: "Upper case a word (Alt + L lower, Alt + C capitalize)" },
+  { key: "o", ctrlKey: true, description: "Open a line" },
+  { key: "/", ctrlKey: true, description: "Undo (also Ctrl + X U)" },
+  { key: "s", ctrlKey: true, description: "Find in the note" },
+  { key: "x", ctrlKey: true, description: "Prefix: Ctrl + X H selects all, Ctrl + X Ctrl + X swaps point and mark" },
+];
+
+export const createEmacsState = (): EmacsState => ({
+  mark: null,
+  point: 0,
+  killRing: [],
+  yank: null,
+  lastCommand: null,
+  prefix: null,
+});
+
+const collapsed = (value: string, pos: number) => ({ value, selectionStart: pos, selectionEnd: pos });
+
+const regionEdit = (value: string, mark: number, point: number) => ({
+  value,
+  selectionStart: Math.min(mark, point),
+  selectionEnd: Math.max(mark, point),
+});
+
+/**
+ * Add killed text to the ring, joining it to the last kill when kills
+ * follow each other. Backward kills go in front.
+ */
+const addKill = (state: EmacsState, text: string, backward = false): string[] => {
+  if (state.lastCommand === "kill" && state.killRing.length > 0) {
+    const [latest, ...rest] = state.killRing;
+    return [backward ? text + latest : latest + text, ...rest];
+  }
+  return [text, ...state.killRing].slice(0, KILL_RING_SIZE);
+};
+
+const changeWordCase = (word: string, command: string): string => {
+  if (command === "<M-u>") return word.toUpperCase();
+  if (command === "<M-l>") return word.toLowerCase();
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+};
+
+/**
+ * Handle a key (named as by keyName) in Emacs mode
+ */
+export const handleEmacsKey = (state: EmacsState, key: string, context: KeymapContext): KeymapResult<EmacsState> => {
+  const { value, selectionStart, selectionEnd } = context;
+
+  // A click or a selection made with the mouse ends the region
+  let current = state;
+  if (current.mark !== null) {
+    const expected = regionEdit(value, current.mark, current.point);
+    if (expected.selectionStart !== selectionStart || expected.selectionEnd !== selectionEnd) {
+      current = { ...current, mark: null };
+    }
+  }
+  const active = current.mark !== null;
+  const point = active ? current.point : selectionStart === selectionEnd ? selectionStart : selectionEnd;
+  // The region to kill or copy: the marked one, or a selection
+  const region: Region | null = active
+    ? [Math.min(current.mark!, point), Math.max(current.mark!, point)]
+    : selectionStart !== selectionEnd
+      ? [selectionStart, selectionEnd]
+      : null;
+
+  const done = (changes: Partial<EmacsState>, result: Partial<KeymapResult<EmacsState>> = {}): KeymapResult<EmacsState> => ({
+    state: { ...current, lastCommand: null, prefix: null, ...changes },
+    handled: true,
+    ...result,
+  });
+  const move = (to: number): KeymapResult<EmacsState> => {
+    const target = Math.max(0, Math.min(to, value.length));
+    if (active) return done({ point: target }, { edit: regionEdit(value, current.mark!, target) });
+    return done({ point: target }, { edit: collapsed(value, target) });
+  };
+  const kill = (from: number, to: number, backward = false): KeymapResult<EmacsState> => {
+    if (from === to) return done({});
+    const killRing = addKill(current, value.slice(from, to), backward);
+    const next = value.slice(0, from) + value.slice(to);
+    return done({ killRing, mark: null, point: from, lastCommand: "kill" }, { edit: collapsed(next, from) });
+  };
+  const yankAt = (start: number, end: number, index: number): KeymapResult<EmacsState> => {
+    const text = current.killRing[index];
+    const next = value.slice(0, start) + text + value.slice(end);
+    const caret = start + text.length;
+    return done(
+      { mark: null, point: caret, lastCommand: "yank", yank: { index, start, end: caret } },
+      { edit: collapsed(next, caret) }
+    );
+  };
+
+  if (current.prefix === "<C-x>") {
+    switch (key) {
+      case "u":
+      case "<C-u>":
+        return done({}, { command: "undo" });
+      case "h":
+        return done({ mark: 0, point: value.length }, { edit: regionEdit(value, 0, value.length) });
+      case "<C-x>":
+        // Swap point and mark
+        if (!active) return done({});
+        return done({ mark: point, point: current.mark! }, { edit: regionEdit(value, point, current.mark!) });
+      default:
+        return done({});
+    }
+  }
+
+  const lineStart = lineStartAt(value, point);
+  const lineEnd = lineEndAt(value, point);
+
+  switch (key) {
+    case "<C-f>":
+      return move(point + 1);
+    case "<C-b>":
+      return move(point - 1);
+    case "<C-n>":
+      return move(offsetLines(value, point, 1, point - lineStart));
+    case "<C-p>":
+      return move(offsetLines(value, point, -1, point - lineStart));
+    case "<C-a>":
+      return move(lineStart);
+    case "<C-e>":
+      return move(lineEnd);
+    case "<M-f>":
+      return move(forwardWord(value, point));
+    case "<M-b>":
+      return move(backwardWord(value, point));
+    case "<M-<>":
+      return move(0);
+    case "<M->>":
+      return move(value.length);
+    case "<C-Space>":
+    case "<C-@>":
+      return done({ mark: point, point }, { edit: collapsed(value, point) });
+    case "<C-g>":
+      return done({ mark: null }, { edit: collapsed(value, point) });
+    case "<C-x>":
+      return { state: { ...current, prefix: key }, handled: true };
+    case "<C-d>": {
+      if (point >= value.length) return done({});
+      return done({ mark: null, point }, { edit: collapsed(value.slice(0, point) + value.slice(point + 1), point) });
+    }
+    case "<C-k>":
+      // At the end of a line, kill the line break
+      return kill(point, point === lineEnd ? Math.min(lineEnd + 1, value.length) : lineEnd);
+    case "<M-d>":
+      return kill(point, forwardWord(value, point));
+    case "<M-Backspace>":
+    case "<C-Backspace>":
+      return kill(backwardWord(value, point), point, true);
+    case "<C-w>":
+      return region ? kill(region[0], region[1]) : done({});
+    case "<M-w>": {
+      if (!region) return done({});
+      const killRing = addKill({ ...current, lastCommand: null }, value.slice(region[0], region[1]));
+      return done({ killRing, mark: null, point }, { edit: collapsed(value, point) });
+    }
+    case "<C-y>":
+      if (current.killRing.length === 0) return done({});
+      return yankAt(region ? region[0] : point, region ? region[1] : point, 0);
+    case "<M-y>": {
+      if (current.lastCommand !== "yank" || !current.yank) return done({});
+      const { start, end, index } = current.yank;
+      return yankAt(start, end, (index + 1) % current.killRing.length);
+    }
+    case "<C-t>": {
+      // Swap the characters around point, or the last two of the line
+      if (lineEnd - lineStart < 2) return done({});
+      const at = point === lineStart ? lineStart + 1 : point === lineEnd ? lineEnd - 1 : point;
+      const next = value.slice(0, at - 1) + value[at] + value[at - 1] + value.slice(at + 1);
+      return done({ mark: null, point: at + 1 }, { edit: collapsed(next, at + 1) });
+    }
+    case "<M-u>":
+    case "<M-l>":
+    case "<M-c>": {
+      const end = forwardWord(value, point);
+      let start = point;
+      while (start < end && !/[\p{L}\p{N}_]/u.test(value[start])) start++;
+      const next = value.slice(0, start) + changeWordCase(value.slice(start, end), key) + value.slice(end);
+      return done({ mark: null, point: end }, { edit: collapsed(next, end) });
+    }
+    case "<C-o>":
+      return done({ mark: null, point }, { edit: collapsed(value.slice(0, point) + "\n" + value.slice(point), point) });
+    case "<C-/>":
+    case "<C-_>":
+      return done({}, { command: "undo" });
+    case "<C-s>":
+    case "<C-r>":
+      return done({}, { command: "find" });
+  }
+
+  // Anything else is typing or someone else's shortcut: it ends the region
+  // and the run of kills
+  return {
+    state: { ...current, mark: null, lastCommand: null, prefix: null },
+    handled: false,
+  };
+};
+
+/**
+ * Label for the editor's status bar
+ */
+export const getEmacsStatus = (state: EmacsState): { label: string; detail: string } => ({
+  label: "EMACS",
+  detail: state.prefix ? `${state.prefix.slice(1, -1)}-` : state.mark !== null ? "Mark set" : "",
+});
@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useCallback, useEffect, useRef, useMemo } from "react";
 import { Note, AITextAction } from "../../types";
 import {
   UseUndoRedoReturn,
@@ -6,6 +6,12 @@ import {
   UseContextualMenuReturn,
   UseSelectionNavigatorReturn,
   UseMarkdownProcessingReturn,
+  UseFindReplaceReturn,
+  UseWikiLinksReturn,
+  UseOutlineReturn,
+  UseTasksReturn,
+  UseEditorKeymapReturn,
+  KeymapStatus,
   UndoRedoState,
   ContextualMenuState,
   SelectionNavigatorState,
@@ -19,15 +25,67 @@ import {
   processLinks,
   createCopyButton,
   addPerLineClickFunctionality,
+  pauseScrollSync,
 } from "./utils";
+import {
+  SearchOptions,
+  TextMatch,
+  DEFAULT_SEARCH_OPTIONS,
+  buildSearchRegex,
+  findMatches,
+  replaceMatches,
+} from "../../utils/textSearch";
+import { WikiLinkService } from "../../services/wikiLinkService";
+import { FrontMatterService } from "../../services/frontMatterService";
+import { AttachmentService, ATTACHMENT_URL_SCHEME } from "../../services/attachmentService";
+import { UndoHistory, UndoHistoryService, MAX_UNDO_STEPS } from "../../services/undoHistoryService";
+import { getCaretCoordinates, getPositionTops } from "../../utils/textareaCaret";
+import { OutlineDropPosition, OutlineHeading, getOutline, moveSection } from "./outline";
+import { TextEdit, lineOffset } from "./markdownEditing";
+import { TaskService } from "../../services/taskService";
+import { keyboardShortcutsService } from "../../services/keyboardShortcutsService";
+import { EditorKeymap } from "../../types/keyboardShortcuts";
+import { KeymapContext, KeymapResult, keyName } from "./keymaps";
+import { VimState, VIM_BINDINGS, createVimState, getVimStatus, handleVimKey, isVimInserting } from "./vimKeymap";
+import { EmacsState, EMACS_BINDINGS, createEmacsState, getEmacsStatus, handleEmacsKey } from "./emacsKeymap";
 
 declare const hljs: any;
 declare const mermaid: any;
 
-const MAX_HISTORY_LENGTH = 100;
+// Typing within this long of the last change, next to it, extends the same undo step
+const TYPING_STEP_MS = 1000;
+// How long changes to the undo history wait before it is stored
+const UNDO_SAVE_DELAY_MS = 1000;
+
+interface NoteUndoStacks {
+  noteId?: string;
+  undo: UndoRedoState[];
+  redo: UndoRedoState[];
+}
+
+const EMPTY_UNDO_STACKS: NoteUndoStacks = { undo: [], redo: [] };
+
+/**
+ * A note's stored undo history. If the note was changed elsewhere since (in
+ * another tab, by a version restore), undo first leads back to where the
+ * editor left it.
+ */
+const loadUndoStacks = (note: Note | undefined): NoteUndoStacks => {
+  const history = note ? UndoHistoryService.load(note.id) : null;
+  if (!note || !history) return { noteId: note?.id, undo: [], redo: [] };
+  if (history.content === (note.content || "")) {
+    return { noteId: note.id, undo: history.undo, redo: history.redo };
+  }
+  return {
+    noteId: note.id,
+    undo: [...history.undo, { content: history.content, cursorPos: history.cursorPos }].slice(-MAX_UNDO_STEPS),
+    redo: [],
+  };
+};
 
 /**
- * Hook for undo/redo functionality
+ * Hook for undo/redo functionality. Each note keeps its own history, which
+ * is stored so it survives switching notes and reloading.
  */
 export const useUndoRedo = (
   activeNote: Note | undefined,
@@ -36,9 +94,16 @@ export const useUndoRedo = (
   onUpdateNote: (note: Partial<Note>) => void,
   editorRef: React.RefObject<HTMLTextAreaElement>
 ): UseUndoRedoReturn => {
-  const [undoStack, setUndoStack] = useState<UndoRedoState[]>([]);
-  const [redoStack, setRedoStack] = useState<UndoRedoState[]>([]);
+  const [stacks, setStacks] = useState<NoteUndoStacks>(EMPTY_UNDO_STACKS);
   const lastCursorPosRef = useRef(0);
+  // When and where typing last extended the open undo step
+  const typingStepRef = useRef<{ time: number; caret: number } | null>(null);
+  // What was loaded for the note, so an unchanged history isn't stored again
+  const loadedRef = useRef<{ stacks: NoteUndoStacks; content: string }>({ stacks, content: "" });
+  const pendingSaveRef = useRef<{ noteId: string; history: UndoHistory } | null>(null);
+
+  // Until the note's history has loaded there is nothing to undo
+  const { undo: undoStack, redo: redoStack } = stacks.noteId === activeNote?.id ? stacks : EMPTY_UNDO_STACKS;
 
   // Effect to track cursor position reliably
   useEffect(() => {
@@ -58,25 +123,78 @@ export const useUndoRedo = (
     };
   }, [activeNote]);
 
-  const pushToUndoStack = useCallback((oldContent: string) => {
-    setUndoStack((prev) => {
-      const newStack = [...prev, { content: oldContent, cursorPos: lastCursorPosRef.current }];
-      if (newStack.length > MAX_HISTORY_LENGTH) {
-        return newStack.slice(newStack.length - MAX_HISTORY_LENGTH);
-      }
-      return newStack;
-    });
-    setRedoStack([]);
+  const flushUndoHistory = useCallback(() => {
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    pendingSaveRef.current = null;
+    UndoHistoryService.save(pending.noteId, pending.history);
   }, []);
 
+  // Load the note's history, storing the previous note's first
+  useEffect(() => {
+    const loaded = loadUndoStacks(activeNote);
+    loadedRef.current = { stacks: loaded, content: activeNote?.content || "" };
+    typingStepRef.current = null;
+    setStacks(loaded);
+    return flushUndoHistory;
+  }, [activeNote?.id, flushUndoHistory]);
+
+  // Store the history a moment after it or the note changes
+  useEffect(() => {
+    if (!activeNote || stacks.noteId !== activeNote.id) return;
+    const content = activeNote.content || "";
+    if (stacks === loadedRef.current.stacks && content === loadedRef.current.content) return;
+
+    pendingSaveRef.current = {
+      noteId: activeNote.id,
+      history: { content, cursorPos: lastCursorPosRef.current, undo: stacks.undo, redo: stacks.redo },
+    };
+    const timer = setTimeout(flushUndoHistory, UNDO_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [stacks, activeNote, flushUndoHistory]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flushUndoHistory);
+    return () => window.removeEventListener('pagehide', flushUndoHistory);
+  }, [flushUndoHistory]);
+
+  const pushToUndoStack = useCallback((oldContent: string, options: { coalesce?: boolean } = {}) => {
+    const editor = editorRef.current;
+    const caret = editor?.selectionStart ?? 0;
+    const now = Date.now();
+
+    if (options.coalesce) {
+      // Keep typing in one step until a pause, a jump elsewhere or a new line
+      const typing = typingStepRef.current;
+      const extendsStep = !!typing &&
+        now - typing.time < TYPING_STEP_MS &&
+        Math.abs(caret - typing.caret) <= 1 &&
+        editor?.value.charAt(caret - 1) !== "\n";
+      typingStepRef.current = { time: now, caret };
+      if (extendsStep) return;
+    } else {
+      typingStepRef.current = null;
+    }
+
+    setStacks((prev) => ({
+      ...prev,
+      undo: [...prev.undo, { content: oldContent, cursorPos: lastCursorPosRef.current }].slice(-MAX_UNDO_STEPS),
+      redo: [],
+    }));
+  }, [editorRef]);
+
   const undo = useCallback(() => {
     if (undoStack.length === 0) return;
 
     const previousState = undoStack[undoStack.length - 1];
     const currentCursorPos = editorRef.current?.selectionStart || 0;
-    
-    setUndoStack((prev) => prev.slice(0, -1));
-    setRedoStack((prev) => [...prev, { content: currentEditorContent, cursorPos: currentCursorPos }]);
+    typingStepRef.current = null;
+
+    setStacks((prev) => ({
+      ...prev,
+      undo: prev.undo.slice(0, -1),
+      redo: [...prev.redo, { content: currentEditorContent, cursorPos: currentCursorPos }],
+    }));
 
     setCurrentEditorContent(previousState.content);
     onUpdateNote({ content: previousState.content });
@@ -89,16 +207,20 @@ export const useUndoRedo = (
         textarea.setSelectionRange(pos, pos);
       }
     }, 0);
-  }, [undoStack, redoStack, currentEditorContent, onUpdateNote, editorRef, setCurrentEditorContent]);
+  }, [undoStack, currentEditorContent, onUpdateNote, editorRef, setCurrentEditorContent]);
 
   const redo = useCallback(() => {
     if (redoStack.length === 0) return;
 
     const nextState = redoStack[redoStack.length - 1];
     const currentCursorPos = editorRef.current?.selectionStart || 0;
-    
-    setRedoStack((prev) => prev.slice(0, -1));
-    setUndoStack((prev) => [...prev, { content: currentEditorContent, cursorPos: currentCursorPos }]);
+    typingStepRef.current = null;
+
+    setStacks((prev) => ({
+      ...prev,
+      redo: prev.redo.slice(0, -1),
+      undo: [...prev.undo, { content: currentEditorContent, cursorPos: currentCursorPos }],
+    }));
 
     setCurrentEditorContent(nextState.content);
     onUpdateNote({ content: nextState.content });
@@ -111,12 +233,7 @@ export const useUndoRedo = (
         textarea.setSelectionRange(pos, pos);
       }
     }, 0);
-  }, [undoStack, redoStack, currentEditorContent, onUpdateNote, editorRef, setCurrentEditorContent]);
-
-  const clearStacks = useCallback(() => {
-    setUndoStack([]);
-    setRedoStack([]);
-  }, []);
+  }, [redoStack, currentEditorContent, onUpdateNote, editorRef, setCurrentEditorContent]);
 
   return {
     undoStack,
@@ -124,7 +241,6 @@ export const useUndoRedo = (
     pushToUndoStack,
     undo,
     redo,
-    clearStacks,
   };
 };
 
@@ -394,17 +510,179 @@ export const useSelectionNavigator = (): UseSelectionNavigatorReturn => {
   };
 };
 
+/**
+ * Hook for the find/replace bar. Replacements go through the undo stack, and
+ * Replace All is a single undo step.
+ */
+export const useFindReplace = (
+  currentEditorContent: string,
+  setCurrentEditorContent: (content: string) => void,
+  onUpdateNote: (note: Partial<Note>) => void,
+  pushToUndoStack: (content: string) => void,
+  editorRef: React.RefObject<HTMLTextAreaElement>
+): UseFindReplaceReturn => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showReplace, setShowReplace] = useState(false);
+  const [query, setQuery] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [options, setOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [focusRequest, setFocusRequest] = useState(0);
+
+  const { searchRegex, error } = useMemo(() => {
+    if (!isOpen || !query) return { searchRegex: null, error: null };
+    try {
+      return { searchRegex: buildSearchRegex(query, options), error: null };
+    } catch (err) {
+      return { searchRegex: null, error: err instanceof Error ? err.message : "Invalid regular expression" };
+    }
+  }, [isOpen, query, options]);
+
+  const matches = useMemo(
+    () => (searchRegex ? findMatches(currentEditorContent, searchRegex) : []),
+    [currentEditorContent, searchRegex]
+  );
+
+  // Matches shift as the note is edited, so keep the index in range
+  const current = matches.length === 0 ? -1 : Math.min(currentIndex, matches.length - 1);
+
+  const revealMatch = useCallback((match: TextMatch, content: string) => {
+    const textarea = editorRef.current;
+    if (!textarea) return;
+    textarea.setSelectionRange(match.start, match.end);
+    const scrollPosition =
+      (match.start / Math.max(content.length, 1)) * textarea.scrollHeight - textarea.clientHeight / 2;
+    textarea.scrollTop = Math.max(0, scrollPosition);
+  }, [editorRef]);
+
+  // A new query jumps to the first match from the caret on
+  useEffect(() => {
+    if (matches.length === 0) return;
+    const caret = editorRef.current?.selectionStart ?? 0;
+    const index = Math.max(0, matches.findIndex((match) => match.start >= caret));
+    setCurrentIndex(index);
+    revealMatch(matches[index], currentEditorContent);
+  }, [searchRegex]);
+
+  const open = useCallback((withReplace: boolean) => {
+    const textarea = editorRef.current;
+    const selected = textarea ? textarea.value.slice(textarea.selectionStart, textarea.selectionEnd) : "";
+    if (selected && !selected.includes("\n")) {
+      setQuery(selected);
+    }
+    setShowReplace(withReplace);
+    setIsOpen(true);
+    setFocusRequest((count) => count + 1);
+  }, [editorRef]);
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+    // Leave the current match selected in the editor
+    editorRef.current?.focus();
+  }, [editorRef]);
+
+  const toggleOption = useCallback((option: keyof SearchOptions) => {
+    setOptions((prev) => ({ ...prev, [option]: !prev[option] }));
+  }, []);
+
+  const step = useCallback((direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    const index = (current + direction + matches.length) % matches.length;
+    setCurrentIndex(index);
+    revealMatch(matches[index], currentEditorContent);
+  }, [matches, current, revealMatch, currentEditorContent]);
+
+  const findNext = useCallback(() => step(1), [step]);
+  const findPrevious = useCallback(() => step(-1), [step]);
+
+  const applyContent = useCallback((content: string) => {
+    pushToUndoStack(currentEditorContent);
+    setCurrentEditorContent(content);
+    onUpdateNote({ content });
+  }, [pushToUndoStack, currentEditorContent, setCurrentEditorContent, onUpdateNote]);
+
+  const replaceCurrent = useCallback(() => {
+    if (current < 0 || !searchRegex) return;
+    const match = matches[current];
+    const content = replaceMatches(currentEditorContent, [match], replacement, options.useRegex);
+    applyContent(content);
+
+    // Continue after the replaced text, so a replacement containing the query is not matched again
+    const replacedEnd = match.end + content.length - currentEditorContent.length;
+    const remaining = findMatches(content, searchRegex);
+    if (remaining.length === 0) return;
+    const next = Math.max(0, remaining.findIndex((m) => m.start >= replacedEnd));
+    setCurrentIndex(next);
+    setTimeout(() => revealMatch(remaining[next], content), 0);
+  }, [current, matches, searchRegex, currentEditorContent, replacement, options.useRegex, applyContent, revealMatch]);
+
+  const replaceAll = useCallback((): number => {
+    if (matches.length === 0) return 0;
+    applyContent(replaceMatches(currentEditorContent, matches, replacement, options.useRegex));
+    return matches.length;
+  }, [matches, currentEditorContent, replacement, options.useRegex, applyContent]);
+
+  return {
+    isOpen,
+    showReplace,
+    query,
+    replacement,
+    options,
+    searchRegex,
+    error,
+    matches,
+    currentIndex: current,
+    focusRequest,
+    open,
+    close,
+    setShowReplace,
+    setQuery,
+    setReplacement,
+    toggleOption,
+    findNext,
+    findPrevious,
+    replaceCurrent,
+    replaceAll,
+  };
+};
+
 /**
  * Hook for markdown processing functionality
  */
 export const useMarkdownProcessing = (
   content: string,
-  onToast: (message: string, type: "error" | "success" | "info") => void
+  onToast: (message: string, type: "error" | "success" | "info") => void,
+  isWikiLinkTarget?: (target: string) => boolean
 ): UseMarkdownProcessingReturn => {
   const mutationObserverRef = useRef<MutationObserver | null>(null);
   const previewPaneRef = useRef<HTMLDivElement>(null);
 
-  const { html: renderedMarkdown, diagrams: mermaidDiagrams } = parseMarkdownWithDiagrams(content);
+  // Front matter is shown as a card above the preview rather than rendered
+  const { html: renderedMarkdown, diagrams: mermaidDiagrams } = parseMarkdownWithDiagrams(
+    FrontMatterService.getBody(content),
+    isWikiLinkTarget
+  );
+
+  // Attachment files are read from storage after rendering; render again once
+  // the ones in this note are loaded
+  const [, setAttachmentLoads] = useState(0);
+  const unloadedAttachmentIds = content.includes(ATTACHMENT_URL_SCHEME)
+    ? [...new Set(AttachmentService.parseReferences(content))].filter(
+        (id) => !AttachmentService.hasLoadedObjectUrl(id) && AttachmentService.get(id) !== null
+      )
+    : [];
+  const unloadedAttachmentKey = unloadedAttachmentIds.join(",");
+
+  useEffect(() => {
+    if (!unloadedAttachmentKey) return;
+    let cancelled = false;
+    Promise.all(unloadedAttachmentKey.split(",").map((id) => AttachmentService.loadObjectUrl(id))).then(() => {
+      if (!cancelled) setAttachmentLoads((count) => count + 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [unloadedAttachmentKey]);
 
   const restoreCopyButtons = useCallback(() => {
     const previewPane = previewPaneRef.current || document.querySelector(".preview-pane");
@@ -641,3 +919,437 @@ export const useMarkdownProcessing = (
     restoreCopyButtons,
   };
 };
+
+/**
+ * Hook for [[note links]]: completions, backlinks and following links,
+ * including to a heading of the linked note
+ */
+export const useWikiLinks = (
+  notes: Note[],
+  activeNote: Note | undefined,
+  editorRef: React.RefObject<HTMLTextAreaElement>,
+  previewRef: React.RefObject<HTMLDivElement>,
+  onSelectNote: (id: string) => void,
+  onAddNote: (note: Note) => void,
+  onToast: (message: string, type: "error" | "success" | "info") => void
+): UseWikiLinksReturn => {
+  // Heading to show once the linked note has opened
+  const pendingHeadingRef = useRef<string | null>(null);
+
+  const backlinks = useMemo(
+    () => (activeNote ? WikiLinkService.findBacklinks(notes, activeNote) : []),
+    [notes, activeNote]
+  );
+
+  const getCompletions = useCallback(
+    (query: string) => (activeNote ? WikiLinkService.getCompletions(notes, activeNote, query) : []),
+    [notes, activeNote]
+  );
+
+  const isLinkTarget = useCallback(
+    (target: string) => WikiLinkService.resolve(notes, target) !== undefined,
+    [notes]
+  );
+
+  const revealHeading = useCallback((heading: string) => {
+    const textarea = editorRef.current;
+    const offset = WikiLinkService.findHeadingOffset(textarea?.value ?? "", heading);
+    if (offset === -1) {
+      onToast(`Heading "${heading}" not found`, "info");
+      return;
+    }
+
+    if (textarea) {
+      textarea.focus();
+      textarea.setSelectionRange(offset, offset);
+      const scrollPosition = (offset / Math.max(textarea.value.length, 1)) * textarea.scrollHeight;
+      textarea.scrollTop = Math.max(0, scrollPosition - textarea.clientHeight / 3);
+    }
+
+    const key = heading.trim().toLowerCase();
+    const headingElement = Array.from(
+      previewRef.current?.querySelector("#preview-content")?.querySelectorAll("h1, h2, h3, h4, h5, h6") ?? []
+    ).find((element) => (element.textContent ?? "").trim().toLowerCase() === key);
+    headingElement?.scrollIntoView({ block: "start", behavior: "smooth" });
+  }, [editorRef, previewRef, onToast]);
+
+  const openLink = useCallback((target: string, heading?: string) => {
+    if (!activeNote) return;
+    const note = target ? WikiLinkService.resolve(notes, target) : activeNote;
+
+    if (!note) {
+      if (!WikiLinkService.isLinkableTitle(target)) return;
+      const now = Date.now();
+      onAddNote({
+        id: crypto.randomUUID(),
+        title: target.trim(),
+        content: "",
+        createdAt: now,
+        updatedAt: now,
+        tags: [],
+        isPinned: false,
+        projectId: activeNote.projectId ?? null,
+      });
+      onToast(`Created "${target.trim()}"`, "success");
+      return;
+    }
+
+    if (note.id === activeNote.id) {
+      if (heading) revealHeading(heading);
+      return;
+    }
+    pendingHeadingRef.current = heading ?? null;
+    onSelectNote(note.id);
+  }, [notes, activeNote, onAddNote, onSelectNote, onToast, revealHeading]);
+
+  const revealPendingHeading = useCallback(() => {
+    const heading = pendingHeadingRef.current;
+    pendingHeadingRef.current = null;
+    if (!heading) return false;
+    revealHeading(heading);
+    return true;
+  }, [revealHeading]);
+
+  return {
+    backlinks,
+    getCompletions,
+    isLinkTarget,
+    openLink,
+    revealPendingHeading,
+  };
+};
+
+// How far below the top of a pane a heading must scroll to make its section current
+const OUTLINE_READING_LINE = 48;
+
+/**
+ * The preview's heading elements for each outline heading: by position when
+ * every heading was rendered, otherwise by text
+ */
+const getPreviewHeadings = (
+  preview: HTMLElement | null,
+  headings: OutlineHeading[]
+): Array<Element | undefined> => {
+  const elements = Array.from(
+    preview?.querySelector("#preview-content")?.querySelectorAll("h1, h2, h3, h4, h5, h6") ?? []
+  );
+  if (elements.length === headings.length) return elements;
+
+  const used = new Set<Element>();
+  return headings.map((heading) => {
+    const key = heading.text.toLowerCase();
+    const element = elements.find(
+      (candidate) => !used.has(candidate) && (candidate.textContent ?? "").trim().toLowerCase() === key
+    );
+    if (element) used.add(element);
+    return element;
+  });
+};
+
+/**
+ * Index of the last heading at or above the reading line. At the end of the
+ * pane the bottom edge is used, so the last sections can become current too.
+ */
+const findCurrentHeading = (tops: number[], pane: HTMLElement, paneTop: number): number => {
+  const atEnd = pane.scrollTop + pane.clientHeight >= pane.scrollHeight - 2;
+  const line = paneTop + (atEnd ? pane.clientHeight : OUTLINE_READING_LINE);
+  let current = -1;
+  tops.forEach((top, index) => {
+    if (top <= line) current = index;
+  });
+  return current;
+};
+
+/**
+ * Hook for the outline panel: the note's headings, the section in view while
+ * either pane scrolls, jumping to a heading and moving sections
+ */
+export const useOutline = (
+  content: string,
+  editorRef: React.RefObject<HTMLTextAreaElement>,
+  previewRef: React.RefObject<HTMLDivElement>,
+  setCurrentEditorContent: (content: string) => void,
+  onUpdateNote: (note: Partial<Note>) => void,
+  pushToUndoStack: (content: string) => void,
+  // Track the section in view only while the panel is shown
+  isEnabled: boolean,
+  // Changes when the panes are swapped, so scroll listeners are attached again
+  layoutKey: string
+): UseOutlineReturn => {
+  const headings = useMemo(() => getOutline(content), [content]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  // Heading tops in the editor, measured again when the text or width changes
+  const editorTopsRef = useRef<{ content: string; width: number; tops: number[] } | null>(null);
+
+  useEffect(() => {
+    if (!isEnabled) return;
+    const editor = editorRef.current;
+    const preview = previewRef.current;
+    let frame = 0;
+
+    const updateFromEditor = () => {
+      if (!editor) return;
+      let measured = editorTopsRef.current;
+      if (!measured || measured.content !== content || measured.width !== editor.clientWidth) {
+        measured = {
+          content,
+          width: editor.clientWidth,
+          tops: getPositionTops(editor, headings.map((heading) => heading.offset)),
+        };
+        editorTopsRef.current = measured;
+      }
+      setActiveIndex(findCurrentHeading(measured.tops, editor, editor.scrollTop));
+    };
+
+    const updateFromPreview = () => {
+      if (!preview) return;
+      const paneTop = preview.getBoundingClientRect().top;
+      const tops = getPreviewHeadings(preview, headings).map((element) =>
+        element ? element.getBoundingClientRect().top : Infinity
+      );
+      setActiveIndex(findCurrentHeading(tops, preview, paneTop));
+    };
+
+    // The pane scrolled last decides; in split view the other one follows it
+    const schedule = (update: () => void) => () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(update);
+    };
+    const handleEditorScroll = schedule(updateFromEditor);
+    const handlePreviewScroll = schedule(updateFromPreview);
+
+    editor?.addEventListener("scroll", handleEditorScroll);
+    preview?.addEventListener("scroll", handlePreviewScroll);
+    if (preview) handlePreviewScroll();
+    else handleEditorScroll();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      editor?.removeEventListener("scroll", handleEditorScroll);
+      preview?.removeEventListener("scroll", handlePreviewScroll);
+    };
+  }, [isEnabled, layoutKey, content, headings, editorRef, previewRef]);
+
+  const jumpTo = useCallback((index: number) => {
+    const heading = headings[index];
+    if (!heading) return;
+
+    // Both panes are placed here; syncing would pull one of them off the heading
+    pauseScrollSync();
+    const editor = editorRef.current;
+    if (editor) {
+      editor.focus({ preventScroll: true });
+      editor.setSelectionRange(heading.offset, heading.offset);
+      editor.scrollTop = getCaretCoordinates(editor, heading.offset).top;
+    }
+    getPreviewHeadings(previewRef.current, headings)[index]?.scrollIntoView({ block: "start", behavior: "smooth" });
+    setActiveIndex(index);
+  }, [headings, editorRef, previewRef]);
+
+  const moveOutlineSection = useCallback((from: number, to: number, position: OutlineDropPosition) => {
+    const edit = moveSection(content, from, to, position);
+    if (!edit) return;
+
+    pushToUndoStack(content);
+    setCurrentEditorContent(edit.value);
+    onUpdateNote({ content: edit.value });
+    setTimeout(() => {
+      editorRef.current?.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    }, 0);
+  }, [content, pushToUndoStack, setCurrentEditorContent, onUpdateNote, editorRef]);
+
+  return {
+    headings,
+    activeIndex,
+    jumpTo,
+    moveSection: moveOutlineSection,
+  };
+};
+
+/**
+ * Hook for the note's tasks: ticking them from the preview, and showing the
+ * line of a task picked in the Tasks view
+ */
+export const useTasks = (
+  activeNoteId: string | undefined,
+  content: string,
+  editorRef: React.RefObject<HTMLTextAreaElement>,
+  previewRef: React.RefObject<HTMLDivElement>,
+  setCurrentEditorContent: (content: string) => void,
+  onUpdateNote: (note: Partial<Note>) => void,
+  pushToUndoStack: (content: string) => void
+): UseTasksReturn => {
+  // Task line to show once its note has opened
+  const pendingLineRef = useRef<{ noteId: string; line: number } | null>(null);
+
+  const toggleTask = useCallback((index: number) => {
+    const task = TaskService.getTasks(content)[index];
+    const toggled = task ? TaskService.toggleTask(content, task.line) : null;
+    if (toggled === null) return;
+    pushToUndoStack(content);
+    setCurrentEditorContent(toggled);
+    onUpdateNote({ content: toggled });
+  }, [content, pushToUndoStack, setCurrentEditorContent, onUpdateNote]);
+
+  const revealLine = useCallback((line: number) => {
+    const editor = editorRef.current;
+    const value = editor?.value ?? content;
+    const lines = value.split("\n");
+    if (line >= lines.length) return;
+
+    pauseScrollSync();
+    if (editor) {
+      const offset = lineOffset(lines, line);
+      editor.focus({ preventScroll: true });
+      editor.setSelectionRange(offset + lines[line].length, offset + lines[line].length);
+      editor.scrollTop = Math.max(0, getCaretCoordinates(editor, offset).top - editor.clientHeight / 3);
+    }
+    const index = TaskService.getTasks(value).findIndex((task) => task.line === line);
+    previewRef.current
+      ?.querySelectorAll("#preview-content input.task-checkbox")[index]
+      ?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [content, editorRef, previewRef]);
+
+  // The Tasks view asks for a line before it opens the task's note
+  useEffect(() => {
+    const handleRevealLine = (event: Event) => {
+      const { noteId, line } = (event as CustomEvent<{ noteId: string; line: number }>).detail;
+      if (noteId === activeNoteId) revealLine(line);
+      else pendingLineRef.current = { noteId, line };
+    };
+    document.addEventListener("revealNoteLine", handleRevealLine);
+    return () => document.removeEventListener("revealNoteLine", handleRevealLine);
+  }, [activeNoteId, revealLine]);
+
+  const revealPendingLine = useCallback(() => {
+    const pending = pendingLineRef.current;
+    pendingLineRef.current = null;
+    if (!pending || pending.noteId !== activeNoteId) return false;
+    revealLine(pending.line);
+    return true;
+  }, [activeNoteId, revealLine]);
+
+  return {
+    toggleTask,
+    revealPendingLine,
+  };
+};
+
+/**
+ * Hook for the editor's Vim or Emacs keys. Their edits go through the undo
+ * stack like the editor's own, and their keys are listed in the keyboard
+ * shortcuts help while they are on.
+ */
+export const useEditorKeymap = (
+  keymap: EditorKeymap,
+  activeNoteId: string | undefined,
+  editorRef: React.RefObject<HTMLTextAreaElement>,
+  setCurrentEditorContent: (content: string) => void,
+  onUpdateNote: (note: Partial<Note>) => void,
+  pushToUndoStack: (content: string) => void,
+  commands: { undo: () => void; redo: () => void; find: () => void }
+): UseEditorKeymapReturn => {
+  // Read and replaced on every key, so they live in refs
+  const vimStateRef = useRef<VimState>(createVimState());
+  const emacsStateRef = useRef<EmacsState>(createEmacsState());
+  const [status, setStatus] = useState<KeymapStatus | null>(null);
+
+  const updateStatus = useCallback(() => {
+    const next: KeymapStatus | null =
+      keymap === "vim"
+        ? { ...getVimStatus(vimStateRef.current), typing: isVimInserting(vimStateRef.current) }
+        : keymap === "emacs"
+          ? { ...getEmacsStatus(emacsStateRef.current), typing: true }
+          : null;
+    setStatus((prev) =>
+      prev && next && prev.label === next.label && prev.detail === next.detail && prev.typing === next.typing ? prev : next
+    );
+  }, [keymap]);
+
+  // Every note starts in normal mode; registers and the kill ring carry over
+  useEffect(() => {
+    vimStateRef.current = { ...vimStateRef.current, mode: "normal", pending: [], insert: null, column: null };
+    emacsStateRef.current = { ...emacsStateRef.current, mark: null, prefix: null, yank: null, lastCommand: null };
+    updateStatus();
+  }, [activeNoteId, updateStatus]);
+
+  useEffect(() => {
+    const bindings = keymap === "vim" ? VIM_BINDINGS : keymap === "emacs" ? EMACS_BINDINGS : [];
+    // Listed in the shortcuts help only: the editor handles these keys, and
+    // the shortcut listener never sees them
+    keyboardShortcutsService.setKeymapShortcuts(
+      bindings.map((binding, index) => ({
+        ...binding,
+        id: `${keymap}-${index}`,
+        category: "keymap",
+      }))
+    );
+    return () => keyboardShortcutsService.setKeymapShortcuts([]);
+  }, [keymap]);
+
+  const revealCaret = useCallback((editor: HTMLTextAreaElement, pos: number) => {
+    const { top, height } = getCaretCoordinates(editor, pos);
+    if (top < editor.scrollTop) editor.scrollTop = top;
+    else if (top + height > editor.scrollTop + editor.clientHeight) editor.scrollTop = top + height - editor.clientHeight;
+  }, []);
+
+  const applyEdit = useCallback((editor: HTMLTextAreaElement, edit: TextEdit, caret: number) => {
+    if (edit.value === editor.value) {
+      editor.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+      revealCaret(editor, caret);
+      return;
+    }
+    pushToUndoStack(editor.value);
+    setCurrentEditorContent(edit.value);
+    onUpdateNote({ content: edit.value });
+    setTimeout(() => {
+      const current = editorRef.current;
+      if (!current) return;
+      current.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+      revealCaret(current, caret);
+    }, 0);
+  }, [editorRef, pushToUndoStack, setCurrentEditorContent, onUpdateNote, revealCaret]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    const editor = editorRef.current;
+    if (keymap === "default" || !editor || e.nativeEvent.isComposing) return false;
+    const key = keyName(e);
+    if (!key) return false;
+
+    const lineHeight = parseFloat(getComputedStyle(editor).lineHeight) || 24;
+    const context: KeymapContext = {
+      value: editor.value,
+      selectionStart: editor.selectionStart,
+      selectionEnd: editor.selectionEnd,
+      pageLines: Math.max(1, Math.floor(editor.clientHeight / lineHeight)),
+    };
+    let result: KeymapResult<unknown>;
+    if (keymap === "vim") {
+      const vim = handleVimKey(vimStateRef.current, key, context);
+      vimStateRef.current = vim.state;
+      result = vim;
+    } else {
+      const emacs = handleEmacsKey(emacsStateRef.current, key, context);
+      emacsStateRef.current = emacs.state;
+      result = emacs;
+    }
+    updateStatus();
+    if (!result.handled) return false;
+
+    e.preventDefault();
+    // Keep the key from the app's shortcut listener as well
+    e.stopPropagation();
+    if (result.edit) {
+      // Keep the end that moved in view
+      const caret = result.edit.selectionStart !== context.selectionStart ? result.edit.selectionStart : result.edit.selectionEnd;
+      applyEdit(editor, result.edit, caret);
+    }
+    if (result.command) commands[result.command]();
+    return true;
+  }, [keymap, editorRef, updateStatus, applyEdit, commands]);
+
+  return {
+    status,
+    handleKeyDown,
+  };
+};
@@ -0,0 +1,208 @@
+import { KeyboardShortcut } from "../../types/keyboardShortcuts";
+import { TextEdit } from "./markdownEditing";
+
+// ============================================================================
+// EDITOR KEYMAPS
+// ============================================================================
+// What the Vim and Emacs keymaps share: naming key presses, the shape of a
+// keymap's answer, and the text motions both move by. A keymap is a pure
+// function of its state, a key and the textarea's value and selection; the
+// editor applies the edit it returns and runs its command.
+
+export interface KeymapContext {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+  // Lines the editor shows at once, for paging
+  pageLines: number;
+}
+
+// Editor actions a keymap can ask for
+export type KeymapCommand = "undo" | "redo" | "find";
+
+export interface KeymapResult<State> {
+  state: State;
+  // Whether the key was used; unused keys are left to the editor
+  handled: boolean;
+  edit?: TextEdit;
+  command?: KeymapCommand;
+}
+
+// A key listed in the keyboard shortcuts help
+export type KeymapBinding = Pick<KeyboardShortcut, "key" | "ctrlKey" | "altKey" | "description">;
+
+const MODIFIER_KEYS = new Set(["Shift", "Control", "Alt", "Meta", "CapsLock", "AltGraph"]);
+
+/**
+ * Name of a key press: the character for plain keys ("a", "A", "$"), the
+ * key name for others ("Escape", "ArrowLeft"), and "<C-a>", "<M-f>" or
+ * "<C-M-a>" with Ctrl and Alt. Null for modifier keys on their own and for
+ * Cmd combinations, which keymaps leave alone.
+ */
+export const keyName = (e: {
+  key: string;
+  code: string;
+  ctrlKey: boolean;
+  altKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+}): string | null => {
+  if (MODIFIER_KEYS.has(e.key) || e.metaKey) return null;
+  if (!e.ctrlKey && !e.altKey) return e.key;
+
+  let key = e.key;
+  // Alt changes the character typed on macOS, so Alt keys are named by code
+  if (e.altKey && /^Key[A-Z]$/.test(e.code)) key = e.shiftKey ? e.code[3] : e.code[3].toLowerCase();
+  else if (e.altKey && /^Digit\d$/.test(e.code)) key = e.code[5];
+  else if (e.altKey && e.code === "Comma") key = e.shiftKey ? "<" : ",";
+  else if (e.altKey && e.code === "Period") key = e.shiftKey ? ">" : ".";
+  else if (key === " ") key = "Space";
+  else if (key.length === 1 && !e.shiftKey) key = key.toLowerCase();
+
+  return `<${e.ctrlKey ? "C-" : ""}${e.altKey ? "M-" : ""}${key}>`;
+};
+
+// ============================================================================
+// TEXT MOTIONS
+// ============================================================================
+
+export const lineStartAt = (value: string, pos: number): number =>
+  pos <= 0 ? 0 : value.lastIndexOf("\n", pos - 1) + 1;
+
+export const lineEndAt = (value: string, pos: number): number => {
+  const end = value.indexOf("\n", pos);
+  return end === -1 ? value.length : end;
+};
+
+export const firstNonBlankAt = (value: string, pos: number): number => {
+  const start = lineStartAt(value, pos);
+  const end = lineEndAt(value, pos);
+  let index = start;
+  while (index < end && /[ \t]/.test(value[index])) index++;
+  return index;
+};
+
+/**
+ * Offset `delta` lines away from `pos`, at `column` or the end of the line
+ */
+export const offsetLines = (value: string, pos: number, delta: number, column: number): number => {
+  let start = lineStartAt(value, pos);
+  for (let step = 0; step < Math.abs(delta); step++) {
+    if (delta > 0) {
+      const end = lineEndAt(value, start);
+      if (end === value.length) break;
+      start = end + 1;
+    } else {
+      if (start === 0) break;
+      start = lineStartAt(value, start - 1);
+    }
+  }
+  return Math.min(start + column, lineEndAt(value, start));
+};
+
+// 0 whitespace, 1 punctuation, 2 word characters
+const charClass = (char: string | undefined, bigWord: boolean): number => {
+  if (char === undefined || /\s/.test(char)) return 0;
+  if (bigWord) return 1;
+  return /[\p{L}\p{N}_]/u.test(char) ? 2 : 1;
+};
+
+const isEmptyLine = (value: string, pos: number): boolean =>
+  value[pos] === "\n" && (pos === 0 || value[pos - 1] === "\n");
+
+/**
+ * Start of the next word (Vim's w and W). Empty lines count as words.
+ */
+export const nextWordStart = (value: string, pos: number, bigWord = false): number => {
+  let index = pos;
+  const startClass = charClass(value[index], bigWord);
+  if (startClass !== 0) {
+    while (index < value.length && charClass(value[index], bigWord) === startClass) index++;
+  }
+  while (index < value.length && charClass(value[index], bigWord) === 0) {
+    if (index !== pos && isEmptyLine(value, index)) return index;
+    index++;
+  }
+  return index;
+};
+
+/**
+ * Last character of the word at or after `pos + 1` (Vim's e and E)
+ */
+export const wordEnd = (value: string, pos: number, bigWord = false): number => {
+  let index = pos + 1;
+  while (index < value.length && charClass(value[index], bigWord) === 0) index++;
+  if (index >= value.length) return Math.max(0, value.length - 1);
+  const wordClass = charClass(value[index], bigWord);
+  while (index + 1 < value.length && charClass(value[index + 1], bigWord) === wordClass) index++;
+  return index;
+};
+
+/**
+ * Start of the word before `pos` (Vim's b and B)
+ */
+export const previousWordStart = (value: string, pos: number, bigWord = false): number => {
+  let index = pos - 1;
+  while (index > 0 && charClass(value[index], bigWord) === 0) {
+    if (isEmptyLine(value, index)) return index;
+    index--;
+  }
+  if (index <= 0) return 0;
+  const wordClass = charClass(value[index], bigWord);
+  while (index > 0 && charClass(value[index - 1], bigWord) === wordClass) index--;
+  return index;
+};
+
+/**
+ * End of the next word, punctuation skipped (Emacs's M-f)
+ */
+export const forwardWord = (value: string, pos: number): number => {
+  let index = pos;
+  while (index < value.length && charClass(value[index], false) !== 2) index++;
+  while (index < value.length && charClass(value[index], false) === 2) index++;
+  return index;
+};
+
+/**
+ * Start of the previous word, punctuation skipped (Emacs's M-b)
+ */
+export const backwardWord = (value: string, pos: number): number => {
+  let index = pos;
+  while (index > 0 && charClass(value[index - 1], false) !== 2) index--;
+  while (index > 0 && charClass(value[index - 1], false) === 2) index--;
+  return index;
+};
+
+/**
+ * Word or run of punctuation or whitespace under `pos`, as [start, end)
+ */
+export const wordRangeAt = (value: string, pos: number, bigWord = false): [number, number] => {
+  const wordClass = charClass(value[pos], bigWord);
+  let start = pos;
+  let end = pos;
+  const sameRun = (char: string | undefined) => char !== "\n" && charClass(char, bigWord) === wordClass;
+  while (start > 0 && sameRun(value[start - 1])) start--;
+  while (end < value.length && sameRun(value[end])) end++;
+  return [start, Math.max(end, Math.min(pos + 1, value.length))];
+};
+
+/**
+ * Start of the next or previous blank line (Vim's } and {, Emacs's M-} and M-{)
+ */
+export const paragraphBoundary = (value: string, pos: number, direction: 1 | -1): number => {
+  const lines = value.split("\n");
+  const starts: number[] = [];
+  let offset = 0;
+  lines.forEach((line) => {
+    starts.push(offset);
+    offset += line.length + 1;
+  });
+  let line = value.slice(0, pos).split("\n").length - 1;
+  const isBlank = (index: number) => !lines[index].trim();
+
+  // Move off the blank lines at the cursor, then to the next blank line
+  while (line + direction >= 0 && line + direction < lines.length && isBlank(line)) line += direction;
+  while (line + direction >= 0 && line + direction < lines.length && !isBlank(line)) line += direction;
+  if (!isBlank(line)) return direction > 0 ? value.length : 0;
+  return starts[line];
+};
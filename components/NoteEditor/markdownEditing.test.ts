@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { TextEdit, continueBlock, indentLines, outdentLines } from './markdownEditing';
+
+type Transform = (value: string, selectionStart: number, selectionEnd: number) => TextEdit | null;
+
+/**
+ * Apply a transform to text with `|` marking the caret, or two `|` marking a
+ * selection, and return the result marked the same way
+ */
+const apply = (transform: Transform, text: string): string | null => {
+  const selectionStart = text.indexOf('|');
+  const selectionEnd = text.lastIndexOf('|') - (text.lastIndexOf('|') === selectionStart ? 0 : 1);
+  const edit = transform(text.replace(/\|/g, ''), selectionStart, selectionEnd);
+  if (!edit) return null;
+  const { value, selectionStart: start, selectionEnd: end } = edit;
+  return start === end
+    ? value.slice(0, start) + '|' + value.slice(start)
+    : value.slice(0, start) + '|' + value.slice(start, end) + '|' + value.slice(end);
+};
+
+describe('continueBlock', () => {
+  it('continues bullets, tasks and quotes', () => {
+    expect(apply(continueBlock, '- one|')).toBe('- one\n- |');
+    expect(apply(continueBlock, '  * [x] done|')).toBe('  * [x] done\n  * [ ] |');
+    expect(apply(continueBlock, '> quoted|')).toBe('> quoted\n> |');
+  });
+
+  it('splits the item at the caret', () => {
+    expect(apply(continueBlock, '- one|two')).toBe('- one\n- |two');
+  });
+
+  it('ends the list on an empty item', () => {
+    expect(apply(continueBlock, '- one\n- |')).toBe('- one\n|');
+    expect(apply(continueBlock, '- one\n- [ ] |')).toBe('- one\n|');
+    expect(apply(continueBlock, '> one\n> |')).toBe('> one\n|');
+  });
+
+  it('outdents an empty nested item', () => {
+    expect(apply(continueBlock, '- one\n  - |')).toBe('- one\n- |');
+  });
+
+  it('renumbers the ordered items after the new one', () => {
+    expect(apply(continueBlock, '1. one|\n2. two\n3. three')).toBe('1. one\n2. |\n3. two\n4. three');
+    expect(apply(continueBlock, '3) three|')).toBe('3) three\n4) |');
+  });
+
+  it('keeps the indentation in code blocks and leaves other lines alone', () => {
+    expect(apply(continueBlock, '```\n  - code|\n```')).toBe('```\n  - code\n  |\n```');
+    expect(apply(continueBlock, 'plain|')).toBeNull();
+    expect(apply(continueBlock, '|- one|')).toBeNull();
+  });
+});
+
+describe('indentLines', () => {
+  it('nests a list item under the one above', () => {
+    expect(apply(indentLines, '- one\n- |two')).toBe('- one\n  - |two');
+    expect(apply(indentLines, '1. one\n2. |two')).toBe('1. one\n   1. |two');
+  });
+
+  it('inserts indentation at the caret on a plain line', () => {
+    expect(apply(indentLines, 'a|b')).toBe('a  |b');
+  });
+
+  it('indents every line of a selection and keeps it selected', () => {
+    expect(apply(indentLines, '|one\ntwo|\nthree')).toBe('  |one\n  two|\nthree');
+    expect(apply(indentLines, '- one\n- t|wo\n- thr|ee')).toBe('- one\n  - t|wo\n  - thr|ee');
+  });
+
+  it('leaves a line the selection ends at the start of alone', () => {
+    expect(apply(indentLines, '|one\n|two')).toBe('  |one\n|two');
+  });
+
+  it('renumbers the list the items leave and the one they join', () => {
+    expect(apply(indentLines, '1. one\n2. |two\n3. three')).toBe('1. one\n   1. |two\n2. three');
+  });
+});
+
+describe('outdentLines', () => {
+  it('moves a nested item up to its parent level', () => {
+    expect(apply(outdentLines, '- one\n  - |two')).toBe('- one\n- |two');
+  });
+
+  it('outdents every line of a selection', () => {
+    expect(apply(outdentLines, '  |one\n    two|')).toBe('|one\n  two|');
+  });
+
+  it('renumbers the list an item rejoins', () => {
+    expect(apply(outdentLines, '1. one\n   1. |two\n2. three')).toBe('1. one\n2. |two\n3. three');
+  });
+
+  it('does nothing when there is no indentation', () => {
+    expect(apply(outdentLines, '- |one')).toBeNull();
+  });
+});
@@ -0,0 +1,419 @@
+// ============================================================================
+// MARKDOWN STRUCTURAL EDITING
+// ============================================================================
+// Pure text transforms behind the editor's keyboard handling: continuing
+// lists and quotes on Enter, indenting with Tab, moving lines and pairing
+// brackets. Each takes the textarea value and selection and returns the
+// edited value and selection, or null when the key should behave normally.
+
+export interface TextEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+interface ListItem {
+  indent: string;
+  // "-", "*", "+", "1." or "1)"
+  marker: string;
+  spacing: string;
+  // "[ ] " or "[x] " for task list items
+  checkbox: string;
+  // Offset of the item text within the line
+  contentStart: number;
+}
+
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])(\s+)(\[[ xX]\]\s+)?/;
+const ORDERED_MARKER_PATTERN = /^(\d+)([.)])$/;
+const BLOCKQUOTE_PATTERN = /^\s*(?:>\s?)+/;
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/;
+const INDENT_UNIT = '  ';
+
+const BRACKET_PAIRS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSING_BRACKETS = new Set(Object.values(BRACKET_PAIRS));
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const parseListItem = (line: string): ListItem | null => {
+  const match = line.match(LIST_ITEM_PATTERN);
+  if (!match) return null;
+  return {
+    indent: match[1],
+    marker: match[2],
+    spacing: match[3],
+    checkbox: match[4] || '',
+    contentStart: match[0].length,
+  };
+};
+
+const leadingWhitespace = (line: string): string => line.match(/^\s*/)![0];
+
+export const lineIndexAt = (value: string, pos: number): number => {
+  let index = 0;
+  for (let i = value.indexOf('\n'); i !== -1 && i < pos; i = value.indexOf('\n', i + 1)) {
+    index++;
+  }
+  return index;
+};
+
+export const lineOffset = (lines: string[], index: number): number => {
+  let offset = 0;
+  for (let i = 0; i < index; i++) {
+    offset += lines[i].length + 1;
+  }
+  return offset;
+};
+
+/**
+ * Whether a line sits inside a fenced code block
+ */
+export const isInCodeFence = (lines: string[], index: number): boolean => {
+  let inside = false;
+  for (let i = 0; i < index; i++) {
+    if (CODE_FENCE_PATTERN.test(lines[i])) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * First and last line touched by a selection. A selection ending right at
+ * the start of a line does not include that line.
+ */
+const selectedLineRange = (value: string, selectionStart: number, selectionEnd: number): [number, number] => {
+  const first = lineIndexAt(value, selectionStart);
+  let last = lineIndexAt(value, selectionEnd);
+  if (last > first && value[selectionEnd - 1] === '\n') last--;
+  return [first, last];
+};
+
+/**
+ * Renumber the ordered list containing `index`. The list starts from its
+ * first item's number, or from 1 if that item lies in the edited range.
+ */
+const renumberList = (lines: string[], index: number, editedFrom: number, editedTo: number): void => {
+  const item = parseListItem(lines[index]);
+  if (!item || !ORDERED_MARKER_PATTERN.test(item.marker)) return;
+
+  const indent = item.indent.length;
+  const belongsToList = (line: string): 'item' | 'nested' | null => {
+    if (!line.trim()) return null;
+    const other = parseListItem(line);
+    if (other && other.indent.length === indent) {
+      return ORDERED_MARKER_PATTERN.test(other.marker) ? 'item' : null;
+    }
+    return leadingWhitespace(line).length > indent ? 'nested' : null;
+  };
+
+  let first = index;
+  for (let i = index - 1; i >= 0; i--) {
+    const kind = belongsToList(lines[i]);
+    if (!kind) break;
+    if (kind === 'item') first = i;
+  }
+
+  const firstNumber = Number(parseListItem(lines[first])!.marker.match(ORDERED_MARKER_PATTERN)![1]);
+  let number = first >= editedFrom && first <= editedTo ? 1 : firstNumber;
+
+  for (let i = first; i < lines.length; i++) {
+    const kind = belongsToList(lines[i]);
+    if (!kind) break;
+    if (kind === 'nested') continue;
+
+    const current = parseListItem(lines[i])!;
+    const [, , delimiter] = current.marker.match(ORDERED_MARKER_PATTERN)!;
+    const marker = `${number}${delimiter}`;
+    lines[i] = current.indent + marker + lines[i].slice(current.indent.length + current.marker.length);
+    number++;
+  }
+};
+
+/**
+ * Renumber every ordered list touching the edited lines, including the
+ * lists just above and below them
+ */
+const renumberListsAround = (lines: string[], editedFrom: number, editedTo: number): void => {
+  const from = Math.max(0, editedFrom - 1);
+  const to = Math.min(lines.length - 1, editedTo + 1);
+  for (let i = from; i <= to; i++) {
+    renumberList(lines, i, editedFrom, editedTo);
+  }
+};
+
+export const buildEdit = (lines: string[], selectionStart: number, selectionEnd: number): TextEdit => {
+  const value = lines.join('\n');
+  const clamp = (pos: number) => Math.max(0, Math.min(pos, value.length));
+  return { value, selectionStart: clamp(selectionStart), selectionEnd: clamp(selectionEnd) };
+};
+
+/**
+ * Replace [start, end) with a block on lines of its own. A blank line is kept
+ * between the block and text around it, so a divider doesn't turn the line
+ * above into a heading and the line below doesn't join the block. The
+ * selection is given as offsets within the block.
+ */
+export const insertBlock = (
+  value: string,
+  start: number,
+  end: number,
+  block: string,
+  blockSelectionStart: number,
+  blockSelectionEnd = blockSelectionStart
+): TextEdit => {
+  const before = value.slice(0, start);
+  const after = value.slice(end);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  const lineRest = after.match(/^[^\n]*/)![0];
+
+  const prefix = before.slice(lineStart).trim()
+    ? `${before.trimEnd()}\n\n`
+    : before.slice(0, lineStart) + (/\S[ \t]*\n$/.test(before.slice(0, lineStart)) ? '\n' : '');
+  const following = after.slice(lineRest.length);
+  const suffix = lineRest.trim()
+    ? `\n\n${after.trimStart()}`
+    : /^\n[ \t]*\S/.test(following) ? `\n${following}` : following;
+
+  return {
+    value: prefix + block + suffix,
+    selectionStart: prefix.length + blockSelectionStart,
+    selectionEnd: prefix.length + blockSelectionEnd,
+  };
+};
+
+// ============================================================================
+// ENTER
+// ============================================================================
+
+/**
+ * Continue a list item, task or blockquote on Enter. Enter on an empty item
+ * ends the list (or outdents it when nested). Inside a code block the new
+ * line keeps the current indentation.
+ */
+export const continueBlock = (value: string, selectionStart: number, selectionEnd: number): TextEdit | null => {
+  if (selectionStart !== selectionEnd) return null;
+
+  const lines = value.split('\n');
+  const index = lineIndexAt(value, selectionStart);
+  const line = lines[index];
+  const start = lineOffset(lines, index);
+  const column = selectionStart - start;
+
+  const insertLine = (prefix: string, renumber: boolean): TextEdit => {
+    const rest = line.slice(column);
+    lines.splice(index, 1, line.slice(0, column), prefix + rest);
+    if (renumber) renumberList(lines, index + 1, index + 1, index + 1);
+    const caret = lineOffset(lines, index + 1) + lines[index + 1].length - rest.length;
+    return buildEdit(lines, caret, caret);
+  };
+
+  if (isInCodeFence(lines, index)) {
+    const indent = leadingWhitespace(line.slice(0, column));
+    return indent ? insertLine(indent, false) : null;
+  }
+
+  const item = parseListItem(line);
+  if (item && column >= item.contentStart) {
+    if (!line.slice(item.contentStart).trim()) {
+      if (item.indent) return outdentLines(value, selectionStart, selectionEnd);
+      lines[index] = '';
+      return buildEdit(lines, start, start);
+    }
+
+    const ordered = item.marker.match(ORDERED_MARKER_PATTERN);
+    const marker = ordered ? `${Number(ordered[1]) + 1}${ordered[2]}` : item.marker;
+    const checkbox = item.checkbox ? '[ ] ' : '';
+    return insertLine(item.indent + marker + item.spacing + checkbox, ordered !== null);
+  }
+
+  const quote = line.match(BLOCKQUOTE_PATTERN);
+  if (quote && column >= quote[0].length) {
+    if (!line.slice(quote[0].length).trim()) {
+      lines[index] = '';
+      return buildEdit(lines, start, start);
+    }
+    return insertLine(quote[0].endsWith(' ') ? quote[0] : `${quote[0]} `, false);
+  }
+
+  return null;
+};
+
+// ============================================================================
+// INDENTATION
+// ============================================================================
+
+/**
+ * Indentation that nests a list item under the previous item at its level
+ */
+const nestedIndent = (lines: string[], index: number, item: ListItem): string => {
+  for (let i = index - 1; i >= 0; i--) {
+    if (!lines[i].trim()) break;
+    const previous = parseListItem(lines[i]);
+    if (previous && previous.indent.length === item.indent.length) {
+      return ' '.repeat(previous.indent.length + previous.marker.length + previous.spacing.length);
+    }
+    if (leadingWhitespace(lines[i]).length < item.indent.length) break;
+  }
+  return item.indent + INDENT_UNIT;
+};
+
+/**
+ * Indentation of the list item a nested item belongs to
+ */
+const parentIndent = (lines: string[], index: number, item: ListItem): string => {
+  for (let i = index - 1; i >= 0; i--) {
+    if (!lines[i].trim()) break;
+    const previous = parseListItem(lines[i]);
+    if (previous && previous.indent.length < item.indent.length) {
+      return previous.indent;
+    }
+  }
+  return removeIndentUnit(item.indent);
+};
+
+const removeIndentUnit = (indent: string): string => {
+  if (indent.startsWith('\t')) return indent.slice(1);
+  const spaces = indent.match(/^ */)![0].length;
+  return indent.slice(Math.min(spaces, INDENT_UNIT.length));
+};
+
+/**
+ * Re-indent the selected lines and keep the selection on the same text
+ */
+const reindentLines = (
+  value: string,
+  selectionStart: number,
+  selectionEnd: number,
+  reindent: (lines: string[], index: number) => string
+): TextEdit | null => {
+  const lines = value.split('\n');
+  const [first, last] = selectedLineRange(value, selectionStart, selectionEnd);
+  const firstStart = lineOffset(lines, first);
+  const original = lines.slice(first, last + 1);
+
+  for (let i = first; i <= last; i++) {
+    if (!lines[i].trim()) continue;
+    const indent = reindent(lines, i);
+    lines[i] = indent + lines[i].slice(leadingWhitespace(lines[i]).length);
+  }
+  if (lines.slice(first, last + 1).every((line, i) => line === original[i])) return null;
+
+  renumberListsAround(lines, first, last);
+
+  const firstDelta = lines[first].length - original[0].length;
+  const totalDelta = lines.slice(first, last + 1).join('\n').length - original.join('\n').length;
+  const firstIndent = leadingWhitespace(lines[first]).length;
+  // Keep a caret that sat inside the removed indentation at the line's text
+  const newStart = Math.max(firstStart + Math.min(firstIndent, selectionStart - firstStart), selectionStart + firstDelta);
+  const newEnd = selectionStart === selectionEnd ? newStart : selectionEnd + totalDelta;
+  return buildEdit(lines, newStart, Math.max(newStart, newEnd));
+};
+
+/**
+ * Tab: indent the selected lines, or nest the current list item. Without a
+ * selection on a plain line, insert indentation at the caret.
+ */
+export const indentLines = (value: string, selectionStart: number, selectionEnd: number): TextEdit | null => {
+  const lines = value.split('\n');
+  const index = lineIndexAt(value, selectionStart);
+
+  if (selectionStart === selectionEnd && !parseListItem(lines[index])) {
+    return {
+      value: value.slice(0, selectionStart) + INDENT_UNIT + value.slice(selectionEnd),
+      selectionStart: selectionStart + INDENT_UNIT.length,
+      selectionEnd: selectionStart + INDENT_UNIT.length,
+    };
+  }
+
+  return reindentLines(value, selectionStart, selectionEnd, (current, i) => {
+    const item = parseListItem(current[i]);
+    return item ? nestedIndent(current, i, item) : leadingWhitespace(current[i]) + INDENT_UNIT;
+  });
+};
+
+/**
+ * Shift+Tab: outdent the selected lines, moving list items up a level
+ */
+export const outdentLines = (value: string, selectionStart: number, selectionEnd: number): TextEdit | null =>
+  reindentLines(value, selectionStart, selectionEnd, (current, i) => {
+    const item = parseListItem(current[i]);
+    return item ? parentIndent(current, i, item) : removeIndentUnit(leadingWhitespace(current[i]));
+  });
+
+// ============================================================================
+// MOVING LINES
+// ============================================================================
+
+/**
+ * Swap the selected lines with the line above or below them
+ */
+export const moveLines = (
+  value: string,
+  selectionStart: number,
+  selectionEnd: number,
+  direction: 'up' | 'down'
+): TextEdit | null => {
+  const lines = value.split('\n');
+  const [first, last] = selectedLineRange(value, selectionStart, selectionEnd);
+  if (direction === 'up' ? first === 0 : last === lines.length - 1) return null;
+
+  const blockStart = lineOffset(lines, first);
+  const block = lines.splice(first, last - first + 1);
+  const target = direction === 'up' ? first - 1 : first + 1;
+  lines.splice(target, 0, ...block);
+
+  const editedFrom = Math.min(first, target);
+  const editedTo = Math.max(last, target + block.length - 1);
+  renumberListsAround(lines, editedFrom, editedTo);
+
+  const newBlockStart = lineOffset(lines, target);
+  const newBlockEnd = newBlockStart + lines.slice(target, target + block.length).join('\n').length;
+  const shift = newBlockStart - blockStart;
+  return buildEdit(
+    lines,
+    Math.min(selectionStart + shift, newBlockEnd),
+    Math.min(selectionEnd + shift, newBlockEnd)
+  );
+};
+
+// ============================================================================
+// BRACKETS
+// ============================================================================
+
+/**
+ * Insert the closing bracket along with an opening one, and step over a
+ * closing bracket that is already there
+ */
+export const pairBracket = (value: string, selectionStart: number, selectionEnd: number, key: string): TextEdit | null => {
+  if (selectionStart !== selectionEnd) return null;
+  const next = value[selectionStart];
+
+  if (CLOSING_BRACKETS.has(key)) {
+    return next === key ? { value, selectionStart: selectionStart + 1, selectionEnd: selectionStart + 1 } : null;
+  }
+
+  const closing = BRACKET_PAIRS[key];
+  // Only pair where the bracket cannot be the start of existing text
+  if (!closing || (next !== undefined && !/[\s.,;:!?)\]}]/.test(next))) return null;
+
+  return {
+    value: value.slice(0, selectionStart) + key + closing + value.slice(selectionStart),
+    selectionStart: selectionStart + 1,
+    selectionEnd: selectionStart + 1,
+  };
+};
+
+/**
+ * Backspace between an empty bracket pair removes both brackets
+ */
+export const deleteBracketPair = (value: string, selectionStart: number, selectionEnd: number): TextEdit | null => {
+  if (selectionStart !== selectionEnd || selectionStart === 0) return null;
+  const previous = value[selectionStart - 1];
+  if (BRACKET_PAIRS[previous] === undefined || value[selectionStart] !== BRACKET_PAIRS[previous]) return null;
+
+  return {
+    value: value.slice(0, selectionStart - 1) + value.slice(selectionStart + 1),
+    selectionStart: selectionStart - 1,
+    selectionEnd: selectionStart - 1,
+  };
+};
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { TextEdit } from './markdownEditing';
+import { applyTableCommand, insertTable, isInTable, moveToCell, nextTableRow, pasteTable } from './markdownTables';
+
+const TABLE = ['| Name | Qty |', '| --- | --: |', '| apple | 3 |', '| pear | 12 |'].join('\n');
+
+const selected = (edit: TextEdit | null) => edit && edit.value.slice(edit.selectionStart, edit.selectionEnd);
+const caretLine = (edit: TextEdit) => edit.value.slice(0, edit.selectionStart).split('\n').length - 1;
+const at = (text: string, value = TABLE) => value.indexOf(text);
+
+describe('isInTable', () => {
+  it('finds the table under the caret', () => {
+    expect(isInTable(TABLE, at('apple'))).toBe(true);
+    expect(isInTable(`Intro\n\n${TABLE}`, 0)).toBe(false);
+  });
+
+  it('ignores pipes without a delimiter row and in code blocks', () => {
+    expect(isInTable('a | b\nc | d', 0)).toBe(false);
+    expect(isInTable(`\`\`\`\n${TABLE}\n\`\`\``, 5)).toBe(false);
+  });
+});
+
+describe('moveToCell', () => {
+  it('formats the table and selects the next cell', () => {
+    const edit = moveToCell(TABLE, at('apple'), at('apple'), 'next')!;
+    expect(edit.value).toBe([
+      '| Name  | Qty |',
+      '| ----- | --: |',
+      '| apple |   3 |',
+      '| pear  |  12 |',
+    ].join('\n'));
+    expect(selected(edit)).toBe('3');
+  });
+
+  it('goes back a cell, wrapping to the previous row', () => {
+    expect(selected(moveToCell(TABLE, at('pear'), at('pear'), 'previous'))).toBe('3');
+    expect(selected(moveToCell(TABLE, at('Name'), at('Name'), 'previous'))).toBe('Name');
+  });
+
+  it('adds a row after the last cell', () => {
+    const edit = moveToCell(TABLE, at('12'), at('12'), 'next')!;
+    expect(edit.value.split('\n')).toHaveLength(5);
+    expect(caretLine(edit)).toBe(4);
+    expect(edit.selectionStart).toBe(edit.selectionEnd);
+  });
+
+  it('leaves selections across lines and text outside tables alone', () => {
+    expect(moveToCell(TABLE, at('apple'), at('pear'), 'next')).toBeNull();
+    expect(moveToCell('no table', 0, 0, 'next')).toBeNull();
+  });
+});
+
+describe('nextTableRow', () => {
+  it('moves down to the same column', () => {
+    const edit = nextTableRow(TABLE, at('apple'), at('apple'))!;
+    expect(caretLine(edit)).toBe(3);
+    expect(edit.value.split('\n')[3].startsWith('| pear')).toBe(true);
+  });
+
+  it('adds a row at the end, and leaves the table from an empty last row', () => {
+    const added = nextTableRow(TABLE, at('pear'), at('pear'))!;
+    expect(added.value.split('\n')).toHaveLength(5);
+    const left = nextTableRow(added.value, added.selectionStart, added.selectionStart)!;
+    expect(left.value.split('\n')).toHaveLength(5);
+    expect(left.value.endsWith('|\n')).toBe(true);
+    expect(isInTable(left.value, left.selectionStart)).toBe(false);
+  });
+});
+
+describe('applyTableCommand', () => {
+  it('adds and deletes rows', () => {
+    expect(applyTableCommand(TABLE, at('apple'), 'row-above')!.value.split('\n')[2]).toBe('|       |     |');
+    expect(applyTableCommand(TABLE, at('apple'), 'delete-row')!.value).not.toContain('apple');
+  });
+
+  it('adds and deletes columns, keeping alignments in place', () => {
+    const added = applyTableCommand(TABLE, at('Name'), 'column-right')!;
+    expect(added.value.split('\n')[1]).toBe('| ----- | --- | --: |');
+    const removed = applyTableCommand(TABLE, at('Qty'), 'delete-column')!;
+    expect(removed.value).toBe(['| Name  |', '| ----- |', '| apple |', '| pear  |'].join('\n'));
+  });
+
+  it('toggles column alignment', () => {
+    const centered = applyTableCommand(TABLE, at('Name'), 'align-center')!;
+    expect(centered.value.split('\n')[1]).toBe('| :---: | --: |');
+    const cleared = applyTableCommand(centered.value, centered.selectionStart, 'align-center')!;
+    expect(cleared.value.split('\n')[1]).toBe('| ----- | --: |');
+  });
+
+  it('removes the table with its last column', () => {
+    const single = '| A |\n| - |\n| 1 |';
+    expect(applyTableCommand(`Before\n${single}\nAfter`, 8, 'delete-column')!.value).toBe('Before\nAfter');
+  });
+
+  it('keeps escaped pipes inside cells', () => {
+    const edit = applyTableCommand('| a \\| b | c |\n| - | - |', 2, 'format')!;
+    expect(edit.value.split('\n')[0]).toBe('| a \\| b | c   |');
+  });
+
+  it('returns null outside a table', () => {
+    expect(applyTableCommand('text', 0, 'format')).toBeNull();
+  });
+});
+
+describe('insertTable', () => {
+  it('inserts a table of the given size and selects the first header', () => {
+    const edit = insertTable('', 0, 0, 3, 2);
+    expect(edit.value).toBe([
+      '| Column 1 | Column 2 |',
+      '| -------- | -------- |',
+      '|          |          |',
+      '|          |          |',
+    ].join('\n'));
+    expect(selected(edit)).toBe('Column 1');
+  });
+});
+
+describe('pasteTable', () => {
+  it('turns tab-separated rows into a table', () => {
+    const edit = pasteTable('', 0, 0, 'Name\tQty\r\napple\t3\n')!;
+    expect(edit.value).toBe(['| Name  | Qty |', '| ----- | --- |', '| apple | 3   |'].join('\n'));
+  });
+
+  it('handles quoted cells and escapes pipes', () => {
+    const edit = pasteTable('', 0, 0, 'a\tb\n"one\ntwo"\t"say ""hi"" | bye"')!;
+    expect(edit.value.split('\n')[2]).toBe('| one<br>two | say "hi" \\| bye |');
+  });
+
+  it('ignores text that is not a grid, and pastes inside tables', () => {
+    expect(pasteTable('', 0, 0, 'just text')).toBeNull();
+    expect(pasteTable('', 0, 0, 'a\tb\nc')).toBeNull();
+    expect(pasteTable(TABLE, at('apple'), at('apple'), 'a\tb\nc\td')).toBeNull();
+  });
+});
@@ -0,0 +1,448 @@
+import { TextEdit, buildEdit, insertBlock, isInCodeFence, lineIndexAt, lineOffset } from './markdownEditing';
+
+// ============================================================================
+// MARKDOWN TABLES
+// ============================================================================
+// Editing GFM tables in the textarea: moving between cells with Tab and
+// Enter, adding and removing rows and columns, aligning columns and padding
+// the pipes so the columns line up. Every edit rewrites the whole table under
+// the caret, formatted.
+
+export type ColumnAlignment = 'left' | 'center' | 'right' | null;
+
+export type TableCommand =
+  | 'row-above'
+  | 'row-below'
+  | 'delete-row'
+  | 'column-left'
+  | 'column-right'
+  | 'delete-column'
+  | 'align-left'
+  | 'align-center'
+  | 'align-right'
+  | 'format';
+
+interface Table {
+  // First and last line of the table, delimiter row included
+  first: number;
+  last: number;
+  indent: string;
+  // Header row first; the delimiter row is not included
+  rows: string[][];
+  alignments: ColumnAlignment[];
+}
+
+interface CellPosition {
+  row: number;
+  column: number;
+  // Caret offset within the cell text
+  offset: number;
+}
+
+const DELIMITER_ROW_PATTERN = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const UNESCAPED_PIPE_PATTERN = /(?<!\\)\|/;
+const MIN_COLUMN_WIDTH = 3;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const isTableLine = (line: string): boolean => line.trim() !== '' && UNESCAPED_PIPE_PATTERN.test(line);
+
+const isDelimiterRow = (line: string): boolean => line.includes('-') && DELIMITER_ROW_PATTERN.test(line);
+
+/**
+ * Cells of a row, trimmed, without the outer pipes
+ */
+const splitRow = (line: string): string[] => {
+  let text = line.trim();
+  if (text.startsWith('|')) text = text.slice(1);
+  if (text.endsWith('|') && !text.endsWith('\\|')) text = text.slice(0, -1);
+  return text.split(UNESCAPED_PIPE_PATTERN).map(cell => cell.trim());
+};
+
+const parseAlignment = (cell: string): ColumnAlignment => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  return left ? 'left' : null;
+};
+
+/**
+ * The table containing line `index`, if any. A table is a header row, a
+ * delimiter row and the rows below it, up to the first line without a pipe.
+ */
+const findTable = (lines: string[], index: number): Table | null => {
+  if (!isTableLine(lines[index]) || isInCodeFence(lines, index)) return null;
+
+  let blockStart = index;
+  while (blockStart > 0 && isTableLine(lines[blockStart - 1])) blockStart--;
+  let last = index;
+  while (last < lines.length - 1 && isTableLine(lines[last + 1])) last++;
+
+  // A paragraph with pipes right above the header is not part of the table
+  let delimiter = -1;
+  for (let i = blockStart + 1; i <= Math.min(last, index + 1); i++) {
+    if (isDelimiterRow(lines[i])) delimiter = i;
+  }
+  if (delimiter === -1) return null;
+
+  const first = delimiter - 1;
+  const rows = [first, ...Array.from({ length: last - delimiter }, (_, i) => delimiter + 1 + i)]
+    .map(i => splitRow(lines[i]));
+  const columns = Math.max(...rows.map(row => row.length));
+  const alignments = splitRow(lines[delimiter]).map(parseAlignment);
+
+  return {
+    first,
+    last,
+    indent: lines[first].match(/^\s*/)![0],
+    rows: rows.map(row => [...row, ...Array(columns - row.length).fill('')]),
+    alignments: Array.from({ length: columns }, (_, i) => alignments[i] ?? null),
+  };
+};
+
+/**
+ * Row, column and offset within the cell for a caret on a table line
+ */
+const cellAt = (table: Table, lines: string[], index: number, column: number): CellPosition => {
+  const delimiter = table.first + 1;
+  const row = index <= delimiter ? 0 : index - delimiter;
+  const line = lines[index];
+
+  // Cells start after each unescaped pipe; a leading pipe opens the first cell
+  const contentStart = line.length - line.trimStart().length;
+  const leadingPipe = line[contentStart] === '|';
+  let cell = 0;
+  let cellStart = leadingPipe ? contentStart + 1 : contentStart;
+  for (let i = cellStart; i < column; i++) {
+    if (line[i] === '|' && line[i - 1] !== '\\') {
+      cell++;
+      cellStart = i + 1;
+    }
+  }
+
+  const columnCount = table.alignments.length;
+  if (cell >= columnCount) return { row, column: columnCount - 1, offset: Infinity };
+  const raw = line.slice(cellStart);
+  const textStart = cellStart + (raw.length - raw.trimStart().length);
+  return { row, column: cell, offset: Math.max(0, column - textStart) };
+};
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+const padCell = (text: string, width: number, alignment: ColumnAlignment): string => {
+  const space = width - text.length;
+  if (alignment === 'right') return ' '.repeat(space) + text;
+  if (alignment === 'center') {
+    const left = Math.floor(space / 2);
+    return ' '.repeat(left) + text + ' '.repeat(space - left);
+  }
+  return text + ' '.repeat(space);
+};
+
+const delimiterCell = (width: number, alignment: ColumnAlignment): string => {
+  switch (alignment) {
+    case 'left':
+      return `:${'-'.repeat(width - 1)}`;
+    case 'right':
+      return `${'-'.repeat(width - 1)}:`;
+    case 'center':
+      return `:${'-'.repeat(width - 2)}:`;
+    default:
+      return '-'.repeat(width);
+  }
+};
+
+const columnWidths = (table: Table): number[] =>
+  table.alignments.map((_, column) =>
+    Math.max(MIN_COLUMN_WIDTH, ...table.rows.map(row => row[column].length))
+  );
+
+const formatRow = (table: Table, cells: string[]): string =>
+  `${table.indent}| ${cells.join(' | ')} |`;
+
+/**
+ * Lines of the table with every column padded to the same width
+ */
+const formatTable = (table: Table): string[] => {
+  const widths = columnWidths(table);
+  const rows = table.rows.map(row =>
+    formatRow(table, row.map((cell, column) => padCell(cell, widths[column], table.alignments[column])))
+  );
+  const delimiter = formatRow(table, widths.map((width, column) => delimiterCell(width, table.alignments[column])));
+  return [rows[0], delimiter, ...rows.slice(1)];
+};
+
+/**
+ * Offsets of a cell's text within its formatted line
+ */
+const cellTextRange = (table: Table, widths: number[], row: number, column: number): [number, number] => {
+  let start = table.indent.length + 2;
+  for (let i = 0; i < column; i++) start += widths[i] + 3;
+  const text = table.rows[row][column];
+  const space = widths[column] - text.length;
+  const alignment = table.alignments[column];
+  if (alignment === 'right') start += space;
+  else if (alignment === 'center') start += Math.floor(space / 2);
+  return [start, start + text.length];
+};
+
+/**
+ * Replace the table's lines with the formatted table and put the caret in a
+ * cell: at `offset` within its text, or selecting the whole text
+ */
+const replaceTable = (
+  lines: string[],
+  original: Table,
+  table: Table,
+  target: { row: number; column: number; offset?: number }
+): TextEdit => {
+  const formatted = formatTable(table);
+  lines.splice(original.first, original.last - original.first + 1, ...formatted);
+
+  const row = Math.max(0, Math.min(target.row, table.rows.length - 1));
+  const column = Math.max(0, Math.min(target.column, table.alignments.length - 1));
+  const lineIndex = original.first + (row === 0 ? 0 : row + 1);
+  const [start, end] = cellTextRange(table, columnWidths(table), row, column);
+  const base = lineOffset(lines, lineIndex);
+
+  if (target.offset === undefined) return buildEdit(lines, base + start, base + end);
+  const caret = base + start + Math.min(target.offset, end - start);
+  return buildEdit(lines, caret, caret);
+};
+
+/**
+ * The table under the caret with the caret's cell, or null outside a table
+ */
+const locate = (value: string, selectionStart: number) => {
+  const lines = value.split('\n');
+  const index = lineIndexAt(value, selectionStart);
+  const table = findTable(lines, index);
+  if (!table) return null;
+  const cell = cellAt(table, lines, index, selectionStart - lineOffset(lines, index));
+  const copy: Table = { ...table, rows: table.rows.map(row => [...row]), alignments: [...table.alignments] };
+  return { lines, table, copy, cell };
+};
+
+const emptyRow = (table: Table): string[] => table.alignments.map(() => '');
+
+// ============================================================================
+// NAVIGATION
+// ============================================================================
+
+/**
+ * Whether the caret is in a table
+ */
+export const isInTable = (value: string, selectionStart: number): boolean => {
+  const lines = value.split('\n');
+  return findTable(lines, lineIndexAt(value, selectionStart)) !== null;
+};
+
+/**
+ * Tab / Shift+Tab in a table: format it and select the text of the next or
+ * previous cell. Tab in the last cell adds a row.
+ */
+export const moveToCell = (
+  value: string,
+  selectionStart: number,
+  selectionEnd: number,
+  direction: 'next' | 'previous'
+): TextEdit | null => {
+  if (lineIndexAt(value, selectionStart) !== lineIndexAt(value, selectionEnd)) return null;
+  const found = locate(value, selectionStart);
+  if (!found) return null;
+  const { lines, table, copy, cell } = found;
+  const columns = copy.alignments.length;
+
+  let index = cell.row * columns + cell.column + (direction === 'next' ? 1 : -1);
+  if (index < 0) index = 0;
+  if (index >= copy.rows.length * columns) copy.rows.push(emptyRow(copy));
+  return replaceTable(lines, table, copy, { row: Math.floor(index / columns), column: index % columns });
+};
+
+/**
+ * Enter in a table: move to the same column on the next row, adding a row
+ * at the end of the table. Enter on an empty last row removes it and leaves
+ * the table.
+ */
+export const nextTableRow = (value: string, selectionStart: number, selectionEnd: number): TextEdit | null => {
+  if (selectionStart !== selectionEnd) return null;
+  const found = locate(value, selectionStart);
+  if (!found) return null;
+  const { lines, table, copy, cell } = found;
+
+  const isLastRow = cell.row === copy.rows.length - 1;
+  if (isLastRow && cell.row > 0 && copy.rows[cell.row].every(text => !text)) {
+    copy.rows.pop();
+    const formatted = formatTable(copy);
+    lines.splice(table.first, table.last - table.first + 1, ...formatted);
+    const after = table.first + formatted.length;
+    if (after === lines.length || lines[after].trim()) lines.splice(after, 0, '');
+    const caret = lineOffset(lines, after);
+    return buildEdit(lines, caret, caret);
+  }
+
+  if (isLastRow) copy.rows.push(emptyRow(copy));
+  return replaceTable(lines, table, copy, { row: cell.row + 1, column: cell.column, offset: Infinity });
+};
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+/**
+ * Apply a table command to the table under the caret. Returns null outside
+ * a table.
+ */
+export const applyTableCommand = (
+  value: string,
+  selectionStart: number,
+  command: TableCommand
+): TextEdit | null => {
+  const found = locate(value, selectionStart);
+  if (!found) return null;
+  const { lines, table, copy, cell } = found;
+  const { row, column } = cell;
+
+  // Removing the last row or column removes the table
+  const removeTable = (): TextEdit => {
+    lines.splice(table.first, table.last - table.first + 1);
+    const caret = lineOffset(lines, Math.min(table.first, lines.length));
+    return buildEdit(lines, caret, caret);
+  };
+
+  switch (command) {
+    case 'row-above':
+    case 'row-below': {
+      const at = command === 'row-above' ? row : row + 1;
+      copy.rows.splice(at, 0, emptyRow(copy));
+      return replaceTable(lines, table, copy, { row: at, column, offset: 0 });
+    }
+    case 'delete-row':
+      if (copy.rows.length === 1) return removeTable();
+      copy.rows.splice(row, 1);
+      return replaceTable(lines, table, copy, { row: Math.min(row, copy.rows.length - 1), column, offset: 0 });
+    case 'column-left':
+    case 'column-right': {
+      const at = command === 'column-left' ? column : column + 1;
+      copy.rows.forEach(cells => cells.splice(at, 0, ''));
+      copy.alignments.splice(at, 0, null);
+      return replaceTable(lines, table, copy, { row, column: at, offset: 0 });
+    }
+    case 'delete-column':
+      if (copy.alignments.length === 1) return removeTable();
+      copy.rows.forEach(cells => cells.splice(column, 1));
+      copy.alignments.splice(column, 1);
+      return replaceTable(lines, table, copy, { row, column: Math.min(column, copy.alignments.length - 1), offset: 0 });
+    case 'align-left':
+    case 'align-center':
+    case 'align-right': {
+      const alignment = command.slice('align-'.length) as ColumnAlignment;
+      // Choosing the current alignment again clears it
+      copy.alignments[column] = copy.alignments[column] === alignment ? null : alignment;
+      return replaceTable(lines, table, copy, cell);
+    }
+    case 'format':
+      return replaceTable(lines, table, copy, cell);
+  }
+};
+
+// ============================================================================
+// CREATING TABLES
+// ============================================================================
+
+/**
+ * Insert an empty table with `rows` rows (the header included) and `columns`
+ * columns, selecting the first header cell
+ */
+export const insertTable = (
+  value: string,
+  selectionStart: number,
+  selectionEnd: number,
+  rows: number,
+  columns: number
+): TextEdit => {
+  const header = Array.from({ length: columns }, (_, i) => `Column ${i + 1}`);
+  const table: Table = {
+    first: 0,
+    last: 0,
+    indent: '',
+    rows: [header, ...Array.from({ length: Math.max(0, rows - 1) }, () => header.map(() => ''))],
+    alignments: header.map(() => null),
+  };
+  const [start, end] = cellTextRange(table, columnWidths(table), 0, 0);
+  return insertBlock(value, selectionStart, selectionEnd, formatTable(table).join('\n'), start, end);
+};
+
+/**
+ * Rows of tab-separated text as copied from a spreadsheet, or null when the
+ * text isn't a grid. Quoted cells may hold tabs, newlines and "" quotes.
+ */
+const parseTabSeparated = (text: string): string[][] | null => {
+  if (!text.includes('\t')) return null;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let i = 0;
+  const source = text.replace(/\r\n?/g, '\n').replace(/\n+$/, '');
+
+  while (i <= source.length) {
+    const char = source[i];
+    if (cell === '' && char === '"') {
+      // Quoted cell
+      let end = i + 1;
+      while (end < source.length && !(source[end] === '"' && source[end + 1] !== '"')) {
+        end += source[end] === '"' ? 2 : 1;
+      }
+      cell = source.slice(i + 1, end).replace(/""/g, '"');
+      i = end + 1;
+      continue;
+    }
+    if (char === '\t' || char === '\n' || char === undefined) {
+      row.push(cell);
+      cell = '';
+      if (char !== '\t') {
+        rows.push(row);
+        row = [];
+      }
+    } else {
+      cell += char;
+    }
+    i++;
+  }
+
+  const columns = rows[0]?.length ?? 0;
+  if (rows.length < 2 || columns < 2 || rows.some(cells => cells.length !== columns)) return null;
+  return rows;
+};
+
+/**
+ * Turn pasted spreadsheet data into a table. Returns null when the text isn't
+ * tab-separated rows or the caret is in a code block or a table.
+ */
+export const pasteTable = (
+  value: string,
+  selectionStart: number,
+  selectionEnd: number,
+  text: string
+): TextEdit | null => {
+  const rows = parseTabSeparated(text);
+  if (!rows) return null;
+  const lines = value.split('\n');
+  const index = lineIndexAt(value, selectionStart);
+  if (isInCodeFence(lines, index) || findTable(lines, index)) return null;
+
+  const table: Table = {
+    first: 0,
+    last: 0,
+    indent: '',
+    rows: rows.map(cells => cells.map(cell => cell.trim().replace(/\|/g, '\\|').replace(/\n/g, '<br>'))),
+    alignments: rows[0].map(() => null),
+  };
+  const block = formatTable(table).join('\n');
+  return insertBlock(value, selectionStart, selectionEnd, block, block.length);
+};
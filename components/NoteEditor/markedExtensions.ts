@@ -0,0 +1,329 @@
+import {
+  CalloutHeader,
+  CalloutType,
+  Footnote,
+  HIGHLIGHT_PATTERN,
+  extractFootnotes,
+  readCallout,
+  readDefinitionList,
+  readFootnoteDefinition,
+} from '../../utils/markdownExtensions';
+
+// Marked extensions for the syntax in utils/markdownExtensions: footnotes,
+// callouts, definition lists and ==highlights==. Styling is Tailwind classes
+// with dark variants, like the rest of the preview's generated HTML.
+
+// ============================================================================
+// MARKED TYPES
+// ============================================================================
+// Marked is loaded from a script tag, so these cover just the parts of it the
+// extensions use. Marked copies its options for every parse and hands the
+// copy to the hooks, lexer and parser, which is what per-parse state is
+// keyed by.
+
+interface MarkedToken {
+  type: string;
+  raw: string;
+}
+
+interface MarkedLexer {
+  options: object;
+  blockTokens(src: string): MarkedToken[];
+  inlineTokens(src: string): MarkedToken[];
+}
+
+interface MarkedParser {
+  options: object;
+  parse(tokens: MarkedToken[]): string;
+  parseInline(tokens: MarkedToken[]): string;
+}
+
+interface TokenizerContext {
+  lexer: MarkedLexer;
+}
+
+interface RendererContext {
+  parser: MarkedParser;
+}
+
+interface HooksContext {
+  options: object;
+}
+
+interface MarkedExtension<T extends MarkedToken> {
+  name: T['type'];
+  level: 'block' | 'inline';
+  start?(src: string): number | undefined;
+  tokenizer(this: TokenizerContext, src: string): T | undefined;
+  renderer(this: RendererContext, token: T): string;
+}
+
+interface MarkedInstance {
+  use(options: {
+    extensions: MarkedExtension<MarkedToken>[];
+    hooks: {
+      preprocess(this: HooksContext, markdown: string): string;
+      postprocess(this: HooksContext, html: string): string;
+    };
+  }): unknown;
+}
+
+interface CalloutToken extends MarkedToken {
+  type: 'callout';
+  header: CalloutHeader;
+  titleTokens: MarkedToken[];
+  tokens: MarkedToken[];
+}
+
+interface DefinitionListToken extends MarkedToken {
+  type: 'definitionList';
+  items: { terms: MarkedToken[][]; definitions: MarkedToken[][] }[];
+}
+
+interface FootnoteDefinitionToken extends MarkedToken {
+  type: 'footnoteDefinition';
+  id: string;
+  tokens: MarkedToken[];
+}
+
+interface FootnoteReferenceToken extends MarkedToken {
+  type: 'footnoteReference';
+  number: number;
+}
+
+interface HighlightToken extends MarkedToken {
+  type: 'highlight';
+  tokens: MarkedToken[];
+}
+
+// Footnotes of the document being parsed
+interface FootnoteState {
+  footnotes: Footnote[];
+  // Rendered definitions, by footnote id
+  html: Map<string, string>;
+  // References made so far, by footnote number
+  referenceCounts: Map<number, number>;
+}
+
+// ============================================================================
+// EXTENSIONS
+// ============================================================================
+
+const CALLOUT_CLASSES: Record<CalloutType, { box: string; title: string }> = {
+  note: {
+    box: 'border-blue-500 bg-blue-50 dark:border-blue-400 dark:bg-blue-500/10',
+    title: 'text-blue-700 dark:text-blue-300',
+  },
+  tip: {
+    box: 'border-green-600 bg-green-50 dark:border-green-400 dark:bg-green-500/10',
+    title: 'text-green-700 dark:text-green-300',
+  },
+  important: {
+    box: 'border-purple-600 bg-purple-50 dark:border-purple-400 dark:bg-purple-500/10',
+    title: 'text-purple-700 dark:text-purple-300',
+  },
+  warning: {
+    box: 'border-amber-500 bg-amber-50 dark:border-amber-400 dark:bg-amber-500/10',
+    title: 'text-amber-700 dark:text-amber-300',
+  },
+  caution: {
+    box: 'border-red-600 bg-red-50 dark:border-red-400 dark:bg-red-500/10',
+    title: 'text-red-700 dark:text-red-300',
+  },
+};
+
+const CALLOUT_START_PATTERN = /^ {0,3}>[ \t]?\[!/;
+const DEFINITION_LIST_START_PATTERN = /^[^\n]+\n(?:[^\n]+\n)*? {0,3}:[ \t]/;
+const FOOTNOTE_DEFINITION_START_PATTERN = /^ {0,3}\[\^[^\]\s]+\]:/;
+// A definition ends the paragraph before it
+const FOOTNOTE_DEFINITION_LINE_PATTERN = new RegExp(FOOTNOTE_DEFINITION_START_PATTERN.source, 'm');
+const FOOTNOTE_REFERENCE_START_PATTERN = /^\[\^([^\]\s]+)\]/;
+const HIGHLIGHT_START_PATTERN = new RegExp(`^${HIGHLIGHT_PATTERN.source}`);
+
+// Footnote state by the options of the parse it belongs to, set by the preprocess hook
+const footnoteStates = new WeakMap<object, FootnoteState>();
+let registered = false;
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// The part of `src` that the first `end` lines take up
+const rawLines = (lines: string[], end: number): string =>
+  lines.slice(0, end).join('\n') + (end < lines.length ? '\n' : '');
+
+const callout: MarkedExtension<CalloutToken> = {
+  name: 'callout',
+  level: 'block',
+  tokenizer(src) {
+    if (!CALLOUT_START_PATTERN.test(src)) return undefined;
+    const lines = src.split('\n');
+    const result = readCallout(lines, 0);
+    if (!result) return undefined;
+    return {
+      type: 'callout',
+      raw: rawLines(lines, result.end),
+      header: result.header,
+      titleTokens: this.lexer.inlineTokens(result.header.title),
+      tokens: this.lexer.blockTokens(result.body.join('\n')),
+    };
+  },
+  renderer(token) {
+    const { type, fold } = token.header;
+    const classes = CALLOUT_CLASSES[type];
+    const title = this.parser.parseInline(token.titleTokens);
+    const body = this.parser.parse(token.tokens);
+    const boxClass = `callout callout-${type} my-4 rounded-md border-l-4 px-4 py-3 ${classes.box}`;
+    const titleClass = `callout-title font-semibold ${classes.title}`;
+    if (fold) {
+      return (
+        `<details class="${boxClass}"${fold === '+' ? ' open' : ''}>` +
+        `<summary class="${titleClass} cursor-pointer">${title}</summary>` +
+        `<div class="callout-body">${body}</div></details>`
+      );
+    }
+    return `<div class="${boxClass}"><p class="${titleClass}">${title}</p><div class="callout-body">${body}</div></div>`;
+  },
+};
+
+const definitionList: MarkedExtension<DefinitionListToken> = {
+  name: 'definitionList',
+  level: 'block',
+  tokenizer(src) {
+    if (!DEFINITION_LIST_START_PATTERN.test(src)) return undefined;
+    const lines = src.split('\n');
+    const result = readDefinitionList(lines, 0);
+    if (!result) return undefined;
+    return {
+      type: 'definitionList',
+      raw: rawLines(lines, result.end),
+      items: result.items.map((item) => ({
+        terms: item.terms.map((term) => this.lexer.inlineTokens(term)),
+        definitions: item.definitions.map((definition) => this.lexer.inlineTokens(definition)),
+      })),
+    };
+  },
+  renderer(token) {
+    const items = token.items
+      .map(
+        (item) =>
+          item.terms.map((term) => `<dt>${this.parser.parseInline(term)}</dt>`).join('') +
+          item.definitions.map((definition) => `<dd>${this.parser.parseInline(definition)}</dd>`).join('')
+      )
+      .join('');
+    return `<dl class="definition-list">${items}</dl>`;
+  },
+};
+
+const footnoteDefinition: MarkedExtension<FootnoteDefinitionToken> = {
+  name: 'footnoteDefinition',
+  level: 'block',
+  start(src) {
+    return src.match(FOOTNOTE_DEFINITION_LINE_PATTERN)?.index;
+  },
+  tokenizer(src) {
+    if (!FOOTNOTE_DEFINITION_START_PATTERN.test(src)) return undefined;
+    const lines = src.split('\n');
+    const result = readFootnoteDefinition(lines, 0);
+    if (!result) return undefined;
+    return {
+      type: 'footnoteDefinition',
+      raw: rawLines(lines, result.end),
+      id: result.id,
+      tokens: this.lexer.inlineTokens(result.text),
+    };
+  },
+  // Definitions are gathered at the end of the note by the postprocess hook
+  renderer(token) {
+    const state = footnoteStates.get(this.parser.options);
+    if (state && !state.html.has(token.id)) state.html.set(token.id, this.parser.parseInline(token.tokens));
+    return '';
+  },
+};
+
+const footnoteReference: MarkedExtension<FootnoteReferenceToken> = {
+  name: 'footnoteReference',
+  level: 'inline',
+  start(src) {
+    const index = src.indexOf('[^');
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const match = src.match(FOOTNOTE_REFERENCE_START_PATTERN);
+    const footnotes = footnoteStates.get(this.lexer.options)?.footnotes ?? [];
+    const footnote = match && footnotes.find((candidate) => candidate.id === match[1]);
+    if (!match || !footnote) return undefined;
+    return { type: 'footnoteReference', raw: match[0], number: footnote.number };
+  },
+  renderer(token) {
+    const referenceCounts = footnoteStates.get(this.parser.options)?.referenceCounts;
+    const count = (referenceCounts?.get(token.number) ?? 0) + 1;
+    referenceCounts?.set(token.number, count);
+    // Only the first reference is where the footnote links back to
+    const id = count === 1 ? `footnote-ref-${token.number}` : `footnote-ref-${token.number}-${count}`;
+    return (
+      `<sup class="footnote-ref"><a href="#footnote-${token.number}" id="${id}" ` +
+      `class="footnote-link text-accent dark:text-dark-accent no-underline hover:underline">${token.number}</a></sup>`
+    );
+  },
+};
+
+const highlight: MarkedExtension<HighlightToken> = {
+  name: 'highlight',
+  level: 'inline',
+  start(src) {
+    const index = src.indexOf('==');
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const match = src.match(HIGHLIGHT_START_PATTERN);
+    if (!match) return undefined;
+    return { type: 'highlight', raw: match[0], tokens: this.lexer.inlineTokens(match[1]) };
+  },
+  renderer(token) {
+    return (
+      `<mark class="highlight rounded-sm px-0.5 bg-yellow-200 text-gray-900 dark:bg-yellow-400/30 dark:text-dark-text-primary">` +
+      `${this.parser.parseInline(token.tokens)}</mark>`
+    );
+  },
+};
+
+const renderFootnotes = ({ footnotes, html }: FootnoteState): string => {
+  const items = footnotes
+    .map(
+      (footnote) =>
+        `<li id="footnote-${footnote.number}">${html.get(footnote.id) ?? escapeHtml(footnote.text)} ` +
+        `<a href="#footnote-ref-${footnote.number}" class="footnote-link footnote-backref text-accent dark:text-dark-accent no-underline" ` +
+        `title="Back to the text" aria-label="Back to the text">↩</a></li>`
+    )
+    .join('');
+  return `<section class="footnotes mt-8 text-sm text-gray-600 dark:text-dark-text-secondary"><hr><ol>${items}</ol></section>`;
+};
+
+/**
+ * Add the extensions to marked. Safe to call more than once.
+ */
+export const registerMarkedExtensions = (markedInstance: MarkedInstance) => {
+  if (registered) return;
+  registered = true;
+  markedInstance.use({
+    extensions: [callout, definitionList, footnoteDefinition, footnoteReference, highlight],
+    hooks: {
+      preprocess(markdown) {
+        footnoteStates.set(this.options, {
+          footnotes: extractFootnotes(markdown).footnotes,
+          html: new Map(),
+          referenceCounts: new Map(),
+        });
+        return markdown;
+      },
+      postprocess(html) {
+        const state = footnoteStates.get(this.options);
+        return state && state.footnotes.length > 0 ? html + renderFootnotes(state) : html;
+      },
+    },
+  });
+};
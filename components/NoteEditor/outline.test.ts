@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { getOutline, moveSection } from './outline';
+
+const note = (...lines: string[]) => lines.join('\n');
+const headingsOf = (value: string) => getOutline(value).map(({ text, level }) => `${'#'.repeat(level)} ${text}`);
+
+describe('getOutline', () => {
+  it('reads headings and where their sections end', () => {
+    const outline = getOutline(note('# One', 'text', '## Nested', '# Two'));
+    expect(outline.map(({ text, line, endLine }) => [text, line, endLine])).toEqual([
+      ['One', 0, 3],
+      ['Nested', 2, 3],
+      ['Two', 3, 4],
+    ]);
+  });
+
+  it('ignores headings in fenced code and front matter', () => {
+    expect(headingsOf(note('---', 'tags: [a]', '---', '# Real', '```', '# Not a heading', '```', '~~~', '## Nor this', '~~~')))
+      .toEqual(['# Real']);
+  });
+});
+
+describe('moveSection', () => {
+  const value = note('# A', 'a', '', '# B', 'b', '', '# C', 'c');
+
+  it('moves the last section to the top', () => {
+    const edit = moveSection(value, 2, 0, 'before')!;
+    expect(edit.value).toBe(note('# C', 'c', '', '# A', 'a', '', '# B', 'b', ''));
+    expect(edit.selectionStart).toBe(0);
+  });
+
+  it('moves a section after the last one', () => {
+    const edit = moveSection(value, 0, 2, 'after')!;
+    expect(edit.value).toBe(note('# B', 'b', '', '# C', 'c', '', '# A', 'a', ''));
+    expect(edit.value.slice(edit.selectionStart)).toMatch(/^# A/);
+  });
+
+  it('takes nested headings along with their parent', () => {
+    const nested = note('# A', '## A.1', 'x', '### A.1.1', '# B', 'b');
+    const edit = moveSection(nested, 0, 3, 'after')!;
+    expect(edit.value).toBe(note('# B', 'b', '', '# A', '## A.1', 'x', '### A.1.1'));
+    expect(headingsOf(edit.value)).toEqual(['# B', '# A', '## A.1', '### A.1.1']);
+  });
+
+  it('moves a subsection within its parent', () => {
+    const nested = note('# A', '## One', '1', '## Two', '2');
+    expect(moveSection(nested, 2, 1, 'before')!.value).toBe(note('# A', '', '## Two', '2', '', '## One', '1'));
+  });
+
+  it('keeps headings inside fenced code in the section that holds them', () => {
+    const fenced = note('# A', '```', '# not a heading', '```', '# B', 'b');
+    expect(getOutline(fenced)).toHaveLength(2);
+    expect(moveSection(fenced, 1, 0, 'before')!.value).toBe(note('# B', 'b', '', '# A', '```', '# not a heading', '```'));
+  });
+
+  it('refuses drops into the section itself or that change nothing', () => {
+    const nested = note('# A', '## A.1', '# B');
+    expect(moveSection(nested, 0, 1, 'after')).toBeNull();
+    expect(moveSection(nested, 0, 2, 'before')).toBeNull();
+    expect(moveSection(nested, 2, 0, 'after')).toBeNull();
+    expect(moveSection(nested, 5, 0, 'before')).toBeNull();
+  });
+});
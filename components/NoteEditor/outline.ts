@@ -0,0 +1,107 @@
+import { TextEdit, lineOffset } from './markdownEditing';
+import { FrontMatterService } from '../../services/frontMatterService';
+
+// ============================================================================
+// DOCUMENT OUTLINE
+// ============================================================================
+// The note's ATX headings as a table of contents. A heading's section runs
+// up to the next heading of the same or a higher level, so moving a section
+// takes its subsections along.
+
+export interface OutlineHeading {
+  // Heading text with inline markdown removed
+  text: string;
+  level: number;
+  line: number;
+  // Offset of the heading line in the note
+  offset: number;
+  // Line after the last line of the section
+  endLine: number;
+}
+
+// 'before' puts the moved section before the target heading, 'after' after
+// the target's whole section
+export type OutlineDropPosition = 'before' | 'after';
+
+const HEADING_PATTERN = /^(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/;
+
+const stripInlineMarkdown = (text: string): string =>
+  text
+    .replace(/!?\[\[([^\]|#]*)(?:#([^\]|]*))?\]\]/g, (_, target: string, heading?: string) => target || heading || '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|~~|==|\*|`)(.+?)\1/g, '$2')
+    .trim();
+
+/**
+ * Headings of a note, leaving out front matter and fenced code
+ */
+export const getOutline = (value: string): OutlineHeading[] => {
+  const lines = value.split('\n');
+  const headings: OutlineHeading[] = [];
+  const frontMatterLines = FrontMatterService.parse(value)?.lineCount ?? 0;
+  let inFence = false;
+  let offset = 0;
+
+  lines.forEach((line, index) => {
+    if (CODE_FENCE_PATTERN.test(line)) inFence = !inFence;
+    const match = inFence || index < frontMatterLines ? null : line.match(HEADING_PATTERN);
+    if (match && match[2].trim()) {
+      headings.push({
+        text: stripInlineMarkdown(match[2]) || match[2].trim(),
+        level: match[1].length,
+        line: index,
+        offset,
+        endLine: lines.length,
+      });
+    }
+    offset += line.length + 1;
+  });
+
+  headings.forEach((heading, i) => {
+    const next = headings.slice(i + 1).find(other => other.level <= heading.level);
+    if (next) heading.endLine = next.line;
+  });
+  return headings;
+};
+
+/**
+ * Whether `index` is the heading at `ancestor` or one of its subsections
+ */
+export const isWithinSection = (outline: OutlineHeading[], ancestor: number, index: number): boolean =>
+  index >= ancestor && outline[index].line < outline[ancestor].endLine;
+
+/**
+ * Move the section of heading `from` before or after the section of heading
+ * `to`. The moved heading is selected. Returns null for a drop onto the
+ * section itself or one that leaves the note unchanged.
+ */
+export const moveSection = (
+  value: string,
+  from: number,
+  to: number,
+  position: OutlineDropPosition
+): TextEdit | null => {
+  const outline = getOutline(value);
+  const source = outline[from];
+  const target = outline[to];
+  if (!source || !target || isWithinSection(outline, from, to)) return null;
+
+  const lines = value.split('\n');
+  const insertAt = position === 'before' ? target.line : target.endLine;
+  if (insertAt === source.line || insertAt === source.endLine) return null;
+
+  const section = lines.slice(source.line, source.endLine);
+  const rest = [...lines.slice(0, source.line), ...lines.slice(source.endLine)];
+  const restInsertAt = insertAt > source.line ? insertAt - section.length : insertAt;
+
+  // Keep blank lines between the moved section and the text around it
+  if (restInsertAt < rest.length && section[section.length - 1].trim()) section.push('');
+  const needsBlankBefore = restInsertAt > 0 && rest[restInsertAt - 1].trim() !== '';
+  if (needsBlankBefore) section.unshift('');
+
+  const result = [...rest.slice(0, restInsertAt), ...section, ...rest.slice(restInsertAt)];
+  const headingLine = restInsertAt + (needsBlankBefore ? 1 : 0);
+  const start = lineOffset(result, headingLine);
+  return { value: result.join('\n'), selectionStart: start, selectionEnd: start };
+};
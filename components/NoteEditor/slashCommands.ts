@@ -0,0 +1,262 @@
+import { IconType } from "react-icons";
+import {
+  FaHeading,
+  FaListUl,
+  FaListOl,
+  FaListCheck,
+  FaQuoteRight,
+  FaCode,
+  FaTable,
+  FaMinus,
+  FaCircleInfo,
+  FaLightbulb,
+  FaTriangleExclamation,
+  FaDiagramProject,
+  FaFileLines,
+  FaWandMagicSparkles,
+  FaSpellCheck,
+  FaCompress,
+  FaPencil,
+  FaLanguage,
+} from "react-icons/fa6";
+import { AITextAction } from "../../types";
+import { TRANSLATION_LANGUAGES } from "../ContextualMenu";
+import { TextEdit, insertBlock } from "./markdownEditing";
+import { TemplateContext, TemplateService } from "../../services/templateService";
+
+// ============================================================================
+// SLASH COMMANDS
+// ============================================================================
+// Commands offered after typing "/" in the editor. Block commands insert a
+// snippet, where "$0" marks the caret; line commands turn the current line
+// into a heading, list item or quote; AI commands run a text action on the
+// paragraph the command was typed in. Note templates are block commands too.
+
+export type SlashCommand = {
+  id: string;
+  label: string;
+  group: "Blocks" | "Callouts" | "Diagrams" | "Templates" | "AI";
+  icon: IconType;
+  keywords?: string[];
+} & (
+  | { kind: "line"; prefix: string }
+  | { kind: "block"; snippet: string }
+  | { kind: "ai"; action: AITextAction; language?: string }
+);
+
+const CARET_MARKER = "$0";
+// List, task, heading and quote markers replaced by a line command
+const LINE_MARKER_PATTERN = /^\s*(?:#{1,6}\s+|>\s?|(?:[-*+]|\d{1,9}[.)])\s+(?:\[[ xX]\]\s+)?)/;
+
+const callout = (type: string) => `> [!${type}]\n> ${CARET_MARKER}`;
+const mermaid = (code: string) => `\`\`\`mermaid\n${code}\n\`\`\``;
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { id: "h1", label: "Heading 1", group: "Blocks", icon: FaHeading, keywords: ["title"], kind: "line", prefix: "# " },
+  { id: "h2", label: "Heading 2", group: "Blocks", icon: FaHeading, keywords: ["subtitle"], kind: "line", prefix: "## " },
+  { id: "h3", label: "Heading 3", group: "Blocks", icon: FaHeading, kind: "line", prefix: "### " },
+  { id: "bullet-list", label: "Bulleted list", group: "Blocks", icon: FaListUl, keywords: ["unordered"], kind: "line", prefix: "- " },
+  { id: "numbered-list", label: "Numbered list", group: "Blocks", icon: FaListOl, keywords: ["ordered"], kind: "line", prefix: "1. " },
+  { id: "task-list", label: "Task list", group: "Blocks", icon: FaListCheck, keywords: ["todo", "checkbox"], kind: "line", prefix: "- [ ] " },
+  { id: "quote", label: "Quote", group: "Blocks", icon: FaQuoteRight, keywords: ["blockquote"], kind: "line", prefix: "> " },
+  { id: "code", label: "Code block", group: "Blocks", icon: FaCode, keywords: ["snippet", "fence"], kind: "block", snippet: `\`\`\`${CARET_MARKER}\n\n\`\`\`` },
+  {
+    id: "table",
+    label: "Table",
+    group: "Blocks",
+    icon: FaTable,
+    keywords: ["grid"],
+    kind: "block",
+    snippet: `| ${CARET_MARKER}Column 1 | Column 2 | Column 3 |\n| -------- | -------- | -------- |\n|          |          |          |\n|          |          |          |`,
+  },
+  { id: "divider", label: "Divider", group: "Blocks", icon: FaMinus, keywords: ["hr", "rule", "separator"], kind: "block", snippet: `---\n${CARET_MARKER}` },
+
+  { id: "callout-note", label: "Note callout", group: "Callouts", icon: FaCircleInfo, keywords: ["info", "admonition"], kind: "block", snippet: callout("NOTE") },
+  { id: "callout-tip", label: "Tip callout", group: "Callouts", icon: FaLightbulb, keywords: ["hint", "admonition"], kind: "block", snippet: callout("TIP") },
+  { id: "callout-warning", label: "Warning callout", group: "Callouts", icon: FaTriangleExclamation, keywords: ["caution", "admonition"], kind: "block", snippet: callout("WARNING") },
+
+  {
+    id: "mermaid-flowchart",
+    label: "Flowchart",
+    group: "Diagrams",
+    icon: FaDiagramProject,
+    keywords: ["mermaid", "graph", "diagram"],
+    kind: "block",
+    snippet: mermaid(`flowchart TD\n    A[${CARET_MARKER}Start] --> B{Decision}\n    B -->|Yes| C[Do it]\n    B -->|No| D[Skip it]`),
+  },
+  {
+    id: "mermaid-sequence",
+    label: "Sequence diagram",
+    group: "Diagrams",
+    icon: FaDiagramProject,
+    keywords: ["mermaid", "diagram"],
+    kind: "block",
+    snippet: mermaid(`sequenceDiagram\n    participant A as ${CARET_MARKER}Client\n    participant B as Server\n    A->>B: Request\n    B-->>A: Response`),
+  },
+  {
+    id: "mermaid-gantt",
+    label: "Gantt chart",
+    group: "Diagrams",
+    icon: FaDiagramProject,
+    keywords: ["mermaid", "timeline", "schedule", "diagram"],
+    kind: "block",
+    snippet: mermaid(`gantt\n    title ${CARET_MARKER}Project plan\n    dateFormat YYYY-MM-DD\n    section Phase 1\n    Research :a1, 2024-01-01, 7d\n    Build    :after a1, 14d`),
+  },
+  {
+    id: "mermaid-pie",
+    label: "Pie chart",
+    group: "Diagrams",
+    icon: FaDiagramProject,
+    keywords: ["mermaid", "chart", "diagram"],
+    kind: "block",
+    snippet: mermaid(`pie title ${CARET_MARKER}Distribution\n    "A" : 40\n    "B" : 35\n    "C" : 25`),
+  },
+
+  // Dictionary lookups work on a single selected word, so they stay in the contextual menu
+  { id: "ai-improve", label: "Improve writing", group: "AI", icon: FaWandMagicSparkles, keywords: ["rewrite", "clarity"], kind: "ai", action: "improve" },
+  { id: "ai-fix-grammar", label: "Fix grammar", group: "AI", icon: FaSpellCheck, keywords: ["spelling", "correct"], kind: "ai", action: "fix-grammar" },
+  { id: "ai-shorten", label: "Shorten", group: "AI", icon: FaCompress, keywords: ["concise", "summarize"], kind: "ai", action: "shorten" },
+  { id: "ai-beautify", label: "Beautify", group: "AI", icon: FaWandMagicSparkles, keywords: ["format", "structure"], kind: "ai", action: "beautify" },
+  { id: "ai-modify", label: "Modify or expand…", group: "AI", icon: FaPencil, keywords: ["instructions", "rewrite"], kind: "ai", action: "modify-expand" },
+  ...TRANSLATION_LANGUAGES.map((language): SlashCommand => ({
+    id: `ai-translate-${language.toLowerCase()}`,
+    label: `Translate to ${language}`,
+    group: "AI",
+    icon: FaLanguage,
+    keywords: ["language"],
+    kind: "ai",
+    action: "translate",
+    language,
+  })),
+];
+
+/**
+ * How well a query matches a text: higher is better, null for no match.
+ * Every query character must appear in order; matches at the start of the
+ * text or of a word score higher.
+ */
+const fuzzyScore = (query: string, text: string): number | null => {
+  const target = text.toLowerCase();
+  if (target.startsWith(query)) return 100 - target.length;
+  const wordIndex = target.indexOf(` ${query}`);
+  if (wordIndex !== -1) return 80 - wordIndex;
+
+  let score = 40;
+  let position = -1;
+  for (const char of query) {
+    const next = target.indexOf(char, position + 1);
+    if (next === -1) return null;
+    // Characters far apart make a weaker match
+    score -= next - position - 1;
+    position = next;
+  }
+  return score;
+};
+
+/**
+ * Every command, with the note templates in the Templates group. Template
+ * fields are left empty, with the caret in the first one.
+ */
+export const getSlashCommands = (context: TemplateContext): SlashCommand[] => {
+  const templateCommands = TemplateService.getTemplates().map((template): SlashCommand => {
+    const [firstField] = TemplateService.getFields(template);
+    const { content } = TemplateService.apply(template, context, firstField ? { [firstField.name]: CARET_MARKER } : {});
+    return {
+      id: `template-${template.id}`,
+      label: template.name,
+      group: "Templates",
+      icon: FaFileLines,
+      keywords: ["template", ...template.tags],
+      kind: "block",
+      snippet: content.includes(CARET_MARKER) ? content : content + CARET_MARKER,
+    };
+  });
+  const aiIndex = SLASH_COMMANDS.findIndex((command) => command.group === "AI");
+  return [...SLASH_COMMANDS.slice(0, aiIndex), ...templateCommands, ...SLASH_COMMANDS.slice(aiIndex)];
+};
+
+/**
+ * Commands matching what was typed after "/", best match first
+ */
+export const filterSlashCommands = (commands: SlashCommand[], query: string): SlashCommand[] => {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return commands;
+
+  return commands
+    .map((command, index) => {
+      const scores = [command.label, ...(command.keywords ?? [])]
+        .map((text) => fuzzyScore(normalized, text))
+        .filter((score): score is number => score !== null);
+      return { command, index, score: scores.length > 0 ? Math.max(...scores) : null };
+    })
+    .filter((entry) => entry.score !== null)
+    .sort((a, b) => b.score! - a.score! || a.index - b.index)
+    .map((entry) => entry.command);
+};
+
+/**
+ * Remove the "/query" typed at [start, end) and apply a line or block command.
+ * Blocks are put on lines of their own.
+ */
+export const applySlashCommand = (
+  value: string,
+  start: number,
+  end: number,
+  command: SlashCommand
+): TextEdit => {
+  const before = value.slice(0, start);
+  const after = value.slice(end);
+  const lineStart = before.lastIndexOf("\n") + 1;
+
+  if (command.kind === "line") {
+    const line = before.slice(lineStart);
+    const text = line.replace(LINE_MARKER_PATTERN, "");
+    const indent = command.prefix.startsWith("#") ? "" : line.match(/^\s*/)![0];
+    const newLine = indent + command.prefix + text;
+    const caret = lineStart + newLine.length;
+    return { value: before.slice(0, lineStart) + newLine + after, selectionStart: caret, selectionEnd: caret };
+  }
+
+  if (command.kind === "ai") {
+    // Drop the space before a command typed at the end of a line
+    const kept = !after || after.startsWith("\n") ? before.replace(/[ \t]+$/, "") : before;
+    return { value: kept + after, selectionStart: kept.length, selectionEnd: kept.length };
+  }
+
+  const caret = command.snippet.indexOf(CARET_MARKER);
+  return insertBlock(value, start, end, command.snippet.replace(CARET_MARKER, ""), caret);
+};
+
+/**
+ * Range of the paragraph around `pos`, or of the one before it when `pos` is
+ * on a blank line. Used as the text an AI command works on.
+ */
+export const getParagraphRange = (value: string, pos: number): [number, number] => {
+  const lines = value.split("\n");
+  let offset = 0;
+  let index = 0;
+  while (index < lines.length - 1 && offset + lines[index].length < pos) {
+    offset += lines[index].length + 1;
+    index++;
+  }
+  // Step back over blank lines to the previous paragraph
+  while (index > 0 && !lines[index].trim()) {
+    index--;
+    offset -= lines[index].length + 1;
+  }
+  if (!lines[index].trim()) return [pos, pos];
+
+  let first = index;
+  let startOffset = offset;
+  while (first > 0 && lines[first - 1].trim()) {
+    first--;
+    startOffset -= lines[first].length + 1;
+  }
+  let last = index;
+  let endOffset = offset + lines[index].length;
+  while (last < lines.length - 1 && lines[last + 1].trim()) {
+    last++;
+    endOffset += lines[last].length + 1;
+  }
+  return [startOffset, endOffset];
+};
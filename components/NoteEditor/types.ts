@@ -1,4 +1,8 @@
 import { Note, AITextAction } from "../../types";
+import { SearchOptions, TextMatch } from "../../utils/textSearch";
+import { Backlink, WikiLinkCompletion } from "../../services/wikiLinkService";
+import { OutlineDropPosition, OutlineHeading } from "./outline";
+import { EditorKeymap } from "../../types/keyboardShortcuts";
 
 export interface NoteEditorProps {
   activeNote: Note | undefined;
@@ -7,6 +11,11 @@ export interface NoteEditorProps {
   onAddNote: (note: Note) => void;
   viewMode?: "split" | "editor" | "preview";
   onRestoreVersion?: (restoredNote: Note) => void;
+  // Every note, for [[links]] and backlinks
+  notes: Note[];
+  onSelectNote: (id: string) => void;
+  // Title of the active note's project, for {{project}} in templates
+  projectTitle?: string;
 }
 
 export interface EditorPaneProps {
@@ -25,12 +34,25 @@ export interface EditorPaneProps {
   suggestionsEnabled: boolean;
   setSuggestionsEnabled: (enabled: boolean) => void;
   onGenerateClick: () => void;
-  pushToUndoStack: (content: string) => void;
+  pushToUndoStack: (content: string, options?: { coalesce?: boolean }) => void;
   // Version control props
   onOpenVersionHistory?: () => void;
   onCreateVersion?: () => void;
   hasUnsavedChanges?: boolean;
   versionCount?: number;
+  // Find/replace matches to highlight in the editor
+  findMatches?: TextMatch[];
+  currentFindMatch?: number;
+  getWikiLinkCompletions?: (query: string) => WikiLinkCompletion[];
+  // Store pasted or dropped files as attachments and link them at the cursor
+  onAttachFiles?: (files: File[]) => void;
+  isOutlineOpen?: boolean;
+  onToggleOutline?: () => void;
+  projectTitle?: string;
+  keymap: EditorKeymap;
+  onChangeKeymap: (keymap: EditorKeymap) => void;
+  // Mode of the Vim or Emacs keymap, for the status bar
+  keymapStatus: KeymapStatus | null;
 }
 
 export interface PreviewPaneProps {
@@ -52,6 +74,13 @@ export interface PreviewPaneProps {
   onDownload: () => void;
   onCopyAll: () => void;
   onDelete: () => void;
+  // Pattern of the open find bar, highlighted in the preview
+  findHighlight?: RegExp | null;
+  backlinks: Backlink[];
+  onOpenWikiLink: (target: string, heading?: string) => void;
+  onOpenNote: (id: string) => void;
+  // Tick or untick the n-th task of the note
+  onToggleTask: (index: number) => void;
 }
 
 export interface ContextualMenuState {
@@ -74,10 +103,10 @@ export interface UndoRedoState {
 export interface UseUndoRedoReturn {
   undoStack: UndoRedoState[];
   redoStack: UndoRedoState[];
-  pushToUndoStack: (content: string) => void;
+  // `coalesce` merges typing into the step that is still open
+  pushToUndoStack: (content: string, options?: { coalesce?: boolean }) => void;
   undo: () => void;
   redo: () => void;
-  clearStacks: () => void;
 }
 
 export interface UseModalStatesReturn {
@@ -117,6 +146,75 @@ export interface UseSelectionNavigatorReturn {
   navigateMatches: (direction: "next" | "prev") => void;
 }
 
+export interface UseFindReplaceReturn {
+  isOpen: boolean;
+  showReplace: boolean;
+  query: string;
+  replacement: string;
+  options: SearchOptions;
+  searchRegex: RegExp | null;
+  // Set when the query is not a valid regular expression
+  error: string | null;
+  matches: TextMatch[];
+  // -1 when there are no matches
+  currentIndex: number;
+  // Bumped on every open so the bar can refocus its input
+  focusRequest: number;
+  open: (withReplace: boolean) => void;
+  close: () => void;
+  setShowReplace: (show: boolean) => void;
+  setQuery: (query: string) => void;
+  setReplacement: (replacement: string) => void;
+  toggleOption: (option: keyof SearchOptions) => void;
+  findNext: () => void;
+  findPrevious: () => void;
+  replaceCurrent: () => void;
+  replaceAll: () => number;
+}
+
+export interface UseWikiLinksReturn {
+  backlinks: Backlink[];
+  getCompletions: (query: string) => WikiLinkCompletion[];
+  // Whether a link target names an existing note
+  isLinkTarget: (target: string) => boolean;
+  // Follow a link; a missing note is created
+  openLink: (target: string, heading?: string) => void;
+  // Scroll to the heading a link opened this note at. Returns false if there is none.
+  revealPendingHeading: () => boolean;
+}
+
+export interface UseOutlineReturn {
+  headings: OutlineHeading[];
+  // Heading of the section scrolled to, or -1 above the first heading
+  activeIndex: number;
+  // Show a heading in the editor and the preview
+  jumpTo: (index: number) => void;
+  moveSection: (from: number, to: number, position: OutlineDropPosition) => void;
+}
+
+export interface KeymapStatus {
+  // "NORMAL", "INSERT", "EMACS"...
+  label: string;
+  // Keys of a command being typed, or a note such as "Mark set"
+  detail: string;
+  // Whether keys type text, so menus and ghost suggestions can show
+  typing: boolean;
+}
+
+export interface UseEditorKeymapReturn {
+  status: KeymapStatus | null;
+  // Handle a key press in the editor. Returns true when the keymap used it.
+  handleKeyDown: (e: React.KeyboardEvent<HTMLTextAreaElement>) => boolean;
+}
+
+export interface UseTasksReturn {
+  // Tick or untick the n-th task of the note
+  toggleTask: (index: number) => void;
+  // Show the line of a task picked in the Tasks view once its note has
+  // opened; false when no task of this note is waiting
+  revealPendingLine: () => boolean;
+}
+
 export interface MermaidDiagram {
   id: string;
   code: string;
@@ -1,11 +1,17 @@
 import { ScrollSyncOptions } from "./types";
+import { findMatches } from "../../utils/textSearch";
+import { WikiLinkService } from "../../services/wikiLinkService";
+import { AttachmentService } from "../../services/attachmentService";
+import { MathService } from "../../services/mathService";
+import { registerMarkedExtensions } from "./markedExtensions";
 
 declare const marked: any;
 declare const hljs: any;
 declare const mermaid: any;
 
 /**
- * Initialize Marked and Highlight.js with configuration
+ * Initialize Marked and Highlight.js with configuration, and add the
+ * footnote, callout, definition list and highlight extensions
  */
 export const initializeMarkdownProcessing = () => {
   if (typeof marked !== "undefined" && typeof hljs !== "undefined") {
@@ -19,6 +25,7 @@ export const initializeMarkdownProcessing = () => {
       breaks: true, // Treat single newlines as <br>
       linkify: true, // Automatically convert URLs to links
     });
+    registerMarkedExtensions(marked);
   }
   // Initialize Mermaid with theme alignment
   try {
@@ -93,10 +100,7 @@ export const extractMermaidDiagrams = (content: string): {
   };
 };
 
-/**
- * Parse markdown content safely
- */
-export const parseMarkdown = (content: string): string => {
+const parseWithMarked = (content: string): string => {
   if (content && typeof marked !== "undefined") {
     try {
       return marked.parse(content);
@@ -108,15 +112,97 @@ export const parseMarkdown = (content: string): string => {
   return "";
 };
 
+/**
+ * Parse markdown content safely, rendering $inline$ and $$display$$ math
+ * with KaTeX. `transform` rewrites the markdown once the math is taken out.
+ */
+export const parseMarkdown = (content: string, transform?: (markdown: string) => string): string =>
+  MathService.renderMarkdown(content, (markdown) => parseWithMarked(transform ? transform(markdown) : markdown));
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Turn [[Note]], [[Note#Heading]] and [[Note|text]] links into anchors the
+ * preview handles itself. Links to notes that don't exist are styled as missing.
+ */
+export const renderWikiLinks = (content: string, isLinkTarget: (target: string) => boolean): string => {
+  const links = WikiLinkService.parseLinks(content);
+  if (links.length === 0) return content;
+
+  let result = "";
+  let last = 0;
+  links.forEach((link) => {
+    const exists = !link.target || isLinkTarget(link.target);
+    const destination = [link.target, link.heading].filter(Boolean).join(" › ");
+    const label = link.alias ?? destination;
+    const className = exists
+      ? "wiki-link text-accent dark:text-dark-accent hover:underline"
+      : "wiki-link wiki-link-missing text-text-muted dark:text-dark-text-muted border-b border-dashed border-current no-underline";
+    const title = exists ? destination : `Create "${link.target}"`;
+    result +=
+      content.slice(last, link.start) +
+      `<a href="#" class="${className}" data-wiki-target="${escapeHtml(link.target)}"` +
+      (link.heading ? ` data-wiki-heading="${escapeHtml(link.heading)}"` : "") +
+      ` title="${escapeHtml(title)}">${escapeHtml(label)}</a>`;
+    last = link.end;
+  });
+  return result + content.slice(last);
+};
+
+const ATTACHMENT_ATTRIBUTE_PATTERN = /<(img|a)\b([^>]*?)\s(src|href)="attachment:([\w-]+)"/g;
+
+/**
+ * Point attachment: images and links in rendered HTML at the stored files.
+ * File links download the file under its original name; attachments that
+ * no longer exist are marked as missing, and ones whose file has not been
+ * read yet (see AttachmentService.loadObjectUrl) as loading.
+ */
+export const resolveAttachmentUrls = (html: string): string => {
+  if (!html.includes("attachment:")) return html;
+  return html.replace(ATTACHMENT_ATTRIBUTE_PATTERN, (_match, tag: string, before: string, attribute: string, id: string) => {
+    const attachment = AttachmentService.get(id);
+    if (attachment && !AttachmentService.hasLoadedObjectUrl(id)) {
+      return `<${tag}${before} class="attachment-loading text-text-muted dark:text-dark-text-muted" title="Loading attachment"`;
+    }
+    const url = attachment && AttachmentService.getObjectUrl(id);
+    if (!attachment || !url) {
+      return `<${tag}${before} class="attachment-missing text-text-muted dark:text-dark-text-muted" title="Missing attachment"`;
+    }
+    const extra = tag === "a" ? ` class="attachment-link text-accent dark:text-dark-accent hover:underline" download="${escapeHtml(attachment.name)}"` : "";
+    return `<${tag}${before}${extra} ${attribute}="${url}"`;
+  });
+};
+
+/**
+ * Let the task list checkboxes marked renders be clicked; the preview turns a
+ * click into a toggle of the task in the note
+ */
+export const enableTaskCheckboxes = (html: string): string =>
+  html.replace(/<input\b([^>]*?)\s+disabled=""([^>]*)>/g, (match, before: string, after: string) =>
+    /type="checkbox"/.test(before + after)
+      ? `<input${before}${after} class="task-checkbox">`
+      : match
+  );
+
 /**
  * Parse markdown with Mermaid diagram extraction
  */
-export const parseMarkdownWithDiagrams = (content: string): {
+export const parseMarkdownWithDiagrams = (
+  content: string,
+  isLinkTarget?: (target: string) => boolean
+): {
   html: string;
   diagrams: Array<{ id: string; code: string; placeholder: string }>;
 } => {
   const { content: processedContent, diagrams } = extractMermaidDiagrams(content);
-  const html = parseMarkdown(processedContent);
+  const html = enableTaskCheckboxes(resolveAttachmentUrls(
+    parseMarkdown(processedContent, isLinkTarget && ((markdown) => renderWikiLinks(markdown, isLinkTarget)))
+  ));
   
   return {
     html,
@@ -125,10 +211,10 @@ export const parseMarkdownWithDiagrams = (content: string): {
 };
 
 /**
- * Add target="_blank" and rel="noopener noreferrer" to all links in preview
+ * Add target="_blank" and rel="noopener noreferrer" to all external links in preview
  */
 export const processLinks = (previewPane: Element) => {
-  const links = previewPane.querySelectorAll("a");
+  const links = previewPane.querySelectorAll("a:not(.wiki-link):not(.attachment-link):not(.footnote-link)");
   links.forEach((link) => {
     link.setAttribute("target", "_blank");
     link.setAttribute("rel", "noopener noreferrer");
@@ -140,6 +226,53 @@ export const processLinks = (previewPane: Element) => {
   });
 };
 
+/**
+ * Wrap text matching a pattern in <mark> elements, skipping code blocks and
+ * diagrams. Returns a function that removes the marks again.
+ */
+export const highlightPreviewMatches = (container: Element, pattern: RegExp): (() => void) => {
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.parentElement?.closest("pre, svg, .mermaid, mark.find-match")
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT,
+  });
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) {
+    textNodes.push(walker.currentNode as Text);
+  }
+
+  const marks: HTMLElement[] = [];
+  textNodes.forEach((node) => {
+    const text = node.data;
+    const matches = findMatches(text, pattern);
+    if (matches.length === 0) return;
+
+    const fragment = document.createDocumentFragment();
+    let last = 0;
+    matches.forEach((match) => {
+      fragment.append(text.slice(last, match.start));
+      const mark = document.createElement("mark");
+      mark.className = "find-match rounded-sm bg-yellow-200/80 dark:bg-yellow-500/30 text-inherit";
+      mark.textContent = text.slice(match.start, match.end);
+      fragment.append(mark);
+      marks.push(mark);
+      last = match.end;
+    });
+    fragment.append(text.slice(last));
+    node.replaceWith(fragment);
+  });
+
+  return () => {
+    marks.forEach((mark) => {
+      const parent = mark.parentNode;
+      if (!parent) return;
+      mark.replaceWith(mark.textContent || "");
+      parent.normalize();
+    });
+  };
+};
+
 /**
  * Create copy button for code blocks
  */
@@ -511,6 +644,14 @@ export const addPerLineClickFunctionality = (
   });
 };
 
+// Scrolls that place both panes themselves (e.g. jumping to a heading) pause
+// syncing until they have settled
+let scrollSyncPausedUntil = 0;
+
+export const pauseScrollSync = (duration = 1000) => {
+  scrollSyncPausedUntil = Date.now() + duration;
+};
+
 /**
  * Setup scroll sync between editor and preview
  */
@@ -531,7 +672,7 @@ export const setupScrollSync = ({
   let isSyncing = false;
 
   const syncScroll = (source: HTMLElement, target: HTMLElement) => {
-    if (isSyncing) return;
+    if (isSyncing || Date.now() < scrollSyncPausedUntil) return;
     isSyncing = true;
 
     const sourceMax = source.scrollHeight - source.clientHeight;
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { KeymapCommand } from './keymaps';
+import { VimState, createVimState, getVimStatus, handleVimKey, isVimInserting } from './vimKeymap';
+
+interface Run {
+  // The text with `|` where the cursor is
+  text: string;
+  state: VimState;
+  commands: KeymapCommand[];
+}
+
+/**
+ * Press keys in Vim mode on text with a `|` cursor marker. Keys the keymap
+ * leaves to the editor are typed as text, as the textarea would.
+ */
+const press = (text: string, keys: string[], state = createVimState()): Run => {
+  let value = text.replace('|', '');
+  let selectionStart = text.indexOf('|');
+  let selectionEnd = selectionStart;
+  const commands: KeymapCommand[] = [];
+
+  keys.forEach(key => {
+    const result = handleVimKey(state, key, { value, selectionStart, selectionEnd, pageLines: 10 });
+    state = result.state;
+    if (result.command) commands.push(result.command);
+    if (result.edit) {
+      ({ value, selectionStart, selectionEnd } = result.edit);
+    } else if (!result.handled && key.length === 1) {
+      value = value.slice(0, selectionStart) + key + value.slice(selectionEnd);
+      selectionStart = selectionEnd = selectionStart + 1;
+    }
+  });
+  return { text: value.slice(0, selectionStart) + '|' + value.slice(selectionStart), state, commands };
+};
+
+const keys = (text: string) => text.split('');
+
+describe('handleVimKey motions', () => {
+  it('moves by characters and words', () => {
+    expect(press('|one two three', ['l']).text).toBe('o|ne two three');
+    expect(press('|one two three', ['w', 'w']).text).toBe('one two |three');
+    expect(press('one two |three', ['b']).text).toBe('one |two three');
+    expect(press('|one two', ['e']).text).toBe('on|e two');
+  });
+
+  it('moves to the start and end of the line', () => {
+    expect(press('  one t|wo', ['0']).text).toBe('|  one two');
+    expect(press('  one t|wo', ['^']).text).toBe('  |one two');
+    expect(press('o|ne two\nnext', ['$']).text).toBe('one tw|o\nnext');
+  });
+
+  it('keeps the column moving between lines', () => {
+    expect(press('ab|cd\nx\nabcd', ['j', 'j']).text).toBe('abcd\nx\nab|cd');
+    expect(press('abcd\nx\nab|cd', ['k']).text).toBe('abcd\n|x\nabcd');
+  });
+
+  it('goes to the first, last and numbered line', () => {
+    const text = 'one\ntwo\nth|ree';
+    expect(press(text, ['g', 'g']).text).toBe('|one\ntwo\nthree');
+    expect(press('|one\ntwo\nthree', ['G']).text).toBe('one\ntwo\n|three');
+    expect(press(text, ['2', 'G']).text).toBe('one\n|two\nthree');
+  });
+
+  it('finds characters on the line and repeats the find', () => {
+    expect(press('|a,b,c', ['f', ',']).text).toBe('a|,b,c');
+    expect(press('|a,b,c', ['f', ',', ';']).text).toBe('a,b|,c');
+    expect(press('|a,b,c', ['t', 'c']).text).toBe('a,b|,c');
+  });
+
+  it('jumps to the matching bracket', () => {
+    expect(press('|(a [b] c)', ['%']).text).toBe('(a [b] c|)');
+  });
+});
+
+describe('handleVimKey operators', () => {
+  it('deletes over a motion', () => {
+    expect(press('|one two', ['d', 'w']).text).toBe('|two');
+    expect(press('one |two three', ['d', '$']).text).toBe('one| ');
+    expect(press('|one two three', ['2', 'd', 'w']).text).toBe('|three');
+  });
+
+  it('deletes whole lines', () => {
+    expect(press('one\nt|wo\nthree', ['d', 'd']).text).toBe('one\n|three');
+    expect(press('o|ne\ntwo\nthree', ['2', 'd', 'd']).text).toBe('|three');
+  });
+
+  it('works on text objects', () => {
+    expect(press('call(a, |b)', ['d', 'i', '(']).text).toBe('call(|)');
+    expect(press('say "h|i" now', ['d', 'a', '"']).text).toBe('say |now');
+    expect(press('one tw|o three', ['d', 'i', 'w']).text).toBe('one | three');
+  });
+
+  it('changes text and enters insert mode', () => {
+    const run = press('|one two', ['c', 'w', ...keys('new'), 'Escape']);
+    expect(run.text).toBe('ne|w two');
+    expect(run.state.mode).toBe('normal');
+  });
+
+  it('indents and changes case over lines', () => {
+    expect(press('|one\ntwo', ['>', '>']).text).toBe('  |one\ntwo');
+    expect(press('|one two', ['g', 'U', 'w']).text).toBe('|ONE two');
+    expect(press('|One', ['~']).text).toBe('o|ne');
+  });
+});
+
+describe('handleVimKey editing', () => {
+  it('deletes, replaces and joins', () => {
+    expect(press('a|bc', ['x']).text).toBe('a|c');
+    expect(press('a|bc', ['r', 'z']).text).toBe('a|zc');
+    expect(press('o|ne\n  two', ['J']).text).toBe('one| two');
+  });
+
+  it('yanks and puts lines', () => {
+    expect(press('o|ne\ntwo', ['y', 'y', 'j', 'p']).text).toBe('one\ntwo\n|one');
+    expect(press('o|ne\ntwo', ['y', 'y', 'P']).text).toBe('|one\none\ntwo');
+  });
+
+  it('keeps named registers apart and appends to them', () => {
+    const run = press('|one\ntwo', ['"', 'a', 'y', 'y', 'j', '"', 'A', 'y', 'y', 'd', 'd']);
+    expect(run.state.registers.a).toEqual({ text: 'one\ntwo', linewise: true });
+    expect(run.state.registers['"']).toEqual({ text: 'two', linewise: true });
+  });
+
+  it('opens lines and leaves insert mode on Escape', () => {
+    expect(press('o|ne\nthree', ['o', ...keys('two'), 'Escape']).text).toBe('one\ntw|o\nthree');
+    expect(press('|two', ['O', ...keys('one'), 'Escape']).text).toBe('on|e\ntwo');
+    expect(press('o|ne', ['A', ...keys('!'), 'Escape']).text).toBe('one|!');
+  });
+
+  it('repeats the last change with a dot', () => {
+    expect(press('|a b c d', ['d', 'w', '.']).text).toBe('|c d');
+    expect(press('|one\ntwo', ['A', ...keys(';'), 'Escape', 'j', '.']).text).toBe('one;\ntwo|;');
+  });
+
+  it('asks the editor to undo and redo', () => {
+    expect(press('|one', ['u', '<C-r>']).commands).toEqual(['undo', 'redo']);
+  });
+});
+
+describe('handleVimKey visual mode', () => {
+  it('selects and deletes characters', () => {
+    const run = press('|one two', ['v', 'e', 'd']);
+    expect(run.text).toBe('| two');
+    expect(run.state.mode).toBe('normal');
+  });
+
+  it('selects and yanks whole lines', () => {
+    const run = press('o|ne\ntwo\nthree', ['V', 'j', 'y']);
+    expect(run.state.registers['"']).toEqual({ text: 'one\ntwo', linewise: true });
+    expect(run.state.mode).toBe('normal');
+  });
+});
+
+describe('handleVimKey keys it leaves alone', () => {
+  it('leaves typing in insert mode to the editor', () => {
+    const inserting = press('|', ['i']).state;
+    expect(isVimInserting(inserting)).toBe(true);
+    expect(handleVimKey(inserting, 'x', { value: '', selectionStart: 0, selectionEnd: 0, pageLines: 10 }).handled).toBe(false);
+  });
+
+  it('leaves unbound Ctrl keys to the app', () => {
+    const result = handleVimKey(createVimState(), '<C-s>', { value: 'one', selectionStart: 0, selectionEnd: 0, pageLines: 10 });
+    expect(result.handled).toBe(false);
+  });
+
+  it('leaves Escape with nothing to cancel to the editor', () => {
+    const result = handleVimKey(createVimState(), 'Escape', { value: 'one', selectionStart: 0, selectionEnd: 0, pageLines: 10 });
+    expect(result.handled).toBe(false);
+  });
+});
+
+describe('getVimStatus', () => {
+  it('shows the mode and the keys typed so far', () => {
+    expect(getVimStatus(press('|one', ['2', 'd']).state)).toEqual({ label: 'NORMAL', detail: '2d' });
+    expect(getVimStatus(press('|one', ['V']).state).label).toBe('VISUAL LINE');
+  });
+});
@@ -0,0 +1,1025 @@
+import { TextEdit, continueBlock, indentLines, outdentLines } from "./markdownEditing";
+import {
+  KeymapBinding,
+  KeymapContext,
+  KeymapResult,
+  firstNonBlankAt,
+  lineEndAt,
+  lineStartAt,
+  nextWordStart,
+  offsetLines,
+  paragraphBoundary,
+  previousWordStart,
+  wordEnd,
+  wordRangeAt,
+} from "./keymaps";
+
+// ============================================================================
+// VIM KEYMAP
+// ============================================================================
+// Normal, insert and visual modes over the editor's textarea. Normal mode
+// takes [count] commands, operators (d c y > < g~ gu gU) with a motion or a
+// text object, registers ("a to "z, "A to "Z to append, "0 for the last
+// yank, "1 to "9 for deletes, "_ to discard) and `.` to repeat the last
+// change together with the text typed after it. In insert mode every key
+// but Escape is left to the editor, so lists, ghost suggestions and menus
+// behave as usual.
+
+export type VimMode = "normal" | "insert" | "visual" | "visual-line";
+
+export interface VimRegister {
+  text: string;
+  // Whole lines, pasted above or below the cursor's line
+  linewise: boolean;
+}
+
+interface VimChange {
+  // The command's keys after its register and count
+  keys: string[];
+  register: string | null;
+  count: number | null;
+  // Text typed in insert mode when the command started one
+  text: string;
+}
+
+export interface VimState {
+  mode: VimMode;
+  // Keys of a command still being typed
+  pending: string[];
+  registers: Record<string, VimRegister>;
+  lastChange: VimChange | null;
+  // The change an insert belongs to (none after a visual change, which
+  // isn't repeated), and the text around where it started
+  insert: { change: VimChange | null; prefix: string; suffix: string } | null;
+  // Visual mode's fixed end and the end that moves
+  anchor: number;
+  head: number;
+  // Column j and k keep to; MAX_COLUMN after $
+  column: number | null;
+  lastFind: { key: string; char: string } | null;
+}
+
+interface Range {
+  start: number;
+  end: number;
+  linewise: boolean;
+}
+
+interface MotionTarget {
+  pos: number;
+  linewise: boolean;
+  // Includes the character it lands on when used with an operator
+  inclusive: boolean;
+  column?: number | null;
+}
+
+interface ParsedCommand {
+  register: string | null;
+  count: number | null;
+  keys: string[];
+}
+
+type Parse = ParsedCommand | "incomplete" | "invalid";
+
+const MAX_COLUMN = Number.MAX_SAFE_INTEGER;
+
+const REGISTER_PATTERN = /^[a-zA-Z0-9"_-]$/;
+const OPERATORS = new Set(["d", "c", "y", ">", "<"]);
+const CASE_OPERATORS = new Set(["~", "u", "U"]);
+const FIND_MOTIONS = new Set(["f", "F", "t", "T"]);
+const MOTIONS = new Set([
+  "h", "j", "k", "l", "w", "W", "b", "B", "e", "E", "0", "^", "$", "G", "%", "{", "}", ";", ",", "+", "-",
+  " ", "Backspace", "Enter", "ArrowLeft", "ArrowRight", "ArrowUp", "ArrowDown", "Home", "End",
+  "PageUp", "PageDown", "<C-d>", "<C-u>",
+]);
+const NORMAL_COMMANDS = new Set([
+  "x", "X", "s", "S", "D", "C", "Y", "p", "P", "J", "~", "u", "i", "a", "I", "A", "o", "O", "v", "V", ".", "<C-r>",
+  "Delete",
+]);
+const VISUAL_COMMANDS = new Set([
+  "d", "x", "X", "Delete", "c", "s", "y", ">", "<", "~", "u", "U", "J", "p", "P", "o", "v", "V",
+]);
+// Commands that change the text and so can be repeated with .
+const REPEATABLE = new Set(["x", "X", "s", "S", "D", "C", "p", "P", "J", "~", "r", "i", "a", "I", "A", "o", "O", "Delete"]);
+const INSERT_COMMANDS = new Set(["i", "a", "I", "A"]);
+// Keys normal mode uses up even when they do nothing
+const EDITING_KEYS = new Set(["Enter", "Backspace", "Delete", "Tab", "ArrowLeft", "ArrowRight", "ArrowUp", "ArrowDown", "Home", "End", "PageUp", "PageDown"]);
+const BRACKETS: Record<string, [string, string]> = {
+  "(": ["(", ")"], ")": ["(", ")"], b: ["(", ")"],
+  "[": ["[", "]"], "]": ["[", "]"],
+  "{": ["{", "}"], "}": ["{", "}"], B: ["{", "}"],
+  "<": ["<", ">"], ">": ["<", ">"],
+};
+const QUOTES = new Set(['"', "'", "`"]);
+
+// Listed in the keyboard shortcuts help
+export const VIM_BINDINGS: KeymapBinding[] = [
+  { key: "i", description: "Insert before the cursor (a after it, I and A at the line's start and end)" },
+  { key: "o", description: "Open a line below (O above)" },
+  { key: "Escape", description: "Back to normal mode" },
+  { key: "v", description: "Visual mode (V for whole lines)" },
+  { key: "h", description: "Left (j down, k up, l right)" },
+  { key: "w", description: "Next word (b back, e to its end; W, B and E for WORDs)" },
+  { key: "0", description: "Start of the line (^ first character, $ end)" },
+  { key: "gg", description: "First line (G last, 5G line five)" },
+  { key: "f", description: "Find a character on the line (F back, t and T to just before; ; and , repeat)" },
+  { key: "%", description: "Matching bracket" },
+  { key: "}", description: "Next blank line ({ previous)" },
+  { key: "d", description: "Delete over a motion or text object (dw, d$, diw, da\")" },
+  { key: "c", description: "Change over a motion or text object (cw, ci(, cc)" },
+  { key: "y", description: "Yank over a motion or text object (yy for the line)" },
+  { key: ">", description: "Indent (> >) or outdent (< <)" },
+  { key: "gu", description: "Lower case (gU upper case, g~ swap case)" },
+  { key: "x", description: "Delete a character (X before the cursor, r to replace it)" },
+  { key: "p", description: "Put after the cursor (P before)" },
+  { key: "J", description: "Join lines" },
+  { key: "\"", description: "Use a register (\"ayy, \"ap, \"Ayy appends)" },
+  { key: ".", description: "Repeat the last change" },
+  { key: "u", description: "Undo" },
+  { key: "r", ctrlKey: true, description: "Redo" },
+  { key: "d", ctrlKey: true, description: "Half a page down (Ctrl + U up)" },
+];
+
+export const createVimState = (): VimState => ({
+  mode: "normal",
+  pending: [],
+  registers: {},
+  lastChange: null,
+  insert: null,
+  anchor: 0,
+  head: 0,
+  column: null,
+  lastFind: null,
+});
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const isChar = (key: string | undefined): key is string => key !== undefined && (key.length === 1 || key === "Enter");
+
+/**
+ * Split typed keys into register, count and command. Commands are checked
+ * only as far as knowing whether more keys are needed.
+ */
+const parseCommand = (keys: string[], visual: boolean): Parse => {
+  let index = 0;
+  let register: string | null = null;
+  if (keys[index] === '"') {
+    if (keys.length < 2) return "incomplete";
+    if (!REGISTER_PATTERN.test(keys[1])) return "invalid";
+    register = keys[1];
+    index = 2;
+  }
+
+  const readCount = (): number | null => {
+    let digits = "";
+    while (index < keys.length && /^\d$/.test(keys[index]) && (digits || keys[index] !== "0")) {
+      digits += keys[index++];
+    }
+    return digits ? Number(digits) : null;
+  };
+  const multiply = (a: number | null, b: number | null) => (a === null && b === null ? null : (a ?? 1) * (b ?? 1));
+
+  let count = readCount();
+  const commandStart = index;
+  const key = keys[index];
+  if (key === undefined) return "incomplete";
+  // Keys of a count typed after an operator, left out of the command's keys
+  let skipped: [number, number] = [index, index];
+  const done = (end: number): Parse =>
+    end === keys.length
+      ? { register, count, keys: [...keys.slice(commandStart, skipped[0]), ...keys.slice(skipped[1], end)] }
+      : "invalid";
+
+  // A motion starting at `at`: the index after it, or a Parse when it isn't one
+  const readMotion = (at: number): number | Parse => {
+    const motion = keys[at];
+    if (motion === undefined) return "incomplete";
+    if (FIND_MOTIONS.has(motion)) {
+      if (at + 1 >= keys.length) return "incomplete";
+      return isChar(keys[at + 1]) ? at + 2 : "invalid";
+    }
+    if (motion === "g") {
+      if (at + 1 >= keys.length) return "incomplete";
+      return keys[at + 1] === "g" ? at + 2 : "invalid";
+    }
+    return MOTIONS.has(motion) ? at + 1 : "invalid";
+  };
+  const readTextObject = (at: number): number | Parse => {
+    if (at + 1 >= keys.length) return "incomplete";
+    const object = keys[at + 1];
+    return /^[wWp]$/.test(object) || object in BRACKETS || QUOTES.has(object) ? at + 2 : "invalid";
+  };
+  const finish = (end: number | Parse): Parse => (typeof end === "number" ? done(end) : end);
+
+  if (visual) {
+    if (VISUAL_COMMANDS.has(key)) return done(index + 1);
+    if (key === "r") return keys.length === index + 1 ? "incomplete" : isChar(keys[index + 1]) ? done(index + 2) : "invalid";
+    if (key === "i" || key === "a") return finish(readTextObject(index));
+    return finish(readMotion(index));
+  }
+
+  let operator: string | null = null;
+  if (OPERATORS.has(key)) {
+    operator = key;
+    index++;
+  } else if (key === "g") {
+    if (keys.length === index + 1) return "incomplete";
+    if (keys[index + 1] === "g") return done(index + 2);
+    if (!CASE_OPERATORS.has(keys[index + 1])) return "invalid";
+    operator = `g${keys[index + 1]}`;
+    index += 2;
+  }
+
+  if (operator) {
+    const countStart = index;
+    const second = readCount();
+    skipped = [countStart, index];
+    count = multiply(count, second);
+    const next = keys[index];
+    if (next === undefined) return "incomplete";
+    // dd, cc, yy, >>, <<, g~~, guu, gUU
+    if (next === operator[operator.length - 1]) return done(index + 1);
+    if (next === "i" || next === "a") return finish(readTextObject(index));
+    return finish(readMotion(index));
+  }
+
+  if (key === "r") return keys.length === index + 1 ? "incomplete" : isChar(keys[index + 1]) ? done(index + 2) : "invalid";
+  if (NORMAL_COMMANDS.has(key)) return done(index + 1);
+  return finish(readMotion(index));
+};
+
+// ============================================================================
+// MOTIONS AND TEXT OBJECTS
+// ============================================================================
+
+// Keep a normal mode cursor on a character of its line
+const clampCursor = (value: string, pos: number): number => {
+  const clamped = Math.max(0, Math.min(pos, value.length));
+  const end = lineEndAt(value, clamped);
+  return clamped === end && clamped > lineStartAt(value, clamped) ? clamped - 1 : clamped;
+};
+
+const findInLine = (value: string, pos: number, key: string, char: string, count: number): number | null => {
+  const forward = key === "f" || key === "t";
+  const till = key === "t" || key === "T";
+  const start = lineStartAt(value, pos);
+  const end = lineEndAt(value, pos);
+  let index = pos;
+  for (let found = 0; found < count; found++) {
+    // Repeating a t or T skips the character it stopped next to
+    const from = forward ? index + (till && found === 0 && value[index + 1] === char ? 2 : 1) : index - (till && found === 0 && value[index - 1] === char ? 2 : 1);
+    index = forward ? value.indexOf(char, from) : value.lastIndexOf(char, from);
+    if (index === -1 || index >= end || index < start || (forward && from >= end) || (!forward && from < start)) return null;
+  }
+  return till ? index + (forward ? -1 : 1) : index;
+};
+
+// The bracket matching the one at `index`
+const matchPair = (value: string, index: number, open: string, close: string): number | null => {
+  const forward = value[index] === open;
+  let depth = 0;
+  for (let i = index; forward ? i < value.length : i >= 0; i += forward ? 1 : -1) {
+    if (value[i] === open) depth += forward ? 1 : -1;
+    else if (value[i] === close) depth += forward ? -1 : 1;
+    if (depth === 0) return i;
+  }
+  return null;
+};
+
+// Vim's %: the match of the first bracket at or after `pos` on its line
+const matchBracket = (value: string, pos: number): number | null => {
+  const end = lineEndAt(value, pos);
+  let index = pos;
+  while (index < end && !"()[]{}".includes(value[index])) index++;
+  if (index >= end) return null;
+  const [open, close] = BRACKETS[value[index]];
+  return matchPair(value, index, open, close);
+};
+
+const motionTarget = (
+  keys: string[],
+  state: VimState,
+  context: KeymapContext,
+  pos: number,
+  count: number | null,
+  forOperator: boolean
+): { target: MotionTarget; lastFind?: VimState["lastFind"] } | null => {
+  const { value } = context;
+  const n = count ?? 1;
+  const [key, arg] = keys;
+  const start = lineStartAt(value, pos);
+  const end = lineEndAt(value, pos);
+  const column = state.column ?? pos - start;
+  const charwise = (target: number, inclusive = false): { target: MotionTarget } => ({
+    target: { pos: target, linewise: false, inclusive, column: null },
+  });
+  const vertical = (lines: number): { target: MotionTarget } => ({
+    target: { pos: offsetLines(value, pos, lines, column), linewise: true, inclusive: false, column },
+  });
+  const toLine = (line: number): { target: MotionTarget } => {
+    const target = offsetLines(value, 0, line, 0);
+    return { target: { pos: firstNonBlankAt(value, target), linewise: true, inclusive: false, column: null } };
+  };
+  const repeat = (step: (at: number) => number): number => {
+    let target = pos;
+    for (let i = 0; i < n; i++) target = step(target);
+    return target;
+  };
+
+  switch (key) {
+    case "h":
+    case "ArrowLeft":
+    case "Backspace":
+      return charwise(Math.max(start, pos - n));
+    case "l":
+    case "ArrowRight":
+    case " ":
+      return charwise(Math.min(end, pos + n));
+    case "j":
+    case "ArrowDown":
+      return vertical(n);
+    case "k":
+    case "ArrowUp":
+      return vertical(-n);
+    case "+":
+    case "Enter":
+    case "-": {
+      const target = offsetLines(value, pos, key === "-" ? -n : n, 0);
+      return { target: { pos: firstNonBlankAt(value, target), linewise: true, inclusive: false, column: null } };
+    }
+    case "<C-d>":
+    case "<C-u>":
+    case "PageDown":
+    case "PageUp": {
+      const lines = key.startsWith("Page") ? context.pageLines : Math.max(1, Math.floor(context.pageLines / 2));
+      return vertical((key === "<C-d>" || key === "PageDown" ? 1 : -1) * lines * n);
+    }
+    case "w":
+    case "W": {
+      let target = repeat((at) => nextWordStart(value, at, key === "W"));
+      // An operator on the last word of a line stops at the end of the line
+      if (forOperator) {
+        const lastBreak = value.lastIndexOf("\n", target - 1);
+        if (lastBreak >= pos && lastBreak > start && !value.slice(lastBreak, target).trim()) target = lastBreak;
+      }
+      return charwise(target);
+    }
+    case "b":
+    case "B":
+      return charwise(repeat((at) => previousWordStart(value, at, key === "B")));
+    case "e":
+    case "E":
+      return charwise(repeat((at) => wordEnd(value, at, key === "E")), true);
+    case "0":
+    case "Home":
+      return charwise(start);
+    case "^":
+      return charwise(firstNonBlankAt(value, pos));
+    case "$":
+    case "End": {
+      const target = lineEndAt(value, offsetLines(value, pos, n - 1, 0));
+      return { target: { pos: target, linewise: false, inclusive: false, column: MAX_COLUMN } };
+    }
+    case "g":
+      return toLine(count === null ? 0 : count - 1);
+    case "G":
+      return toLine(count === null ? value.split("\n").length - 1 : count - 1);
+    case "{":
+    case "}":
+      return charwise(repeat((at) => paragraphBoundary(value, at, key === "}" ? 1 : -1)));
+    case "%": {
+      const target = matchBracket(value, pos);
+      return target === null ? null : charwise(target, true);
+    }
+    case "f":
+    case "F":
+    case "t":
+    case "T":
+    case ";":
+    case ",": {
+      let find = state.lastFind;
+      if (FIND_MOTIONS.has(key)) find = { key, char: arg === "Enter" ? "\n" : arg };
+      if (!find) return null;
+      const reverse: Record<string, string> = { f: "F", F: "f", t: "T", T: "t" };
+      const findKey = key === "," ? reverse[find.key] : find.key;
+      const target = findInLine(value, pos, findKey, find.char, n);
+      if (target === null) return null;
+      return { ...charwise(target, findKey === "f" || findKey === "t"), lastFind: find };
+    }
+    default:
+      return null;
+  }
+};
+
+const textObjectRange = (value: string, pos: number, around: boolean, object: string, count: number): Range | null => {
+  if (object === "w" || object === "W") {
+    let [start, end] = wordRangeAt(value, pos, object === "W");
+    for (let i = 1; i < count; i++) [, end] = wordRangeAt(value, end, object === "W");
+    if (around) {
+      // Take the space after the word, or the space before it at the end of a line
+      const lineEnd = lineEndAt(value, end);
+      let after = end;
+      while (after < lineEnd && /[ \t]/.test(value[after])) after++;
+      if (after > end) end = after;
+      else while (start > lineStartAt(value, start) && /[ \t]/.test(value[start - 1])) start--;
+    }
+    return { start, end, linewise: false };
+  }
+
+  if (object === "p") {
+    const lines = value.split("\n");
+    let line = value.slice(0, pos).split("\n").length - 1;
+    const blank = !lines[line].trim();
+    let first = line;
+    while (first > 0 && !lines[first - 1].trim() === blank) first--;
+    for (let i = 1; i < count && line + 1 < lines.length; i++) {
+      line++;
+      while (line + 1 < lines.length && !lines[line + 1].trim() === !lines[line].trim()) line++;
+    }
+    while (line + 1 < lines.length && !lines[line + 1].trim() === !lines[first].trim()) line++;
+    if (around) while (line + 1 < lines.length && !lines[line + 1].trim()) line++;
+    const start = offsetLines(value, 0, first, 0);
+    return { start, end: lineEndAt(value, offsetLines(value, 0, line, 0)), linewise: true };
+  }
+
+  if (QUOTES.has(object)) {
+    const start = lineStartAt(value, pos);
+    const line = value.slice(start, lineEndAt(value, pos));
+    const column = pos - start;
+    const quotes: number[] = [];
+    for (let i = 0; i < line.length; i++) if (line[i] === object && line[i - 1] !== "\\") quotes.push(i);
+    for (let i = 0; i + 1 < quotes.length; i += 2) {
+      const [open, close] = [quotes[i], quotes[i + 1]];
+      // The first quoted text that ends at or after the cursor
+      if (column > close) continue;
+      if (around) {
+        let after = close + 1;
+        while (after < line.length && /[ \t]/.test(line[after])) after++;
+        return { start: start + open, end: start + after, linewise: false };
+      }
+      return { start: start + open + 1, end: start + close, linewise: false };
+    }
+    return null;
+  }
+
+  const [open, close] = BRACKETS[object];
+  let from = pos;
+  let depth = 0;
+  let openAt = -1;
+  for (let found = 0; found < count; found++) {
+    openAt = -1;
+    for (let i = from; i >= 0; i--) {
+      if (value[i] === close && i !== pos) depth++;
+      else if (value[i] === open) {
+        if (depth === 0) {
+          openAt = i;
+          break;
+        }
+        depth--;
+      }
+    }
+    if (openAt === -1) return null;
+    from = openAt - 1;
+  }
+  const closeAt = matchPair(value, openAt, open, close);
+  if (closeAt === null) return null;
+  if (around) return { start: openAt, end: closeAt + 1, linewise: false };
+  // Brackets on lines of their own leave their lines out
+  let start = openAt + 1;
+  let end = closeAt;
+  if (value[start] === "\n") start++;
+  if (lineStartAt(value, end) > start && !value.slice(lineStartAt(value, end), end).trim()) end = lineStartAt(value, end);
+  return { start, end: Math.max(start, end), linewise: false };
+};
+
+// ============================================================================
+// REGISTERS
+// ============================================================================
+
+const readRegister = (state: VimState, name: string | null): VimRegister | undefined =>
+  state.registers[(name ?? '"').toLowerCase()];
+
+const writeRegister = (
+  state: VimState,
+  name: string | null,
+  register: VimRegister,
+  kind: "yank" | "delete"
+): Record<string, VimRegister> => {
+  if (name === "_") return state.registers;
+  const registers = { ...state.registers };
+  let written = register;
+  if (name && /^[A-Z]$/.test(name)) {
+    const existing = registers[name.toLowerCase()];
+    written = existing
+      ? {
+          text: existing.text + (existing.linewise || register.linewise ? "\n" : "") + register.text,
+          linewise: existing.linewise || register.linewise,
+        }
+      : register;
+    registers[name.toLowerCase()] = written;
+  } else if (name && name !== '"') {
+    registers[name] = register;
+  } else if (kind === "yank") {
+    registers["0"] = register;
+  }
+  if (kind === "delete" && !name) {
+    if (register.linewise || register.text.includes("\n")) {
+      for (let n = 9; n > 1; n--) if (registers[String(n - 1)]) registers[String(n)] = registers[String(n - 1)];
+      registers["1"] = register;
+    } else {
+      registers["-"] = register;
+    }
+  }
+  registers['"'] = written;
+  return registers;
+};
+
+// ============================================================================
+// EDITS
+// ============================================================================
+
+const replaceRange = (value: string, start: number, end: number, text: string): string =>
+  value.slice(0, start) + text + value.slice(end);
+
+const toggleCase = (text: string, operator: string): string => {
+  if (operator.endsWith("u")) return text.toLowerCase();
+  if (operator.endsWith("U")) return text.toUpperCase();
+  return [...text].map((char) => (char === char.toUpperCase() ? char.toLowerCase() : char.toUpperCase())).join("");
+};
+
+// Widen a linewise range to its whole lines, newline left out
+const lineRange = (value: string, range: Range): Range =>
+  range.linewise ? { start: lineStartAt(value, range.start), end: lineEndAt(value, range.end), linewise: true } : range;
+
+const cursorEdit = (value: string, pos: number): TextEdit => ({ value, selectionStart: pos, selectionEnd: pos });
+
+const normalResult = (state: VimState, edit: TextEdit, changes: Partial<VimState> = {}): KeymapResult<VimState> => {
+  const pos = clampCursor(edit.value, edit.selectionStart);
+  return {
+    state: { ...state, mode: "normal", pending: [], insert: null, ...changes },
+    handled: true,
+    edit: cursorEdit(edit.value, pos),
+  };
+};
+
+const insertResult = (state: VimState, edit: TextEdit, change: VimChange | null, changes: Partial<VimState> = {}): KeymapResult<VimState> => ({
+  state: {
+    ...state,
+    ...changes,
+    mode: "insert",
+    pending: [],
+    column: null,
+    insert: {
+      change,
+      prefix: edit.value.slice(0, edit.selectionStart),
+      suffix: edit.value.slice(edit.selectionStart),
+    },
+  },
+  handled: true,
+  edit,
+});
+
+/**
+ * Run an operator over a range
+ */
+const applyOperator = (
+  operator: string,
+  rawRange: Range,
+  state: VimState,
+  context: KeymapContext,
+  register: string | null,
+  change: VimChange | null,
+  cursor: number
+): KeymapResult<VimState> => {
+  const { value } = context;
+  const range = lineRange(value, rawRange);
+  const text = value.slice(range.start, range.end);
+  const saved: VimRegister = { text, linewise: range.linewise };
+  const lastChange = change ?? state.lastChange;
+
+  switch (operator) {
+    case "y": {
+      const registers = writeRegister(state, register, saved, "yank");
+      const pos = range.linewise && lineStartAt(value, cursor) === range.start ? cursor : range.start;
+      return normalResult(state, cursorEdit(value, pos), { registers, column: null });
+    }
+    case "d": {
+      const registers = writeRegister(state, register, saved, "delete");
+      if (!range.linewise) {
+        return normalResult(state, cursorEdit(replaceRange(value, range.start, range.end, ""), range.start), {
+          registers,
+          lastChange,
+          column: null,
+        });
+      }
+      // Take one newline with the lines: the one after, or before the last line
+      const [start, end] =
+        range.end < value.length ? [range.start, range.end + 1] : [Math.max(0, range.start - 1), range.end];
+      const next = replaceRange(value, start, end, "");
+      const pos = firstNonBlankAt(next, Math.min(range.start, lineStartAt(next, Math.min(start, next.length))));
+      return normalResult(state, cursorEdit(next, pos), { registers, lastChange, column: null });
+    }
+    case "c": {
+      const registers = writeRegister(state, register, saved, "delete");
+      // Changing lines keeps the first line's indentation
+      const indent = range.linewise ? value.slice(range.start, firstNonBlankAt(value, range.start)) : "";
+      const next = replaceRange(value, range.start, range.end, indent);
+      const caret = range.start + indent.length;
+      return insertResult(state, cursorEdit(next, caret), change, { registers });
+    }
+    case ">":
+    case "<": {
+      if (range.start === range.end) return normalResult(state, cursorEdit(value, cursor), { lastChange });
+      const edit = (operator === ">" ? indentLines : outdentLines)(value, range.start, range.end);
+      const next = edit?.value ?? value;
+      return normalResult(state, cursorEdit(next, firstNonBlankAt(next, range.start)), { lastChange, column: null });
+    }
+    default: {
+      const next = replaceRange(value, range.start, range.end, toggleCase(text, operator));
+      return normalResult(state, cursorEdit(next, range.start), { lastChange, column: null });
+    }
+  }
+};
+
+const paste = (
+  state: VimState,
+  context: KeymapContext,
+  register: VimRegister | undefined,
+  before: boolean,
+  count: number,
+  cursor: number,
+  lastChange: VimChange | null
+): KeymapResult<VimState> => {
+  const { value } = context;
+  if (!register) return normalResult(state, cursorEdit(value, cursor));
+  const text = Array(count).fill(register.text).join(register.linewise ? "\n" : "");
+
+  if (register.linewise) {
+    if (before) {
+      const start = lineStartAt(value, cursor);
+      const next = replaceRange(value, start, start, `${text}\n`);
+      return normalResult(state, cursorEdit(next, firstNonBlankAt(next, start)), { lastChange });
+    }
+    const end = lineEndAt(value, cursor);
+    const next = replaceRange(value, end, end, `\n${text}`);
+    return normalResult(state, cursorEdit(next, firstNonBlankAt(next, end + 1)), { lastChange });
+  }
+
+  const at = before || lineEndAt(value, cursor) === cursor ? cursor : cursor + 1;
+  const next = replaceRange(value, at, at, text);
+  return normalResult(state, cursorEdit(next, at + Math.max(0, text.length - 1)), { lastChange });
+};
+
+const joinLines = (value: string, cursor: number, lines: number): TextEdit => {
+  let next = value;
+  let pos = cursor;
+  for (let i = 0; i < lines - 1; i++) {
+    const end = lineEndAt(next, pos);
+    if (end === next.length) break;
+    let after = end + 1;
+    while (after < next.length && /[ \t]/.test(next[after])) after++;
+    const joinsText = after < next.length && next[after] !== "\n" && end > lineStartAt(next, end) && !/[ \t]/.test(next[end - 1]);
+    next = replaceRange(next, end, after, joinsText ? " " : "");
+    pos = end;
+  }
+  return cursorEdit(next, pos);
+};
+
+/**
+ * Leave insert mode: remember what was typed for `.`, repeat it for a
+ * count, and step back onto the last character typed
+ */
+const leaveInsert = (state: VimState, context: KeymapContext): KeymapResult<VimState> => {
+  let { value } = context;
+  let caret = context.selectionStart;
+  let lastChange = state.lastChange;
+  const insert = state.insert;
+
+  if (insert?.change) {
+    const typedEnd = value.length - insert.suffix.length;
+    const contiguous = typedEnd >= insert.prefix.length && value.startsWith(insert.prefix) && value.endsWith(insert.suffix);
+    const text = contiguous ? value.slice(insert.prefix.length, typedEnd) : "";
+    lastChange = { ...insert.change, text };
+    const count = insert.change.count ?? 1;
+    if (text && count > 1 && INSERT_COMMANDS.has(insert.change.keys[0])) {
+      const repeated = text.repeat(count - 1);
+      value = replaceRange(value, typedEnd, typedEnd, repeated);
+      caret = typedEnd + repeated.length;
+    }
+  }
+
+  const pos = caret > lineStartAt(value, caret) ? caret - 1 : caret;
+  return {
+    state: { ...state, mode: "normal", pending: [], insert: null, lastChange, column: null },
+    handled: true,
+    edit: cursorEdit(value, pos),
+  };
+};
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+const visualRange = (state: VimState): Range => ({
+  start: Math.min(state.anchor, state.head),
+  end: Math.max(state.anchor, state.head) + 1,
+  linewise: state.mode === "visual-line",
+});
+
+const visualEdit = (state: VimState, value: string): TextEdit => {
+  const range = visualRange(state);
+  if (range.linewise) {
+    return { value, selectionStart: lineStartAt(value, range.start), selectionEnd: lineEndAt(value, range.end - 1) };
+  }
+  return { value, selectionStart: range.start, selectionEnd: Math.min(range.end, value.length) };
+};
+
+const visualResult = (state: VimState, value: string, changes: Partial<VimState>): KeymapResult<VimState> => {
+  const next = { ...state, pending: [], ...changes };
+  return { state: next, handled: true, edit: visualEdit(next, value) };
+};
+
+const runVisual = (state: VimState, command: ParsedCommand, context: KeymapContext): KeymapResult<VimState> => {
+  const { value } = context;
+  const [key, arg] = command.keys;
+  const count = command.count ?? 1;
+  const range = visualRange(state);
+  const selected: Range = { ...range, end: Math.min(range.end, value.length) };
+  const start = lineRange(value, selected).start;
+
+  switch (key) {
+    case "v":
+    case "V": {
+      const mode = key === "v" ? "visual" : "visual-line";
+      if (state.mode === mode) return normalResult(state, cursorEdit(value, state.head));
+      return visualResult(state, value, { mode });
+    }
+    case "o":
+      return visualResult(state, value, { anchor: state.head, head: state.anchor });
+    case "d":
+    case "x":
+    case "X":
+    case "Delete":
+      return applyOperator("d", key === "X" ? { ...selected, linewise: true } : selected, state, context, command.register, null, start);
+    case "c":
+    case "s":
+      return applyOperator("c", selected, state, context, command.register, null, start);
+    case "y":
+      return applyOperator("y", selected, state, context, command.register, null, start);
+    case ">":
+    case "<":
+      return applyOperator(key, { ...selected, linewise: true }, state, context, null, null, start);
+    case "~":
+    case "u":
+    case "U":
+      return applyOperator(key === "~" ? "g~" : `g${key}`, selected, state, context, null, null, start);
+    case "J": {
+      const lines = value.slice(selected.start, selected.end).split("\n").length;
+      return normalResult(state, joinLines(value, selected.start, Math.max(2, lines)));
+    }
+    case "r": {
+      const char = arg === "Enter" ? "\n" : arg;
+      const { start: from, end: to } = lineRange(value, selected);
+      const next = replaceRange(value, from, to, value.slice(from, to).replace(/[^\n]/g, char));
+      return normalResult(state, cursorEdit(next, from));
+    }
+    case "p":
+    case "P": {
+      const register = readRegister(state, command.register);
+      if (!register) return normalResult(state, cursorEdit(value, start));
+      const { start: from, end: to } = lineRange(value, selected);
+      const replaced: VimRegister = { text: value.slice(from, to), linewise: selected.linewise };
+      const text = register.linewise && !selected.linewise ? `\n${register.text}\n` : register.text;
+      const next = replaceRange(value, from, to, text);
+      const registers = key === "p" ? writeRegister(state, null, replaced, "delete") : state.registers;
+      return normalResult(state, cursorEdit(next, from + Math.max(0, text.length - 1)), { registers });
+    }
+    case "i":
+    case "a": {
+      const object = textObjectRange(value, state.head, key === "a", arg, count);
+      if (!object) return visualResult(state, value, {});
+      const mode = object.linewise ? "visual-line" : state.mode;
+      const anchor = range.end - range.start > 1 ? Math.min(state.anchor, object.start) : object.start;
+      return visualResult(state, value, { mode, anchor, head: Math.max(object.start, object.end - 1) });
+    }
+  }
+
+  const motion = motionTarget(command.keys, state, context, state.head, command.count, false);
+  if (!motion) return visualResult(state, value, {});
+  const end = lineEndAt(value, motion.target.pos);
+  const head = motion.target.pos === end && end > lineStartAt(value, end) ? end - 1 : motion.target.pos;
+  return visualResult(state, value, {
+    head: Math.min(head, Math.max(0, value.length - 1)),
+    column: motion.target.column ?? null,
+    lastFind: motion.lastFind ?? state.lastFind,
+  });
+};
+
+const runNormal = (state: VimState, command: ParsedCommand, context: KeymapContext): KeymapResult<VimState> => {
+  const { value } = context;
+  const cursor = clampCursor(value, context.selectionStart);
+  let { keys } = command;
+  const { register } = command;
+  const n = command.count ?? 1;
+  const start = lineStartAt(value, cursor);
+  const end = lineEndAt(value, cursor);
+  const change: VimChange | null = REPEATABLE.has(keys[0]) || OPERATORS.has(keys[0]) || keys[0] === "g"
+    ? { keys, register, count: command.count, text: "" }
+    : null;
+  const unchanged = normalResult(state, cursorEdit(value, cursor));
+
+  // Commands that are short for an operator and a motion
+  const shorthand: Record<string, string[]> = {
+    x: ["d", "l"], Delete: ["d", "l"], X: ["d", "h"], s: ["c", "l"], S: ["c", "c"], D: ["d", "$"], C: ["c", "$"], Y: ["y", "y"],
+  };
+  if (keys[0] in shorthand) {
+    if ((keys[0] === "x" || keys[0] === "s" || keys[0] === "Delete") && start === end) {
+      return keys[0] === "s" ? insertResult(state, cursorEdit(value, cursor), change!) : unchanged;
+    }
+    if (keys[0] === "X" && cursor === start) return unchanged;
+    keys = shorthand[keys[0]];
+  }
+
+  const [key, arg] = keys;
+  const operator = OPERATORS.has(key) ? key : key === "g" && CASE_OPERATORS.has(keys[1]) ? `g${keys[1]}` : null;
+
+  if (operator) {
+    const rest = keys.slice(operator.length);
+    if (rest.length === 1 && rest[0] === operator[operator.length - 1]) {
+      // dd and friends: count lines from the cursor's
+      const last = offsetLines(value, cursor, n - 1, 0);
+      const range: Range = { start, end: lineEndAt(value, last), linewise: true };
+      return applyOperator(operator, range, state, context, register, change, cursor);
+    }
+    if (rest[0] === "i" || rest[0] === "a") {
+      const object = textObjectRange(value, cursor, rest[0] === "a", rest[1], n);
+      if (!object) return unchanged;
+      return applyOperator(operator, object, state, context, register, change, cursor);
+    }
+    // cw changes to the end of the word, like ce
+    const motionKeys = operator === "c" && (rest[0] === "w" || rest[0] === "W") && /\S/.test(value[cursor] ?? "")
+      ? [rest[0] === "w" ? "e" : "E"]
+      : rest;
+    const motion = motionTarget(motionKeys, state, context, cursor, command.count, true);
+    if (!motion) return unchanged;
+    const { target } = motion;
+    const range: Range = {
+      start: Math.min(cursor, target.pos),
+      end: Math.max(cursor, target.pos) + (target.inclusive && !target.linewise ? 1 : 0),
+      linewise: target.linewise,
+    };
+    const result = applyOperator(operator, range, state, context, register, change, cursor);
+    return motion.lastFind ? { ...result, state: { ...result.state, lastFind: motion.lastFind } } : result;
+  }
+
+  switch (key) {
+    case "i":
+      return insertResult(state, cursorEdit(value, cursor), change!);
+    case "a":
+      return insertResult(state, cursorEdit(value, cursor === end ? cursor : cursor + 1), change!);
+    case "I":
+      return insertResult(state, cursorEdit(value, firstNonBlankAt(value, cursor)), change!);
+    case "A":
+      return insertResult(state, cursorEdit(value, end), change!);
+    case "o": {
+      // Continue a list or quote like Enter does
+      const continued = continueBlock(value, end, end);
+      if (continued && continued.value.length > value.length) return insertResult(state, continued, change!);
+      const indent = value.slice(start, firstNonBlankAt(value, cursor));
+      return insertResult(state, cursorEdit(replaceRange(value, end, end, `\n${indent}`), end + 1 + indent.length), change!);
+    }
+    case "O": {
+      const indent = value.slice(start, firstNonBlankAt(value, cursor));
+      return insertResult(state, cursorEdit(replaceRange(value, start, start, `${indent}\n`), start + indent.length), change!);
+    }
+    case "v":
+    case "V": {
+      const next = { ...state, mode: key === "v" ? "visual" : "visual-line", anchor: cursor, head: cursor } as VimState;
+      return visualResult(next, value, {});
+    }
+    case "p":
+    case "P":
+      return paste(state, context, readRegister(state, register), key === "P", n, cursor, change);
+    case "J":
+      return normalResult(state, joinLines(value, cursor, Math.max(2, n)), { lastChange: change });
+    case "~": {
+      const to = Math.min(end, cursor + n);
+      const next = replaceRange(value, cursor, to, toggleCase(value.slice(cursor, to), "g~"));
+      return normalResult(state, cursorEdit(next, to), { lastChange: change });
+    }
+    case "r": {
+      if (cursor + n > end) return unchanged;
+      const next = arg === "Enter"
+        ? replaceRange(value, cursor, cursor + n, "\n")
+        : replaceRange(value, cursor, cursor + n, arg.repeat(n));
+      return normalResult(state, cursorEdit(next, arg === "Enter" ? cursor + 1 : cursor + n - 1), { lastChange: change });
+    }
+    case "u":
+      return { ...unchanged, command: "undo" };
+    case "<C-r>":
+      return { ...unchanged, command: "redo" };
+    case ".":
+      return repeatChange(state, context, command.count);
+  }
+
+  const motion = motionTarget(keys, state, context, cursor, command.count, false);
+  if (!motion) return unchanged;
+  return normalResult(state, cursorEdit(value, motion.target.pos), {
+    column: motion.target.column ?? null,
+    lastFind: motion.lastFind ?? state.lastFind,
+  });
+};
+
+/**
+ * `.`: run the last change again, with the text typed after it, as one edit
+ */
+const repeatChange = (state: VimState, context: KeymapContext, count: number | null): KeymapResult<VimState> => {
+  const change = state.lastChange;
+  if (!change) return normalResult(state, cursorEdit(context.value, clampCursor(context.value, context.selectionStart)));
+  const command: ParsedCommand = { register: change.register, count: count ?? change.count, keys: change.keys };
+  const result = runNormal(state, command, context);
+  if (result.state.mode !== "insert" || !result.edit) return result;
+
+  const { value, selectionStart } = result.edit;
+  const typed = replaceRange(value, selectionStart, selectionStart, change.text);
+  return leaveInsert(result.state, {
+    ...context,
+    value: typed,
+    selectionStart: selectionStart + change.text.length,
+    selectionEnd: selectionStart + change.text.length,
+  });
+};
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * Handle a key (named as by keyName) in Vim mode
+ */
+export const handleVimKey = (state: VimState, key: string, context: KeymapContext): KeymapResult<VimState> => {
+  const { value, selectionStart, selectionEnd } = context;
+
+  if (state.mode === "insert") {
+    if (key === "Escape" || key === "<C-[>" || key === "<C-c>") return leaveInsert(state, context);
+    return { state, handled: false };
+  }
+
+  // A selection made with the mouse starts visual mode; a click ends it
+  let current = state;
+  if (current.mode === "normal" && selectionStart !== selectionEnd) {
+    current = { ...current, mode: "visual", anchor: selectionStart, head: selectionEnd - 1 };
+  } else if (current.mode !== "normal") {
+    const expected = visualEdit(current, value);
+    if (selectionStart === selectionEnd) {
+      current = { ...current, mode: "normal", pending: [] };
+    } else if (expected.selectionStart !== selectionStart || expected.selectionEnd !== selectionEnd) {
+      current = { ...current, mode: "visual", anchor: selectionStart, head: selectionEnd - 1 };
+    }
+  }
+  const visual = current.mode !== "normal";
+
+  if (key === "Escape" || key === "<C-[>" || key === "<C-c>") {
+    if (current.pending.length > 0) return { state: { ...current, pending: [] }, handled: true };
+    if (visual) return normalResult(current, cursorEdit(value, current.head));
+    // Nothing to cancel: leave Escape to the editor, e.g. to close the find bar
+    return { state: current, handled: false };
+  }
+
+  // Ctrl and Alt keys Vim doesn't use go to the editor and the app's shortcuts
+  const bound = ["<C-r>", "<C-d>", "<C-u>"].includes(key);
+  if (key.startsWith("<") && key.length > 1 && !bound) {
+    return { state: { ...current, pending: [] }, handled: false };
+  }
+  if (key.length > 1 && !bound && !EDITING_KEYS.has(key) && current.pending.length === 0) {
+    return { state: current, handled: false };
+  }
+
+  const parsed = parseCommand([...current.pending, key], visual);
+  if (parsed === "incomplete") return { state: { ...current, pending: [...current.pending, key] }, handled: true };
+  if (parsed === "invalid") {
+    const next = { ...current, pending: [] };
+    return visual ? visualResult(next, value, {}) : { state: next, handled: true };
+  }
+  return visual ? runVisual(current, parsed, context) : runNormal(current, parsed, context);
+};
+
+/**
+ * Whether the keymap leaves typing to the editor
+ */
+export const isVimInserting = (state: VimState): boolean => state.mode === "insert";
+
+/**
+ * Label for the editor's status bar
+ */
+export const getVimStatus = (state: VimState): { label: string; detail: string } => {
+  const labels: Record<VimMode, string> = {
+    normal: "NORMAL",
+    insert: "INSERT",
+    visual: "VISUAL",
+    "visual-line": "VISUAL LINE",
+  };
+  return { label: labels[state.mode], detail: state.pending.join("") };
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { FaTriangleExclamation } from 'react-icons/fa6';
+import { useWorkspaceLock } from '../hooks/useWorkspaceLock';
+
+interface PlaintextWarningProps {
+  // What will be written without encryption, e.g. "the downloaded file"
+  subject: string;
+  className?: string;
+  children?: React.ReactNode;
+}
+
+/**
+ * Warns that an export leaves the encrypted workspace as plain text. Renders
+ * nothing when workspace encryption is off.
+ */
+const PlaintextWarning: React.FC<PlaintextWarningProps> = ({ subject, className = '', children }) => {
+  const { isEncrypted } = useWorkspaceLock();
+  if (!isEncrypted) return null;
+
+  return (
+    <div className={`bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-lg p-3 text-sm text-orange-700 dark:text-orange-300 ${className}`}>
+      <div className="flex items-start gap-2">
+        <FaTriangleExclamation className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <span>
+          Your workspace is encrypted, but {subject} will not be. Anyone who gets hold of it can read it.
+        </span>
+      </div>
+      {children && <div className="mt-3 flex justify-end">{children}</div>}
+    </div>
+  );
+};
+
+export default PlaintextWarning;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Project } from '../types';
 import { ProjectService } from '../services/projectService';
+import { TemplateService } from '../services/templateService';
 import { 
   FaXmark,
   FaFolder,
@@ -79,6 +80,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
   const [color, setColor] = useState(ProjectService.getRandomColor());
   const [icon, setIcon] = useState('folder');
   const [isPinned, setIsPinned] = useState(false);
+  const [defaultTemplateId, setDefaultTemplateId] = useState('');
   const [errors, setErrors] = useState<string[]>([]);
   const [showIconPicker, setShowIconPicker] = useState(false);
   const [isInputFocused, setIsInputFocused] = useState(false);
@@ -91,6 +93,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
       setColor(existingProject.color);
       setIcon(existingProject.icon || 'folder');
       setIsPinned(existingProject.isPinned);
+      setDefaultTemplateId(existingProject.settings.defaultTemplateId || '');
     } else if (mode === 'create') {
       // Reset form for new project
       setTitle('');
@@ -98,6 +101,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
       setColor(ProjectService.getRandomColor());
       setIcon('folder');
       setIsPinned(false);
+      setDefaultTemplateId('');
     }
     setErrors([]);
   }, [mode, existingProject, isOpen]);
@@ -112,7 +116,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
       icon,
       isPinned,
       isArchived: existingProject?.isArchived || false,
-      settings: existingProject?.settings || {},
+      settings: { ...existingProject?.settings, defaultTemplateId: defaultTemplateId || undefined },
     };
 
     const validation = ProjectService.validateProject(projectData);
@@ -279,6 +283,23 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                 </div>
               </div>
 
+              {/* Default Template */}
+              <div>
+                <label className="block text-sm font-semibold text-gray-800 dark:text-gray-200 mb-3">
+                  Template for new notes
+                </label>
+                <select
+                  value={defaultTemplateId}
+                  onChange={(e) => setDefaultTemplateId(e.target.value)}
+                  className="w-full px-4 py-3 bg-white/60 dark:bg-white/5 border border-black/10 dark:border-white/10 rounded-2xl outline-none text-gray-900 dark:text-white text-sm font-medium backdrop-blur-xl shadow-sm"
+                >
+                  <option value="">Blank note</option>
+                  {TemplateService.getTemplates().map((template) => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                  ))}
+                </select>
+              </div>
+
               {/* Pin Option */}
               {mode === 'create' && (
                 <div className="flex items-center justify-between p-5 bg-gradient-to-br from-amber-500/10 to-yellow-500/10 dark:from-amber-500/20 dark:to-yellow-500/20 backdrop-blur-xl rounded-3xl border border-amber-500/20 dark:border-amber-500/30 shadow-lg shadow-amber-500/10">
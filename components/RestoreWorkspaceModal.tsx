@@ -0,0 +1,240 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Note, Project } from '../types';
+import { BackupService, RestoreMode, RestorePlan, WorkspaceBackup, RestoreChanges } from '../services/backupService';
+import { FaXmark, FaUpload, FaTriangleExclamation } from 'react-icons/fa6';
+
+interface RestoreWorkspaceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  notes: Note[];
+  projects: Project[];
+  onRestore: (plan: RestorePlan) => void;
+}
+
+// How many changed items to list per section in the preview
+const PREVIEW_LIMIT = 5;
+
+const ChangeSummary = <T extends { id: string; title: string },>({ label, changes }: { label: string; changes: RestoreChanges<T> }) => {
+  const listed = [
+    ...changes.added.map(item => ({ item, kind: 'added' as const })),
+    ...changes.updated.map(item => ({ item, kind: 'updated' as const })),
+    ...changes.removed.map(item => ({ item, kind: 'removed' as const })),
+  ];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-text-primary dark:text-dark-text-primary">{label}</span>
+        <span className="text-xs text-text-muted dark:text-dark-text-muted">
+          <span className="text-green-600 dark:text-green-400">+{changes.added.length}</span>
+          {' · '}
+          <span className="text-blue-600 dark:text-blue-400">~{changes.updated.length}</span>
+          {' · '}
+          <span className="text-red-600 dark:text-red-400">-{changes.removed.length}</span>
+          {' · '}
+          {changes.unchanged} unchanged
+        </span>
+      </div>
+      {listed.length > 0 && (
+        <ul className="mt-1 space-y-0.5 text-xs text-text-muted dark:text-dark-text-muted">
+          {listed.slice(0, PREVIEW_LIMIT).map(({ item, kind }) => (
+            <li key={`${kind}-${item.id}`} className="truncate">
+              <span className={
+                kind === 'added' ? 'text-green-600 dark:text-green-400'
+                  : kind === 'updated' ? 'text-blue-600 dark:text-blue-400'
+                  : 'text-red-600 dark:text-red-400'
+              }>
+                {kind === 'added' ? 'Add' : kind === 'updated' ? 'Update' : 'Remove'}
+              </span>{' '}
+              {item.title || 'Untitled'}
+            </li>
+          ))}
+          {listed.length > PREVIEW_LIMIT && <li>…and {listed.length - PREVIEW_LIMIT} more</li>}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const RestoreWorkspaceModal: React.FC<RestoreWorkspaceModalProps> = ({ isOpen, onClose, notes, projects, onRestore }) => {
+  const [backup, setBackup] = useState<WorkspaceBackup | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [includePreferences, setIncludePreferences] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setBackup(null);
+      setFileName('');
+      setError(null);
+      setMode('merge');
+      setIncludePreferences(false);
+    }
+  }, [isOpen]);
+
+  const plan = useMemo(
+    () => backup ? BackupService.planRestore(backup, notes, projects, mode, includePreferences) : null,
+    [backup, notes, projects, mode, includePreferences]
+  );
+
+  if (!isOpen) return null;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    setError(null);
+    setFileName(file.name);
+    try {
+      setBackup(await BackupService.readBackupFile(file));
+    } catch (err) {
+      setBackup(null);
+      setError(err instanceof Error ? err.message : 'Failed to read the backup file');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleModeChange = (newMode: RestoreMode) => {
+    setMode(newMode);
+    // A full replace restores preferences too unless the user opts out
+    setIncludePreferences(newMode === 'replace');
+  };
+
+  const hasChanges = plan !== null && (
+    plan.notes.added.length + plan.notes.updated.length + plan.notes.removed.length +
+    plan.projects.added.length + plan.projects.updated.length + plan.projects.removed.length +
+    plan.versionHistories.written.length + plan.versionHistories.removed.length +
+    plan.attachments.length + plan.preferenceLabels.length > 0
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-surface dark:bg-dark-surface border border-border-color dark:border-dark-border-color rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-border-color dark:border-dark-border-color">
+          <h2 className="text-lg font-semibold text-text-primary dark:text-dark-text-primary">
+            Restore Workspace
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+          >
+            <FaXmark className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <label className="w-full flex items-center justify-center gap-3 p-4 border-2 border-dashed border-border-color dark:border-dark-border-color rounded-lg cursor-pointer text-text-muted dark:text-dark-text-muted hover:border-primary hover:text-primary transition-colors">
+            {isReading ? (
+              <div className="w-5 h-5 border-2 border-primary/50 border-t-primary rounded-full animate-spin"></div>
+            ) : (
+              <FaUpload className="w-5 h-5" />
+            )}
+            <span className="text-sm font-medium truncate">{fileName || 'Choose a backup file (.json.gz or .json)'}</span>
+            <input type="file" accept=".gz,.json,application/gzip,application/json" className="hidden" onChange={handleFileChange} />
+          </label>
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+
+          {backup && plan && (
+            <>
+              <p className="text-xs text-text-muted dark:text-dark-text-muted">
+                Backup from {new Date(backup.manifest.createdAt).toLocaleString()} · {backup.manifest.counts.notes} notes, {backup.manifest.counts.projects} projects, {backup.manifest.counts.versions} versions
+                {backup.attachments.length > 0 && `, ${backup.attachments.length} attachments`}
+              </p>
+
+              <div className="grid grid-cols-2 gap-2">
+                {(['merge', 'replace'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => handleModeChange(option)}
+                    className={`p-3 rounded-lg border text-left transition-colors ${
+                      mode === option
+                        ? 'border-primary bg-primary/10'
+                        : 'border-border-color dark:border-dark-border-color hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary'
+                    }`}
+                  >
+                    <div className="text-sm font-medium text-text-primary dark:text-dark-text-primary">
+                      {option === 'merge' ? 'Merge' : 'Replace'}
+                    </div>
+                    <div className="text-xs text-text-muted dark:text-dark-text-muted">
+                      {option === 'merge' ? 'Keep existing data, newer copies win' : 'Make the workspace match the backup'}
+                    </div>
+                  </button>
+                ))}
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-text-primary dark:text-dark-text-primary">
+                <input
+                  type="checkbox"
+                  checked={includePreferences}
+                  onChange={e => setIncludePreferences(e.target.checked)}
+                />
+                Restore preferences (theme, sidebar layout, shortcuts, templates)
+              </label>
+
+              <div className="space-y-3 p-4 rounded-lg bg-bg-secondary dark:bg-dark-bg-secondary">
+                <ChangeSummary label="Notes" changes={plan.notes} />
+                <ChangeSummary label="Projects" changes={plan.projects} />
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-text-primary dark:text-dark-text-primary">Version history</span>
+                  <span className="text-xs text-text-muted dark:text-dark-text-muted">
+                    {plan.versionHistories.written.length} notes written
+                    {plan.versionHistories.removed.length > 0 && `, ${plan.versionHistories.removed.length} removed`}
+                  </span>
+                </div>
+                {plan.attachments.length > 0 && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-text-primary dark:text-dark-text-primary">Attachments</span>
+                    <span className="text-xs text-text-muted dark:text-dark-text-muted">{plan.attachments.length} added</span>
+                  </div>
+                )}
+                {plan.preferenceLabels.length > 0 && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-text-primary dark:text-dark-text-primary">Preferences</span>
+                    <span className="text-xs text-text-muted dark:text-dark-text-muted">{plan.preferenceLabels.join(', ')}</span>
+                  </div>
+                )}
+              </div>
+
+              {mode === 'replace' && (plan.notes.removed.length > 0 || plan.projects.removed.length > 0) && (
+                <div className="flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+                  <FaTriangleExclamation className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>
+                    {plan.notes.removed.length} notes and {plan.projects.removed.length} projects that are not in the backup will be deleted. Consider backing up the current workspace first.
+                  </span>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-border-color dark:border-dark-border-color">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => plan && onRestore(plan)}
+            disabled={!hasChanges}
+            className={`px-4 py-2 text-sm font-medium text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-primary hover:bg-primary/90'
+            }`}
+          >
+            {mode === 'replace' ? 'Replace Workspace' : 'Merge Backup'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestoreWorkspaceModal;
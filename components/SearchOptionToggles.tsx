@@ -0,0 +1,54 @@
+import React from 'react';
+import { SearchOptions } from '../utils/textSearch';
+
+export const SEARCH_OPTION_TOGGLES: { option: keyof SearchOptions; label: React.ReactNode; title: string; shortcut: string }[] = [
+  { option: 'caseSensitive', label: 'Aa', title: 'Match case', shortcut: 'c' },
+  { option: 'wholeWord', label: <span className="underline">ab</span>, title: 'Match whole word', shortcut: 'w' },
+  { option: 'useRegex', label: '.*', title: 'Use regular expression', shortcut: 'r' },
+];
+
+/**
+ * Toggle an option with Alt+C / Alt+W / Alt+R. Returns true if the key was used.
+ */
+export const handleSearchOptionShortcut = (
+  e: React.KeyboardEvent,
+  onToggle: (option: keyof SearchOptions) => void
+): boolean => {
+  if (!e.altKey || e.ctrlKey || e.metaKey) return false;
+  const toggle = SEARCH_OPTION_TOGGLES.find(({ shortcut }) => shortcut === e.key.toLowerCase());
+  if (!toggle) return false;
+  e.preventDefault();
+  onToggle(toggle.option);
+  return true;
+};
+
+interface SearchOptionTogglesProps {
+  options: SearchOptions;
+  onToggle: (option: keyof SearchOptions) => void;
+}
+
+/**
+ * Case, whole-word and regex toggles shown next to a search input
+ */
+const SearchOptionToggles: React.FC<SearchOptionTogglesProps> = ({ options, onToggle }) => (
+  <>
+    {SEARCH_OPTION_TOGGLES.map(({ option, label, title, shortcut }) => (
+      <button
+        key={option}
+        type="button"
+        onClick={() => onToggle(option)}
+        title={`${title} (Alt+${shortcut.toUpperCase()})`}
+        aria-pressed={options[option]}
+        className={`px-1.5 py-1 text-xs font-mono rounded-md border ${
+          options[option]
+            ? 'border-accent dark:border-dark-accent bg-accent/10 dark:bg-dark-accent/20 text-accent dark:text-dark-accent'
+            : 'border-transparent text-text-muted dark:text-dark-text-muted hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary'
+        }`}
+      >
+        {label}
+      </button>
+    ))}
+  </>
+);
+
+export default SearchOptionToggles;
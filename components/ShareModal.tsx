@@ -3,6 +3,8 @@ import { Note } from '../types';
 import { generateShareableUrl } from '../utils/shareUtils';
 import { MdClose, MdContentCopy, MdCheck, MdShare, MdDescription, MdLink, MdWarning } from 'react-icons/md';
 import DownloadModal from './DownloadModal'; // Import the DownloadModal
+import PlaintextWarning from './PlaintextWarning';
+import { useWorkspaceLock } from '../hooks/useWorkspaceLock';
 
 interface ShareModalProps {
   isOpen: boolean;
@@ -17,9 +19,19 @@ const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, note, onToast
   const [isUrlTooLong, setIsUrlTooLong] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isDownloadModalOpen, setIsDownloadModalOpen] = useState(false);
+  const { isEncrypted } = useWorkspaceLock();
+  // Share links carry the note unencrypted, so encrypted workspaces confirm first
+  const [isPlaintextConfirmed, setIsPlaintextConfirmed] = useState(false);
+  const needsPlaintextConfirmation = isEncrypted && !isPlaintextConfirmed;
 
   useEffect(() => {
-    if (isOpen && note) {
+    if (!isOpen) {
+      setIsPlaintextConfirmed(false);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen && note && !needsPlaintextConfirmation) {
       setIsLoading(true);
       const generateLink = async () => {
         const url = await generateShareableUrl(note);
@@ -35,7 +47,7 @@ const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, note, onToast
       };
       generateLink();
     }
-  }, [isOpen, note, onToast]);
+  }, [isOpen, note, onToast, needsPlaintextConfirmation]);
 
   const handleCopyToClipboard = async () => {
     if (isUrlTooLong) {
@@ -115,7 +127,16 @@ const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, note, onToast
               </div>
             </div>
 
-            {isLoading ? (
+            {needsPlaintextConfirmation ? (
+              <PlaintextWarning subject="the share link">
+                <button
+                  onClick={() => setIsPlaintextConfirmed(true)}
+                  className="bg-accent dark:bg-dark-accent text-white hover:bg-accent-hover dark:hover:bg-dark-accent-hover px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200"
+                >
+                  Create Link Anyway
+                </button>
+              </PlaintextWarning>
+            ) : isLoading ? (
               <div className="flex items-center justify-center h-24">
                 <div className="w-6 h-6 border-2 border-accent/50 border-t-accent rounded-full animate-spin"></div>
               </div>
@@ -172,7 +193,7 @@ const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, note, onToast
             )}
 
             <div className="flex flex-col sm:flex-row gap-3 pt-2">
-              {!isLoading && !isUrlTooLong && 'share' in navigator && (
+              {!needsPlaintextConfirmation && !isLoading && !isUrlTooLong && 'share' in navigator && (
                 <button
                   onClick={handleNativeShare}
                   className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-bg-secondary dark:bg-dark-bg-secondary text-text-primary dark:text-dark-text-primary rounded-lg hover:bg-border-color dark:hover:bg-dark-border-color transition-all duration-200 border border-border-color dark:border-dark-border-color"
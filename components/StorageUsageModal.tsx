@@ -0,0 +1,489 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Note, Project } from '../types';
+import {
+  StorageUsageService,
+  CleanupAction,
+  CleanupPlan,
+  CleanupResult,
+  NoteStorageUsage,
+} from '../services/storageUsageService';
+import { migrationService } from '../services/migrationService';
+import { storageService } from '../services/storageService';
+import { FaXmark, FaTriangleExclamation, FaArrowLeft, FaTrash } from 'react-icons/fa6';
+
+interface StorageUsageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  notes: Note[];
+  projects: Project[];
+  onCleanupComplete: (result: CleanupResult) => void;
+}
+
+const TRIM_OPTIONS = [5, 10, 20];
+const AGE_OPTIONS = [30, 90, 180];
+
+const CATEGORY_STYLES = [
+  { key: 'notes', label: 'Notes', color: 'bg-blue-500' },
+  { key: 'versionHistories', label: 'Version history', color: 'bg-purple-500' },
+  { key: 'projects', label: 'Projects', color: 'bg-green-500' },
+  { key: 'attachments', label: 'Attachments', color: 'bg-amber-500' },
+  { key: 'undoHistories', label: 'Undo history', color: 'bg-teal-500' },
+  { key: 'trash', label: 'Trash', color: 'bg-red-400' },
+  { key: 'other', label: 'Other', color: 'bg-gray-400' },
+] as const;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+};
+
+const describeAction = (action: CleanupAction): string => {
+  switch (action.type) {
+    case 'trim-histories':
+      return `Keep the latest ${action.keepPerNote} versions of each note`;
+    case 'remove-old-versions':
+      return `Remove versions older than ${action.olderThanDays} days`;
+    case 'remove-orphaned-histories':
+      return 'Remove history of deleted notes';
+    case 'clear-note-history':
+      return 'Clear version history';
+    case 'remove-migration-backup':
+      return 'Delete the pre-migration backup';
+  }
+};
+
+const describePlan = (plan: CleanupPlan): string => {
+  const parts: string[] = [];
+  if (plan.versionCount > 0) {
+    parts.push(
+      `${plan.versionCount} ${plan.versionCount === 1 ? 'version' : 'versions'} from ` +
+      `${plan.histories.length} ${plan.histories.length === 1 ? 'note' : 'notes'}`
+    );
+  }
+  if (plan.removesMigrationBackup) {
+    parts.push('the pre-migration backup');
+  }
+  return `Removes ${parts.join(' and ')}, freeing about ${formatBytes(plan.bytesFreed)}.`;
+};
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h3 className="text-sm font-semibold text-text-primary dark:text-dark-text-primary mb-2">{children}</h3>
+);
+
+const UsageList: React.FC<{
+  items: NoteStorageUsage[];
+  size: (item: NoteStorageUsage) => number;
+  detail?: (item: NoteStorageUsage) => string;
+  onClear?: (item: NoteStorageUsage) => void;
+}> = ({ items, size, detail, onClear }) => (
+  <ul className="divide-y divide-border-color dark:divide-dark-border-color text-sm">
+    {items.map(item => (
+      <li key={item.noteId} className="flex items-center gap-3 py-1.5">
+        <span className="flex-1 truncate text-text-secondary dark:text-dark-text-secondary">{item.title}</span>
+        {detail && <span className="text-xs text-text-muted dark:text-dark-text-muted">{detail(item)}</span>}
+        <span className="w-20 text-right text-xs text-text-muted dark:text-dark-text-muted">{formatBytes(size(item))}</span>
+        {onClear && (
+          <button
+            onClick={() => onClear(item)}
+            className="p-1 rounded text-text-muted dark:text-dark-text-muted hover:text-red-600 dark:hover:text-red-400 transition-colors"
+            title="Clear version history"
+          >
+            <FaTrash className="w-3 h-3" />
+          </button>
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+const StorageUsageModal: React.FC<StorageUsageModalProps> = ({ isOpen, onClose, notes, projects, onCleanupComplete }) => {
+  const [plan, setPlan] = useState<CleanupPlan | null>(null);
+  const [keepPerNote, setKeepPerNote] = useState(TRIM_OPTIONS[1]);
+  const [olderThanDays, setOlderThanDays] = useState(AGE_OPTIONS[1]);
+  // Bumped after a cleanup so the report is measured again
+  const [revision, setRevision] = useState(0);
+  const [isConfirmingRollback, setIsConfirmingRollback] = useState(false);
+  const [migrationError, setMigrationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPlan(null);
+      setIsConfirmingRollback(false);
+      setMigrationError(null);
+    }
+  }, [isOpen]);
+
+  const report = useMemo(
+    () => isOpen ? StorageUsageService.getUsageReport(notes, projects) : null,
+    [isOpen, notes, projects, revision]
+  );
+
+  // What pending data updates would change; they normally run at startup, so
+  // anything listed here failed there
+  const migrationReport = useMemo(
+    () => isOpen ? migrationService.dryRun() : null,
+    [isOpen, revision]
+  );
+  const backupCreatedAt = useMemo(
+    () => isOpen ? migrationService.getBackupCreatedAt() : null,
+    [isOpen, revision]
+  );
+
+  if (!isOpen || !report || !migrationReport) return null;
+
+  // The app holds the data in memory, so it is reloaded once the stored data has changed
+  const reloadWhenSaved = () => {
+    storageService.flush().finally(() => window.location.reload());
+  };
+
+  const handleRunPending = () => {
+    const result = migrationService.runPending();
+    if (result.error) {
+      setMigrationError(result.error);
+      setRevision(value => value + 1);
+      return;
+    }
+    reloadWhenSaved();
+  };
+
+  const handleRollback = () => {
+    if (!migrationService.restoreBackup()) {
+      setIsConfirmingRollback(false);
+      setMigrationError('The backup could not be restored. Your data was left unchanged.');
+      return;
+    }
+    reloadWhenSaved();
+  };
+
+  const previewCleanup = (action: CleanupAction) => {
+    setPlan(StorageUsageService.planCleanup(action, notes));
+  };
+
+  const handleApply = () => {
+    if (!plan) return;
+    const result = StorageUsageService.applyCleanup(plan);
+    setPlan(null);
+    setRevision(value => value + 1);
+    onCleanupComplete(result);
+  };
+
+  const orphanedSize = report.orphanedHistories.reduce((sum, history) => sum + history.historySize, 0);
+  const hasPlanChanges = plan !== null && (plan.histories.length > 0 || plan.removesMigrationBackup);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-surface dark:bg-dark-surface border border-border-color dark:border-dark-border-color rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-border-color dark:border-dark-border-color">
+          <div className="flex items-center gap-2">
+            {plan && (
+              <button
+                onClick={() => setPlan(null)}
+                className="p-1 rounded-md hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+                title="Back"
+              >
+                <FaArrowLeft className="w-4 h-4" />
+              </button>
+            )}
+            <h2 className="text-lg font-semibold text-text-primary dark:text-dark-text-primary">
+              {plan ? describeAction(plan.action) : 'Storage Usage'}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+          >
+            <FaXmark className="w-5 h-5" />
+          </button>
+        </div>
+
+        {plan ? (
+          <div className="p-6 space-y-4 overflow-y-auto">
+            {hasPlanChanges ? (
+              <p className="text-sm text-text-secondary dark:text-dark-text-secondary">
+                {describePlan(plan)} Note content is never changed.
+              </p>
+            ) : (
+              <p className="text-sm text-text-muted dark:text-dark-text-muted">Nothing to remove.</p>
+            )}
+
+            {plan.histories.map(history => (
+              <div key={history.noteId} className="p-3 rounded-lg bg-bg-secondary dark:bg-dark-bg-secondary">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-text-primary dark:text-dark-text-primary truncate">{history.title}</span>
+                  <span className="text-xs text-text-muted dark:text-dark-text-muted flex-shrink-0 ml-3">
+                    {history.removesHistory ? 'Entire history' : `${history.versions.length} versions`} · {formatBytes(history.bytesFreed)}
+                  </span>
+                </div>
+                <ul className="mt-1 space-y-0.5 text-xs text-text-muted dark:text-dark-text-muted">
+                  {history.versions.map(version => (
+                    <li key={version.id} className="flex gap-2">
+                      <span className="w-10 font-mono text-red-600 dark:text-red-400">v{version.version}</span>
+                      <span className="w-36 flex-shrink-0">{new Date(version.createdAt).toLocaleString()}</span>
+                      <span className="truncate">{version.changeDescription || version.changeType}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+
+            {plan.removesMigrationBackup && (
+              <div className="flex items-start gap-2 text-sm text-orange-600 dark:text-orange-400">
+                <FaTriangleExclamation className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>Without the backup, data can no longer be rolled back to before the last update.</span>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="p-6 space-y-6 overflow-y-auto">
+            <div>
+              <div className="flex items-center justify-between text-sm mb-2">
+                <span className="text-text-secondary dark:text-dark-text-secondary">
+                  {formatBytes(report.totalSize)} used
+                </span>
+                <span className="text-xs text-text-muted dark:text-dark-text-muted">
+                  {report.backend === 'indexeddb' ? 'IndexedDB' : report.backend === 'localstorage' ? 'localStorage' : 'Memory'} · {formatBytes(report.quota)} available
+                </span>
+              </div>
+              <div className="flex h-2 rounded-full overflow-hidden bg-bg-secondary dark:bg-dark-bg-secondary">
+                {CATEGORY_STYLES.map(category => (
+                  <div
+                    key={category.key}
+                    className={category.color}
+                    style={{ width: `${report.totalSize > 0 ? (report.categories[category.key] / report.totalSize) * 100 : 0}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-text-muted dark:text-dark-text-muted">
+                {CATEGORY_STYLES.map(category => (
+                  <span key={category.key} className="flex items-center gap-1.5">
+                    <span className={`w-2 h-2 rounded-full ${category.color}`} />
+                    {category.label} {formatBytes(report.categories[category.key])}
+                  </span>
+                ))}
+              </div>
+              <p className={`mt-2 text-xs ${report.versionBudget.needsCleanup ? 'text-orange-600 dark:text-orange-400' : 'text-text-muted dark:text-dark-text-muted'}`}>
+                Version history uses {Math.round(report.versionBudget.usagePercent * 100)}% of its {formatBytes(report.versionBudget.max)} budget
+                {report.versionBudget.needsCleanup && '. Old versions are being removed automatically; clean up below to choose what goes.'}
+              </p>
+            </div>
+
+            {report.projects.length > 0 && (
+              <div>
+                <SectionTitle>By project</SectionTitle>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-text-muted dark:text-dark-text-muted">
+                      <th className="text-left font-normal pb-1">Project</th>
+                      <th className="text-right font-normal pb-1">Notes</th>
+                      <th className="text-right font-normal pb-1">Content</th>
+                      <th className="text-right font-normal pb-1">History</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.projects.map(project => (
+                      <tr key={project.projectId ?? 'none'} className="text-text-secondary dark:text-dark-text-secondary">
+                        <td className="py-0.5 truncate max-w-[12rem]">{project.title}</td>
+                        <td className="py-0.5 text-right">{project.noteCount}</td>
+                        <td className="py-0.5 text-right">{formatBytes(project.noteSize)}</td>
+                        <td className="py-0.5 text-right">{formatBytes(project.historySize)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+              <div>
+                <SectionTitle>Largest notes</SectionTitle>
+                <UsageList items={report.largestNotes} size={item => item.noteSize} />
+              </div>
+              <div>
+                <SectionTitle>Largest histories</SectionTitle>
+                {report.largestHistories.length > 0 ? (
+                  <UsageList
+                    items={report.largestHistories}
+                    size={item => item.historySize}
+                    detail={item => `${item.versionCount} v`}
+                    onClear={item => previewCleanup({ type: 'clear-note-history', noteId: item.noteId })}
+                  />
+                ) : (
+                  <p className="text-sm text-text-muted dark:text-dark-text-muted">No version history yet.</p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <SectionTitle>Data updates</SectionTitle>
+              <p className="text-xs text-text-muted dark:text-dark-text-muted mb-3">
+                Data format version {migrationReport.currentVersion} of {migrationReport.targetVersion}.
+                {migrationReport.pending.length === 0 ? ' Everything is up to date.' : ' These updates have not been applied yet:'}
+              </p>
+              {migrationReport.pending.length > 0 && (
+                <div className="space-y-2 mb-3">
+                  {migrationReport.pending.map(migration => (
+                    <div key={migration.id} className="p-3 rounded-lg bg-bg-secondary dark:bg-dark-bg-secondary">
+                      <div className="text-sm font-medium text-text-primary dark:text-dark-text-primary">{migration.description}</div>
+                      {migration.error ? (
+                        <p className="mt-1 text-xs text-red-600 dark:text-red-400">Fails: {migration.error}</p>
+                      ) : migration.changes.length > 0 ? (
+                        <ul className="mt-1 space-y-0.5 text-xs text-text-muted dark:text-dark-text-muted">
+                          {migration.changes.map((change, index) => <li key={index}>{change}</li>)}
+                        </ul>
+                      ) : (
+                        <p className="mt-1 text-xs text-text-muted dark:text-dark-text-muted">Changes nothing in this workspace.</p>
+                      )}
+                    </div>
+                  ))}
+                  <button
+                    onClick={handleRunPending}
+                    disabled={migrationReport.pending.some(migration => migration.error)}
+                    className="px-3 py-1 text-sm font-medium rounded-md border border-border-color dark:border-dark-border-color hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-primary dark:text-dark-text-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Apply and Reload
+                  </button>
+                </div>
+              )}
+              {backupCreatedAt !== null ? (
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 text-sm text-text-secondary dark:text-dark-text-secondary">
+                    Backup from before the last update, {new Date(backupCreatedAt).toLocaleDateString()} ({formatBytes(report.migrationBackupSize)}).
+                    <span className="block text-xs text-text-muted dark:text-dark-text-muted">
+                      A full copy of your data, deleted automatically on {new Date(migrationService.getBackupExpiresAt()!).toLocaleDateString()}.
+                    </span>
+                  </span>
+                  {!isConfirmingRollback && (
+                    <button
+                      onClick={() => setIsConfirmingRollback(true)}
+                      className="px-3 py-1 text-sm font-medium rounded-md border border-border-color dark:border-dark-border-color hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-primary dark:text-dark-text-primary transition-colors"
+                    >
+                      Roll Back
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-text-muted dark:text-dark-text-muted">No backup from before an update.</p>
+              )}
+              {isConfirmingRollback && (
+                <div className="mt-2 p-3 rounded-lg border border-orange-300 dark:border-orange-700">
+                  <div className="flex items-start gap-2 text-sm text-orange-600 dark:text-orange-400">
+                    <FaTriangleExclamation className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      Everything goes back to how it was on {new Date(backupCreatedAt!).toLocaleString()}: changes made since are lost.
+                      The page reloads and the update runs again.
+                    </span>
+                  </div>
+                  <div className="flex justify-end gap-2 mt-2">
+                    <button
+                      onClick={() => setIsConfirmingRollback(false)}
+                      className="px-3 py-1 text-sm font-medium text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleRollback}
+                      className="px-3 py-1 text-sm font-medium text-white rounded-md bg-red-600 hover:bg-red-700 transition-colors"
+                    >
+                      Roll Back and Reload
+                    </button>
+                  </div>
+                </div>
+              )}
+              {migrationError && (
+                <p className="mt-2 text-xs text-red-600 dark:text-red-400">{migrationError}</p>
+              )}
+            </div>
+
+            <div>
+              <SectionTitle>Clean up</SectionTitle>
+              <p className="text-xs text-text-muted dark:text-dark-text-muted mb-3">
+                Every cleanup is previewed first. The latest version of each note is always kept.
+              </p>
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 text-sm text-text-secondary dark:text-dark-text-secondary">Keep only the latest</span>
+                  <select
+                    value={keepPerNote}
+                    onChange={e => setKeepPerNote(Number(e.target.value))}
+                    className="px-2 py-1 text-sm rounded-md border border-border-color dark:border-dark-border-color bg-surface dark:bg-dark-surface text-text-primary dark:text-dark-text-primary"
+                  >
+                    {TRIM_OPTIONS.map(option => <option key={option} value={option}>{option} versions</option>)}
+                  </select>
+                  <button
+                    onClick={() => previewCleanup({ type: 'trim-histories', keepPerNote })}
+                    className="px-3 py-1 text-sm font-medium rounded-md border border-border-color dark:border-dark-border-color hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-primary dark:text-dark-text-primary transition-colors"
+                  >
+                    Preview
+                  </button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 text-sm text-text-secondary dark:text-dark-text-secondary">Remove versions older than</span>
+                  <select
+                    value={olderThanDays}
+                    onChange={e => setOlderThanDays(Number(e.target.value))}
+                    className="px-2 py-1 text-sm rounded-md border border-border-color dark:border-dark-border-color bg-surface dark:bg-dark-surface text-text-primary dark:text-dark-text-primary"
+                  >
+                    {AGE_OPTIONS.map(option => <option key={option} value={option}>{option} days</option>)}
+                  </select>
+                  <button
+                    onClick={() => previewCleanup({ type: 'remove-old-versions', olderThanDays })}
+                    className="px-3 py-1 text-sm font-medium rounded-md border border-border-color dark:border-dark-border-color hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-primary dark:text-dark-text-primary transition-colors"
+                  >
+                    Preview
+                  </button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 text-sm text-text-secondary dark:text-dark-text-secondary">
+                    History of deleted notes ({report.orphanedHistories.length}, {formatBytes(orphanedSize)})
+                  </span>
+                  <button
+                    onClick={() => previewCleanup({ type: 'remove-orphaned-histories' })}
+                    disabled={report.orphanedHistories.length === 0}
+                    className="px-3 py-1 text-sm font-medium rounded-md border border-border-color dark:border-dark-border-color hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-primary dark:text-dark-text-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Preview
+                  </button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 text-sm text-text-secondary dark:text-dark-text-secondary">
+                    Pre-migration backup ({formatBytes(report.migrationBackupSize)})
+                  </span>
+                  <button
+                    onClick={() => previewCleanup({ type: 'remove-migration-backup' })}
+                    disabled={report.migrationBackupSize === 0}
+                    className="px-3 py-1 text-sm font-medium rounded-md border border-border-color dark:border-dark-border-color hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-primary dark:text-dark-text-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Preview
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-border-color dark:border-dark-border-color">
+          <button
+            onClick={plan ? () => setPlan(null) : onClose}
+            className="px-4 py-2 text-sm font-medium text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+          >
+            {plan ? 'Back' : 'Close'}
+          </button>
+          {plan && (
+            <button
+              onClick={handleApply}
+              disabled={!hasPlanChanges}
+              className="px-4 py-2 text-sm font-medium text-white rounded-lg bg-red-600 hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {plan.versionCount > 0 ? `Remove ${plan.versionCount} ${plan.versionCount === 1 ? 'Version' : 'Versions'}` : 'Remove'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StorageUsageModal;
@@ -1,6 +1,27 @@
 import React, { useRef, useEffect, useCallback, useState } from 'react';
 import InlineSuggestion from './SuggestionBox';
+import CompletionMenu, { CompletionMenuItem } from './CompletionMenu';
 import { useSuggestions } from '../hooks/useSuggestions';
+import { WikiLinkCompletion } from '../services/wikiLinkService';
+import { getCaretCoordinates } from '../utils/textareaCaret';
+
+// An unclosed [[ before the caret on the same line
+const OPEN_WIKI_LINK_PATTERN = /\[\[([^[\]\n]*)$/;
+// Rest of the link after the caret, up to and including ]]
+const WIKI_LINK_REST_PATTERN = /^[^[\]\n]*\]\]/;
+// A / at the start of the line or after a space, then up to four words
+const SLASH_COMMAND_PATTERN = /(?:^|\s)\/((?:[\w-]+ ?){0,4})$/;
+const COMPLETION_MENU_WIDTH = 288;
+const COMPLETION_MENU_HEIGHT = 240;
+
+interface CompletionMenuState {
+    kind: 'link' | 'slash';
+    // Offset of the [[ or /
+    start: number;
+    query: string;
+    items: CompletionMenuItem[];
+    activeIndex: number;
+}
 
 interface SuggestionTextareaProps {
     value: string;
@@ -11,6 +32,15 @@ interface SuggestionTextareaProps {
     noteTitle?: string;
     onExtractTitle?: (title: string, newContent?: string) => void;
     suggestionsEnabled?: boolean;
+    // Ranges to highlight behind the text, e.g. find matches
+    highlights?: { start: number; end: number }[];
+    activeHighlight?: number;
+    // Note links offered after typing [[
+    getWikiLinkCompletions?: (query: string) => WikiLinkCompletion[];
+    // Commands offered after typing /, and what to do with the chosen one.
+    // `start` and `end` span the typed /query.
+    getSlashCommands?: (query: string) => CompletionMenuItem[];
+    onSlashCommand?: (key: string, start: number, end: number) => void;
     [key: string]: any; // For other textarea props
 }
 
@@ -24,13 +54,28 @@ const SuggestionTextarea = React.forwardRef<HTMLTextAreaElement, SuggestionTexta
     noteTitle,
     onExtractTitle,
         suggestionsEnabled = false,
+        highlights,
+        activeHighlight,
+        getWikiLinkCompletions,
+        getSlashCommands,
+        onSlashCommand,
+        onKeyUp,
+        onClick,
+        onPaste,
+        onBlur,
         ...otherProps
     },
     ref
 ) => {
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const overlayRef = useRef<HTMLDivElement>(null);
+    const highlightRef = useRef<HTMLDivElement>(null);
     const [cursorPosition, setCursorPosition] = useState(0);
+    const [menu, setMenu] = useState<CompletionMenuState | null>(null);
+    // [[ or / whose menu was closed with Escape; it stays closed while typing on
+    const dismissedMenuStartRef = useRef<number | null>(null);
+    // Ghost suggestions are held back while a menu is open, as both use Tab and Escape
+    const menuOpenRef = useRef(false);
 
     // Expose the ref to parent components
     useEffect(() => {
@@ -103,7 +148,7 @@ const SuggestionTextarea = React.forwardRef<HTMLTextAreaElement, SuggestionTexta
             const ta = textareaRef.current;
             const now = performance.now();
             const delta = now - (lastReqAtRef.current || 0);
-            if (ta && ta === document.activeElement && suggestionsEnabled && delta > 400) {
+            if (ta && ta === document.activeElement && suggestionsEnabled && !menuOpenRef.current && delta > 400) {
                 // re-request using current caret
                 const pos = ta.selectionStart ?? 0;
                 setCursorPosition(pos);
@@ -123,7 +168,7 @@ const SuggestionTextarea = React.forwardRef<HTMLTextAreaElement, SuggestionTexta
 
     const requestFromCaret = useCallback(() => {
         const ta = textareaRef.current;
-        if (!ta) return;
+        if (!ta || menuOpenRef.current) return;
         const pos = ta.selectionStart ?? 0;
         setCursorPosition(pos);
         const before = value.slice(0, pos);
@@ -149,6 +194,8 @@ const SuggestionTextarea = React.forwardRef<HTMLTextAreaElement, SuggestionTexta
     }, [onChange, requestFromCaret, suggestionsEnabled]);
 
     const handlePaste = useCallback((e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        onPaste?.(e);
+        if (e.defaultPrevented) return;
         try {
             const paste = e.clipboardData.getData('text/plain') || '';
             if (!paste) return;
@@ -205,9 +252,104 @@ const SuggestionTextarea = React.forwardRef<HTMLTextAreaElement, SuggestionTexta
             // if anything goes wrong, don't block default paste behavior
             return;
         }
-    }, [value, onChange, onExtractTitle, requestFromCaret]);
+    }, [value, onChange, onExtractTitle, requestFromCaret, onPaste]);
+
+    // Open, update or close the note link or command menu for the text before the caret
+    const updateMenu = useCallback(() => {
+        const ta = textareaRef.current;
+        const lineBefore = ta && ta.selectionStart === ta.selectionEnd
+            ? ta.value.slice(ta.value.lastIndexOf('\n', ta.selectionStart - 1) + 1, ta.selectionStart)
+            : null;
+        const linkMatch = lineBefore !== null && getWikiLinkCompletions ? lineBefore.match(OPEN_WIKI_LINK_PATTERN) : null;
+        const slashMatch = lineBefore !== null && !linkMatch && getSlashCommands ? lineBefore.match(SLASH_COMMAND_PATTERN) : null;
+        if (!ta || (!linkMatch && !slashMatch)) {
+            dismissedMenuStartRef.current = null;
+            setMenu(null);
+            return;
+        }
+
+        const kind = linkMatch ? 'link' : 'slash';
+        const query = linkMatch ? linkMatch[1] : slashMatch![1];
+        // The slash pattern may also match the space before the /
+        const start = ta.selectionStart - query.length - (linkMatch ? 2 : 1);
+        if (dismissedMenuStartRef.current === start) {
+            setMenu(null);
+            return;
+        }
+        setMenu(prev => {
+            if (prev && prev.kind === kind && prev.start === start && prev.query === query) return prev;
+            const items = linkMatch
+                ? getWikiLinkCompletions!(query).map((item: WikiLinkCompletion) => ({ key: item.value, label: item.label, detail: item.detail }))
+                : getSlashCommands!(query);
+            return items.length > 0 ? { kind, start, query, items, activeIndex: 0 } : null;
+        });
+    }, [getWikiLinkCompletions, getSlashCommands]);
+
+    useEffect(() => {
+        updateMenu();
+    }, [value, updateMenu]);
+
+    const isMenuOpen = menu !== null;
+    useEffect(() => {
+        menuOpenRef.current = isMenuOpen;
+        if (isMenuOpen) dismissSuggestion();
+    }, [isMenuOpen, dismissSuggestion]);
+
+    const acceptMenuItem = useCallback((item: CompletionMenuItem) => {
+        const ta = textareaRef.current;
+        if (!ta || !menu) return;
+        const caret = ta.selectionStart;
+        setMenu(null);
+
+        if (menu.kind === 'slash') {
+            onSlashCommand?.(item.key, menu.start, caret);
+            return;
+        }
+
+        // Replace the rest of the link too, including brackets closed automatically
+        const rest = value.slice(caret).match(WIKI_LINK_REST_PATTERN);
+        const link = `[[${item.key}]]`;
+        const newValue = value.slice(0, menu.start) + link + value.slice(caret + (rest ? rest[0].length : 0));
+        onChange(newValue);
+
+        const newCursorPos = menu.start + link.length;
+        setTimeout(() => {
+            ta.focus();
+            ta.setSelectionRange(newCursorPos, newCursorPos);
+        }, 0);
+    }, [menu, value, onChange, onSlashCommand]);
+
+    /**
+     * Menu keys: arrows move, Enter/Tab accept, Escape closes. Returns true if handled.
+     */
+    const handleMenuKey = (e: React.KeyboardEvent<HTMLTextAreaElement>): boolean => {
+        if (!menu || e.altKey || e.ctrlKey || e.metaKey) return false;
+        const count = menu.items.length;
+        switch (e.key) {
+            case 'ArrowDown':
+            case 'ArrowUp': {
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setMenu({ ...menu, activeIndex: (menu.activeIndex + step + count) % count });
+                break;
+            }
+            case 'Enter':
+            case 'Tab':
+                acceptMenuItem(menu.items[menu.activeIndex]);
+                break;
+            case 'Escape':
+                dismissedMenuStartRef.current = menu.start;
+                setMenu(null);
+                break;
+            default:
+                return false;
+        }
+        e.preventDefault();
+        return true;
+    };
 
     const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (handleMenuKey(e)) return;
+
         // Accept / dismiss
         if (isVisible && currentSuggestion) {
             if (e.key === 'Tab') {
@@ -251,7 +393,44 @@ const SuggestionTextarea = React.forwardRef<HTMLTextAreaElement, SuggestionTexta
                 requestFromCaret();
             });
         }
-    }, [isVisible, currentSuggestion, acceptSuggestion, dismissSuggestion, onKeyDown, requestFromCaret, suggestionsEnabled]);
+    }, [isVisible, currentSuggestion, acceptSuggestion, dismissSuggestion, onKeyDown, requestFromCaret, suggestionsEnabled, handleMenuKey]);
+
+    // The caret may have moved (arrows, clicks, edits applied after the key press)
+    const handleKeyUp = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        updateMenu();
+        onKeyUp?.(e);
+    };
+
+    const handleClick = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+        updateMenu();
+        onClick?.(e);
+    };
+
+    const handleBlur = (e: React.FocusEvent<HTMLTextAreaElement>) => {
+        setMenu(null);
+        onBlur?.(e);
+    };
+
+    const renderMenu = () => {
+        const ta = textareaRef.current;
+        if (!ta || !menu) return null;
+
+        const caret = getCaretCoordinates(ta, menu.start);
+        const caretTop = caret.top - ta.scrollTop;
+        // Open above the line when there is no room below it
+        const fitsBelow = caretTop + caret.height + COMPLETION_MENU_HEIGHT <= ta.clientHeight || caretTop < COMPLETION_MENU_HEIGHT;
+        return (
+            <CompletionMenu
+                items={menu.items}
+                activeIndex={menu.activeIndex}
+                top={fitsBelow ? caretTop + caret.height : undefined}
+                bottom={fitsBelow ? undefined : ta.offsetHeight - caretTop}
+                left={Math.max(0, Math.min(caret.left - ta.scrollLeft, ta.clientWidth - COMPLETION_MENU_WIDTH))}
+                onSelect={(index) => acceptMenuItem(menu.items[index])}
+                onHover={(index) => setMenu({ ...menu, activeIndex: index })}
+            />
+        );
+    };
 
     const handleSelectionChange = useCallback(() => {
         // Moving selection should update caret and suggestion position
@@ -265,20 +444,87 @@ const SuggestionTextarea = React.forwardRef<HTMLTextAreaElement, SuggestionTexta
     useEffect(() => {
         const ta = textareaRef.current;
         const ov = overlayRef.current;
-        if (!ta || !ov) return;
+        const hl = highlightRef.current;
+        if (!ta || !ov || !hl) return;
         const sync = () => {
             ov.scrollTop = ta.scrollTop;
             ov.scrollLeft = ta.scrollLeft;
+            hl.scrollTop = ta.scrollTop;
+            hl.scrollLeft = ta.scrollLeft;
         };
         sync();
         ta.addEventListener('scroll', sync, { passive: true });
         return () => ta.removeEventListener('scroll', sync);
     }, []);
 
+    // Highlights may appear after the textarea was scrolled
+    useEffect(() => {
+        const ta = textareaRef.current;
+        const hl = highlightRef.current;
+        if (ta && hl) hl.scrollTop = ta.scrollTop;
+    }, [highlights]);
+
+    // Mirror of the text with the highlighted ranges marked, laid out exactly
+    // like the textarea so the marks sit behind the matching characters
+    const renderHighlights = () => {
+        const ta = textareaRef.current;
+        if (!ta || !highlights || highlights.length === 0) return null;
+
+        const cs = window.getComputedStyle(ta);
+        const segments: React.ReactNode[] = [];
+        let last = 0;
+        highlights.forEach((range: { start: number; end: number }, index: number) => {
+            segments.push(value.slice(last, range.start));
+            segments.push(
+                <mark
+                    key={index}
+                    className={index === activeHighlight
+                        ? 'bg-orange-300/90 dark:bg-orange-500/60'
+                        : 'bg-yellow-200/80 dark:bg-yellow-500/30'}
+                    style={{ color: 'transparent', borderRadius: '2px' }}
+                >
+                    {value.slice(range.start, range.end)}
+                </mark>
+            );
+            last = range.end;
+        });
+        segments.push(value.slice(last));
+
+        return (
+            <div
+                style={{
+                    fontFamily: cs.fontFamily,
+                    fontSize: cs.fontSize,
+                    fontWeight: cs.fontWeight,
+                    lineHeight: cs.lineHeight,
+                    letterSpacing: cs.letterSpacing,
+                    tabSize: cs.tabSize,
+                    whiteSpace: 'pre-wrap',
+                    wordBreak: cs.wordBreak as React.CSSProperties['wordBreak'],
+                    overflowWrap: 'break-word',
+                    paddingTop: cs.paddingTop,
+                    paddingRight: cs.paddingRight,
+                    paddingBottom: cs.paddingBottom,
+                    paddingLeft: cs.paddingLeft,
+                    borderStyle: 'solid',
+                    borderColor: 'transparent',
+                    borderWidth: cs.borderWidth,
+                    boxSizing: 'border-box',
+                    // clientWidth leaves out the scrollbar, which also narrows the text
+                    width: ta.clientWidth + parseFloat(cs.borderLeftWidth) + parseFloat(cs.borderRightWidth),
+                    color: 'transparent',
+                }}
+            >
+                {segments}
+                {'\n'}
+            </div>
+        );
+    };
+
     // Fixed same-line inline ghost suggestion overlay
     const SameLineOverlay: React.FC = () => {
         const ta = textareaRef.current;
-        if (!ta || !isVisible || !currentSuggestion) return null;
+        if (!ta || !isVisible || !currentSuggestion || isMenuOpen) return null;
 
         const caretIndex = cursorPosition;
         const textBefore = value.slice(0, caretIndex);
@@ -421,6 +667,9 @@ const SuggestionTextarea = React.forwardRef<HTMLTextAreaElement, SuggestionTexta
                 onChange={handleTextareaChange}
                 onPaste={handlePaste}
                 onKeyDown={handleKeyDown}
+                onKeyUp={handleKeyUp}
+                onClick={handleClick}
+                onBlur={handleBlur}
                 onSelect={handleSelectionChange}
                 className={className}
                 placeholder={placeholder}
@@ -435,6 +684,16 @@ const SuggestionTextarea = React.forwardRef<HTMLTextAreaElement, SuggestionTexta
                 {...otherProps}
             />
 
+            {/* Highlighted ranges behind the text */}
+            <div
+                ref={highlightRef}
+                className="pointer-events-none absolute inset-0 overflow-hidden"
+                aria-hidden="true"
+                style={{ zIndex: 1 }}
+            >
+                {renderHighlights()}
+            </div>
+
             {/* Overlay for inline, same-line ghost suggestion */}
             <div
                 ref={overlayRef}
@@ -445,11 +704,13 @@ const SuggestionTextarea = React.forwardRef<HTMLTextAreaElement, SuggestionTexta
                 <SameLineOverlay />
             </div>
 
+            {renderMenu()}
+
             {/* Desktop controls remain for keyboard hints; hide on small screens for minimal mobile UI */}
             <div className="hidden sm:block">
                 <InlineSuggestion
                     suggestion={currentSuggestion}
-                    isVisible={isVisible}
+                    isVisible={isVisible && !isMenuOpen}
                     textareaRef={textareaRef}
                     cursorPosition={cursorPosition}
                     onAcceptSuggestion={(s: string) => {
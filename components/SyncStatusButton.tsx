@@ -0,0 +1,120 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { FaCloud, FaCheck } from 'react-icons/fa';
+import { FaTriangleExclamation, FaArrowsRotate } from 'react-icons/fa6';
+import { ConflictStrategy } from '../services/noteSyncService';
+import { NoteSyncStatus } from '../hooks/useNoteSync';
+
+interface SyncStatusButtonProps {
+  status: NoteSyncStatus;
+  lastSyncedAt: number | null;
+  conflictCount: number;
+  strategy: ConflictStrategy;
+  onStrategyChange: (strategy: ConflictStrategy) => void;
+  onSyncNow: () => void;
+  onShowConflicts: () => void;
+}
+
+const STRATEGY_OPTIONS: Array<{ value: ConflictStrategy; label: string; description: string }> = [
+  { value: 'manual', label: 'Manual merge', description: 'Ask me when both sides changed' },
+  { value: 'last-writer-wins', label: 'Last writer wins', description: 'Keep the most recent edit' },
+];
+
+const SyncStatusButton: React.FC<SyncStatusButtonProps> = ({
+  status,
+  lastSyncedAt,
+  conflictCount,
+  strategy,
+  onStrategyChange,
+  onSyncNow,
+  onShowConflicts,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  if (status === 'disabled') return null;
+
+  const title = status === 'syncing'
+    ? 'Syncing notes…'
+    : status === 'error'
+      ? 'Sync failed'
+      : lastSyncedAt
+        ? `Synced ${new Date(lastSyncedAt).toLocaleTimeString()}`
+        : 'Not synced yet';
+
+  return (
+    <div ref={containerRef} className="relative flex-shrink-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2.5 rounded-lg hover:bg-gray-100/80 dark:hover:bg-gray-800/80 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 transition-all duration-200"
+        title={title}
+      >
+        {status === 'syncing' ? (
+          <FaArrowsRotate className="w-4 h-4 animate-spin" />
+        ) : (
+          <FaCloud className={`w-4 h-4 ${status === 'error' ? 'text-red-500' : ''}`} />
+        )}
+        {conflictCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1rem] h-4 px-1 rounded-full bg-orange-500 text-white text-[10px] leading-4 font-semibold">
+            {conflictCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-64 z-40 bg-surface dark:bg-dark-surface border border-border-color dark:border-dark-border-color rounded-md shadow-lg animate-fade-in">
+          <div className="px-3 py-2 text-xs text-text-muted dark:text-dark-text-muted border-b border-border-color dark:border-dark-border-color">
+            {title}
+          </div>
+
+          {conflictCount > 0 && (
+            <button
+              onClick={() => { setIsOpen(false); onShowConflicts(); }}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-orange-600 dark:text-orange-400 hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary transition-colors"
+            >
+              <FaTriangleExclamation className="w-4 h-4" />
+              Resolve {conflictCount} {conflictCount === 1 ? 'conflict' : 'conflicts'}
+            </button>
+          )}
+
+          <button
+            onClick={() => { setIsOpen(false); onSyncNow(); }}
+            disabled={status === 'syncing'}
+            className="w-full flex items-center gap-2 px-3 py-2 text-sm text-text-secondary dark:text-dark-text-secondary hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary transition-colors disabled:opacity-50"
+          >
+            <FaArrowsRotate className="w-4 h-4" />
+            Sync now
+          </button>
+
+          <div className="px-3 pt-2 pb-1 text-xs font-semibold text-text-muted dark:text-dark-text-muted border-t border-border-color dark:border-dark-border-color">
+            When both sides changed
+          </div>
+          {STRATEGY_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onStrategyChange(option.value)}
+              className="w-full flex items-start gap-2 px-3 py-1.5 text-left hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary transition-colors"
+            >
+              <FaCheck className={`w-3 h-3 mt-1 flex-shrink-0 text-accent dark:text-dark-accent ${option.value === strategy ? '' : 'invisible'}`} />
+              <span>
+                <span className="block text-sm text-text-secondary dark:text-dark-text-secondary">{option.label}</span>
+                <span className="block text-xs text-text-muted dark:text-dark-text-muted">{option.description}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatusButton;
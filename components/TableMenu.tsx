@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { IconType } from 'react-icons';
+import {
+  FaArrowUp,
+  FaArrowDown,
+  FaArrowLeft,
+  FaArrowRight,
+  FaTrashCan,
+  FaAlignLeft,
+  FaAlignCenter,
+  FaAlignRight,
+  FaTableCells,
+} from 'react-icons/fa6';
+import { TableCommand } from './NoteEditor/markdownTables';
+
+const GRID_ROWS = 8;
+const GRID_COLUMNS = 8;
+const MENU_WIDTH = 240;
+
+const commandGroups: { command: TableCommand; label: string; icon: IconType }[][] = [
+  [
+    { command: 'row-above', label: 'Insert row above', icon: FaArrowUp },
+    { command: 'row-below', label: 'Insert row below', icon: FaArrowDown },
+    { command: 'delete-row', label: 'Delete row', icon: FaTrashCan },
+  ],
+  [
+    { command: 'column-left', label: 'Insert column left', icon: FaArrowLeft },
+    { command: 'column-right', label: 'Insert column right', icon: FaArrowRight },
+    { command: 'delete-column', label: 'Delete column', icon: FaTrashCan },
+  ],
+  [
+    { command: 'align-left', label: 'Align column left', icon: FaAlignLeft },
+    { command: 'align-center', label: 'Align column center', icon: FaAlignCenter },
+    { command: 'align-right', label: 'Align column right', icon: FaAlignRight },
+  ],
+  [{ command: 'format', label: 'Format table', icon: FaTableCells }],
+];
+
+interface TableMenuProps {
+  // Toolbar button the menu opens under
+  anchor: HTMLElement;
+  // Whether the caret is in a table, which shows the table commands
+  isInTable: boolean;
+  onInsert: (rows: number, columns: number) => void;
+  onCommand: (command: TableCommand) => void;
+  onClose: () => void;
+}
+
+/**
+ * Toolbar popover to insert a table of a chosen size and edit the table
+ * under the caret
+ */
+const TableMenu: React.FC<TableMenuProps> = ({ anchor, isInTable, onInsert, onCommand, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ rows: 3, columns: 3 });
+
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      // The toolbar button toggles the menu itself
+      const target = e.target as Node;
+      if (menuRef.current && !menuRef.current.contains(target) && !anchor.contains(target)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [anchor, onClose]);
+
+  const anchorRect = anchor.getBoundingClientRect();
+
+  return (
+    <div
+      ref={menuRef}
+      // Fixed, so the scrolling toolbar doesn't clip it
+      className="fixed z-50 p-3 rounded-lg bg-surface dark:bg-dark-surface border border-border-color dark:border-dark-border-color shadow-lg animate-fade-in text-sm"
+      style={{ top: anchorRect.bottom + 4, left: Math.max(8, Math.min(anchorRect.left, window.innerWidth - MENU_WIDTH - 8)), width: MENU_WIDTH }}
+    >
+      <p className="mb-2 text-xs font-semibold text-text-muted dark:text-dark-text-muted">
+        Insert table · {size.rows} × {size.columns}
+      </p>
+      <div
+        className="grid gap-1"
+        style={{ gridTemplateColumns: `repeat(${GRID_COLUMNS}, 1fr)` }}
+        role="grid"
+        aria-label="Table size: rows include the header"
+      >
+        {Array.from({ length: GRID_ROWS * GRID_COLUMNS }, (_, i) => {
+          const rows = Math.floor(i / GRID_COLUMNS) + 1;
+          const columns = (i % GRID_COLUMNS) + 1;
+          const isSelected = rows <= size.rows && columns <= size.columns;
+          return (
+            <button
+              key={i}
+              type="button"
+              title={`${rows} × ${columns}`}
+              onMouseEnter={() => setSize({ rows, columns })}
+              onFocus={() => setSize({ rows, columns })}
+              onClick={() => onInsert(rows, columns)}
+              className={`aspect-square rounded-sm border transition-colors ${
+                isSelected
+                  ? 'bg-accent/30 border-accent dark:bg-dark-accent/30 dark:border-dark-accent'
+                  : 'bg-bg-secondary border-border-color dark:bg-dark-bg-secondary dark:border-dark-border-color'
+              }`}
+            />
+          );
+        })}
+      </div>
+
+      {isInTable && commandGroups.map((group, index) => (
+        <div key={index} className="mt-2 pt-2 border-t border-border-color dark:border-dark-border-color">
+          {group.map(({ command, label, icon: Icon }) => (
+            <button
+              key={command}
+              type="button"
+              onClick={() => onCommand(command)}
+              className="w-full flex items-center gap-2 px-2 py-1 rounded-md text-left text-text-secondary dark:text-dark-text-secondary hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary"
+            >
+              <Icon className="w-3.5 h-3.5 flex-shrink-0" />
+              {label}
+            </button>
+          ))}
+        </div>
+      ))}
+      {!isInTable && (
+        <p className="mt-2 text-xs text-text-muted dark:text-dark-text-muted">
+          Place the cursor in a table for row, column and alignment commands.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TableMenu;
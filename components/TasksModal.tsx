@@ -0,0 +1,201 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Note, Project } from '../types';
+import { TaskService, NoteTask, TaskDueStatus } from '../services/taskService';
+import { FaXmark, FaListCheck, FaChevronRight } from 'react-icons/fa6';
+
+type TaskFilter = 'open' | 'done' | 'all';
+
+interface TasksModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  notes: Note[];
+  projects: Project[];
+  onToggleTask: (noteId: string, line: number) => void;
+  onOpenTask: (noteId: string, line: number) => void;
+}
+
+const FILTERS: Array<{ value: TaskFilter; label: string }> = [
+  { value: 'open', label: 'Open' },
+  { value: 'done', label: 'Done' },
+  { value: 'all', label: 'All' },
+];
+
+const DUE_CLASSES: Record<TaskDueStatus, string> = {
+  overdue: 'bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-300',
+  today: 'bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-300',
+  upcoming: 'bg-bg-secondary text-text-muted dark:bg-dark-bg-secondary dark:text-dark-text-muted',
+};
+
+const matchesFilter = (task: NoteTask, filter: TaskFilter): boolean =>
+  filter === 'all' || task.checked === (filter === 'done');
+
+const TasksModal: React.FC<TasksModalProps> = ({
+  isOpen,
+  onClose,
+  notes,
+  projects,
+  onToggleTask,
+  onOpenTask,
+}) => {
+  const [filter, setFilter] = useState<TaskFilter>('open');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  const groups = useMemo(() => {
+    if (!isOpen) return [];
+    return TaskService.groupByProject(notes, projects)
+      .map(group => ({
+        ...group,
+        notes: group.notes
+          .map(({ note, tasks }) => ({ note, tasks: tasks.filter(task => matchesFilter(task, filter)) }))
+          .filter(({ tasks }) => tasks.length > 0),
+      }))
+      .filter(group => group.notes.length > 0);
+  }, [isOpen, notes, projects, filter]);
+
+  if (!isOpen) return null;
+
+  const today = TaskService.today();
+  const taskCount = groups.reduce(
+    (total, group) => total + group.notes.reduce((sum, { tasks }) => sum + tasks.length, 0),
+    0
+  );
+
+  const toggleCollapsed = (key: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-surface dark:bg-dark-surface border border-border-color dark:border-dark-border-color rounded-lg shadow-xl w-full max-w-3xl mx-4 max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-border-color dark:border-dark-border-color">
+          <h2 className="text-lg font-semibold text-text-primary dark:text-dark-text-primary flex items-center gap-2">
+            <FaListCheck className="w-4 h-4" />
+            Tasks
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+          >
+            <FaXmark className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-1 p-4 border-b border-border-color dark:border-dark-border-color">
+          {FILTERS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setFilter(option.value)}
+              className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                filter === option.value
+                  ? 'bg-accent text-white dark:bg-dark-accent'
+                  : 'text-text-secondary dark:text-dark-text-secondary hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+          {groups.length === 0 ? (
+            <p className="text-text-muted dark:text-dark-text-muted">
+              {filter === 'done' ? 'No finished tasks.' : 'No open tasks.'} Add tasks to a note as "- [ ] Task",
+              with an optional due date: @due(2025-03-14).
+            </p>
+          ) : (
+            groups.map(group => {
+              const groupKey = group.projectId ?? 'unorganized';
+              const isCollapsed = collapsed.has(groupKey);
+              const groupCount = group.notes.reduce((sum, { tasks }) => sum + tasks.length, 0);
+              return (
+                <section key={groupKey}>
+                  <button
+                    onClick={() => toggleCollapsed(groupKey)}
+                    className="flex items-center gap-2 font-semibold text-text-primary dark:text-dark-text-primary"
+                  >
+                    <FaChevronRight className={`w-3 h-3 transition-transform ${isCollapsed ? '' : 'rotate-90'}`} />
+                    {group.title}
+                    <span className="text-xs font-normal text-text-muted dark:text-dark-text-muted">{groupCount}</span>
+                  </button>
+
+                  {!isCollapsed && group.notes.map(({ note, tasks }) => (
+                    <div key={note.id} className="mt-2 ml-5">
+                      <div className="text-xs font-medium text-text-muted dark:text-dark-text-muted truncate">
+                        {note.title || 'Untitled Note'}
+                      </div>
+                      <ul className="mt-1 space-y-0.5">
+                        {tasks.map(task => (
+                          <li
+                            key={task.line}
+                            className="flex items-start gap-2 rounded px-1 hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary"
+                          >
+                            <input
+                              type="checkbox"
+                              className="mt-1.5 cursor-pointer"
+                              checked={task.checked}
+                              onChange={() => onToggleTask(note.id, task.line)}
+                              aria-label={task.checked ? 'Mark as open' : 'Mark as done'}
+                            />
+                            <button
+                              onClick={() => onOpenTask(note.id, task.line)}
+                              className={`flex-1 min-w-0 text-left leading-6 break-words hover:underline ${
+                                task.checked
+                                  ? 'line-through text-text-muted dark:text-dark-text-muted'
+                                  : 'text-text-primary dark:text-dark-text-primary'
+                              }`}
+                              title="Open in note"
+                            >
+                              {task.text || 'Untitled task'}
+                            </button>
+                            {task.due && (
+                              <span
+                                className={`flex-shrink-0 mt-0.5 px-2 py-0.5 rounded-full text-xs font-medium ${
+                                  DUE_CLASSES[task.checked ? 'upcoming' : TaskService.getDueStatus(task.due, today)]
+                                }`}
+                              >
+                                {task.due}
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </section>
+              );
+            })
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-4 border-t border-border-color dark:border-dark-border-color">
+          <p className="text-xs text-text-muted dark:text-dark-text-muted">
+            {taskCount > 0 && `${taskCount} ${taskCount === 1 ? 'task' : 'tasks'}. `}
+            Click a task to open it in its note.
+          </p>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TasksModal;
@@ -0,0 +1,386 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Note, NoteTemplate } from '../types';
+import { TemplateService, TemplateInput, TEMPLATE_VARIABLES } from '../services/templateService';
+import { FaXmark, FaFileLines, FaFile, FaPlus, FaPen, FaTrash, FaCopy, FaArrowLeft, FaMagnifyingGlass } from 'react-icons/fa6';
+import ConfirmationModal from './ConfirmationModal';
+
+export interface TemplateNoteData {
+  title: string;
+  content: string;
+  tags: string[];
+}
+
+interface TemplateGalleryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Template to fill in right away, e.g. a project's default
+  initialTemplateId?: string;
+  // Title of the project the note goes into, for {{project}}
+  projectTitle?: string;
+  // The open note, offered as the start of a new template
+  activeNote?: Note;
+  onCreateNote: (note: TemplateNoteData) => void;
+  onToast: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+// A template being edited, with its tags as typed
+type TemplateDraft = Omit<TemplateInput, 'tags'> & { tags: string };
+
+type GalleryView =
+  | { kind: 'gallery' }
+  | { kind: 'fill'; template: NoteTemplate }
+  // `id` is set when editing an existing template
+  | { kind: 'edit'; id?: string; draft: TemplateDraft };
+
+const BLANK_NOTE: TemplateNoteData = { title: 'New Note', content: '', tags: [] };
+
+const EMPTY_DRAFT: TemplateDraft = { name: '', description: '', title: '{{title}}', content: '', tags: '' };
+
+const inputClass = 'w-full px-3 py-2 text-sm rounded-lg border border-border-color dark:border-dark-border-color bg-bg-primary dark:bg-dark-bg-primary text-text-primary dark:text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50';
+const labelClass = 'block text-xs font-medium text-text-muted dark:text-dark-text-muted mb-1';
+
+const TemplateGalleryModal: React.FC<TemplateGalleryModalProps> = ({
+  isOpen,
+  onClose,
+  initialTemplateId,
+  projectTitle,
+  activeNote,
+  onCreateNote,
+  onToast,
+}) => {
+  const [templates, setTemplates] = useState<NoteTemplate[]>([]);
+  const [view, setView] = useState<GalleryView>({ kind: 'gallery' });
+  const [search, setSearch] = useState('');
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
+  // null while the title follows the template
+  const [customTitle, setCustomTitle] = useState<string | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<NoteTemplate | null>(null);
+
+  const startFilling = (template: NoteTemplate) => {
+    setFieldValues(Object.fromEntries(
+      TemplateService.getFields(template).map(field => [field.name, field.defaultValue])
+    ));
+    setCustomTitle(null);
+    setView({ kind: 'fill', template });
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTemplates(TemplateService.getTemplates());
+    setSearch('');
+    setTemplateToDelete(null);
+    const initialTemplate = initialTemplateId ? TemplateService.getTemplate(initialTemplateId) : null;
+    if (initialTemplate) {
+      startFilling(initialTemplate);
+    } else {
+      setView({ kind: 'gallery' });
+    }
+  }, [isOpen, initialTemplateId]);
+
+  const filteredTemplates = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return templates;
+    return templates.filter(template =>
+      [template.name, template.description ?? '', ...template.tags].some(text => text.toLowerCase().includes(query))
+    );
+  }, [templates, search]);
+
+  if (!isOpen) return null;
+
+  const handleCreate = (template: NoteTemplate) => {
+    onCreateNote(TemplateService.apply(template, { title: customTitle ?? undefined, project: projectTitle }, fieldValues));
+    onClose();
+  };
+
+  const handleSaveTemplate = (id: string | undefined, draft: TemplateDraft) => {
+    const saved = TemplateService.saveTemplate({ ...draft, tags: draft.tags.split(',') }, id);
+    if (!saved) {
+      onToast(draft.name.trim() ? 'Failed to save the template.' : 'Give the template a name.', 'error');
+      return;
+    }
+    setTemplates(TemplateService.getTemplates());
+    setView({ kind: 'gallery' });
+    onToast(`Template "${saved.name}" saved.`, 'success');
+  };
+
+  const handleDeleteTemplate = (template: NoteTemplate) => {
+    if (TemplateService.deleteTemplate(template.id)) {
+      setTemplates(TemplateService.getTemplates());
+      onToast(`Template "${template.name}" deleted.`, 'success');
+    } else {
+      onToast('Failed to delete the template.', 'error');
+    }
+    setTemplateToDelete(null);
+  };
+
+  const editTemplate = (template: NoteTemplate, asCopy: boolean) => {
+    setView({
+      kind: 'edit',
+      id: asCopy ? undefined : template.id,
+      draft: {
+        name: asCopy ? `${template.name} (copy)` : template.name,
+        description: template.description ?? '',
+        title: template.title,
+        content: template.content,
+        tags: template.tags.join(', '),
+      },
+    });
+  };
+
+  const renderGallery = () => (
+    <>
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-grow">
+          <FaMagnifyingGlass className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-text-muted dark:text-dark-text-muted" />
+          <input
+            type="text"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Search templates"
+            className={`${inputClass} pl-9`}
+            autoFocus
+          />
+        </div>
+        <button
+          onClick={() => setView({ kind: 'edit', draft: EMPTY_DRAFT })}
+          className="flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg border border-border-color dark:border-dark-border-color text-text-primary dark:text-dark-text-primary hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary transition-colors"
+        >
+          <FaPlus className="w-3.5 h-3.5" />
+          New template
+        </button>
+        {activeNote && (
+          <button
+            onClick={() => setView({
+              kind: 'edit',
+              draft: { ...EMPTY_DRAFT, name: activeNote.title, content: activeNote.content, tags: activeNote.tags.join(', ') },
+            })}
+            className="flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg border border-border-color dark:border-dark-border-color text-text-primary dark:text-dark-text-primary hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary transition-colors"
+            title="Save the open note as a template"
+          >
+            <FaCopy className="w-3.5 h-3.5" />
+            From current note
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {!search && (
+          <button
+            onClick={() => { onCreateNote(BLANK_NOTE); onClose(); }}
+            className="flex items-start gap-3 p-4 rounded-lg border border-dashed border-border-color dark:border-dark-border-color text-left hover:border-primary hover:bg-primary/5 transition-colors"
+          >
+            <FaFile className="w-5 h-5 mt-0.5 text-text-muted dark:text-dark-text-muted" />
+            <div>
+              <div className="text-sm font-medium text-text-primary dark:text-dark-text-primary">Blank note</div>
+              <div className="text-xs text-text-muted dark:text-dark-text-muted">Start from an empty page</div>
+            </div>
+          </button>
+        )}
+        {filteredTemplates.map(template => (
+          <div
+            key={template.id}
+            className="group relative flex items-start gap-3 p-4 rounded-lg border border-border-color dark:border-dark-border-color hover:border-primary hover:bg-primary/5 transition-colors cursor-pointer"
+            onClick={() => startFilling(template)}
+          >
+            <FaFileLines className="w-5 h-5 mt-0.5 flex-shrink-0 text-primary" />
+            <div className="min-w-0 flex-grow">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-text-primary dark:text-dark-text-primary truncate">{template.name}</span>
+                {template.isBuiltIn && (
+                  <span className="px-1.5 py-0.5 text-[10px] rounded bg-bg-secondary dark:bg-dark-bg-secondary text-text-muted dark:text-dark-text-muted">
+                    Built-in
+                  </span>
+                )}
+              </div>
+              {template.description && (
+                <div className="text-xs text-text-muted dark:text-dark-text-muted line-clamp-2">{template.description}</div>
+              )}
+              {template.tags.length > 0 && (
+                <div className="mt-1 text-xs text-primary truncate">{template.tags.map(tag => `#${tag}`).join(' ')}</div>
+              )}
+            </div>
+            <div className="absolute top-2 right-2 hidden group-hover:flex items-center gap-1">
+              <button
+                onClick={e => { e.stopPropagation(); editTemplate(template, !!template.isBuiltIn); }}
+                title={template.isBuiltIn ? 'Customize a copy' : 'Edit template'}
+                className="p-1.5 rounded-md text-text-muted dark:text-dark-text-muted hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary hover:text-text-primary dark:hover:text-dark-text-primary"
+              >
+                {template.isBuiltIn ? <FaCopy className="w-3.5 h-3.5" /> : <FaPen className="w-3.5 h-3.5" />}
+              </button>
+              {!template.isBuiltIn && (
+                <button
+                  onClick={e => { e.stopPropagation(); setTemplateToDelete(template); }}
+                  title="Delete template"
+                  className="p-1.5 rounded-md text-text-muted dark:text-dark-text-muted hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary hover:text-red-600 dark:hover:text-red-400"
+                >
+                  <FaTrash className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      {search && filteredTemplates.length === 0 && (
+        <p className="text-sm text-center text-text-muted dark:text-dark-text-muted">No templates match "{search}".</p>
+      )}
+    </>
+  );
+
+  const renderFill = (template: NoteTemplate) => {
+    const fields = TemplateService.getFields(template);
+    const preview = TemplateService.apply(template, { title: customTitle ?? undefined, project: projectTitle }, fieldValues);
+    return (
+      <>
+        <div>
+          <label className={labelClass}>Title</label>
+          <input
+            type="text"
+            value={customTitle ?? preview.title}
+            onChange={e => setCustomTitle(e.target.value)}
+            className={inputClass}
+            autoFocus={fields.length === 0}
+          />
+        </div>
+        {fields.map((field, index) => (
+          <div key={field.name}>
+            <label className={labelClass}>{field.name}</label>
+            <input
+              type="text"
+              value={fieldValues[field.name] ?? ''}
+              onChange={e => setFieldValues(values => ({ ...values, [field.name]: e.target.value }))}
+              onKeyDown={e => { if (e.key === 'Enter') handleCreate(template); }}
+              className={inputClass}
+              autoFocus={index === 0}
+            />
+          </div>
+        ))}
+        <div>
+          <span className={labelClass}>Preview</span>
+          <pre className="max-h-48 overflow-y-auto p-3 rounded-lg bg-bg-secondary dark:bg-dark-bg-secondary text-xs whitespace-pre-wrap font-mono text-text-primary dark:text-dark-text-primary">
+            {preview.content || ' '}
+          </pre>
+        </div>
+      </>
+    );
+  };
+
+  const renderEdit = (draft: TemplateDraft, id?: string) => {
+    const update = (changes: Partial<TemplateDraft>) => setView({ kind: 'edit', id, draft: { ...draft, ...changes } });
+    return (
+      <>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input type="text" value={draft.name} onChange={e => update({ name: e.target.value })} className={inputClass} autoFocus />
+          </div>
+          <div>
+            <label className={labelClass}>Note title</label>
+            <input type="text" value={draft.title} onChange={e => update({ title: e.target.value })} className={inputClass} placeholder="Meeting {{date}}" />
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>Description</label>
+          <input type="text" value={draft.description ?? ''} onChange={e => update({ description: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Tags (comma separated)</label>
+          <input
+            type="text"
+            value={draft.tags}
+            onChange={e => update({ tags: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Content</label>
+          <textarea
+            value={draft.content}
+            onChange={e => update({ content: e.target.value })}
+            rows={10}
+            className={`${inputClass} font-mono resize-y`}
+          />
+          <p className="mt-1 text-xs text-text-muted dark:text-dark-text-muted">
+            {TEMPLATE_VARIABLES.map(name => `{{${name}}}`).join(', ')} are filled in for you. Any other {'{{Name}}'} is asked for when a note is created; {'{{Name|default}}'} gives it a default.
+          </p>
+        </div>
+      </>
+    );
+  };
+
+  const title = view.kind === 'fill' ? view.template.name
+    : view.kind === 'edit' ? (view.id ? 'Edit Template' : 'New Template')
+    : 'New Note from Template';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-surface dark:bg-dark-surface border border-border-color dark:border-dark-border-color rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-border-color dark:border-dark-border-color">
+          <div className="flex items-center gap-2 min-w-0">
+            {view.kind !== 'gallery' && (
+              <button
+                onClick={() => setView({ kind: 'gallery' })}
+                title="Back to templates"
+                className="p-1 rounded-md hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+              >
+                <FaArrowLeft className="w-4 h-4" />
+              </button>
+            )}
+            <h2 className="text-lg font-semibold text-text-primary dark:text-dark-text-primary truncate">{title}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+          >
+            <FaXmark className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {view.kind === 'gallery' && renderGallery()}
+          {view.kind === 'fill' && renderFill(view.template)}
+          {view.kind === 'edit' && renderEdit(view.draft, view.id)}
+        </div>
+
+        {view.kind !== 'gallery' && (
+          <div className="flex items-center justify-end gap-3 p-4 border-t border-border-color dark:border-dark-border-color">
+            <button
+              onClick={() => setView({ kind: 'gallery' })}
+              className="px-4 py-2 text-sm font-medium text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+            >
+              Back
+            </button>
+            {view.kind === 'fill' ? (
+              <button
+                onClick={() => handleCreate(view.template)}
+                className="px-4 py-2 text-sm font-medium text-white rounded-lg bg-primary hover:bg-primary/90 transition-colors"
+              >
+                Create Note
+              </button>
+            ) : (
+              <button
+                onClick={() => handleSaveTemplate(view.id, view.draft)}
+                disabled={!view.draft.name.trim()}
+                className="px-4 py-2 text-sm font-medium text-white rounded-lg bg-primary hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save Template
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <ConfirmationModal
+        isOpen={templateToDelete !== null}
+        onClose={() => setTemplateToDelete(null)}
+        onConfirm={() => templateToDelete && handleDeleteTemplate(templateToDelete)}
+        title="Delete Template"
+        message={<>Delete the template "<strong>{templateToDelete?.name}</strong>"? Notes made from it are not affected.</>}
+        confirmText="Delete"
+        confirmVariant="danger"
+        icon="danger"
+      />
+    </div>
+  );
+};
+
+export default TemplateGalleryModal;
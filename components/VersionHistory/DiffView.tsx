@@ -6,13 +6,17 @@ interface DiffViewProps {
   selectedVersion: NoteVersion;
   diffView: 'side-by-side' | 'unified';
   setDiffView: (view: 'side-by-side' | 'unified') => void;
+  originalLabel?: string;
+  currentLabel?: string;
 }
 
 const DiffView: React.FC<DiffViewProps> = ({
   compareVersion,
   selectedVersion,
   diffView,
-  setDiffView
+  setDiffView,
+  originalLabel = `v${compareVersion.version} (Original)`,
+  currentLabel = `v${selectedVersion.version} (Current)`
 }) => {
   const generateDiffView = (oldContent: string, newContent: string) => {
     const oldLines = oldContent.split('\n');
@@ -220,7 +224,7 @@ const DiffView: React.FC<DiffViewProps> = ({
             <div className="border border-gray-200 dark:border-gray-700 rounded-xl overflow-hidden bg-gray-50 dark:bg-gray-800/50 flex flex-col h-full">
               <div className="p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 flex-shrink-0">
                 <h4 className="font-medium text-gray-900 dark:text-gray-100">
-                  v{compareVersion.version} (Original)
+                  {originalLabel}
                 </h4>
               </div>
               <div className="flex-1 overflow-y-auto">
@@ -251,7 +255,7 @@ const DiffView: React.FC<DiffViewProps> = ({
             <div className="border border-gray-200 dark:border-gray-700 rounded-xl overflow-hidden bg-gray-50 dark:bg-gray-800/50 flex flex-col h-full">
               <div className="p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 flex-shrink-0">
                 <h4 className="font-medium text-gray-900 dark:text-gray-100">
-                  v{selectedVersion.version} (Current)
+                  {currentLabel}
                 </h4>
               </div>
               <div className="flex-1 overflow-y-auto">
@@ -46,6 +46,16 @@ const VersionModalFooter: React.FC<VersionModalFooterProps> = ({
           {versions.length} total versions • {formatBytes(storageInfo.totalSize)} of {formatBytes(maxBytes)} used
         </div>
         
+        {/* Savings from delta + compression storage */}
+        {storageInfo.logicalSize > storageInfo.totalSize && (
+          <div
+            className="text-xs text-gray-500 dark:text-gray-500"
+            title="Size of all version contents before deltas and compression"
+          >
+            ({formatBytes(storageInfo.logicalSize)} uncompressed)
+          </div>
+        )}
+        
         {/* Storage Status Indicator */}
         <div className={`flex items-center space-x-1 text-xs ${getStorageStatusColor()}`}>
           <span>{getStorageStatusIcon()}</span>
@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { FaLock, FaStar } from 'react-icons/fa6';
+import { encryptionService } from '../services/encryptionService';
+import { useWorkspaceLock } from '../hooks/useWorkspaceLock';
+import { useTheme } from '../hooks/useTheme';
+
+// Any of these counts as activity and postpones auto-lock
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+interface WorkspaceLockProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Shows the unlock screen instead of the app while an encrypted workspace is
+ * locked, and locks it again after a period of inactivity. The app is
+ * unmounted while locked, so no decrypted notes stay in React state.
+ */
+const WorkspaceLock: React.FC<WorkspaceLockProps> = ({ children }) => {
+  const { state, autoLockMinutes } = useWorkspaceLock();
+  useTheme();
+
+  useEffect(() => {
+    if (state !== 'unlocked' || autoLockMinutes <= 0) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => encryptionService.lock(), autoLockMinutes * 60 * 1000);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    resetTimer();
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [state, autoLockMinutes]);
+
+  if (state === 'locked') {
+    return <UnlockScreen />;
+  }
+  return <>{children}</>;
+};
+
+const UnlockScreen: React.FC = () => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    const unlocked = await encryptionService.unlock(passphrase);
+    if (!unlocked) {
+      setError('Wrong passphrase');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-bg-primary dark:bg-dark-bg-primary p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-surface dark:bg-dark-surface border border-border-color dark:border-dark-border-color rounded-xl shadow-xl p-6 space-y-4"
+      >
+        <div className="flex flex-col items-center text-center gap-2">
+          <div className="w-12 h-12 rounded-xl flex items-center justify-center bg-accent/10 dark:bg-dark-accent/10">
+            <FaLock className="w-5 h-5 text-accent dark:text-dark-accent" />
+          </div>
+          <h1 className="text-lg font-semibold text-text-primary dark:text-dark-text-primary flex items-center gap-2">
+            <FaStar className="w-4 h-4 text-accent dark:text-dark-accent" />
+            Stellar Scribe is locked
+          </h1>
+          <p className="text-sm text-text-muted dark:text-dark-text-muted">
+            Enter your passphrase to decrypt your notes.
+          </p>
+        </div>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoFocus
+          autoComplete="current-password"
+          className="w-full px-3 py-2 rounded-lg border border-border-color dark:border-dark-border-color bg-bg-primary dark:bg-dark-bg-primary text-text-primary dark:text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-accent dark:focus:ring-dark-accent"
+        />
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="w-full px-4 py-2 text-sm font-medium text-white rounded-lg bg-accent dark:bg-dark-accent hover:bg-accent-hover dark:hover:bg-dark-accent-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isUnlocking ? 'Unlocking…' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default WorkspaceLock;
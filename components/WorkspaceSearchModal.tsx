@@ -0,0 +1,281 @@
+import React, { useState, useMemo, useEffect, useDeferredValue, useRef } from 'react';
+import { Note, Project } from '../types';
+import {
+  WorkspaceSearchService,
+  WorkspaceReplaceResult,
+  NoteSearchResult,
+} from '../services/workspaceSearchService';
+import { SearchOptions, DEFAULT_SEARCH_OPTIONS, buildSearchRegex, expandReplacement } from '../utils/textSearch';
+import SearchOptionToggles, { handleSearchOptionShortcut } from './SearchOptionToggles';
+import { FaXmark, FaMagnifyingGlass, FaChevronRight } from 'react-icons/fa6';
+
+interface WorkspaceSearchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  notes: Note[];
+  projects: Project[];
+  onReplaceComplete: (result: WorkspaceReplaceResult) => void;
+  onOpenNote: (noteId: string) => void;
+}
+
+const inputClassName = 'flex-1 min-w-0 px-3 py-2 text-sm rounded-lg border bg-bg-primary dark:bg-dark-bg-primary text-text-primary dark:text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-accent dark:focus:ring-dark-accent';
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 'es'}`;
+
+const WorkspaceSearchModal: React.FC<WorkspaceSearchModalProps> = ({
+  isOpen,
+  onClose,
+  notes,
+  projects,
+  onReplaceComplete,
+  onOpenNote,
+}) => {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [projectId, setProjectId] = useState('all');
+  // Matches the user unticked; everything else is replaced
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const queryInputRef = useRef<HTMLInputElement>(null);
+  const deferredQuery = useDeferredValue(query);
+
+  useEffect(() => {
+    if (isOpen) {
+      setExcluded(new Set());
+      setTimeout(() => {
+        queryInputRef.current?.focus();
+        queryInputRef.current?.select();
+      }, 50);
+    }
+  }, [isOpen]);
+
+  const { results, error } = useMemo((): { results: NoteSearchResult[]; error: string | null } => {
+    if (!isOpen || !deferredQuery) return { results: [], error: null };
+    try {
+      const pattern = buildSearchRegex(deferredQuery, options);
+      return { results: WorkspaceSearchService.search(notes, projectId, pattern), error: null };
+    } catch (err) {
+      return { results: [], error: err instanceof Error ? err.message : 'Invalid regular expression' };
+    }
+  }, [isOpen, deferredQuery, options, notes, projectId]);
+
+  // A new search starts with every match selected
+  useEffect(() => {
+    setExcluded(new Set());
+    setCollapsed(new Set());
+  }, [deferredQuery, options, projectId]);
+
+  const matchCount = WorkspaceSearchService.countMatches(results);
+  const selectedCount = matchCount - results.reduce(
+    (total, result) => total + result.matches.filter(match => excluded.has(match.id)).length,
+    0
+  );
+
+  if (!isOpen) return null;
+
+  const toggleOption = (option: keyof SearchOptions) => {
+    setOptions(prev => ({ ...prev, [option]: !prev[option] }));
+  };
+
+  const setMatchesSelected = (ids: string[], selected: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (selected ? next.delete(id) : next.add(id)));
+      return next;
+    });
+  };
+
+  const toggleCollapsed = (noteId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(noteId)) next.delete(noteId);
+      else next.add(noteId);
+      return next;
+    });
+  };
+
+  const handleReplace = () => {
+    const selectedIds = new Set(
+      results.flatMap(result => result.matches.map(match => match.id)).filter(id => !excluded.has(id))
+    );
+    const description = `Before replacing "${deferredQuery}" with "${replacement}"`;
+    onReplaceComplete(
+      WorkspaceSearchService.replace(notes, results, selectedIds, replacement, options.useRegex, description)
+    );
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+      return;
+    }
+    handleSearchOptionShortcut(e, toggleOption);
+  };
+
+  const showReplacement = replacement.length > 0;
+  const activeProjects = projects.filter(project => !project.isArchived);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-surface dark:bg-dark-surface border border-border-color dark:border-dark-border-color rounded-lg shadow-xl w-full max-w-3xl mx-4 max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-border-color dark:border-dark-border-color">
+          <h2 className="text-lg font-semibold text-text-primary dark:text-dark-text-primary flex items-center gap-2">
+            <FaMagnifyingGlass className="w-4 h-4" />
+            Search and Replace
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+          >
+            <FaXmark className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-2 border-b border-border-color dark:border-dark-border-color">
+          <div className="flex items-center gap-1">
+            <input
+              ref={queryInputRef}
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Search all notes"
+              aria-invalid={error !== null}
+              className={`${inputClassName} ${error ? 'border-red-500' : 'border-border-color dark:border-dark-border-color'}`}
+            />
+            <SearchOptionToggles options={options} onToggle={toggleOption} />
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder={options.useRegex ? 'Replace with ($1, $<name>)' : 'Replace with'}
+              className={`${inputClassName} border-border-color dark:border-dark-border-color`}
+            />
+            <select
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              className="px-2 py-2 text-sm rounded-lg border border-border-color dark:border-dark-border-color bg-surface dark:bg-dark-surface text-text-primary dark:text-dark-text-primary"
+            >
+              <option value="all">All notes</option>
+              <option value="unorganized">No project</option>
+              {activeProjects.map(project => (
+                <option key={project.id} value={project.id}>{project.title}</option>
+              ))}
+            </select>
+          </div>
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3 text-sm">
+          {!deferredQuery ? (
+            <p className="text-text-muted dark:text-dark-text-muted">Type to search the content of your notes.</p>
+          ) : results.length === 0 && !error ? (
+            <p className="text-text-muted dark:text-dark-text-muted">No matches.</p>
+          ) : (
+            results.map(result => {
+              const ids = result.matches.map(match => match.id);
+              const selectedInNote = ids.filter(id => !excluded.has(id)).length;
+              const isCollapsed = collapsed.has(result.noteId);
+              return (
+                <div key={result.noteId}>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => toggleCollapsed(result.noteId)}
+                      className="p-1 rounded text-text-muted dark:text-dark-text-muted hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary"
+                    >
+                      <FaChevronRight className={`w-3 h-3 transition-transform ${isCollapsed ? '' : 'rotate-90'}`} />
+                    </button>
+                    <input
+                      type="checkbox"
+                      checked={selectedInNote === ids.length}
+                      ref={(el) => {
+                        if (el) el.indeterminate = selectedInNote > 0 && selectedInNote < ids.length;
+                      }}
+                      onChange={(e) => setMatchesSelected(ids, e.target.checked)}
+                    />
+                    <button
+                      onClick={() => onOpenNote(result.noteId)}
+                      className="font-medium text-text-primary dark:text-dark-text-primary hover:underline truncate"
+                      title="Open note"
+                    >
+                      {result.title || 'Untitled Note'}
+                    </button>
+                    <span className="text-xs text-text-muted dark:text-dark-text-muted flex-shrink-0">
+                      {plural(result.matches.length, 'match')}
+                    </span>
+                  </div>
+                  {!isCollapsed && (
+                    <ul className="mt-1 ml-9 space-y-0.5">
+                      {result.matches.map(match => (
+                        <li key={match.id}>
+                          <label className="flex items-start gap-2 cursor-pointer rounded px-1 hover:bg-bg-secondary dark:hover:bg-dark-bg-secondary">
+                            <input
+                              type="checkbox"
+                              className="mt-1"
+                              checked={!excluded.has(match.id)}
+                              onChange={(e) => setMatchesSelected([match.id], e.target.checked)}
+                            />
+                            <span className="w-8 flex-shrink-0 text-right text-xs leading-6 text-text-muted dark:text-dark-text-muted">
+                              {match.line}
+                            </span>
+                            <span className="font-mono text-xs leading-6 whitespace-pre-wrap break-all text-text-secondary dark:text-dark-text-secondary">
+                              {match.before}
+                              <mark className={`rounded-sm ${showReplacement ? 'bg-red-200/80 dark:bg-red-500/30 line-through' : 'bg-yellow-200/80 dark:bg-yellow-500/30'} text-inherit`}>
+                                {match.text}
+                              </mark>
+                              {showReplacement && (
+                                <mark className="rounded-sm bg-green-200/80 dark:bg-green-500/30 text-inherit">
+                                  {options.useRegex
+                                    ? expandReplacement(replacement, result.content.slice(match.start, match.end), match)
+                                    : replacement}
+                                </mark>
+                              )}
+                              {match.after}
+                            </span>
+                          </label>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-4 border-t border-border-color dark:border-dark-border-color">
+          <p className="text-xs text-text-muted dark:text-dark-text-muted">
+            {matchCount > 0 && `${plural(matchCount, 'match')} in ${results.length} ${results.length === 1 ? 'note' : 'notes'}. `}
+            Each changed note is saved as a version first, so it can be restored from its history.
+          </p>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {matchCount > 0 && (
+              <button
+                onClick={() => setExcluded(selectedCount === matchCount
+                  ? new Set(results.flatMap(result => result.matches.map(match => match.id)))
+                  : new Set())}
+                className="px-3 py-2 text-sm font-medium text-text-muted dark:text-dark-text-muted hover:text-text-primary dark:hover:text-dark-text-primary transition-colors"
+              >
+                {selectedCount === matchCount ? 'Select None' : 'Select All'}
+              </button>
+            )}
+            <button
+              onClick={handleReplace}
+              disabled={selectedCount === 0 || query !== deferredQuery}
+              className="px-4 py-2 text-sm font-medium text-white rounded-lg bg-accent dark:bg-dark-accent hover:bg-accent-hover dark:hover:bg-dark-accent-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Replace {plural(selectedCount, 'match')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceSearchModal;
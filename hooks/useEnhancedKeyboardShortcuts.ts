@@ -25,6 +25,7 @@ interface UseEnhancedKeyboardShortcutsProps {
   toggleEditor?: () => void;
   toggleSplitView?: () => void;
   toggleFullscreen?: () => void;
+  toggleOutline?: () => void;
   zoomIn?: () => void;
   zoomOut?: () => void;
   resetZoom?: () => void;
@@ -43,6 +44,8 @@ interface UseEnhancedKeyboardShortcutsProps {
   findAndReplace?: () => void;
   findNext?: () => void;
   findPrevious?: () => void;
+  searchWorkspace?: () => void;
+  showTasks?: () => void;
   
   // Help handlers
   showShortcuts?: () => void;
@@ -92,6 +95,7 @@ export const useEnhancedKeyboardShortcuts = (props: UseEnhancedKeyboardShortcuts
     toggleEditor: handlers.toggleEditor || (() => {}),
     toggleSplitView: handlers.toggleSplitView || (() => {}),
     toggleFullscreen: handlers.toggleFullscreen || (() => {}),
+    toggleOutline: handlers.toggleOutline || (() => {}),
     zoomIn: handlers.zoomIn || (() => {}),
     zoomOut: handlers.zoomOut || (() => {}),
     resetZoom: handlers.resetZoom || (() => {}),
@@ -106,6 +110,8 @@ export const useEnhancedKeyboardShortcuts = (props: UseEnhancedKeyboardShortcuts
     findAndReplace: handlers.findAndReplace || (() => {}),
     findNext: handlers.findNext || (() => {}),
     findPrevious: handlers.findPrevious || (() => {}),
+    searchWorkspace: handlers.searchWorkspace || (() => {}),
+    showTasks: handlers.showTasks || (() => {}),
     showShortcuts: handlers.showShortcuts || (() => {}),
     showCommandPalette: handlers.showCommandPalette || (() => {}),
     showVersionHistory: handlers.showVersionHistory || (() => {}),
@@ -1,6 +1,6 @@
 import { useEffect, useCallback, useRef } from 'react';
 import { keyboardShortcutsService } from '../services/keyboardShortcutsService';
-import { KeyboardShortcut } from '../types/keyboardShortcuts';
+import { KeyboardShortcut, ShortcutListing } from '../types/keyboardShortcuts';
 
 interface UseKeyboardShortcutsOptions {
   enableGlobalShortcuts?: boolean;
@@ -130,7 +130,7 @@ export const useKeyboardShortcuts = (options: UseKeyboardShortcutsOptions = {})
   }, []);
 
   // Format shortcut for display
-  const formatShortcut = useCallback((shortcut: KeyboardShortcut) => {
+  const formatShortcut = useCallback((shortcut: ShortcutListing) => {
     return keyboardShortcutsService.formatShortcut(shortcut);
   }, []);
 
@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { mergeRecordsById } from '../utils/crossTabMerge';
+import { useLocalStorage } from './useLocalStorage';
+
+type Listener = (key: string, value: string | null, origin: 'local' | 'external') => void;
+
+// Storage shared by the tabs, with changes from the other tab delivered by hand
+const storage = vi.hoisted(() => ({
+  values: new Map<string, string>(),
+  listeners: new Set<Listener>(),
+}));
+
+vi.mock('../services/storageService', () => ({
+  storageService: {
+    getJSON: <T,>(key: string, fallback: T): T => {
+      const value = storage.values.get(key);
+      return value === undefined ? fallback : JSON.parse(value);
+    },
+    setItem: (key: string, value: string) => {
+      storage.values.set(key, value);
+    },
+    subscribe: (listener: Listener) => {
+      storage.listeners.add(listener);
+      return () => storage.listeners.delete(listener);
+    },
+  },
+}));
+
+interface Item {
+  id: string;
+  title: string;
+  updatedAt: number;
+}
+
+const KEY = 'records';
+const record = (id: string, title = id, updatedAt = 1): Item => ({ id, title, updatedAt });
+
+// Another tab saves the key
+const saveElsewhere = (records: Item[]) => {
+  const value = JSON.stringify(records);
+  storage.values.set(KEY, value);
+  act(() => storage.listeners.forEach(listener => listener(KEY, value, 'external')));
+};
+
+const renderRecords = () =>
+  renderHook(() => useLocalStorage<Item[]>(KEY, [], { mergeExternal: mergeRecordsById }));
+
+describe('useLocalStorage', () => {
+  beforeEach(() => {
+    storage.values.clear();
+    storage.listeners.clear();
+  });
+
+  it('keeps a record created here deleted when another tab deletes it', () => {
+    const { result } = renderRecords();
+    act(() => result.current[1]([record('a')]));
+
+    saveElsewhere([]);
+
+    expect(result.current[0]).toEqual([]);
+    expect(storage.values.get(KEY)).toBe('[]');
+  });
+
+  it('keeps a record edited here deleted when another tab deletes it', () => {
+    storage.values.set(KEY, JSON.stringify([record('a'), record('b')]));
+    const { result } = renderRecords();
+    act(() => result.current[1]([record('a', 'edited', 2), record('b')]));
+
+    saveElsewhere([record('b')]);
+
+    expect(result.current[0]).toEqual([record('b')]);
+    expect(storage.values.get(KEY)).toBe(JSON.stringify([record('b')]));
+  });
+
+  it('takes the other tab\'s edits on top of the ones made here', () => {
+    storage.values.set(KEY, JSON.stringify([record('a'), record('b')]));
+    const { result } = renderRecords();
+    act(() => result.current[1]([record('a', 'edited', 2), record('b')]));
+
+    saveElsewhere([record('a', 'edited', 2), record('b', 'theirs', 3), record('c')]);
+
+    expect(result.current[0]).toEqual([record('a', 'edited', 2), record('b', 'theirs', 3), record('c')]);
+  });
+});
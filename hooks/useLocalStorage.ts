@@ -1,38 +1,93 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { storageService } from '../services/storageService';
 
-import React, { useState, useEffect } from 'react';
+export interface UseLocalStorageOptions<T> {
+  /**
+   * Combine this tab's value with one saved by another tab. `base` is the last
+   * value the tabs shared: received from another tab, saved by this one, or
+   * loaded at startup. Without it the other tab's value replaces ours.
+   */
+  mergeExternal?: (base: T, local: T, incoming: T) => T;
+  /**
+   * Called after a value from another tab has been applied. `next` is the
+   * merged value, `incoming` the other tab's value.
+   */
+  onExternalChange?: (previous: T, next: T, incoming: T) => void;
+  /**
+   * Keep this tab's value when another tab saves the key (e.g. per-tab selection)
+   */
+  ignoreExternal?: boolean;
+}
 
-export function useLocalStorage<T,>(key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>] {
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      // Check if item is a non-empty string before parsing
-      return (item !== null && item !== "undefined" && item !== "") ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.error(error);
-      return initialValue;
-    }
-  });
+/**
+ * Persisted state hook. Despite the name, values are stored through
+ * `storageService`, which uses IndexedDB when available.
+ */
+export function useLocalStorage<T,>(
+  key: string,
+  initialValue: T,
+  options: UseLocalStorageOptions<T> = {}
+): [T, React.Dispatch<React.SetStateAction<T>>] {
+  const [storedValue, setStoredValue] = useState<T>(() => storageService.getJSON(key, initialValue));
+  // Last serialized value written by this hook, used to ignore our own change notifications
+  const lastWrittenRef = useRef<string | null>(null);
+  const valueRef = useRef(storedValue);
+  valueRef.current = storedValue;
+  // Last value shared with the other tabs, the common ancestor for merges
+  const baseRef = useRef(storedValue);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
 
   const setValue: React.Dispatch<React.SetStateAction<T>> = (value) => {
     try {
       const valueToStore = value instanceof Function ? value(storedValue) : value;
       setStoredValue(valueToStore);
-      window.localStorage.setItem(key, JSON.stringify(valueToStore));
+      valueRef.current = valueToStore;
+      // The other tabs get this value too, so it is what they change from
+      baseRef.current = valueToStore;
+      const serialized = JSON.stringify(valueToStore);
+      lastWrittenRef.current = serialized;
+      storageService.setItem(key, serialized);
     } catch (error) {
       console.error(error);
     }
   };
 
   useEffect(() => {
-    const handleStorageChange = (e: StorageEvent) => {
-        if (e.key === key && e.newValue) {
-            setStoredValue(JSON.parse(e.newValue));
+    return storageService.subscribe((changedKey, newValue, origin) => {
+      if (changedKey !== key || newValue === lastWrittenRef.current) return;
+      try {
+        const incoming: T = newValue !== null ? JSON.parse(newValue) : initialValue;
+
+        if (origin === 'local') {
+          // Keep other hook instances using the same key in sync
+          valueRef.current = incoming;
+          setStoredValue(incoming);
+          return;
         }
-    };
-    window.addEventListener('storage', handleStorageChange);
-    return () => {
-        window.removeEventListener('storage', handleStorageChange);
-    };
+
+        const { mergeExternal, onExternalChange, ignoreExternal } = optionsRef.current;
+        if (ignoreExternal) return;
+
+        const previous = valueRef.current;
+        const next = mergeExternal ? mergeExternal(baseRef.current, previous, incoming) : incoming;
+        baseRef.current = incoming;
+        valueRef.current = next;
+        setStoredValue(next);
+
+        // Save what this tab contributed so the other tab picks it up too
+        const serialized = JSON.stringify(next);
+        if (newValue !== null && serialized !== newValue) {
+          lastWrittenRef.current = serialized;
+          baseRef.current = next;
+          storageService.setItem(key, serialized);
+        }
+
+        onExternalChange?.(previous, next, incoming);
+      } catch (error) {
+        console.error(error);
+      }
+    });
   }, [key]);
 
   return [storedValue, setValue];
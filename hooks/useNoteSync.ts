@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Note } from '../types';
+import {
+  noteSyncService,
+  applySyncResult,
+  hasLocalChanges,
+  ConflictStrategy,
+  ConflictResolution,
+  NoteConflict,
+  NoteSyncRemote,
+} from '../services/noteSyncService';
+import { supabaseNoteRemote } from '../services/supabaseService';
+import { mockNoteRemote } from '../services/mockNoteRemote';
+import { useLocalStorage } from './useLocalStorage';
+import { useToasts } from './useToasts';
+
+// Periodic sync while the app is open
+const SYNC_INTERVAL_MS = 60 * 1000;
+// Wait for typing to settle before pushing local edits
+const EDIT_DEBOUNCE_MS = 5 * 1000;
+
+export type NoteSyncStatus = 'disabled' | 'idle' | 'syncing' | 'error';
+
+declare global {
+  interface Window {
+    // Only set in development with the mock remote (see docs/NoteSync.md)
+    mockNoteRemote?: typeof mockNoteRemote;
+  }
+}
+
+/**
+ * Remote selected with VITE_NOTE_SYNC_REMOTE ('supabase' or 'mock'); sync is off otherwise
+ */
+const getConfiguredRemote = (): NoteSyncRemote | null => {
+  switch (import.meta.env.VITE_NOTE_SYNC_REMOTE) {
+    case 'supabase':
+      return supabaseNoteRemote;
+    case 'mock':
+      if (import.meta.env.DEV) {
+        // Handy for simulating edits from another device in the console
+        window.mockNoteRemote = mockNoteRemote;
+      }
+      return mockNoteRemote;
+    default:
+      return null;
+  }
+};
+
+interface UseNoteSyncReturn {
+  status: NoteSyncStatus;
+  lastSyncedAt: number | null;
+  conflicts: NoteConflict[];
+  strategy: ConflictStrategy;
+  setStrategy: (strategy: ConflictStrategy) => void;
+  syncNow: () => Promise<void>;
+  resolveConflict: (noteId: string, resolution: ConflictResolution) => Promise<boolean>;
+}
+
+export const useNoteSync = (
+  notes: Note[],
+  setNotes: React.Dispatch<React.SetStateAction<Note[]>>
+): UseNoteSyncReturn => {
+  const [remote] = useState(getConfiguredRemote);
+  const [strategy, setStrategy] = useLocalStorage<ConflictStrategy>('stellar-scribe-note-sync-strategy', 'manual');
+  const [status, setStatus] = useState<NoteSyncStatus>(remote ? 'idle' : 'disabled');
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(() => noteSyncService.getLastSyncedAt());
+  const [conflicts, setConflicts] = useState<NoteConflict[]>([]);
+  const { addToast } = useToasts();
+
+  const notesRef = useRef(notes);
+  notesRef.current = notes;
+  const strategyRef = useRef(strategy);
+  strategyRef.current = strategy;
+  // Only toast the first failure of a streak
+  const failedRef = useRef(false);
+
+  useEffect(() => {
+    noteSyncService.setRemote(remote);
+  }, [remote]);
+
+  const syncNow = useCallback(async () => {
+    if (!remote) return;
+    setStatus('syncing');
+    try {
+      const result = await noteSyncService.sync(notesRef.current, strategyRef.current);
+      noteSyncService.releaseSkippedChanges(notesRef.current, result);
+      if (hasLocalChanges(result)) {
+        setNotes(prev => applySyncResult(prev, result));
+      }
+      setConflicts(result.conflicts);
+      setLastSyncedAt(noteSyncService.getLastSyncedAt());
+      setStatus('idle');
+
+      if (failedRef.current) {
+        failedRef.current = false;
+        addToast('Note sync restored', 'success');
+      }
+      if (result.conflicts.length > 0) {
+        addToast(`${result.conflicts.length} ${result.conflicts.length === 1 ? 'note has' : 'notes have'} conflicting changes`, 'info');
+      }
+    } catch (error) {
+      console.error('Error syncing notes:', error);
+      setStatus('error');
+      if (!failedRef.current) {
+        failedRef.current = true;
+        addToast('Note sync failed. Will retry automatically.', 'error');
+      }
+    }
+  }, [remote, setNotes, addToast]);
+
+  const resolveConflict = useCallback(async (noteId: string, resolution: ConflictResolution) => {
+    const conflict = conflicts.find(c => c.noteId === noteId);
+    if (!conflict) return false;
+
+    try {
+      const resolved = await noteSyncService.resolveConflict(conflict, resolution);
+      if (!resolved) {
+        addToast('The note changed again remotely. Syncing…', 'info');
+        await syncNow();
+        return false;
+      }
+      setNotes(prev => prev.map(note => note.id === noteId ? { ...note, ...resolved } : note));
+      setConflicts(prev => prev.filter(c => c.noteId !== noteId));
+      return true;
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      addToast('Failed to resolve conflict', 'error');
+      return false;
+    }
+  }, [conflicts, setNotes, syncNow, addToast]);
+
+  // Initial sync, periodic sync, reconnects and remote change notifications
+  useEffect(() => {
+    if (!remote) return;
+    syncNow();
+    const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+    window.addEventListener('online', syncNow);
+    const unsubscribe = remote.subscribe?.(syncNow);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', syncNow);
+      unsubscribe?.();
+    };
+  }, [remote, syncNow]);
+
+  // Push local edits shortly after they happen
+  useEffect(() => {
+    if (!remote) return;
+    const timer = setTimeout(syncNow, EDIT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [notes, remote, syncNow]);
+
+  return {
+    status,
+    lastSyncedAt,
+    conflicts,
+    strategy,
+    setStrategy,
+    syncNow,
+    resolveConflict,
+  };
+};
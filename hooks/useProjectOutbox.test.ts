@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { useProjectOutbox } from './useProjectOutbox';
+
+type Listener = (key: string, value: string | null, origin: 'local' | 'external') => void;
+
+// Project sync is read from the environment when the hook module loads
+const outbox = vi.hoisted(() => {
+  vi.stubEnv('VITE_PROJECT_SYNC', 'supabase');
+  return { counts: { pending: 0, failed: 0 }, listeners: new Set<Listener>() };
+});
+
+vi.mock('../services/storageService', () => ({
+  storageService: {
+    subscribe: (listener: Listener) => {
+      outbox.listeners.add(listener);
+      return () => outbox.listeners.delete(listener);
+    },
+  },
+}));
+
+vi.mock('../services/projectOutboxService', () => ({
+  OUTBOX_STORAGE_KEY: 'outbox',
+  projectOutboxService: {
+    getCounts: () => outbox.counts,
+    subscribe: () => () => {},
+    setExecutor: () => {},
+  },
+}));
+
+vi.mock('../services/supabaseService', () => ({}));
+
+vi.mock('./useToasts', () => ({ useToasts: () => ({ addToast: () => {} }) }));
+
+// Another tab changes the outbox
+const changeElsewhere = (key: string, counts: { pending: number; failed: number }) => {
+  outbox.counts = counts;
+  act(() => outbox.listeners.forEach(listener => listener(key, '[]', 'external')));
+};
+
+describe('useProjectOutbox', () => {
+  it('refreshes the counts when another tab changes the outbox', () => {
+    const { result } = renderHook(() => useProjectOutbox());
+
+    changeElsewhere('outbox', { pending: 2, failed: 1 });
+    expect([result.current.pendingCount, result.current.failedCount]).toEqual([2, 1]);
+
+    changeElsewhere('outbox', { pending: 0, failed: 1 });
+    expect([result.current.pendingCount, result.current.failedCount]).toEqual([0, 1]);
+  });
+
+  it('ignores other keys', () => {
+    const { result } = renderHook(() => useProjectOutbox());
+
+    changeElsewhere('notes', { pending: 3, failed: 0 });
+
+    expect(result.current.pendingCount).toBe(0);
+  });
+});
@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  projectOutboxService,
+  ProjectMutation,
+  ProjectMutationExecutor,
+  OutboxEntry,
+  OUTBOX_STORAGE_KEY,
+} from '../services/projectOutboxService';
+import { storageService } from '../services/storageService';
+import {
+  createProject,
+  updateProject,
+  deleteProject,
+  recalculateProjectMetadata,
+} from '../services/supabaseService';
+import { useToasts } from './useToasts';
+
+// Project changes are mirrored to Supabase when VITE_PROJECT_SYNC=supabase
+const isProjectSyncEnabled = import.meta.env.VITE_PROJECT_SYNC === 'supabase';
+
+const executeMutation: ProjectMutationExecutor = (mutation: ProjectMutation) => {
+  switch (mutation.type) {
+    case 'createProject':
+      return createProject(mutation.project);
+    case 'updateProject':
+      return updateProject(mutation.projectId, mutation.updates);
+    case 'deleteProject':
+      return deleteProject(mutation.projectId);
+    case 'recalculateProjectMetadata':
+      return recalculateProjectMetadata(mutation.projectId);
+  }
+};
+
+const describeMutation = (entry: OutboxEntry): string => {
+  switch (entry.mutation.type) {
+    case 'createProject':
+      return `create project "${entry.mutation.project.title}"`;
+    case 'updateProject':
+      return 'update project';
+    case 'deleteProject':
+      return 'delete project';
+    case 'recalculateProjectMetadata':
+      return 'refresh project stats';
+  }
+};
+
+interface UseProjectOutboxReturn {
+  enabled: boolean;
+  pendingCount: number;
+  failedCount: number;
+  retryFailed: () => void;
+  discardFailed: () => void;
+}
+
+/**
+ * Runs the project outbox while the app is open and reports its progress
+ */
+export const useProjectOutbox = (): UseProjectOutboxReturn => {
+  const [counts, setCounts] = useState(() => projectOutboxService.getCounts());
+  const { addToast } = useToasts();
+
+  useEffect(() => {
+    if (!isProjectSyncEnabled) return;
+
+    const unsubscribe = projectOutboxService.subscribe(event => {
+      switch (event.type) {
+        case 'changed':
+          setCounts(projectOutboxService.getCounts());
+          break;
+        case 'deferred':
+          addToast('Project changes will sync when the connection returns', 'info');
+          break;
+        case 'failed':
+          addToast(`Couldn't ${describeMutation(event.entry)}: ${event.entry.lastError}`, 'error');
+          break;
+        case 'replayed':
+          addToast(`Synced ${event.count} queued project ${event.count === 1 ? 'change' : 'changes'}`, 'success');
+          break;
+      }
+    });
+
+    // Other tabs queue and send changes too; their events only reach their own listeners
+    const unsubscribeStorage = storageService.subscribe((key, _value, origin) => {
+      if (key === OUTBOX_STORAGE_KEY && origin === 'external') {
+        setCounts(projectOutboxService.getCounts());
+      }
+    });
+
+    const handleOnline = () => projectOutboxService.flush();
+    window.addEventListener('online', handleOnline);
+    projectOutboxService.setExecutor(executeMutation);
+
+    return () => {
+      unsubscribe();
+      unsubscribeStorage();
+      window.removeEventListener('online', handleOnline);
+      projectOutboxService.setExecutor(null);
+    };
+  }, [addToast]);
+
+  const retryFailed = useCallback(() => projectOutboxService.retryFailed(), []);
+  const discardFailed = useCallback(() => projectOutboxService.discardFailed(), []);
+
+  return {
+    enabled: isProjectSyncEnabled,
+    pendingCount: counts.pending,
+    failedCount: counts.failed,
+    retryFailed,
+    discardFailed,
+  };
+};
@@ -2,6 +2,8 @@ import { useCallback, useMemo } from 'react';
 import { Project, Note, ProjectStats } from '../types';
 import { useLocalStorage } from './useLocalStorage';
 import { ProjectService } from '../services/projectService';
+import { projectOutboxService } from '../services/projectOutboxService';
+import { mergeRecordsById } from '../utils/crossTabMerge';
 
 interface UseProjectsReturn {
   // State
@@ -17,10 +19,12 @@ interface UseProjectsReturn {
   updateProject: (id: string, updates: Partial<Project>) => void;
   deleteProject: (id: string, strategy?: 'unorganize' | 'delete' | 'move', targetProjectId?: string) => void;
   duplicateProject: (id: string, includeNotes?: boolean) => { project: Project; notes: Note[] } | undefined;
+  restoreProject: (project: Project) => void;
   
   // Organization
   togglePinProject: (id: string) => void;
   toggleArchiveProject: (id: string) => void;
+  recalculateProjectMetadata: (id: string, currentNotes?: Note[]) => void;
   
   // Queries
   getProject: (id: string) => Project | undefined;
@@ -36,10 +40,13 @@ interface UseProjectsReturn {
 }
 
 export const useProjects = (notes: Note[] = []): UseProjectsReturn => {
-  const [projects, setProjects] = useLocalStorage<Project[]>('stellar-scribe-projects-v1', []);
+  const [projects, setProjects] = useLocalStorage<Project[]>('stellar-scribe-projects-v1', [], {
+    mergeExternal: mergeRecordsById,
+  });
   const [activeProjectId, setActiveProjectId] = useLocalStorage<string | null>(
     'stellar-scribe-active-project-id',
-    null
+    null,
+    { ignoreExternal: true }
   );
 
   // CRUD Operations
@@ -48,6 +55,7 @@ export const useProjects = (notes: Note[] = []): UseProjectsReturn => {
   ): Project => {
     const newProject = ProjectService.createProject(data);
     setProjects(prev => [...prev, newProject]);
+    projectOutboxService.enqueue({ type: 'createProject', project: newProject });
     return newProject;
   }, [setProjects]);
 
@@ -59,6 +67,7 @@ export const useProjects = (notes: Note[] = []): UseProjectsReturn => {
           : project
       )
     );
+    projectOutboxService.enqueue({ type: 'updateProject', projectId: id, updates });
   }, [setProjects]);
 
   const deleteProject = useCallback((
@@ -67,6 +76,7 @@ export const useProjects = (notes: Note[] = []): UseProjectsReturn => {
     targetProjectId?: string
   ) => {
     setProjects(prev => prev.filter(p => p.id !== id));
+    projectOutboxService.enqueue({ type: 'deleteProject', projectId: id });
     
     // If deleting active project, switch to "All Notes"
     if (activeProjectId === id) {
@@ -85,14 +95,22 @@ export const useProjects = (notes: Note[] = []): UseProjectsReturn => {
     );
 
     setProjects(prev => [...prev, duplicatedProject]);
+    projectOutboxService.enqueue({ type: 'createProject', project: duplicatedProject });
     
     // Note: The parent component needs to handle adding duplicated notes
     // This is returned so the parent can decide how to handle it
     return { project: duplicatedProject, notes: duplicatedNotes };
   }, [projects, notes, setProjects]);
 
+  // Puts back a project taken out of the trash, keeping its id
+  const restoreProject = useCallback((project: Project) => {
+    setProjects(prev => [...prev.filter(p => p.id !== project.id), project]);
+    projectOutboxService.enqueue({ type: 'createProject', project });
+  }, [setProjects]);
+
   // Organization
   const togglePinProject = useCallback((id: string) => {
+    const project = projects.find(p => p.id === id);
     setProjects(prev =>
       prev.map(project =>
         project.id === id
@@ -100,9 +118,13 @@ export const useProjects = (notes: Note[] = []): UseProjectsReturn => {
           : project
       )
     );
-  }, [setProjects]);
+    if (project) {
+      projectOutboxService.enqueue({ type: 'updateProject', projectId: id, updates: { isPinned: !project.isPinned } });
+    }
+  }, [projects, setProjects]);
 
   const toggleArchiveProject = useCallback((id: string) => {
+    const project = projects.find(p => p.id === id);
     setProjects(prev =>
       prev.map(project =>
         project.id === id
@@ -110,7 +132,21 @@ export const useProjects = (notes: Note[] = []): UseProjectsReturn => {
           : project
       )
     );
-  }, [setProjects]);
+    if (project) {
+      projectOutboxService.enqueue({ type: 'updateProject', projectId: id, updates: { isArchived: !project.isArchived } });
+    }
+  }, [projects, setProjects]);
+
+  const recalculateProjectMetadata = useCallback((id: string, currentNotes: Note[] = notes) => {
+    setProjects(prev =>
+      prev.map(project =>
+        project.id === id
+          ? ProjectService.updateProjectMetadata(project, currentNotes)
+          : project
+      )
+    );
+    projectOutboxService.enqueue({ type: 'recalculateProjectMetadata', projectId: id });
+  }, [notes, setProjects]);
 
   // Queries
   const getProject = useCallback((id: string) => {
@@ -163,10 +199,12 @@ export const useProjects = (notes: Note[] = []): UseProjectsReturn => {
     updateProject,
     deleteProject,
     duplicateProject,
+    restoreProject,
     
     // Organization
     togglePinProject,
     toggleArchiveProject,
+    recalculateProjectMetadata,
     
     // Queries
     getProject,
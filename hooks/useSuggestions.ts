@@ -154,6 +154,13 @@ export const useSuggestions = ({
         clearSuggestion();
     }, [clearSuggestion]);
 
+    // A suggestion left showing once suggestions are off would still take Tab
+    useEffect(() => {
+        if (isEnabled) return;
+        clearSuggestion();
+        lastRequestRef.current = '';
+    }, [isEnabled, clearSuggestion]);
+
     // Cleanup on unmount
     useEffect(() => {
         return () => {
@@ -0,0 +1,91 @@
+import { useCallback, useEffect } from 'react';
+import { Note, Project, TrashEntry } from '../types';
+import { useLocalStorage } from './useLocalStorage';
+import {
+  TrashService,
+  TRASH_STORAGE_KEY,
+  TRASH_RETENTION_STORAGE_KEY,
+  DEFAULT_TRASH_RETENTION_DAYS,
+} from '../services/trashService';
+import { mergeRecordsById } from '../utils/crossTabMerge';
+
+// How often expired entries are purged while the app stays open
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+interface UseTrashReturn {
+  entries: TrashEntry[];
+  retentionDays: number;
+  setRetentionDays: (days: number) => void;
+  moveNotesToTrash: (notes: Note[]) => void;
+  moveProjectToTrash: (project: Project, notes: Note[]) => void;
+  // Drops an entry that has been restored; its histories stay
+  removeEntry: (id: string) => void;
+  deletePermanently: (id: string) => void;
+  emptyTrash: () => void;
+}
+
+/**
+ * Soft-deleted notes and projects, purged once older than the retention period
+ */
+export const useTrash = (): UseTrashReturn => {
+  const [entries, setEntries] = useLocalStorage<TrashEntry[]>(TRASH_STORAGE_KEY, [], {
+    mergeExternal: mergeRecordsById,
+  });
+  const [retentionDays, setRetentionDays] = useLocalStorage<number>(
+    TRASH_RETENTION_STORAGE_KEY,
+    DEFAULT_TRASH_RETENTION_DAYS
+  );
+
+  const addEntries = useCallback((added: TrashEntry[]) => {
+    if (added.length === 0) return;
+    const addedIds = new Set(added.map(entry => entry.id));
+    setEntries(prev => [...added, ...prev.filter(entry => !addedIds.has(entry.id))]);
+  }, [setEntries]);
+
+  const moveNotesToTrash = useCallback((notes: Note[]) => {
+    addEntries(notes.map(note => TrashService.createNoteEntry(note)));
+  }, [addEntries]);
+
+  const moveProjectToTrash = useCallback((project: Project, notes: Note[]) => {
+    addEntries([TrashService.createProjectEntry(project, notes)]);
+  }, [addEntries]);
+
+  const removeEntry = useCallback((id: string) => {
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+  }, [setEntries]);
+
+  const deletePermanently = useCallback((id: string) => {
+    TrashService.deleteHistories(entries.filter(entry => entry.id === id));
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+  }, [entries, setEntries]);
+
+  const emptyTrash = useCallback(() => {
+    TrashService.deleteHistories(entries);
+    setEntries([]);
+  }, [entries, setEntries]);
+
+  // Purge expired entries on load, when the retention period changes and periodically
+  useEffect(() => {
+    const purgeExpired = () => {
+      const { kept, expired } = TrashService.splitExpired(entries, retentionDays);
+      if (expired.length === 0) return;
+      TrashService.deleteHistories(expired);
+      setEntries(kept);
+    };
+
+    purgeExpired();
+    const interval = setInterval(purgeExpired, PURGE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [entries, retentionDays]);
+
+  return {
+    entries,
+    retentionDays,
+    setRetentionDays,
+    moveNotesToTrash,
+    moveProjectToTrash,
+    removeEntry,
+    deletePermanently,
+    emptyTrash,
+  };
+};
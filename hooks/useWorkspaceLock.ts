@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { encryptionService, LockState } from '../services/encryptionService';
+
+interface UseWorkspaceLockReturn {
+  state: LockState;
+  isEncrypted: boolean;
+  autoLockMinutes: number;
+}
+
+/**
+ * Current workspace encryption state, updated on lock, unlock and setting changes
+ */
+export const useWorkspaceLock = (): UseWorkspaceLockReturn => {
+  const [state, setState] = useState<LockState>(() => encryptionService.getState());
+  const [autoLockMinutes, setAutoLockMinutes] = useState(() => encryptionService.getAutoLockMinutes());
+
+  useEffect(() => {
+    return encryptionService.subscribe(next => {
+      setState(next);
+      setAutoLockMinutes(encryptionService.getAutoLockMinutes());
+    });
+  }, []);
+
+  return {
+    state,
+    isEncrypted: state !== 'disabled',
+    autoLockMinutes,
+  };
+};
@@ -1,6 +1,11 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import 'katex/dist/katex.min.css';
 import App from './App';
+import WorkspaceLock from './components/WorkspaceLock';
+import { storageService } from './services/storageService';
+import { migrationService } from './services/migrationService';
+import { encryptionService } from './services/encryptionService';
 
 // Suppress console logs globally – keeps errors but hides log/info/debug
 /* eslint-disable no-console */
@@ -16,8 +21,32 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+
+// Migrations need the notes in plain text, so an encrypted workspace runs them
+// once it is unlocked (before the app mounts)
+const runMigrationsWhenUnlocked = () => {
+  if (encryptionService.getState() !== 'locked') {
+    migrationService.runPending();
+    return;
+  }
+  const unsubscribe = encryptionService.subscribe(state => {
+    if (state === 'locked') return;
+    unsubscribe();
+    migrationService.runPending();
+  });
+};
+
+// Hydrate persisted data (IndexedDB, with localStorage fallback) and bring it up
+// to the current schema before the first render
+storageService.init().then(() => {
+  encryptionService.init();
+  runMigrationsWhenUnlocked();
+}).finally(() => {
+  root.render(
+    <React.StrictMode>
+      <WorkspaceLock>
+        <App />
+      </WorkspaceLock>
+    </React.StrictMode>
+  );
+});
@@ -0,0 +1,54 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { MemoryBackend, storageService } from './storageService';
+import { ATTACHMENT_KEY_PREFIX, AttachmentService } from './attachmentService';
+
+const file = (text: string, name = 'notes.txt', type = 'text/plain') => new File([text], name, { type });
+
+const readText = async (blob: Blob | null) => blob && new TextDecoder().decode(await blob.arrayBuffer());
+
+describe('AttachmentService', () => {
+  beforeAll(() => storageService.init(new MemoryBackend()));
+
+  it('stores the file apart from its record', async () => {
+    const attachment = await AttachmentService.save(file('hello'));
+
+    const record = storageService.getJSON<object>(`${ATTACHMENT_KEY_PREFIX}${attachment!.id}`, {});
+    expect(record).not.toHaveProperty('data');
+    expect(AttachmentService.getStoredFileSize(attachment!.id)).toBe(5);
+    const stored = await AttachmentService.getFile(attachment!.id);
+    expect(stored?.type).toBe('text/plain');
+    expect(await readText(stored)).toBe('hello');
+  });
+
+  it('deletes the file with the record', async () => {
+    const attachment = await AttachmentService.save(file('bye'));
+
+    AttachmentService.delete(attachment!.id);
+    await storageService.flush();
+
+    expect(await storageService.fileKeys()).not.toContain(`${ATTACHMENT_KEY_PREFIX}${attachment!.id}`);
+    expect(await AttachmentService.getFile(attachment!.id)).toBeNull();
+  });
+
+  it('moves the contents of older records into the file store', async () => {
+    const key = `${ATTACHMENT_KEY_PREFIX}legacy`;
+    storageService.setJSON(key, { id: 'legacy', name: 'a.txt', type: 'text/plain', size: 3, createdAt: 1, data: btoa('old') });
+    expect(await readText(await AttachmentService.getFile('legacy'))).toBe('old');
+
+    expect(await AttachmentService.moveLegacyFiles()).toBe(1);
+
+    expect(storageService.getJSON<object>(key, {})).not.toHaveProperty('data');
+    expect(await readText(await storageService.getFile(key))).toBe('old');
+  });
+
+  it('exports files for backups and imports only the missing ones', async () => {
+    const attachment = await AttachmentService.save(file('kept'));
+    const archived = (await AttachmentService.exportAttachments()).find(({ id }) => id === attachment!.id)!;
+    expect(archived.data).toBe(btoa('kept'));
+
+    const imported = await AttachmentService.importAttachments([archived, { ...archived, id: 'restored', data: btoa('new') }]);
+
+    expect(imported).toBe(1);
+    expect(await readText(await AttachmentService.getFile('restored'))).toBe('new');
+  });
+});
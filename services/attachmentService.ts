@@ -0,0 +1,356 @@
+import { Note, TrashEntry } from '../types';
+import { storageService } from './storageService';
+import { versionControlService } from './versionControlService';
+import { TRASH_STORAGE_KEY } from './trashService';
+import { UndoHistoryService } from './undoHistoryService';
+import { bytesToBase64, base64ToBytes } from '../utils/versionDelta';
+
+// ============================================================================
+// ATTACHMENTS
+// ============================================================================
+// Images and files pasted or dropped into a note are stored on their own,
+// one storage key per attachment, and referenced from the markdown with an
+// `attachment:<id>` URL. Note content stays small and the same file can be
+// referenced from several notes or versions.
+//
+// The key holds a small JSON record that is mirrored in memory like any other
+// value; the file itself is stored as a Blob under the same key in the
+// storage's file store and only read when it is shown or exported. Without
+// a backend that holds files (IndexedDB) nothing can be attached.
+//
+// Attachments that nothing references any more are garbage-collected. Notes,
+// the trash and every version and undo history count as references, and new
+// attachments get a grace period so undoing a deletion in the editor still
+// finds the file.
+
+export const ATTACHMENT_KEY_PREFIX = 'stellar-scribe-attachment-';
+export const ATTACHMENT_URL_SCHEME = 'attachment:';
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+const GC_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+const ATTACHMENT_REFERENCE_PATTERN = /attachment:([\w-]+)/g;
+
+export interface StoredAttachment {
+  id: string;
+  name: string;
+  // MIME type
+  type: string;
+  size: number;
+  createdAt: number;
+}
+
+/**
+ * An attachment together with its file, as written to backups
+ */
+export interface ArchivedAttachment extends StoredAttachment {
+  // Base64 file contents
+  data: string;
+}
+
+// Records written before files were stored as Blobs still hold the contents
+type LegacyAttachment = StoredAttachment & { data?: string };
+
+// Object URLs handed to the preview by attachment id, null if the file could not be read
+const objectUrls = new Map<string, string | null>();
+const objectUrlLoads = new Map<string, Promise<string | null>>();
+// Bumped when the cache is cleared, so loads started before are not cached
+let cacheGeneration = 0;
+
+const getStorageKey = (id: string): string => `${ATTACHMENT_KEY_PREFIX}${id}`;
+
+export const isStoredAttachment = (value: unknown): value is StoredAttachment => {
+  const attachment = value as StoredAttachment;
+  return !!attachment &&
+    typeof attachment.id === 'string' && /^[\w-]+$/.test(attachment.id) &&
+    typeof attachment.name === 'string' &&
+    typeof attachment.type === 'string';
+};
+
+export const isArchivedAttachment = (value: unknown): value is ArchivedAttachment =>
+  isStoredAttachment(value) && typeof (value as ArchivedAttachment).data === 'string';
+
+const toRecord = ({ id, name, type, size, createdAt }: StoredAttachment): StoredAttachment =>
+  ({ id, name, type, size, createdAt });
+
+const blobToBase64 = async (file: Blob): Promise<string> => bytesToBase64(new Uint8Array(await file.arrayBuffer()));
+
+/**
+ * Attachment Service
+ */
+export class AttachmentService {
+  /**
+   * Whether files can be attached with the active storage backend
+   */
+  static isAvailable(): boolean {
+    return storageService.canStoreFiles();
+  }
+
+  /**
+   * Store a file. Resolves to null if it is over MAX_ATTACHMENT_SIZE, files
+   * cannot be stored or it could not be stored.
+   */
+  static async save(file: File): Promise<StoredAttachment | null> {
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      console.error(`Attachment "${file.name}" is over the size limit`);
+      return null;
+    }
+    const attachment: StoredAttachment = {
+      id: crypto.randomUUID(),
+      // Pasted screenshots come without a useful name
+      name: file.name || `pasted-${new Date().toISOString().slice(0, 10)}`,
+      type: file.type || 'application/octet-stream',
+      size: file.size,
+      createdAt: Date.now(),
+    };
+    return (await AttachmentService.store(attachment, file)) ? attachment : null;
+  }
+
+  /**
+   * Write the file, then the record that points to it
+   */
+  private static async store(attachment: StoredAttachment, file: Blob): Promise<boolean> {
+    const key = getStorageKey(attachment.id);
+    if (!(await storageService.setFile(key, file))) return false;
+    try {
+      storageService.setJSON(key, toRecord(attachment));
+      return true;
+    } catch (error) {
+      console.error(`Error saving attachment ${attachment.id}:`, error);
+      storageService.removeFile(key);
+      return false;
+    }
+  }
+
+  static get(id: string): StoredAttachment | null {
+    const attachment = storageService.getJSON<LegacyAttachment | null>(getStorageKey(id), null);
+    return isStoredAttachment(attachment) ? toRecord(attachment) : null;
+  }
+
+  static getIds(): string[] {
+    return storageService.keys(ATTACHMENT_KEY_PREFIX).map(key => key.slice(ATTACHMENT_KEY_PREFIX.length));
+  }
+
+  static getAll(): StoredAttachment[] {
+    return AttachmentService.getIds()
+      .map(id => AttachmentService.get(id))
+      .filter((attachment): attachment is StoredAttachment => attachment !== null);
+  }
+
+  /**
+   * Read an attachment's file from storage. Null if it is missing or cannot be read.
+   */
+  static async getFile(id: string): Promise<Blob | null> {
+    const key = getStorageKey(id);
+    const attachment = storageService.getJSON<LegacyAttachment | null>(key, null);
+    if (!isStoredAttachment(attachment)) return null;
+    if (typeof attachment.data === 'string') {
+      return new Blob([base64ToBytes(attachment.data)], { type: attachment.type });
+    }
+    const file = await storageService.getFile(key);
+    // Encrypted files come back without their type
+    return file && file.type !== attachment.type ? file.slice(0, file.size, attachment.type) : file;
+  }
+
+  /**
+   * Bytes the file takes up outside the record (0 for records that still
+   * hold the contents themselves)
+   */
+  static getStoredFileSize(id: string): number {
+    const attachment = storageService.getJSON<LegacyAttachment | null>(getStorageKey(id), null);
+    return isStoredAttachment(attachment) && typeof attachment.data !== 'string' ? attachment.size : 0;
+  }
+
+  static async getDataUrl(id: string): Promise<string | null> {
+    const file = await AttachmentService.getFile(id);
+    return file && `data:${file.type};base64,${await blobToBase64(file)}`;
+  }
+
+  static async getBytes(id: string): Promise<Uint8Array | null> {
+    const file = await AttachmentService.getFile(id);
+    return file && new Uint8Array(await file.arrayBuffer());
+  }
+
+  static delete(id: string): void {
+    const key = getStorageKey(id);
+    storageService.removeItem(key);
+    storageService.removeFile(key);
+    AttachmentService.revokeObjectUrl(id);
+  }
+
+  /**
+   * Every attachment with its file, for a backup. Attachments whose file
+   * cannot be read are left out.
+   */
+  static async exportAttachments(): Promise<ArchivedAttachment[]> {
+    const archived: ArchivedAttachment[] = [];
+    // One at a time, so only one file is read into memory besides the archive
+    for (const attachment of AttachmentService.getAll()) {
+      const file = await AttachmentService.getFile(attachment.id);
+      if (!file) {
+        console.error(`Attachment ${attachment.id} could not be read for the backup`);
+        continue;
+      }
+      archived.push({ ...attachment, data: await blobToBase64(file) });
+    }
+    return archived;
+  }
+
+  /**
+   * Store attachments from a backup, keeping ones that already exist.
+   * Resolves to how many were stored.
+   */
+  static async importAttachments(attachments: ArchivedAttachment[]): Promise<number> {
+    let imported = 0;
+    for (const { data, ...attachment } of attachments) {
+      if (storageService.getItem(getStorageKey(attachment.id)) !== null) continue;
+      if (await AttachmentService.store(attachment, new Blob([base64ToBytes(data)], { type: attachment.type }))) {
+        imported++;
+      }
+    }
+    return imported;
+  }
+
+  /**
+   * Move the contents of records written before files were stored as Blobs
+   * into the file store. Resolves to how many were moved.
+   */
+  static async moveLegacyFiles(): Promise<number> {
+    if (!storageService.canStoreFiles()) return 0;
+    let moved = 0;
+    for (const id of AttachmentService.getIds()) {
+      const attachment = storageService.getJSON<LegacyAttachment | null>(getStorageKey(id), null);
+      if (!isStoredAttachment(attachment) || typeof attachment.data !== 'string') continue;
+      const file = new Blob([base64ToBytes(attachment.data)], { type: attachment.type });
+      if (await AttachmentService.store(attachment, file)) moved++;
+    }
+    return moved;
+  }
+
+  static isImage(attachment: Pick<StoredAttachment, 'type'>): boolean {
+    return attachment.type.startsWith('image/');
+  }
+
+  /**
+   * Cached object URL for showing an attachment in the page. Null until
+   * `loadObjectUrl` has read it, or if it could not be read.
+   */
+  static getObjectUrl(id: string): string | null {
+    return objectUrls.get(id) ?? null;
+  }
+
+  /**
+   * Whether `loadObjectUrl` has finished for an attachment
+   */
+  static hasLoadedObjectUrl(id: string): boolean {
+    return objectUrls.has(id);
+  }
+
+  /**
+   * Read an attachment's file and cache an object URL for it, so re-renders
+   * keep the same src. Resolves to null if it is missing or cannot be read.
+   */
+  static loadObjectUrl(id: string): Promise<string | null> {
+    if (objectUrls.has(id)) return Promise.resolve(objectUrls.get(id)!);
+    const pending = objectUrlLoads.get(id);
+    if (pending) return pending;
+
+    const generation = cacheGeneration;
+    const load: Promise<string | null> = AttachmentService.getFile(id)
+      .catch(error => {
+        console.error(`Error reading attachment ${id}:`, error);
+        return null;
+      })
+      .then(file => {
+        if (generation !== cacheGeneration) return null;
+        const url = file && URL.createObjectURL(file);
+        objectUrls.set(id, url);
+        return url;
+      })
+      .finally(() => {
+        if (objectUrlLoads.get(id) === load) objectUrlLoads.delete(id);
+      });
+    objectUrlLoads.set(id, load);
+    return load;
+  }
+
+  private static revokeObjectUrl(id: string): void {
+    const url = objectUrls.get(id);
+    if (url) URL.revokeObjectURL(url);
+    objectUrls.delete(id);
+  }
+
+  /**
+   * Drop every object URL, e.g. when the workspace locks
+   */
+  static clearCache(): void {
+    objectUrls.forEach(url => {
+      if (url) URL.revokeObjectURL(url);
+    });
+    objectUrls.clear();
+    objectUrlLoads.clear();
+    cacheGeneration++;
+  }
+
+  /**
+   * Markdown that references an attachment: an image for images, a link otherwise
+   */
+  static toMarkdown(attachment: Pick<StoredAttachment, 'id' | 'name' | 'type'>): string {
+    const label = attachment.name.replace(/[[\]\\]/g, '\\$&');
+    const link = `[${label}](${ATTACHMENT_URL_SCHEME}${attachment.id})`;
+    return AttachmentService.isImage(attachment) ? `!${link}` : link;
+  }
+
+  /**
+   * Ids of the attachments referenced in a piece of markdown
+   */
+  static parseReferences(content: string): string[] {
+    return Array.from(content.matchAll(ATTACHMENT_REFERENCE_PATTERN), match => match[1]);
+  }
+
+  // ==========================================================================
+  // GARBAGE COLLECTION
+  // ==========================================================================
+
+  /**
+   * Ids referenced by the given notes, the trash or any version or undo history
+   */
+  private static getReferencedIds(notes: Note[]): Set<string> {
+    const referenced = new Set<string>();
+    const addFrom = (content: string | undefined) => {
+      if (content?.includes(ATTACHMENT_URL_SCHEME)) {
+        AttachmentService.parseReferences(content).forEach(id => referenced.add(id));
+      }
+    };
+
+    notes.forEach(note => addFrom(note.content));
+    storageService.getJSON<TrashEntry[]>(TRASH_STORAGE_KEY, []).forEach(entry => {
+      (entry.kind === 'note' ? [entry.note] : entry.notes).forEach(note => addFrom(note.content));
+    });
+    versionControlService.getVersionedNoteIds().forEach(noteId => {
+      versionControlService.getNoteVersions(noteId).forEach(version => addFrom(version.content));
+    });
+    UndoHistoryService.getNoteIds().forEach(noteId => {
+      UndoHistoryService.getContents(noteId).forEach(addFrom);
+    });
+    return referenced;
+  }
+
+  /**
+   * Delete attachments nothing references any more. Returns how many were deleted.
+   */
+  static collectGarbage(notes: Note[], now: number = Date.now()): number {
+    const ids = AttachmentService.getIds();
+    if (ids.length === 0) return 0;
+
+    const referenced = AttachmentService.getReferencedIds(notes);
+    let deleted = 0;
+    ids.forEach(id => {
+      if (referenced.has(id)) return;
+      const attachment = AttachmentService.get(id);
+      if (attachment && now - attachment.createdAt < GC_GRACE_PERIOD_MS) return;
+      AttachmentService.delete(id);
+      deleted++;
+    });
+    return deleted;
+  }
+}
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Note, NoteVersion } from '../types';
+import { BACKUP_SCHEMA_VERSION, BackupService, WorkspaceBackup } from './backupService';
+
+// Histories and trash of the workspace being restored into
+const workspace = vi.hoisted(() => ({
+  versions: new Map<string, unknown[]>(),
+  trashedNoteIds: [] as string[],
+}));
+
+vi.mock('./versionControlService', () => ({
+  versionControlService: {
+    getNoteVersions: (noteId: string) => workspace.versions.get(noteId) ?? [],
+    getVersionedNoteIds: () => [...workspace.versions.keys()],
+  },
+}));
+
+vi.mock('./trashService', async importOriginal => ({
+  ...await importOriginal<typeof import('./trashService')>(),
+  TrashService: { getTrashedNoteIds: () => workspace.trashedNoteIds },
+}));
+
+vi.mock('./attachmentService', async importOriginal => ({
+  ...await importOriginal<typeof import('./attachmentService')>(),
+  AttachmentService: { getIds: () => [] },
+}));
+
+const note = (id: string): Note => ({ id, title: id, content: '', createdAt: 1, updatedAt: 1, tags: [], isPinned: false });
+
+const version = (noteId: string, number = 1): NoteVersion => ({
+  id: `${noteId}-${number}`,
+  noteId,
+  version: number,
+  title: noteId,
+  content: '',
+  createdAt: number,
+});
+
+const backup = (notes: Note[], versions: Record<string, NoteVersion[]> = {}): WorkspaceBackup => ({
+  manifest: {
+    app: 'stellar-scribe',
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    createdAt: 1,
+    counts: { notes: notes.length, projects: 0, versionHistories: Object.keys(versions).length, versions: 0, attachments: 0 },
+  },
+  notes,
+  projects: [],
+  versions,
+  attachments: [],
+  preferences: { theme: null, settings: {}, shortcuts: null },
+});
+
+describe('BackupService.planRestore', () => {
+  beforeEach(() => {
+    workspace.versions.clear();
+    workspace.trashedNoteIds = [];
+  });
+
+  it('replaces the histories of notes the archive does not have', () => {
+    workspace.versions.set('kept', [version('kept')]);
+    workspace.versions.set('gone', [version('gone')]);
+
+    const plan = BackupService.planRestore(
+      backup([note('kept')], { kept: [version('kept', 2)] }), [note('kept'), note('gone')], [], 'replace', false
+    );
+
+    expect(plan.versionHistories.written).toEqual(['kept']);
+    expect(plan.versionHistories.removed).toEqual(['gone']);
+  });
+
+  it('keeps the histories of notes in the trash', () => {
+    workspace.versions.set('gone', [version('gone')]);
+    workspace.versions.set('trashed', [version('trashed')]);
+    workspace.trashedNoteIds = ['trashed'];
+
+    const plan = BackupService.planRestore(backup([]), [note('gone')], [], 'replace', false);
+
+    expect(plan.versionHistories.removed).toEqual(['gone']);
+  });
+
+  it('removes no histories when merging', () => {
+    workspace.versions.set('gone', [version('gone')]);
+
+    const plan = BackupService.planRestore(backup([]), [note('gone')], [], 'merge', false);
+
+    expect(plan.versionHistories.removed).toEqual([]);
+    expect(plan.result.notes.map(({ id }) => id)).toEqual(['gone']);
+  });
+});
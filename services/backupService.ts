@@ -0,0 +1,384 @@
+import { gzip, ungzip } from 'pako';
+import { saveAs } from 'file-saver';
+import { Note, NoteVersion, Project } from '../types';
+import { KeyboardShortcutConfig } from '../types/keyboardShortcuts';
+import { storageService } from './storageService';
+import { versionControlService } from './versionControlService';
+import { keyboardShortcutsService } from './keyboardShortcutsService';
+import { AttachmentService, ArchivedAttachment, isArchivedAttachment } from './attachmentService';
+import { TEMPLATES_STORAGE_KEY } from './templateService';
+import { TrashService } from './trashService';
+
+// ============================================================================
+// WORKSPACE BACKUP
+// ============================================================================
+// A backup archive is a gzipped JSON document holding every note, project,
+// version history, attachment and preference, plus a manifest describing its
+// contents.
+// Restoring either replaces the workspace or merges the archive into it.
+
+export const BACKUP_SCHEMA_VERSION = 1;
+const BACKUP_APP_ID = 'stellar-scribe';
+
+// Preference keys copied verbatim into the archive. The expanded-* keys are
+// kept in localStorage (see LOCAL_ONLY_KEYS in storageService), the rest in storageService.
+const SIDEBAR_PREFERENCE_KEYS = [
+  'stellar-scribe-sidebar-open',
+  'stellar-scribe-expanded-projects',
+  'stellar-scribe-expanded-sections',
+];
+const PREFERENCE_KEYS = [...SIDEBAR_PREFERENCE_KEYS, TEMPLATES_STORAGE_KEY];
+const LOCAL_PREFERENCE_KEYS = new Set([
+  'stellar-scribe-expanded-projects',
+  'stellar-scribe-expanded-sections',
+]);
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface BackupManifest {
+  app: typeof BACKUP_APP_ID;
+  schemaVersion: number;
+  createdAt: number;
+  counts: {
+    notes: number;
+    projects: number;
+    versionHistories: number;
+    versions: number;
+    // Missing in archives made before attachments existed
+    attachments?: number;
+  };
+}
+
+export interface WorkspacePreferences {
+  theme: 'light' | 'dark' | null;
+  settings: Record<string, string>;
+  shortcuts: Partial<KeyboardShortcutConfig> | null;
+}
+
+export interface WorkspaceBackup {
+  manifest: BackupManifest;
+  notes: Note[];
+  projects: Project[];
+  versions: Record<string, NoteVersion[]>;
+  attachments: ArchivedAttachment[];
+  preferences: WorkspacePreferences;
+}
+
+export interface RestoreChanges<T> {
+  added: T[];
+  updated: T[];
+  removed: T[];
+  unchanged: number;
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  includePreferences: boolean;
+  notes: RestoreChanges<Note>;
+  projects: RestoreChanges<Project>;
+  // Note IDs whose version history will be written, and histories that will be deleted
+  versionHistories: { written: string[]; removed: string[]; versionCount: number };
+  // Archived attachments missing from the workspace. Existing ones are kept
+  // either way; attachments nothing references are garbage-collected later.
+  attachments: ArchivedAttachment[];
+  // Human-readable names of the preference groups that will be restored
+  preferenceLabels: string[];
+  // Resulting workspace state once the plan is applied
+  result: {
+    notes: Note[];
+    projects: Project[];
+    versions: Record<string, NoteVersion[]>;
+  };
+  preferences: WorkspacePreferences;
+}
+
+/**
+ * Backup Service
+ */
+export class BackupService {
+  /**
+   * Collect the whole workspace into a backup archive
+   */
+  static async createBackup(notes: Note[], projects: Project[], theme: 'light' | 'dark'): Promise<WorkspaceBackup> {
+    const versions: Record<string, NoteVersion[]> = {};
+    for (const note of notes) {
+      const noteVersions = versionControlService.getNoteVersions(note.id);
+      if (noteVersions.length > 0) {
+        versions[note.id] = noteVersions;
+      }
+    }
+
+    const settings: Record<string, string> = {};
+    for (const key of PREFERENCE_KEYS) {
+      const value = LOCAL_PREFERENCE_KEYS.has(key) ? localStorage.getItem(key) : storageService.getItem(key);
+      if (value !== null) settings[key] = value;
+    }
+
+    // Shortcut actions are functions and cannot be serialized
+    const { customShortcuts, ...shortcutConfig } = keyboardShortcutsService.getConfig();
+    const serializableShortcuts = JSON.parse(JSON.stringify(customShortcuts));
+    const attachments = await AttachmentService.exportAttachments();
+
+    return {
+      manifest: {
+        app: BACKUP_APP_ID,
+        schemaVersion: BACKUP_SCHEMA_VERSION,
+        createdAt: Date.now(),
+        counts: {
+          notes: notes.length,
+          projects: projects.length,
+          versionHistories: Object.keys(versions).length,
+          versions: Object.values(versions).reduce((sum, list) => sum + list.length, 0),
+          attachments: attachments.length,
+        },
+      },
+      notes,
+      projects,
+      versions,
+      attachments,
+      preferences: {
+        theme,
+        settings,
+        shortcuts: { ...shortcutConfig, customShortcuts: serializableShortcuts },
+      },
+    };
+  }
+
+  /**
+   * Create a backup and download it as a single archive file
+   */
+  static async downloadBackup(notes: Note[], projects: Project[], theme: 'light' | 'dark'): Promise<WorkspaceBackup> {
+    const backup = await BackupService.createBackup(notes, projects, theme);
+    const blob = new Blob([gzip(JSON.stringify(backup))], { type: 'application/gzip' });
+    const date = new Date(backup.manifest.createdAt).toISOString().split('T')[0];
+    saveAs(blob, `stellar-scribe-backup-${date}.json.gz`);
+    return backup;
+  }
+
+  /**
+   * Read a backup file (gzipped or plain JSON). Throws with a user-facing
+   * message when the file is not a usable backup.
+   */
+  static async readBackupFile(file: File): Promise<WorkspaceBackup> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let text: string;
+    try {
+      // gzip magic number
+      text = bytes[0] === 0x1f && bytes[1] === 0x8b
+        ? ungzip(bytes, { to: 'string' })
+        : new TextDecoder().decode(bytes);
+    } catch {
+      throw new Error('The backup file could not be decompressed');
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('The backup file is not valid JSON');
+    }
+    return BackupService.validateBackup(data);
+  }
+
+  /**
+   * Check an archive's manifest and shape
+   */
+  static validateBackup(data: unknown): WorkspaceBackup {
+    const backup = data as Partial<WorkspaceBackup> | null;
+    const manifest = backup?.manifest;
+
+    if (!manifest || manifest.app !== BACKUP_APP_ID) {
+      throw new Error('This file is not a Stellar Scribe workspace backup');
+    }
+    if (typeof manifest.schemaVersion !== 'number' || manifest.schemaVersion > BACKUP_SCHEMA_VERSION) {
+      throw new Error(`Unsupported backup schema version ${manifest.schemaVersion}. Please update the app.`);
+    }
+    if (!Array.isArray(backup.notes) || !Array.isArray(backup.projects)) {
+      throw new Error('The backup is missing notes or projects');
+    }
+
+    const notes = backup.notes.filter(note => note && typeof note.id === 'string');
+    const projects = backup.projects.filter(project => project && typeof project.id === 'string');
+    const versions: Record<string, NoteVersion[]> = {};
+    if (backup.versions && typeof backup.versions === 'object') {
+      for (const [noteId, list] of Object.entries(backup.versions)) {
+        if (Array.isArray(list)) versions[noteId] = list;
+      }
+    }
+
+    const attachments = Array.isArray(backup.attachments) ? backup.attachments.filter(isArchivedAttachment) : [];
+
+    return {
+      manifest,
+      notes,
+      projects,
+      versions,
+      attachments,
+      preferences: {
+        theme: backup.preferences?.theme ?? null,
+        settings: backup.preferences?.settings ?? {},
+        shortcuts: backup.preferences?.shortcuts ?? null,
+      },
+    };
+  }
+
+  /**
+   * Work out what restoring `backup` would change, without changing anything
+   */
+  static planRestore(
+    backup: WorkspaceBackup,
+    currentNotes: Note[],
+    currentProjects: Project[],
+    mode: RestoreMode,
+    includePreferences: boolean
+  ): RestorePlan {
+    const notes = diffById(currentNotes, backup.notes, mode, note => note.updatedAt);
+    const projects = diffById(currentProjects, backup.projects, mode, project => project.updatedAt);
+    const resultNoteIds = new Set(notes.result.map(note => note.id));
+
+    // Histories follow the notes: archived histories are restored for notes
+    // taken from the archive, and merged for notes that exist on both sides.
+    const versions: Record<string, NoteVersion[]> = {};
+    const written: string[] = [];
+    let versionCount = 0;
+    for (const [noteId, archived] of Object.entries(backup.versions)) {
+      if (!resultNoteIds.has(noteId) || archived.length === 0) continue;
+      const existing = versionControlService.getNoteVersions(noteId);
+      const merged = mode === 'merge' ? mergeVersions(existing, archived) : archived;
+      if (mode === 'merge' && merged.length === existing.length) continue;
+      versions[noteId] = merged;
+      written.push(noteId);
+      versionCount += merged.length;
+    }
+
+    // Replacing the workspace also replaces histories the archive does not
+    // have, except those of notes in the trash, which keeps them until the
+    // note is deleted for good
+    const trashedNoteIds = new Set(mode === 'replace' ? TrashService.getTrashedNoteIds() : []);
+    const removed = mode === 'replace'
+      ? versionControlService.getVersionedNoteIds().filter(noteId => !(noteId in versions) && !trashedNoteIds.has(noteId))
+      : [];
+
+    const existingAttachmentIds = new Set(AttachmentService.getIds());
+    const attachments = backup.attachments.filter(attachment => !existingAttachmentIds.has(attachment.id));
+
+    const preferenceLabels: string[] = [];
+    if (includePreferences) {
+      if (backup.preferences.theme) preferenceLabels.push('Theme');
+      if (SIDEBAR_PREFERENCE_KEYS.some(key => key in backup.preferences.settings)) preferenceLabels.push('Sidebar layout');
+      if (TEMPLATES_STORAGE_KEY in backup.preferences.settings) preferenceLabels.push('Note templates');
+      if (backup.preferences.shortcuts) preferenceLabels.push('Keyboard shortcuts');
+    }
+
+    return {
+      mode,
+      includePreferences,
+      notes: notes.changes,
+      projects: projects.changes,
+      versionHistories: { written, removed, versionCount },
+      attachments,
+      preferenceLabels,
+      result: { notes: notes.result, projects: projects.result, versions },
+      preferences: backup.preferences,
+    };
+  }
+
+  /**
+   * Write the version histories, attachments and preferences from a plan.
+   * Notes and projects are owned by React state, so the caller applies
+   * `plan.result`.
+   */
+  static async applyRestore(plan: RestorePlan): Promise<boolean> {
+    let success = true;
+
+    for (const noteId of plan.versionHistories.removed) {
+      versionControlService.deleteNoteVersions(noteId);
+    }
+    for (const [noteId, versions] of Object.entries(plan.result.versions)) {
+      if (!versionControlService.importNoteVersions(noteId, versions)) {
+        console.error(`Failed to restore version history for note ${noteId}`);
+        success = false;
+      }
+    }
+    if (await AttachmentService.importAttachments(plan.attachments) < plan.attachments.length) {
+      console.error('Failed to restore some attachments');
+      success = false;
+    }
+
+    if (plan.includePreferences) {
+      try {
+        for (const [key, value] of Object.entries(plan.preferences.settings)) {
+          if (!PREFERENCE_KEYS.includes(key)) continue;
+          if (LOCAL_PREFERENCE_KEYS.has(key)) {
+            localStorage.setItem(key, value);
+          } else {
+            storageService.setItem(key, value);
+          }
+        }
+        if (plan.preferences.shortcuts) {
+          keyboardShortcutsService.updateConfig(plan.preferences.shortcuts);
+        }
+      } catch (error) {
+        console.error('Error restoring preferences:', error);
+        success = false;
+      }
+    }
+
+    return success;
+  }
+}
+
+/**
+ * Compare current items with archived ones by ID. In merge mode the newer
+ * copy of an item wins and nothing is removed; in replace mode the archive wins.
+ */
+function diffById<T extends { id: string }>(
+  current: T[],
+  archived: T[],
+  mode: RestoreMode,
+  getUpdatedAt: (item: T) => number
+): { changes: RestoreChanges<T>; result: T[] } {
+  const currentById = new Map(current.map(item => [item.id, item]));
+  const archivedIds = new Set(archived.map(item => item.id));
+  const changes: RestoreChanges<T> = { added: [], updated: [], removed: [], unchanged: 0 };
+  const result: T[] = [];
+
+  for (const item of archived) {
+    const existing = currentById.get(item.id);
+    if (!existing) {
+      changes.added.push(item);
+      result.push(item);
+    } else if (JSON.stringify(existing) === JSON.stringify(item)) {
+      changes.unchanged++;
+      result.push(existing);
+    } else if (mode === 'replace' || getUpdatedAt(item) > getUpdatedAt(existing)) {
+      changes.updated.push(item);
+      result.push(item);
+    } else {
+      changes.unchanged++;
+      result.push(existing);
+    }
+  }
+
+  for (const item of current) {
+    if (archivedIds.has(item.id)) continue;
+    if (mode === 'replace') {
+      changes.removed.push(item);
+    } else {
+      result.push(item);
+    }
+  }
+
+  return { changes, result };
+}
+
+/**
+ * Union of two histories for the same note. Local versions win when both
+ * sides have the same version number.
+ */
+function mergeVersions(existing: NoteVersion[], archived: NoteVersion[]): NoteVersion[] {
+  const byNumber = new Map<number, NoteVersion>();
+  archived.forEach(version => byNumber.set(version.version, version));
+  existing.forEach(version => byNumber.set(version.version, version));
+  return Array.from(byNumber.values()).sort((a, b) => b.version - a.version);
+}
@@ -1,8 +1,35 @@
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
-import { Document, Packer, Paragraph, TextRun, HeadingLevel } from 'docx';
+import {
+  Document,
+  Packer,
+  Paragraph,
+  TextRun,
+  HeadingLevel,
+  ImageRun,
+  AlignmentType,
+  BorderStyle,
+  ShadingType,
+  FootnoteReferenceRun,
+  IParagraphPropertiesOptions,
+} from 'docx';
 import { saveAs } from 'file-saver';
 import { Note } from '../types';
+import { AttachmentService } from './attachmentService';
+import { FrontMatterService } from './frontMatterService';
+import { MathService, ExtractedMath, MATH_PLACEHOLDER_PATTERN } from './mathService';
+import {
+  CALLOUT_TYPES,
+  CalloutType,
+  FOOTNOTE_REFERENCE_PATTERN,
+  Footnote,
+  HIGHLIGHT_PATTERN,
+  extractFootnotes,
+  readCallout,
+  readDefinitionList,
+  replaceFootnoteReferences,
+} from '../utils/markdownExtensions';
+import { base64ToBytes, bytesToBase64 } from '../utils/versionDelta';
 
 // Function to sanitize filename
 const sanitizeFilename = (filename: string): string => {
@@ -14,62 +41,128 @@ const sanitizeFilename = (filename: string): string => {
     || 'note'; // Fallback if empty
 };
 
+// Markdown files are imported with their name as the title, so only the
+// characters file systems refuse are taken out
+const sanitizeMarkdownFilename = (title: string): string =>
+  title.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '-').trim().substring(0, 150) || 'note';
+
+const ATTACHMENT_IMAGE_PATTERN = /!\[([^\]]*)\]\(attachment:([\w-]+)\)/g;
+// Also matches images that could not be embedded
+const ATTACHMENT_LINK_PATTERN = /!?\[([^\]]*)\]\(attachment:([\w-]+)\)/g;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Data URLs of the images attached to a note, by attachment id. Images that
+// can't be read are left out.
+const loadImageDataUrls = async (content: string): Promise<Map<string, string>> => {
+  const dataUrls = new Map<string, string>();
+  for (const [, , id] of content.matchAll(ATTACHMENT_IMAGE_PATTERN)) {
+    const attachment = dataUrls.has(id) ? null : AttachmentService.get(id);
+    if (!attachment || !AttachmentService.isImage(attachment)) continue;
+    const dataUrl = await AttachmentService.getDataUrl(id);
+    if (dataUrl) dataUrls.set(id, dataUrl);
+  }
+  return dataUrls;
+};
+
+// Embed attached images as data URLs; other attachments are named, since a
+// PDF page can't carry the file itself
+const embedAttachmentsAsHtml = (content: string, imageDataUrls: Map<string, string>): string =>
+  content
+    .replace(ATTACHMENT_IMAGE_PATTERN, (match, alt: string, id: string) => {
+      const dataUrl = imageDataUrls.get(id);
+      if (!dataUrl) return match;
+      return `<img class="attachment-image" src="${dataUrl}" alt="${escapeHtml(alt)}">`;
+    })
+    .replace(ATTACHMENT_LINK_PATTERN, (_match, name: string) => `📎 ${name}`);
 
 // Create HTML template for PDF
-const createPDFTemplate = (note: Note): string => {
-  const markdownToHtml = (content: string): string => {
-    return content
-      .split('\n')
-      .map(line => {
-        const trimmedLine = line.trim();
-        if (trimmedLine === '') return '<div class="spacer"></div>';
-        
-        // Handle headings
-        const headingMatch = trimmedLine.match(/^(#{1,6})\s+(.+)$/);
-        if (headingMatch) {
-          const level = headingMatch[1].length;
-          let text = headingMatch[2];
-          // Process markdown in headings too
-          text = text
-            .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-            .replace(/\*(.*?)\*/g, '<em>$1</em>')
-            .replace(/`(.*?)`/g, '<code>$1</code>');
-          return `<h${level} class="heading-${level}">${text}</h${level}>`;
-        }
-        
-        // Handle numbered lists
-        const numberedMatch = trimmedLine.match(/^(\d+)\.\s+(.+)$/);
-        if (numberedMatch) {
-          let text = numberedMatch[2];
-          text = text
-            .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-            .replace(/\*(.*?)\*/g, '<em>$1</em>')
-            .replace(/`(.*?)`/g, '<code>$1</code>');
-          return `<div class="numbered-point"><span class="number">${numberedMatch[1]}.</span> ${text}</div>`;
-        }
-        
-        // Handle bullet points
-        if (trimmedLine.startsWith('* ') || trimmedLine.startsWith('- ')) {
-          let text = trimmedLine.substring(2);
-          text = text
-            .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-            .replace(/\*(.*?)\*/g, '<em>$1</em>')
-            .replace(/`(.*?)`/g, '<code>$1</code>');
-          return `<div class="bullet-point">• ${text}</div>`;
-        }
-        
-        // Handle regular paragraphs with all markdown formatting
-        let processedLine = trimmedLine
-          .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-          .replace(/\*(.*?)\*/g, '<em>$1</em>')
-          .replace(/`(.*?)`/g, '<code>$1</code>')
-          .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2" target="_blank">$1</a>');
-        
-        return `<p class="paragraph">${processedLine}</p>`;
-      })
-      .join('');
+const createPDFTemplate = (note: Note, imageDataUrls: Map<string, string>): string => {
+  const formatInline = (text: string, footnotes: Footnote[]): string =>
+    replaceFootnoteReferences(text, footnotes, number => `<sup class="footnote-ref">${number}</sup>`)
+      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
+      .replace(/\*(.*?)\*/g, '<em>$1</em>')
+      .replace(/`(.*?)`/g, '<code>$1</code>')
+      .replace(HIGHLIGHT_PATTERN, '<mark>$1</mark>');
+
+  const lineToHtml = (line: string, footnotes: Footnote[]): string => {
+    const trimmedLine = line.trim();
+    if (trimmedLine === '') return '<div class="spacer"></div>';
+
+    // Handle headings
+    const headingMatch = trimmedLine.match(/^(#{1,6})\s+(.+)$/);
+    if (headingMatch) {
+      const level = headingMatch[1].length;
+      // Process markdown in headings too
+      return `<h${level} class="heading-${level}">${formatInline(headingMatch[2], footnotes)}</h${level}>`;
+    }
+
+    // Handle numbered lists
+    const numberedMatch = trimmedLine.match(/^(\d+)\.\s+(.+)$/);
+    if (numberedMatch) {
+      return `<div class="numbered-point"><span class="number">${numberedMatch[1]}.</span> ${formatInline(numberedMatch[2], footnotes)}</div>`;
+    }
+
+    // Handle bullet points
+    if (trimmedLine.startsWith('* ') || trimmedLine.startsWith('- ')) {
+      return `<div class="bullet-point">• ${formatInline(trimmedLine.substring(2), footnotes)}</div>`;
+    }
+
+    // Handle regular paragraphs with all markdown formatting
+    const processedLine = formatInline(trimmedLine, footnotes)
+      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2" target="_blank">$1</a>');
+    return `<p class="paragraph">${processedLine}</p>`;
+  };
+
+  // Lines, callouts and definition lists; callouts can hold any of them
+  const markdownToHtml = (content: string, footnotes: Footnote[]): string => {
+    const lines = content.split('\n');
+    const html: string[] = [];
+    for (let index = 0; index < lines.length; index++) {
+      const callout = readCallout(lines, index);
+      if (callout) {
+        html.push(
+          `<div class="callout callout-${callout.header.type}">` +
+          `<div class="callout-title">${formatInline(callout.header.title, footnotes)}</div>` +
+          `${markdownToHtml(callout.body.join('\n'), footnotes)}</div>`
+        );
+        index = callout.end - 1;
+        continue;
+      }
+
+      const definitionList = readDefinitionList(lines, index);
+      if (definitionList) {
+        const items = definitionList.items.map(item =>
+          item.terms.map(term => `<dt>${formatInline(term, footnotes)}</dt>`).join('') +
+          item.definitions.map(definition => `<dd>${formatInline(definition, footnotes)}</dd>`).join('')
+        );
+        html.push(`<dl class="definition-list">${items.join('')}</dl>`);
+        index = definitionList.end - 1;
+        continue;
+      }
+
+      html.push(lineToHtml(lines[index], footnotes));
+    }
+    return html.join('');
   };
 
+  // The note's text with its footnotes listed at the end
+  const noteToHtml = (markdown: string): string => {
+    const { content, footnotes } = extractFootnotes(embedAttachmentsAsHtml(markdown, imageDataUrls));
+    const notes = footnotes.length > 0
+      ? `<div class="footnotes"><ol>${footnotes.map(footnote => `<li>${formatInline(footnote.text, footnotes)}</li>`).join('')}</ol></div>`
+      : '';
+    return markdownToHtml(content, footnotes) + notes;
+  };
+
+  const calloutStyles = Object.entries(CALLOUT_TYPES)
+    .map(([type, { color, background }]) =>
+      `.callout-${type} { border-left-color: #${color}; background: #${background}; }\n` +
+      `        .callout-${type} .callout-title { color: #${color}; }`
+    )
+    .join('\n        ');
+
   return `
     <!DOCTYPE html>
     <html>
@@ -270,6 +363,71 @@ const createPDFTemplate = (note: Note): string => {
           text-decoration: underline;
         }
         
+        mark {
+          background: #fef08a;
+          color: inherit;
+          padding: 0 2px;
+          border-radius: 2px;
+        }
+        
+        .callout {
+          border-left: 4px solid;
+          border-radius: 4px;
+          padding: 10px 14px;
+          margin: 10px 0;
+          page-break-inside: avoid;
+        }
+        
+        .callout-title {
+          font-weight: 600;
+          margin-bottom: 4px;
+        }
+        
+        .callout .paragraph:last-child {
+          margin-bottom: 0;
+        }
+        
+        ${calloutStyles}
+        
+        .definition-list {
+          margin: 8px 0 10px 0;
+        }
+        
+        .definition-list dt {
+          font-weight: 600;
+          margin-top: 6px;
+        }
+        
+        .definition-list dd {
+          margin: 2px 0 0 24px;
+        }
+        
+        .footnote-ref {
+          font-size: 0.75em;
+          line-height: 0;
+          color: #667eea;
+        }
+        
+        .footnotes {
+          margin-top: 24px;
+          padding-top: 10px;
+          border-top: 1px solid #bdc3c7;
+          font-size: 12px;
+          color: #495057;
+        }
+        
+        .footnotes ol {
+          padding-left: 20px;
+        }
+        
+        .attachment-image {
+          display: block;
+          max-width: 100%;
+          height: auto;
+          margin: 10px 0;
+          border-radius: 4px;
+        }
+        
         .watermark {
           position: fixed;
           bottom: 15px;
@@ -316,7 +474,7 @@ const createPDFTemplate = (note: Note): string => {
         </div>
         
         <div class="content">
-          ${markdownToHtml(note.content)}
+          ${MathService.renderMarkdown(FrontMatterService.getBody(note.content), noteToHtml, 'html')}
         </div>
         
         <div class="watermark">Downloaded by Stellar Scribe</div>
@@ -330,7 +488,7 @@ const createPDFTemplate = (note: Note): string => {
 export const downloadAsPDF = async (note: Note): Promise<void> => {
   try {
     console.log('Starting PDF generation for note:', note.title);
-    const htmlContent = createPDFTemplate(note);
+    const htmlContent = createPDFTemplate(note, await loadImageDataUrls(note.content));
     
     // Create a temporary container with proper A4 dimensions
     const container = document.createElement('div');
@@ -349,6 +507,12 @@ export const downloadAsPDF = async (note: Note): Promise<void> => {
 
     // Wait longer for rendering and layout calculation
     await new Promise(resolve => setTimeout(resolve, 1000));
+    // Embedded images must be decoded before the page is captured
+    await Promise.all(
+      Array.from(container.querySelectorAll('img')).map(img => img.decode().catch(() => undefined))
+    );
+    // So are the fonts math is set in
+    await document.fonts.ready;
 
     // Get the actual rendered height
     const actualHeight = Math.max(container.scrollHeight, container.offsetHeight);
@@ -419,16 +583,260 @@ export const downloadAsPDF = async (note: Note): Promise<void> => {
   }
 };
 
-// Function to parse markdown for DOCX format
-const parseMarkdownForDOCX = (content: string): any[] => {
+interface DocxImage {
+  type: 'jpg' | 'png' | 'gif' | 'bmp';
+  data: Uint8Array;
+  // Size drawn in the document, in pixels
+  width: number;
+  height: number;
+}
+
+const DOCX_IMAGE_TYPES: Record<string, DocxImage['type']> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+};
+// About the width of the page's text area
+const DOCX_MAX_IMAGE_WIDTH = 600;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+
+// Attached images of a note in a form docx can embed. Formats Word can't read
+// (WebP, SVG, ...) are converted to PNG; images that fail to load are skipped.
+const loadDocxImages = async (content: string): Promise<Map<string, DocxImage>> => {
+  const images = new Map<string, DocxImage>();
+  for (const [, , id] of content.matchAll(ATTACHMENT_IMAGE_PATTERN)) {
+    const attachment = images.has(id) ? null : AttachmentService.get(id);
+    if (!attachment || !AttachmentService.isImage(attachment)) continue;
+    try {
+      const bytes = await AttachmentService.getBytes(id);
+      if (!bytes) throw new Error('The file could not be read');
+      const image = await loadImage(`data:${attachment.type};base64,${bytesToBase64(bytes)}`);
+      // SVGs without a size report 0
+      const naturalWidth = image.naturalWidth || 300;
+      const naturalHeight = image.naturalHeight || 150;
+      let type = DOCX_IMAGE_TYPES[attachment.type];
+      let data = bytes;
+      if (!type) {
+        const canvas = document.createElement('canvas');
+        canvas.width = naturalWidth;
+        canvas.height = naturalHeight;
+        canvas.getContext('2d')?.drawImage(image, 0, 0, naturalWidth, naturalHeight);
+        type = 'png';
+        data = base64ToBytes(canvas.toDataURL('image/png').split(',')[1]);
+      }
+      const scale = Math.min(1, DOCX_MAX_IMAGE_WIDTH / naturalWidth);
+      images.set(id, {
+        type,
+        data,
+        width: Math.round(naturalWidth * scale),
+        height: Math.round(naturalHeight * scale),
+      });
+    } catch (error) {
+      console.error(`Error embedding attachment ${id}:`, error);
+    }
+  }
+  return images;
+};
+
+interface DocxMath {
+  tex: string;
+  display: boolean;
+  // Missing when the formula could not be drawn
+  image?: DocxImage;
+}
+
+// KaTeX sets math at 1.21em, so this comes out close to the 11pt body text
+const DOCX_MATH_FONT_SIZE = '12px';
+const DOCX_MATH_SCALE = 2;
+
+// Math drawn as images, since Word can't read KaTeX's HTML. Formulas that
+// fail to draw are written out as TeX instead.
+const loadDocxMath = async (expressions: ExtractedMath[]): Promise<Map<string, DocxMath>> => {
+  const math = new Map<string, DocxMath>();
+  if (expressions.length === 0) return math;
+
+  const container = document.createElement('div');
+  container.style.position = 'fixed';
+  container.style.top = '-20000px';
+  container.style.left = '0';
+  container.style.color = '#000000';
+  container.style.fontSize = DOCX_MATH_FONT_SIZE;
+  const elements = expressions.map(expression => {
+    const element = document.createElement('div');
+    element.style.display = 'inline-block';
+    element.innerHTML = MathService.render(expression.tex, expression.display, 'html');
+    container.appendChild(element);
+    return element;
+  });
+  document.body.appendChild(container);
+
+  try {
+    // Laying the formulas out starts loading their fonts
+    container.getBoundingClientRect();
+    await document.fonts.ready;
+    for (const [index, expression] of expressions.entries()) {
+      const formula: DocxMath = { tex: expression.tex, display: expression.display };
+      try {
+        const canvas = await html2canvas(elements[index], {
+          scale: DOCX_MATH_SCALE,
+          backgroundColor: null,
+          logging: false,
+        });
+        const width = canvas.width / DOCX_MATH_SCALE;
+        const scale = Math.min(1, DOCX_MAX_IMAGE_WIDTH / width);
+        formula.image = {
+          type: 'png',
+          data: base64ToBytes(canvas.toDataURL('image/png').split(',')[1]),
+          width: Math.round(width * scale),
+          height: Math.round((canvas.height / DOCX_MATH_SCALE) * scale),
+        };
+      } catch (error) {
+        console.error('Error drawing math:', error);
+      }
+      math.set(expression.placeholder, formula);
+    }
+  } finally {
+    document.body.removeChild(container);
+  }
+  return math;
+};
+
+// What a note's text refers to that DOCX runs carry themselves
+interface DocxEmbeds {
+  images: Map<string, DocxImage>;
+  math: Map<string, DocxMath>;
+  footnotes: Footnote[];
+}
+
+type DocxRun = TextRun | ImageRun | FootnoteReferenceRun;
+
+const toImageRun = (image: DocxImage, alt: string): ImageRun =>
+  new ImageRun({
+    type: image.type,
+    data: image.data,
+    transformation: { width: image.width, height: image.height },
+    altText: { name: alt, description: alt, title: alt },
+  });
+
+// Runs for a line of text, with attached images, math and footnote
+// references embedded where they appear
+const toDocxRuns = (
+  text: string,
+  embeds: DocxEmbeds,
+  size: number,
+  style: { bold?: boolean; color?: string } = {}
+): DocxRun[] => {
+  const runs: DocxRun[] = [];
+  const addText = (part: string) => {
+    if (!part.trim()) return;
+    const textRuns = parseInlineMarkdown(part.replace(ATTACHMENT_LINK_PATTERN, '📎 $1'));
+    runs.push(...textRuns.map(run => new TextRun({ ...run, ...style, size })));
+  };
+  const toRun = (match: RegExpMatchArray): DocxRun | null => {
+    if (match[0].startsWith('[^')) {
+      const footnote = embeds.footnotes.find(candidate => candidate.id === match[1]);
+      return footnote ? new FootnoteReferenceRun(footnote.number) : null;
+    }
+    const formula = embeds.math.get(match[0]);
+    if (formula) {
+      return formula.image
+        ? toImageRun(formula.image, formula.tex)
+        : new TextRun({ text: formula.tex, font: 'Cambria Math', size });
+    }
+    const image = embeds.images.get(match[2]);
+    return image ? toImageRun(image, match[1]) : null;
+  };
+
+  let last = 0;
+  const matches = [
+    ...text.matchAll(ATTACHMENT_IMAGE_PATTERN),
+    ...text.matchAll(MATH_PLACEHOLDER_PATTERN),
+    ...text.matchAll(FOOTNOTE_REFERENCE_PATTERN),
+  ].sort((a, b) => a.index! - b.index!);
+  for (const match of matches) {
+    const run = match.index! >= last ? toRun(match) : null;
+    if (!run) continue;
+    addText(text.slice(last, match.index));
+    runs.push(run);
+    last = match.index! + match[0].length;
+  }
+  addText(text.slice(last));
+  return runs;
+};
+
+// Paragraph look of a callout: a colored bar on the left and a tinted background
+const calloutParagraphStyle = (type: CalloutType): IParagraphPropertiesOptions => ({
+  border: { left: { style: BorderStyle.SINGLE, size: 24, color: CALLOUT_TYPES[type].color, space: 8 } },
+  shading: { type: ShadingType.CLEAR, fill: CALLOUT_TYPES[type].background, color: 'auto' },
+  indent: { left: 240, right: 240 },
+});
+
+// Function to parse markdown for DOCX format. `style` is applied to every
+// paragraph, which is how callouts get their look.
+const parseMarkdownForDOCX = (
+  content: string,
+  embeds: DocxEmbeds = { images: new Map(), math: new Map(), footnotes: [] },
+  style: IParagraphPropertiesOptions = {}
+): any[] => {
   const children: any[] = [];
   const lines = content.split('\n');
 
-  for (const line of lines) {
-    const trimmedLine = line.trim();
+  for (let index = 0; index < lines.length; index++) {
+    const trimmedLine = lines[index].trim();
     
     if (trimmedLine === '') {
-      children.push(new Paragraph({ children: [new TextRun({ text: '' })] }));
+      children.push(new Paragraph({ ...style, children: [new TextRun({ text: '' })] }));
+      continue;
+    }
+
+    const callout = readCallout(lines, index);
+    if (callout) {
+      const { type, title } = callout.header;
+      const calloutStyle = calloutParagraphStyle(type);
+      children.push(
+        new Paragraph({
+          ...calloutStyle,
+          children: toDocxRuns(title, embeds, 22, { bold: true, color: CALLOUT_TYPES[type].color }),
+          spacing: { before: 120, after: 60 },
+        }),
+        ...parseMarkdownForDOCX(callout.body.join('\n'), embeds, calloutStyle)
+      );
+      index = callout.end - 1;
+      continue;
+    }
+
+    const definitionList = readDefinitionList(lines, index);
+    if (definitionList) {
+      definitionList.items.forEach(item => {
+        item.terms.forEach(term => children.push(
+          new Paragraph({ ...style, children: toDocxRuns(term, embeds, 22, { bold: true }), spacing: { before: 120, after: 40 } })
+        ));
+        item.definitions.forEach(definition => children.push(
+          new Paragraph({ ...style, children: toDocxRuns(definition, embeds, 22), indent: { left: 720 }, spacing: { after: 80 } })
+        ));
+      });
+      index = definitionList.end - 1;
+      continue;
+    }
+
+    // Display math on a line of its own is centered
+    if (embeds.math.get(trimmedLine)?.display) {
+      children.push(
+        new Paragraph({
+          ...style,
+          children: toDocxRuns(trimmedLine, embeds, 22),
+          alignment: AlignmentType.CENTER,
+          spacing: { before: 120, after: 120 },
+        })
+      );
       continue;
     }
 
@@ -445,9 +853,11 @@ const parseMarkdownForDOCX = (content: string): any[] => {
         HeadingLevel.HEADING_6
       ][level - 1] || HeadingLevel.HEADING_1;
 
-      const headingTextRuns = parseInlineMarkdown(headingMatch[2]);
+      const headingText = headingMatch[2].replace(MATH_PLACEHOLDER_PATTERN, placeholder => embeds.math.get(placeholder)?.tex ?? placeholder);
+      const headingTextRuns = parseInlineMarkdown(headingText);
       children.push(
         new Paragraph({
+          ...style,
           children: headingTextRuns.map(run => new TextRun({ ...run, bold: true })),
           heading: headingLevel,
           spacing: { before: 200, after: 200 },
@@ -459,10 +869,10 @@ const parseMarkdownForDOCX = (content: string): any[] => {
     // Handle numbered lists
     const numberedMatch = trimmedLine.match(/^(\d+)\.\s+(.+)$/);
     if (numberedMatch) {
-      const textRuns = parseInlineMarkdown(`${numberedMatch[1]}. ${numberedMatch[2]}`);
       children.push(
         new Paragraph({
-          children: textRuns.map(run => new TextRun({ ...run, size: 22 })),
+          ...style,
+          children: toDocxRuns(`${numberedMatch[1]}. ${numberedMatch[2]}`, embeds, 22),
           spacing: { after: 120 },
         })
       );
@@ -472,10 +882,10 @@ const parseMarkdownForDOCX = (content: string): any[] => {
     // Handle bullet points
     if (trimmedLine.startsWith('* ') || trimmedLine.startsWith('- ')) {
       const bulletText = trimmedLine.substring(2);
-      const textRuns = parseInlineMarkdown(`• ${bulletText}`);
       children.push(
         new Paragraph({
-          children: textRuns.map(run => new TextRun({ ...run, size: 22 })),
+          ...style,
+          children: toDocxRuns(`• ${bulletText}`, embeds, 22),
           spacing: { after: 120 },
         })
       );
@@ -483,10 +893,10 @@ const parseMarkdownForDOCX = (content: string): any[] => {
     }
 
     // Handle regular paragraphs
-    const textRuns = parseInlineMarkdown(trimmedLine);
     children.push(
       new Paragraph({
-        children: textRuns.map(run => new TextRun({ ...run, size: 22 })),
+        ...style,
+        children: toDocxRuns(trimmedLine, embeds, 22),
         spacing: { after: 120 },
       })
     );
@@ -496,10 +906,10 @@ const parseMarkdownForDOCX = (content: string): any[] => {
 };
 
 // Function to parse inline markdown formatting
-const parseInlineMarkdown = (text: string): Array<{text: string, bold?: boolean, italics?: boolean}> => {
+const parseInlineMarkdown = (text: string): Array<{text: string, bold?: boolean, italics?: boolean, highlight?: 'yellow'}> => {
   // Process markdown patterns in order of priority (bold first, then italic)
   let processedText = text;
-  const runs: Array<{text: string, bold?: boolean, italics?: boolean}> = [];
+  const runs: Array<{text: string, bold?: boolean, italics?: boolean, highlight?: 'yellow'}> = [];
   
   // First, handle bold text (**text**)
   processedText = processedText.replace(/\*\*(.*?)\*\*/g, (_, content) => {
@@ -511,15 +921,20 @@ const parseInlineMarkdown = (text: string): Array<{text: string, bold?: boolean,
     return `__ITALIC_START__${content}__ITALIC_END__`;
   });
   
+  // Highlighted text (==text==)
+  processedText = processedText.replace(HIGHLIGHT_PATTERN, (_, content) => {
+    return `__HIGHLIGHT_START__${content}__HIGHLIGHT_END__`;
+  });
+  
   // Handle code spans (`text`)
   processedText = processedText.replace(/`(.*?)`/g, (_, content) => {
     return content; // Just remove backticks for DOCX
   });
   
   // Now split the text and create runs
-  const parts = processedText.split(/(__BOLD_START__|__BOLD_END__|__ITALIC_START__|__ITALIC_END__)/);
+  const parts = processedText.split(/(__BOLD_START__|__BOLD_END__|__ITALIC_START__|__ITALIC_END__|__HIGHLIGHT_START__|__HIGHLIGHT_END__)/);
   
-  let currentStyle = { bold: false, italics: false };
+  let currentStyle = { bold: false, italics: false, highlight: false };
   
   for (const part of parts) {
     if (part === '__BOLD_START__') {
@@ -530,12 +945,17 @@ const parseInlineMarkdown = (text: string): Array<{text: string, bold?: boolean,
       currentStyle.italics = true;
     } else if (part === '__ITALIC_END__') {
       currentStyle.italics = false;
+    } else if (part === '__HIGHLIGHT_START__') {
+      currentStyle.highlight = true;
+    } else if (part === '__HIGHLIGHT_END__') {
+      currentStyle.highlight = false;
     } else if (part && part.trim()) {
       // Add text run with current style
       runs.push({
         text: part,
         bold: currentStyle.bold || undefined,
-        italics: currentStyle.italics || undefined
+        italics: currentStyle.italics || undefined,
+        highlight: currentStyle.highlight ? 'yellow' : undefined
       });
     }
   }
@@ -598,10 +1018,22 @@ export const downloadAsDOCX = async (note: Note): Promise<void> => {
     }
 
     // Content - use the new markdown parser
-    const contentChildren = parseMarkdownForDOCX(note.content);
+    const { content: body, expressions } = MathService.extract(FrontMatterService.getBody(note.content));
+    const { content, footnotes } = extractFootnotes(body);
+    const embeds: DocxEmbeds = {
+      images: await loadDocxImages(body),
+      math: await loadDocxMath(expressions),
+      footnotes,
+    };
+    const contentChildren = parseMarkdownForDOCX(content, embeds);
     children.push(...contentChildren);
 
     const doc = new Document({
+      // Word numbers footnotes itself, in the same order
+      footnotes: Object.fromEntries(footnotes.map(footnote => [
+        footnote.number,
+        { children: [new Paragraph({ children: toDocxRuns(footnote.text, embeds, 18) })] },
+      ])),
       sections: [
         {
           properties: {},
@@ -619,3 +1051,10 @@ export const downloadAsDOCX = async (note: Note): Promise<void> => {
     throw new Error('Failed to generate DOCX');
   }
 };
+
+// Download as Markdown, with the note's tags, pin and project in its front matter
+export const downloadAsMarkdown = (note: Note, projectTitle?: string): void => {
+  const markdown = FrontMatterService.toMarkdown(note, projectTitle);
+  const blob = new Blob([markdown], { type: 'text/markdown;charset=utf-8' });
+  saveAs(blob, sanitizeMarkdownFilename(note.title) + '.md');
+};
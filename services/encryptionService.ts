@@ -0,0 +1,410 @@
+import { storageService, StorageCipher } from './storageService';
+import { NOTES_STORAGE_KEY, PROJECTS_STORAGE_KEY, MIGRATION_BACKUP_KEY } from './migrationService';
+import { versionControlService, VERSION_STORAGE_KEY } from './versionControlService';
+import { TRASH_STORAGE_KEY } from './trashService';
+import { AttachmentService, ATTACHMENT_KEY_PREFIX } from './attachmentService';
+import { UNDO_HISTORY_KEY_PREFIX } from './undoHistoryService';
+import { TEMPLATES_STORAGE_KEY } from './templateService';
+import { OUTBOX_STORAGE_KEY } from './projectOutboxService';
+import { bytesToBase64, base64ToBytes } from '../utils/versionDelta';
+
+// ============================================================================
+// WORKSPACE ENCRYPTION
+// ============================================================================
+// Optional passphrase lock. Notes, projects and their unsent changes, version
+// and undo histories, attachments, templates, the trash and the migration
+// backup are encrypted with AES-GCM before they reach the storage backend,
+// using a key derived from the passphrase with PBKDF2. The key only lives in
+// memory: locking drops it together with the decrypted data. Attachment
+// files are stored as Blobs of the IV followed by the ciphertext.
+//
+// The passphrase itself is never stored. A small encrypted marker is kept
+// with the salt so a wrong passphrase can be told apart on unlock.
+
+const SETTINGS_KEY = 'stellar-scribe-encryption-v1';
+const ENCRYPTED_VALUE_PREFIX = 'enc:v1:';
+const ENCRYPTED_FILE_TYPE = 'application/x-stellar-scribe-encrypted';
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const VERIFIER_TEXT = 'stellar-scribe-unlocked';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+// 0 turns auto-lock off
+export const AUTO_LOCK_OPTIONS = [5, 15, 30, 60, 0];
+
+export type LockState = 'disabled' | 'locked' | 'unlocked';
+
+export type LockStateListener = (state: LockState) => void;
+
+interface EncryptionSettings {
+  salt: string;
+  iterations: number;
+  // VERIFIER_TEXT encrypted with the key
+  verifier: string;
+  autoLockMinutes: number;
+  enabledAt: number;
+}
+
+/**
+ * Keys whose values are encrypted at rest
+ */
+export const isSensitiveStorageKey = (key: string): boolean =>
+  key === NOTES_STORAGE_KEY ||
+  key === PROJECTS_STORAGE_KEY ||
+  key === OUTBOX_STORAGE_KEY ||
+  key === TRASH_STORAGE_KEY ||
+  key === TEMPLATES_STORAGE_KEY ||
+  key === MIGRATION_BACKUP_KEY ||
+  key.startsWith(`${VERSION_STORAGE_KEY}-`) ||
+  key.startsWith(ATTACHMENT_KEY_PREFIX) ||
+  key.startsWith(UNDO_HISTORY_KEY_PREFIX);
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptWithKey = async (key: CryptoKey, text: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(text));
+  return `${ENCRYPTED_VALUE_PREFIX}${bytesToBase64(iv)}.${bytesToBase64(new Uint8Array(data))}`;
+};
+
+const decryptWithKey = async (key: CryptoKey, value: string): Promise<string> => {
+  const [iv, data] = value.slice(ENCRYPTED_VALUE_PREFIX.length).split('.');
+  if (!iv || !data) {
+    throw new Error('Malformed encrypted value');
+  }
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(iv) }, key, base64ToBytes(data));
+  return decoder.decode(plain);
+};
+
+const encryptFileWithKey = async (key: CryptoKey, file: Blob): Promise<Blob> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, await file.arrayBuffer());
+  return new Blob([iv, data], { type: ENCRYPTED_FILE_TYPE });
+};
+
+const decryptFileWithKey = async (key: CryptoKey, file: Blob): Promise<Blob> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, IV_BYTES) }, key, bytes.slice(IV_BYTES));
+  return new Blob([plain]);
+};
+
+const isEncryptedFile = (file: Blob): boolean => file.type === ENCRYPTED_FILE_TYPE;
+
+/**
+ * Reads files as they were stored under `key` (null: in plain text)
+ */
+const fileReader = (key: CryptoKey | null) => async (file: Blob): Promise<Blob> =>
+  key && isEncryptedFile(file) ? decryptFileWithKey(key, file) : file;
+
+/**
+ * Encryption Service
+ */
+export class EncryptionService implements StorageCipher {
+  private static instance: EncryptionService;
+  private settings: EncryptionSettings | null = null;
+  private key: CryptoKey | null = null;
+  private listeners: Set<LockStateListener> = new Set();
+
+  static getInstance(): EncryptionService {
+    if (!EncryptionService.instance) {
+      EncryptionService.instance = new EncryptionService();
+    }
+    return EncryptionService.instance;
+  }
+
+  /**
+   * Read the encryption settings and start locked if encryption is on. Must
+   * run after `storageService.init()` and before anything reads notes.
+   */
+  init(): void {
+    this.settings = storageService.getJSON<EncryptionSettings | null>(SETTINGS_KEY, null);
+    if (this.settings) {
+      storageService.setCipher(this);
+      storageService.seal();
+    }
+
+    storageService.subscribe((key, value, origin) => {
+      if (key === SETTINGS_KEY && origin === 'external') {
+        this.applyExternalSettings(value ? JSON.parse(value) : null);
+      }
+    });
+  }
+
+  getState(): LockState {
+    if (!this.settings) return 'disabled';
+    return this.key ? 'unlocked' : 'locked';
+  }
+
+  isEnabled(): boolean {
+    return this.settings !== null;
+  }
+
+  getAutoLockMinutes(): number {
+    return this.settings?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+  }
+
+  setAutoLockMinutes(minutes: number): void {
+    if (!this.settings) return;
+    this.saveSettings({ ...this.settings, autoLockMinutes: minutes });
+    this.notify();
+  }
+
+  /**
+   * Subscribe to lock state changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: LockStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ==========================================================================
+  // LOCKING
+  // ==========================================================================
+
+  /**
+   * Derive the key from the passphrase and decrypt the workspace into memory.
+   * Resolves to false for a wrong passphrase.
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    if (!this.settings || this.key) return this.key !== null;
+
+    try {
+      const key = await this.deriveAndVerify(passphrase, this.settings);
+      if (!key) return false;
+
+      this.key = key;
+      if (!(await storageService.unseal())) {
+        console.error('Some encrypted data could not be decrypted');
+      }
+      // Histories read while locked were cached as empty
+      versionControlService.clearCaches();
+      this.notify();
+      return true;
+    } catch (error) {
+      console.error('Error unlocking workspace:', error);
+      this.key = null;
+      return false;
+    }
+  }
+
+  /**
+   * Forget the key and every decrypted value held in memory
+   */
+  lock(): void {
+    if (!this.settings || !this.key) return;
+    this.key = null;
+    versionControlService.clearCaches();
+    AttachmentService.clearCache();
+    storageService.seal();
+    this.notify();
+  }
+
+  // ==========================================================================
+  // SETUP
+  // ==========================================================================
+
+  /**
+   * Turn encryption on and encrypt everything already stored
+   */
+  async enable(passphrase: string, autoLockMinutes: number = DEFAULT_AUTO_LOCK_MINUTES): Promise<boolean> {
+    if (this.settings) return false;
+
+    try {
+      const { settings, key } = await this.createSettings(passphrase, autoLockMinutes);
+      this.key = key;
+      this.settings = settings;
+      storageService.setCipher(this);
+      await storageService.rewriteSensitive(isSensitiveStorageKey, fileReader(null));
+      this.saveSettings(settings);
+      this.notify();
+      return true;
+    } catch (error) {
+      console.error('Error enabling encryption:', error);
+      this.key = null;
+      this.settings = null;
+      storageService.setCipher(null);
+      return false;
+    }
+  }
+
+  /**
+   * Re-encrypt the workspace under a new passphrase
+   */
+  async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<boolean> {
+    if (!this.settings || !this.key) return false;
+
+    try {
+      if (!(await this.deriveAndVerify(currentPassphrase, this.settings))) return false;
+
+      const previousKey = this.key;
+      const { settings, key } = await this.createSettings(newPassphrase, this.settings.autoLockMinutes);
+      this.key = key;
+      this.settings = settings;
+      await storageService.rewriteSensitive(isSensitiveStorageKey, fileReader(previousKey));
+      this.saveSettings(settings);
+      return true;
+    } catch (error) {
+      console.error('Error changing passphrase:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Turn encryption off and store everything in plain text again
+   */
+  async disable(passphrase: string): Promise<boolean> {
+    if (!this.settings || !this.key) return false;
+
+    try {
+      if (!(await this.deriveAndVerify(passphrase, this.settings))) return false;
+
+      storageService.setCipher(null);
+      await storageService.rewriteSensitive(isSensitiveStorageKey, fileReader(this.key));
+      storageService.removeItem(SETTINGS_KEY);
+      this.settings = null;
+      this.key = null;
+      this.notify();
+      return true;
+    } catch (error) {
+      console.error('Error disabling encryption:', error);
+      storageService.setCipher(this);
+      return false;
+    }
+  }
+
+  // ==========================================================================
+  // STORAGE CIPHER
+  // ==========================================================================
+
+  isSensitiveKey(key: string): boolean {
+    return isSensitiveStorageKey(key);
+  }
+
+  isEncryptedValue(value: string): boolean {
+    return value.startsWith(ENCRYPTED_VALUE_PREFIX);
+  }
+
+  isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  encrypt(value: string): Promise<string> {
+    if (!this.key) return Promise.reject(new Error('Workspace is locked'));
+    return encryptWithKey(this.key, value);
+  }
+
+  decrypt(value: string): Promise<string> {
+    if (!this.key) return Promise.reject(new Error('Workspace is locked'));
+    return decryptWithKey(this.key, value);
+  }
+
+  isEncryptedFile(file: Blob): boolean {
+    return isEncryptedFile(file);
+  }
+
+  encryptFile(file: Blob): Promise<Blob> {
+    if (!this.key) return Promise.reject(new Error('Workspace is locked'));
+    return encryptFileWithKey(this.key, file);
+  }
+
+  decryptFile(file: Blob): Promise<Blob> {
+    if (!this.key) return Promise.reject(new Error('Workspace is locked'));
+    return decryptFileWithKey(this.key, file);
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private async createSettings(
+    passphrase: string,
+    autoLockMinutes: number
+  ): Promise<{ settings: EncryptionSettings; key: CryptoKey }> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    return {
+      key,
+      settings: {
+        salt: bytesToBase64(salt),
+        iterations: PBKDF2_ITERATIONS,
+        verifier: await encryptWithKey(key, VERIFIER_TEXT),
+        autoLockMinutes,
+        enabledAt: Date.now(),
+      },
+    };
+  }
+
+  /**
+   * Key for the passphrase, or null if it does not match the settings
+   */
+  private async deriveAndVerify(passphrase: string, settings: EncryptionSettings): Promise<CryptoKey | null> {
+    const key = await deriveKey(passphrase, base64ToBytes(settings.salt), settings.iterations);
+    try {
+      return (await decryptWithKey(key, settings.verifier)) === VERIFIER_TEXT ? key : null;
+    } catch {
+      // AES-GCM rejects a wrong key
+      return null;
+    }
+  }
+
+  private saveSettings(settings: EncryptionSettings): void {
+    this.settings = settings;
+    storageService.setJSON(SETTINGS_KEY, settings);
+  }
+
+  /**
+   * Another tab turned encryption on or off or changed the passphrase
+   */
+  private applyExternalSettings(settings: EncryptionSettings | null): void {
+    const previous = this.settings;
+    this.settings = settings;
+
+    if (!settings) {
+      if (previous && !this.key) {
+        // Our encrypted copy is gone; the other tab has rewritten everything in plain text
+        window.location.reload();
+        return;
+      }
+      this.key = null;
+      storageService.setCipher(null);
+    } else if (!previous || previous.salt !== settings.salt) {
+      // Our key (if any) no longer matches what is stored
+      this.key = null;
+      versionControlService.clearCaches();
+      AttachmentService.clearCache();
+      storageService.setCipher(this);
+      storageService.seal();
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('Lock state listener error:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const encryptionService = EncryptionService.getInstance();
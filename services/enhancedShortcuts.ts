@@ -23,6 +23,7 @@ export const createEnhancedShortcuts = (handlers: {
   toggleEditor: () => void;
   toggleSplitView: () => void;
   toggleFullscreen: () => void;
+  toggleOutline: () => void;
   zoomIn: () => void;
   zoomOut: () => void;
   resetZoom: () => void;
@@ -41,6 +42,8 @@ export const createEnhancedShortcuts = (handlers: {
   findAndReplace: () => void;
   findNext: () => void;
   findPrevious: () => void;
+  searchWorkspace: () => void;
+  showTasks: () => void;
   
   // Help & Info
   showShortcuts: () => void;
@@ -203,6 +206,16 @@ export const createEnhancedShortcuts = (handlers: {
       action: handlers.toggleFullscreen,
       global: true
     },
+    {
+      id: 'toggle-outline',
+      key: 'o',
+      ctrlKey: true,
+      shiftKey: true,
+      description: 'Toggle Outline',
+      category: 'view',
+      action: handlers.toggleOutline,
+      global: true
+    },
     {
       id: 'zoom-in',
       key: '=',
@@ -341,6 +354,26 @@ export const createEnhancedShortcuts = (handlers: {
       action: handlers.findPrevious,
       global: false
     },
+    {
+      id: 'search-workspace',
+      key: 'h',
+      ctrlKey: true,
+      shiftKey: true,
+      description: 'Search and Replace in All Notes',
+      category: 'search',
+      action: handlers.searchWorkspace,
+      global: true
+    },
+    {
+      id: 'show-tasks',
+      key: 'l',
+      ctrlKey: true,
+      shiftKey: true,
+      description: 'Show Tasks in All Notes',
+      category: 'search',
+      action: handlers.showTasks,
+      global: true
+    },
 
     // Help & Info
     {
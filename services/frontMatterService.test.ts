@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { Note, Project } from '../types';
+import { FrontMatterService } from './frontMatterService';
+
+const project = (id: string, title: string): Project => ({
+  id,
+  title,
+  color: '#000000',
+  createdAt: 1,
+  updatedAt: 1,
+  isPinned: false,
+  isArchived: false,
+  settings: {},
+  noteCount: 0,
+  lastActivityAt: 1,
+});
+
+const note = (content: string, fields: Partial<Note> = {}): Note => ({
+  id: 'n1',
+  title: 'Note',
+  content,
+  createdAt: 1,
+  updatedAt: 1,
+  tags: [],
+  isPinned: false,
+  ...fields,
+});
+
+const projects = [project('p1', 'Website'), project('p2', 'Work')];
+const withFrontMatter = (...lines: string[]) => ['---', ...lines, '---', 'Body'].join('\n');
+
+describe('FrontMatterService.parse', () => {
+  it('reads scalars, flow lists and block lists', () => {
+    const frontMatter = FrontMatterService.parse(withFrontMatter(
+      'title: "Quoted: text"',
+      'count: 3',
+      'draft: false',
+      'tags: [design, review]',
+      'owners:',
+      '  - ana',
+      '  - ben',
+    ));
+    expect(frontMatter?.entries).toEqual([
+      { key: 'title', value: 'Quoted: text' },
+      { key: 'count', value: 3 },
+      { key: 'draft', value: false },
+      { key: 'tags', value: ['design', 'review'] },
+      { key: 'owners', value: ['ana', 'ben'] },
+    ]);
+  });
+
+  it('finds where the body starts', () => {
+    const content = withFrontMatter('pinned: true');
+    const frontMatter = FrontMatterService.parse(content);
+    expect(frontMatter?.lineCount).toBe(3);
+    expect(content.slice(frontMatter!.bodyStart)).toBe('Body');
+    expect(FrontMatterService.getBody(content)).toBe('Body');
+  });
+
+  it('ignores text without a closed block', () => {
+    expect(FrontMatterService.parse('Body')).toBeNull();
+    expect(FrontMatterService.parse('---\ntags: [a]\nBody')).toBeNull();
+  });
+});
+
+describe('FrontMatterService.setValue', () => {
+  it('replaces, adds and removes keys', () => {
+    const content = withFrontMatter('tags: [a]', 'status: draft');
+    expect(FrontMatterService.setValue(content, 'tags', ['a', 'b'])).toBe(withFrontMatter('tags: [a, b]', 'status: draft'));
+    expect(FrontMatterService.setValue(content, 'pinned', true)).toBe(withFrontMatter('tags: [a]', 'status: draft', 'pinned: true'));
+    expect(FrontMatterService.setValue(content, 'status', undefined)).toBe(withFrontMatter('tags: [a]'));
+  });
+
+  it('leaves text without front matter alone', () => {
+    expect(FrontMatterService.setValue('Body', 'tags', ['a'])).toBe('Body');
+  });
+});
+
+describe('FrontMatterService.getNoteMetadata', () => {
+  it('reads tags, pin and project', () => {
+    const content = withFrontMatter('tags: ["#design", review, design]', 'pinned: true', 'project: website');
+    expect(FrontMatterService.getNoteMetadata(content, projects)).toEqual({
+      tags: ['design', 'review'],
+      isPinned: true,
+      projectId: 'p1',
+    });
+  });
+
+  it('leaves out keys the text does not set', () => {
+    expect(FrontMatterService.getNoteMetadata(withFrontMatter('status: draft'), projects)).toEqual({});
+    expect(FrontMatterService.getNoteMetadata('Body', projects)).toEqual({});
+  });
+
+  it('ignores a project that is unknown or not filled in yet', () => {
+    expect(FrontMatterService.getNoteMetadata(withFrontMatter('project: Wo'), projects)).toEqual({});
+    expect(FrontMatterService.getNoteMetadata(withFrontMatter('project:'), projects)).toEqual({});
+  });
+
+  it('clears the project when it is set to null', () => {
+    expect(FrontMatterService.getNoteMetadata(withFrontMatter('project: null'), projects)).toEqual({ projectId: null });
+    expect(FrontMatterService.getNoteMetadata(withFrontMatter('project: ~'), projects)).toEqual({ projectId: null });
+  });
+
+  it('clears the project when its key is removed', () => {
+    const previous = withFrontMatter('project: Work', 'tags: [a]');
+    expect(FrontMatterService.getNoteMetadata(withFrontMatter('tags: [a]'), projects, previous)).toEqual({
+      tags: ['a'],
+      projectId: null,
+    });
+  });
+
+  it('keeps the project while the block cannot be read', () => {
+    const previous = withFrontMatter('project: Work');
+    expect(FrontMatterService.getNoteMetadata(withFrontMatter('project: Work', 'stat'), projects, previous)).toEqual({});
+  });
+});
+
+describe('FrontMatterService.applyNoteMetadata', () => {
+  it('rewrites the keys to match the note', () => {
+    const content = withFrontMatter('tags: [a]', 'project: Work', 'status: draft');
+    const updated = FrontMatterService.applyNoteMetadata(note(content, { tags: ['a', 'b'], projectId: 'p1' }), projects);
+    expect(updated).toBe(withFrontMatter('tags: [a, b]', 'project: Website', 'status: draft'));
+  });
+
+  it('removes the project key from a note outside any project', () => {
+    const content = withFrontMatter('tags: [a]', 'project: Work');
+    expect(FrontMatterService.applyNoteMetadata(note(content, { tags: ['a'], projectId: null }), projects))
+      .toBe(withFrontMatter('tags: [a]'));
+  });
+
+  it('keeps the text of a project that is unknown', () => {
+    const content = withFrontMatter('project: Archive');
+    expect(FrontMatterService.applyNoteMetadata(note(content, { projectId: 'missing' }), projects)).toBe(content);
+  });
+});
+
+describe('FrontMatterService.toMarkdown', () => {
+  it('adds front matter for a note with metadata', () => {
+    expect(FrontMatterService.toMarkdown(note('Body', { tags: ['a'], isPinned: true, projectId: 'p1' }), 'Website'))
+      .toBe(withFrontMatter('tags: [a]', 'project: Website', 'pinned: true'));
+  });
+
+  it('leaves a note without metadata as is', () => {
+    expect(FrontMatterService.toMarkdown(note('Body'))).toBe('Body');
+  });
+});
+
+describe('FrontMatterService.fromMarkdown', () => {
+  it('takes the title from the file name and the metadata from the front matter', () => {
+    const text = '\uFEFF---\r\ntags: [a]\r\nproject: Work\r\n---\r\nBody';
+    expect(FrontMatterService.fromMarkdown('Plan.md', text, projects)).toEqual({
+      title: 'Plan',
+      content: '---\ntags: [a]\nproject: Work\n---\nBody',
+      tags: ['a'],
+      isPinned: false,
+      projectId: 'p2',
+    });
+  });
+});
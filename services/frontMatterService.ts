@@ -0,0 +1,365 @@
+import { Note, Project } from '../types';
+
+// ============================================================================
+// FRONT MATTER
+// ============================================================================
+// A note can start with a YAML block between `---` lines that carries its
+// metadata in the text itself:
+//
+//   ---
+//   tags: [design, review]
+//   project: Website
+//   pinned: true
+//   status: draft
+//   ---
+//
+// `tags`, `project` (by title) and `pinned` stay in step with the note's
+// tags, project and pin: editing the block updates the note, and changing
+// them in the app rewrites the keys that are there. Keys a note leaves out
+// don't touch its metadata, except that removing `project` (or setting it to
+// null) takes the note out of its project. Any other key is the user's own
+// and is shown in the preview as is.
+//
+// Only the subset of YAML that front matter is usually written in is
+// understood: plain, quoted and numeric scalars, flow and block lists, and
+// block text. Nested maps are kept as text.
+
+export type FrontMatterScalar = string | number | boolean | null;
+export type FrontMatterValue = FrontMatterScalar | FrontMatterScalar[];
+
+export interface FrontMatterEntry {
+  key: string;
+  value: FrontMatterValue;
+}
+
+export interface FrontMatter {
+  entries: FrontMatterEntry[];
+  // Offset of the note text after the closing delimiter
+  bodyStart: number;
+  // Lines the block takes up, delimiters included
+  lineCount: number;
+}
+
+export const FRONT_MATTER_KEYS = {
+  tags: 'tags',
+  project: 'project',
+  pinned: 'pinned',
+} as const;
+
+type NoteMetadata = Pick<Note, 'tags' | 'isPinned' | 'projectId'>;
+
+const OPENING_PATTERN = /^---[ \t]*$/;
+const CLOSING_PATTERN = /^(?:---|\.\.\.)[ \t]*$/;
+const KEY_PATTERN = /^([A-Za-z_][\w .-]*?)[ \t]*:(?:[ \t]+(.*?))?[ \t]*$/;
+const LIST_ITEM_PATTERN = /^[ \t]*-(?:[ \t]+(.*?))?[ \t]*$/;
+const BLOCK_TEXT_PATTERN = /^[|>][-+]?$/;
+const NUMBER_PATTERN = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/;
+
+interface BlockEntry extends FrontMatterEntry {
+  // Line of the key inside the block, counting the opening delimiter as 0
+  line: number;
+  // Lines the key and its nested lines take up
+  lineCount: number;
+}
+
+interface Block {
+  lines: string[];
+  entries: BlockEntry[];
+  // Line of the closing delimiter
+  closingLine: number;
+}
+
+const splitFlowList = (text: string): string[] => {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  items.push(current);
+  return items.map(item => item.trim()).filter(Boolean);
+};
+
+const parseScalar = (text: string): FrontMatterScalar => {
+  const value = text.trim();
+  const doubleQuoted = value.match(/^"(?:[^"\\]|\\.)*"/);
+  if (doubleQuoted) {
+    try {
+      return JSON.parse(doubleQuoted[0]);
+    } catch {
+      return doubleQuoted[0].slice(1, -1);
+    }
+  }
+  const singleQuoted = value.match(/^'((?:[^']|'')*)'/);
+  if (singleQuoted) return singleQuoted[1].replace(/''/g, "'");
+
+  const plain = value.replace(/(?:^|\s+)#.*$/, '');
+  if (plain === '' || plain === '~' || /^null$/i.test(plain)) return null;
+  if (/^(?:true|false)$/i.test(plain)) return plain.toLowerCase() === 'true';
+  if (NUMBER_PATTERN.test(plain)) return Number(plain);
+  return plain;
+};
+
+const parseValue = (text: string): FrontMatterValue => {
+  const value = text.trim().replace(/\]\s+#.*$/, ']');
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return splitFlowList(value.slice(1, -1)).map(parseScalar);
+  }
+  return parseScalar(value);
+};
+
+const dedent = (lines: string[]): string[] => {
+  const indents = lines.filter(line => line.trim()).map(line => line.match(/^[ \t]*/)![0].length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(line => line.slice(indent));
+};
+
+/**
+ * The value of a key written over the lines under it: a block list, block
+ * text or a nested map kept as text
+ */
+const parseNestedValue = (marker: string, lines: string[]): FrontMatterValue => {
+  const content = lines.filter(line => line.trim() && !line.trim().startsWith('#'));
+  if (BLOCK_TEXT_PATTERN.test(marker)) {
+    const text = dedent(lines).map(line => line.trimEnd());
+    return (marker.startsWith('>') ? text.join(' ').replace(/\s+/g, ' ') : text.join('\n')).trim();
+  }
+  if (content.length === 0) return null;
+  if (content.every(line => LIST_ITEM_PATTERN.test(line))) {
+    return content.map(line => parseScalar(line.match(LIST_ITEM_PATTERN)![1] ?? ''));
+  }
+  return dedent(lines).join('\n').trim();
+};
+
+/**
+ * The front matter block at the start of the text, or null when there is
+ * none or it isn't front matter (say, a horizontal rule over plain text)
+ */
+const readBlock = (content: string): Block | null => {
+  if (!content.startsWith('---')) return null;
+  const lines = content.split('\n');
+  if (!OPENING_PATTERN.test(lines[0])) return null;
+  const closingLine = lines.findIndex((line, index) => index > 0 && CLOSING_PATTERN.test(line));
+  if (closingLine === -1) return null;
+
+  const entries: BlockEntry[] = [];
+  for (let line = 1; line < closingLine; line++) {
+    const text = lines[line];
+    if (!text.trim() || text.trim().startsWith('#')) continue;
+    const match = text.match(KEY_PATTERN);
+    if (!match) return null;
+
+    // Indented lines and list items below the key belong to it
+    let end = line + 1;
+    while (end < closingLine && (/^[ \t]/.test(lines[end]) || !lines[end].trim() || LIST_ITEM_PATTERN.test(lines[end]))) {
+      end++;
+    }
+    // Trailing blank lines separate keys rather than belong to one
+    while (end > line + 1 && !lines[end - 1].trim()) end--;
+
+    const inline = match[2] ?? '';
+    const nested = lines.slice(line + 1, end);
+    entries.push({
+      key: match[1],
+      value: inline && !BLOCK_TEXT_PATTERN.test(inline) ? parseValue(inline) : parseNestedValue(inline, nested),
+      line,
+      lineCount: end - line,
+    });
+    line = end - 1;
+  }
+  return { lines, entries, closingLine };
+};
+
+const formatScalar = (value: FrontMatterScalar): string => {
+  if (value === null) return '';
+  if (typeof value !== 'string') return String(value);
+  const isPlain = value !== '' &&
+    !/[:#,[\]{}"'\n]|^[\s\-?|>!&*%@`]|\s$/.test(value) &&
+    parseScalar(value) === value;
+  return isPlain ? value : JSON.stringify(value);
+};
+
+const formatEntry = (key: string, value: FrontMatterValue): string => {
+  const text = Array.isArray(value)
+    ? `[${value.map(item => formatScalar(item) || 'null').join(', ')}]`
+    : formatScalar(value);
+  return text ? `${key}: ${text}` : `${key}:`;
+};
+
+/**
+ * Rewrite the metadata keys of a front matter block. `projectTitle` is null
+ * for a note outside any project and undefined when its project is unknown.
+ */
+const writeNoteMetadata = (note: Note, projectTitle: string | null | undefined): string => {
+  const frontMatter = FrontMatterService.parse(note.content);
+  if (!frontMatter) return note.content;
+
+  const hasKey = (key: string) => frontMatter.entries.some(entry => entry.key === key);
+  let content = note.content;
+
+  if (note.tags.length > 0 || hasKey(FRONT_MATTER_KEYS.tags)) {
+    content = FrontMatterService.setValue(content, FRONT_MATTER_KEYS.tags, note.tags);
+  }
+  if (note.isPinned || hasKey(FRONT_MATTER_KEYS.pinned)) {
+    content = FrontMatterService.setValue(content, FRONT_MATTER_KEYS.pinned, note.isPinned);
+  }
+  // No project removes the key; an unknown project keeps whatever the text says
+  if (projectTitle || (projectTitle === null && hasKey(FRONT_MATTER_KEYS.project))) {
+    content = FrontMatterService.setValue(content, FRONT_MATTER_KEYS.project, projectTitle ?? undefined);
+  }
+  return content;
+};
+
+const getProjectTitle = (note: Note, projects: Project[]): string | null | undefined =>
+  note.projectId ? projects.find(project => project.id === note.projectId)?.title : null;
+
+const findProject = (value: FrontMatterValue, projects: Project[]): Project | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const title = value.trim().toLowerCase();
+  return projects.find(project => project.title.trim().toLowerCase() === title || project.id === value);
+};
+
+/**
+ * Front Matter Service
+ */
+export class FrontMatterService {
+  static parse(content: string): FrontMatter | null {
+    const block = readBlock(content);
+    if (!block) return null;
+    const lineCount = block.closingLine + 1;
+    const bodyStart = block.lines.slice(0, lineCount).join('\n').length + 1;
+    return {
+      entries: block.entries.map(({ key, value }) => ({ key, value })),
+      bodyStart: Math.min(bodyStart, content.length),
+      lineCount,
+    };
+  }
+
+  /**
+   * The note text without its front matter
+   */
+  static getBody(content: string): string {
+    const frontMatter = FrontMatterService.parse(content);
+    return frontMatter ? content.slice(frontMatter.bodyStart) : content;
+  }
+
+  /**
+   * Set a key in the text's front matter, or remove it when the value is
+   * undefined. Text without front matter is returned unchanged.
+   */
+  static setValue(content: string, key: string, value: FrontMatterValue | undefined): string {
+    const block = readBlock(content);
+    if (!block) return content;
+
+    const lines = [...block.lines];
+    const entry = block.entries.find(other => other.key === key);
+    const replacement = value === undefined ? [] : [formatEntry(key, value)];
+    if (entry) {
+      lines.splice(entry.line, entry.lineCount, ...replacement);
+    } else {
+      lines.splice(block.closingLine, 0, ...replacement);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Put a front matter block with these keys in front of the text
+   */
+  static create(content: string, entries: FrontMatterEntry[]): string {
+    const lines = ['---', ...entries.map(entry => formatEntry(entry.key, entry.value)), '---'];
+    return `${lines.join('\n')}\n${content}`;
+  }
+
+  /**
+   * The tags, pin and project the text's front matter sets. Keys that are
+   * missing or can't be read are left out, and so is a project that is
+   * unknown or not filled in yet. `project: null`, or a `project` key that
+   * `previousContent` had and the text no longer has, gives no project.
+   */
+  static getNoteMetadata(content: string, projects: Project[], previousContent?: string): Partial<NoteMetadata> {
+    const block = readBlock(content);
+    if (!block) return {};
+
+    const metadata: Partial<NoteMetadata> = {};
+    block.entries.forEach(({ key, value, line }) => {
+      if (key === FRONT_MATTER_KEYS.tags) {
+        const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : value === null ? [] : undefined;
+        if (items) {
+          metadata.tags = Array.from(new Set(
+            items.filter(item => item !== null).map(item => String(item).trim().replace(/^#/, '')).filter(Boolean)
+          ));
+        }
+      } else if (key === FRONT_MATTER_KEYS.pinned && typeof value === 'boolean') {
+        metadata.isPinned = value;
+      } else if (key === FRONT_MATTER_KEYS.project) {
+        const project = findProject(value, projects);
+        if (project) metadata.projectId = project.id;
+        // `null` or `~` clears it; a bare `project:` is still being typed
+        else if (value === null && block.lines[line].match(KEY_PATTERN)?.[2]) metadata.projectId = null;
+      }
+    });
+
+    const hasProjectKey = (entries: BlockEntry[]) => entries.some(entry => entry.key === FRONT_MATTER_KEYS.project);
+    if (previousContent !== undefined && !hasProjectKey(block.entries)) {
+      const previous = readBlock(previousContent);
+      if (previous && hasProjectKey(previous.entries)) metadata.projectId = null;
+    }
+    return metadata;
+  }
+
+  /**
+   * The note's text with its front matter rewritten to match its tags, pin
+   * and project. Keys are added when the metadata isn't empty; text without
+   * front matter is returned unchanged.
+   */
+  static applyNoteMetadata(note: Note, projects: Project[]): string {
+    return writeNoteMetadata(note, getProjectTitle(note, projects));
+  }
+
+  /**
+   * The note as a markdown file, given the title of its project. Its tags,
+   * pin and project go in its front matter, which is added for a note that
+   * has metadata but no front matter.
+   */
+  static toMarkdown(note: Note, projectTitle?: string): string {
+    const title = note.projectId ? projectTitle : null;
+    if (FrontMatterService.parse(note.content)) {
+      return writeNoteMetadata(note, title);
+    }
+    const entries: FrontMatterEntry[] = [];
+    if (note.tags.length > 0) entries.push({ key: FRONT_MATTER_KEYS.tags, value: note.tags });
+    if (title) entries.push({ key: FRONT_MATTER_KEYS.project, value: title });
+    if (note.isPinned) entries.push({ key: FRONT_MATTER_KEYS.pinned, value: true });
+    return entries.length > 0 ? FrontMatterService.create(note.content, entries) : note.content;
+  }
+
+  /**
+   * A note read from a markdown file: its title is the file name and its
+   * tags, pin and project come from its front matter. `projectId` is left
+   * out when the front matter doesn't name a known project.
+   */
+  static fromMarkdown(
+    fileName: string,
+    text: string,
+    projects: Project[]
+  ): Pick<Note, 'title' | 'content' | 'tags' | 'isPinned'> & { projectId?: string | null } {
+    const content = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    const metadata = FrontMatterService.getNoteMetadata(content, projects);
+    return {
+      title: fileName.replace(/\.(?:md|markdown|txt)$/i, '').trim() || 'Imported Note',
+      content,
+      tags: metadata.tags ?? [],
+      isPinned: metadata.isPinned ?? false,
+      ...(metadata.projectId !== undefined && { projectId: metadata.projectId }),
+    };
+  }
+}
@@ -1,4 +1,7 @@
-import { KeyboardShortcut, ShortcutGroup, ShortcutCategory, KeyboardShortcutConfig } from '../types/keyboardShortcuts';
+import { KeyboardShortcut, ShortcutGroup, ShortcutCategory, ShortcutListing, KeyboardShortcutConfig } from '../types/keyboardShortcuts';
+import { storageService } from './storageService';
+
+const CONFIG_STORAGE_KEY = 'stellar-scribe-shortcut-config-v1';
 
 class KeyboardShortcutsService {
   private shortcuts: Map<string, KeyboardShortcut> = new Map();
@@ -7,8 +10,13 @@ class KeyboardShortcutsService {
     enableGlobalShortcuts: true,
     enableEditorShortcuts: true,
     showHints: true,
-    customShortcuts: {}
+    customShortcuts: {},
+    editorKeymap: 'default'
   };
+  private configLoaded = false;
+  // Keys of the editor's Vim or Emacs mode: listed with the rest, but the
+  // editor handles them itself, so they have no action to run
+  private keymapShortcuts: ShortcutListing[] = [];
 
   // Register a keyboard shortcut
   registerShortcut(shortcut: KeyboardShortcut): void {
@@ -37,6 +45,11 @@ class KeyboardShortcutsService {
     }
   }
 
+  // Set the editor keymap's keys to list
+  setKeymapShortcuts(shortcuts: ShortcutListing[]): void {
+    this.keymapShortcuts = shortcuts;
+  }
+
   // Get shortcut by key combination
   getShortcut(key: string, ctrlKey: boolean, shiftKey: boolean, altKey: boolean, metaKey: boolean): KeyboardShortcut | undefined {
     const shortcutKey = this.getShortcutKey({ key, ctrlKey, shiftKey, altKey, metaKey } as KeyboardShortcut);
@@ -45,14 +58,14 @@ class KeyboardShortcutsService {
 
   // Get all shortcuts grouped by category
   getAllShortcuts(): ShortcutGroup[] {
-    const groups: Map<ShortcutCategory, KeyboardShortcut[]> = new Map();
+    const groups: Map<ShortcutCategory, ShortcutListing[]> = new Map();
     
     // Initialize categories
-    const categories: ShortcutCategory[] = ['navigation', 'editing', 'formatting', 'ai', 'file', 'view', 'search', 'help'];
+    const categories: ShortcutCategory[] = ['navigation', 'editing', 'formatting', 'ai', 'file', 'view', 'search', 'help', 'keymap'];
     categories.forEach(cat => groups.set(cat, []));
 
     // Add shortcuts to groups
-    [...this.shortcuts.values(), ...this.globalShortcuts.values()].forEach(shortcut => {
+    [...this.shortcuts.values(), ...this.globalShortcuts.values(), ...this.keymapShortcuts].forEach(shortcut => {
       if (!shortcut.disabled) {
         const group = groups.get(shortcut.category);
         if (group) {
@@ -93,7 +106,8 @@ class KeyboardShortcutsService {
       file: 'File Operations',
       view: 'View & Display',
       search: 'Search & Find',
-      help: 'Help & Info'
+      help: 'Help & Info',
+      keymap: 'Editor Keybindings'
     };
     return titles[category];
   }
@@ -108,13 +122,14 @@ class KeyboardShortcutsService {
       file: 'Manage files and documents',
       view: 'Control display and view options',
       search: 'Search and find content',
-      help: 'Get help and access information'
+      help: 'Get help and access information',
+      keymap: 'Vim or Emacs keys, used while the editor has focus'
     };
     return descriptions[category];
   }
 
   // Format shortcut for display
-  formatShortcut(shortcut: KeyboardShortcut): string {
+  formatShortcut(shortcut: ShortcutListing): string {
     const parts = [];
     
     if (shortcut.ctrlKey) parts.push('Ctrl');
@@ -138,19 +153,35 @@ class KeyboardShortcutsService {
     else if (key === 'End') key = 'End';
     else if (key === 'PageUp') key = 'Page Up';
     else if (key === 'PageDown') key = 'Page Down';
-    else key = key.toUpperCase();
+    // Vim keys are case sensitive
+    else if (shortcut.category !== 'keymap' || parts.length > 0) key = key.toUpperCase();
     
     parts.push(key);
     return parts.join(' + ');
   }
 
+  // Load the saved configuration on first use (storage is hydrated after this module loads)
+  private ensureConfigLoaded(): void {
+    if (this.configLoaded || !storageService.isReady()) return;
+    this.configLoaded = true;
+    const saved = storageService.getJSON<Partial<KeyboardShortcutConfig>>(CONFIG_STORAGE_KEY, {});
+    this.config = { ...this.config, ...saved };
+  }
+
   // Update configuration
   updateConfig(newConfig: Partial<KeyboardShortcutConfig>): void {
+    this.ensureConfigLoaded();
     this.config = { ...this.config, ...newConfig };
+    try {
+      storageService.setJSON(CONFIG_STORAGE_KEY, this.config);
+    } catch (error) {
+      console.error('Error saving shortcut configuration:', error);
+    }
   }
 
   // Get current configuration
   getConfig(): KeyboardShortcutConfig {
+    this.ensureConfigLoaded();
     return { ...this.config };
   }
 
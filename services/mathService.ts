@@ -0,0 +1,185 @@
+import katex from 'katex';
+
+// ============================================================================
+// MATH
+// ============================================================================
+// LaTeX math in notes, rendered with KaTeX: `$inline$` inside a line and
+// `$$display$$` (which can span lines) as a block. A `$` only opens inline
+// math when text follows it directly, and only closes it when text comes
+// right before it and no digit right after, so prices like "$5 or $10" stay
+// text. `\$` is a literal dollar sign, and code spans and fenced code are
+// left alone.
+//
+// Math is taken out of the text before the markdown is parsed, so marked
+// never sees the `_`, `*` and `\\` in it, and put back rendered afterwards.
+
+export interface MathExpression {
+  tex: string;
+  display: boolean;
+  // Offsets of the expression in the text, delimiters included
+  start: number;
+  end: number;
+}
+
+export interface ExtractedMath {
+  placeholder: string;
+  tex: string;
+  display: boolean;
+}
+
+// 'html' is for exports drawn with html2canvas, which would also draw the
+// MathML that is otherwise only there for screen readers
+export type MathOutput = 'html' | 'htmlAndMathml';
+
+// Plain letters and digits, so markdown leaves placeholders as they are
+export const MATH_PLACEHOLDER_PATTERN = /MATHPLACEHOLDER[a-z0-9]+N(\d+)E/g;
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Math Service
+ */
+export class MathService {
+  static find(content: string): MathExpression[] {
+    const expressions: MathExpression[] = [];
+    let index = 0;
+
+    while (index < content.length) {
+      // Fenced code runs to a closing fence of the same kind, or to the end
+      if (index === 0 || content[index - 1] === '\n') {
+        const fence = content.slice(index, content.indexOf('\n', index) + 1 || undefined).match(FENCE_PATTERN);
+        if (fence) {
+          index = MathService.skipFence(content, index, fence[1]);
+          continue;
+        }
+      }
+
+      const char = content[index];
+      if (char === '\\') {
+        index += 2;
+      } else if (char === '`') {
+        index = MathService.skipCodeSpan(content, index);
+      } else if (char === '$') {
+        const expression = content[index + 1] === '$'
+          ? MathService.readDisplay(content, index)
+          : MathService.readInline(content, index);
+        if (expression) {
+          expressions.push(expression);
+          index = expression.end;
+        } else {
+          index += content[index + 1] === '$' ? 2 : 1;
+        }
+      } else {
+        index++;
+      }
+    }
+    return expressions;
+  }
+
+  /**
+   * Render TeX to HTML. Invalid TeX comes back as its source marked as an
+   * error, with KaTeX's message in the tooltip, so the rest still renders.
+   */
+  static render(tex: string, display: boolean, output: MathOutput = 'htmlAndMathml'): string {
+    try {
+      return katex.renderToString(tex, { displayMode: display, output, throwOnError: true, strict: 'ignore' });
+    } catch (error) {
+      const message = error instanceof katex.ParseError ? error.rawMessage : 'Could not render math';
+      const delimiter = display ? '$$' : '$';
+      return `<span class="math-error${display ? ' math-error-display' : ''}" title="${escapeHtml(message)}">` +
+        `<code>${escapeHtml(delimiter + tex + delimiter)}</code></span>`;
+    }
+  }
+
+  /**
+   * Swap every expression for a placeholder
+   */
+  static extract(content: string): { content: string; expressions: ExtractedMath[] } {
+    const found = MathService.find(content);
+    if (found.length === 0) return { content, expressions: [] };
+
+    const nonce = Math.random().toString(36).slice(2, 10);
+    const expressions: ExtractedMath[] = [];
+    let result = '';
+    let last = 0;
+    found.forEach((expression, index) => {
+      const placeholder = `MATHPLACEHOLDER${nonce}N${index}E`;
+      expressions.push({ placeholder, tex: expression.tex, display: expression.display });
+      result += content.slice(last, expression.start) + placeholder;
+      last = expression.end;
+    });
+    return { content: result + content.slice(last), expressions };
+  }
+
+  /**
+   * Put rendered math back in place of the placeholders
+   */
+  static restore(html: string, expressions: ExtractedMath[], output: MathOutput = 'htmlAndMathml'): string {
+    if (expressions.length === 0) return html;
+    return html.replace(MATH_PLACEHOLDER_PATTERN, (match, index: string) => {
+      const expression = expressions[Number(index)];
+      return expression?.placeholder === match ? MathService.render(expression.tex, expression.display, output) : match;
+    });
+  }
+
+  /**
+   * Turn markdown into HTML with `parse`, rendering the math in it
+   */
+  static renderMarkdown(content: string, parse: (markdown: string) => string, output?: MathOutput): string {
+    const { content: markdown, expressions } = MathService.extract(content);
+    return MathService.restore(parse(markdown), expressions, output);
+  }
+
+  private static skipFence(content: string, start: number, fence: string): number {
+    let lineStart = content.indexOf('\n', start) + 1;
+    while (lineStart > 0 && lineStart < content.length) {
+      const lineEnd = content.indexOf('\n', lineStart);
+      const line = content.slice(lineStart, lineEnd === -1 ? undefined : lineEnd);
+      const closing = line.match(FENCE_PATTERN);
+      if (closing && closing[1][0] === fence[0] && closing[1].length >= fence.length && !line.slice(closing[0].length).trim()) {
+        return lineEnd === -1 ? content.length : lineEnd + 1;
+      }
+      lineStart = lineEnd + 1;
+    }
+    return content.length;
+  }
+
+  // A code span closes at the next run of as many backticks; an unclosed
+  // run is plain text
+  private static skipCodeSpan(content: string, start: number): number {
+    let end = start;
+    while (content[end] === '`') end++;
+    const run = content.slice(start, end);
+    let close = content.indexOf(run, end);
+    while (close !== -1) {
+      let closeEnd = close + run.length;
+      if (content[closeEnd] !== '`' && content[close - 1] !== '`') return closeEnd;
+      while (content[closeEnd] === '`') closeEnd++;
+      close = content.indexOf(run, closeEnd);
+    }
+    return end;
+  }
+
+  private static readDisplay(content: string, start: number): MathExpression | null {
+    const close = content.indexOf('$$', start + 2);
+    if (close === -1) return null;
+    const tex = content.slice(start + 2, close).trim();
+    return tex ? { tex, display: true, start, end: close + 2 } : null;
+  }
+
+  private static readInline(content: string, start: number): MathExpression | null {
+    if (/\s/.test(content[start + 1] ?? ' ')) return null;
+    for (let index = start + 1; index < content.length && content[index] !== '\n'; index++) {
+      if (content[index] === '\\') {
+        if (content[index + 1] !== '\n') index++;
+      } else if (content[index] === '$') {
+        if (/\s/.test(content[index - 1]) || /\d/.test(content[index + 1] ?? '')) continue;
+        return { tex: content.slice(start + 1, index), display: false, start, end: index + 1 };
+      }
+    }
+    return null;
+  }
+}
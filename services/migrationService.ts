@@ -0,0 +1,473 @@
+import { Note, Project } from '../types';
+import { storageService } from './storageService';
+import { MIGRATIONS } from './migrations';
+import { compressText, decompressText } from '../utils/versionDelta';
+
+// ============================================================================
+// DATA MIGRATIONS
+// ============================================================================
+// Changes to the persisted format of notes, projects or version histories are
+// written as migrations (see `migrations.ts`) and run once, in order, at
+// startup before the app renders.
+//
+// Migrations never write directly: they work on staged copies of the data,
+// which are only committed once every pending migration has succeeded. A raw
+// backup of the workspace is taken before committing, and the applied
+// migrations are recorded so they are never run twice. The backup is a full
+// copy of the workspace, so it is dropped once it is BACKUP_RETENTION_DAYS old.
+
+export const NOTES_STORAGE_KEY = 'stellar-scribe-notes-v2';
+export const PROJECTS_STORAGE_KEY = 'stellar-scribe-projects-v1';
+const MIGRATION_RECORD_KEY = 'stellar-scribe-schema-migrations-v1';
+export const MIGRATION_BACKUP_KEY = 'stellar-scribe-migration-backup-v1';
+const KEY_PREFIX = 'stellar-scribe-';
+export const BACKUP_RETENTION_DAYS = 14;
+const BACKUP_RETENTION_MS = BACKUP_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * Key/value store a migration reads and writes. Writes are staged until the run commits.
+ */
+export interface MigrationStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(prefix?: string): string[];
+}
+
+export interface MigrationContext {
+  /** Notes to migrate; replace or modify in place */
+  notes: Note[];
+  /** Projects to migrate; replace or modify in place */
+  projects: Project[];
+  /** App storage (version histories and other keys) */
+  store: MigrationStore;
+  /** Raw window.localStorage, for data written before the storage layer */
+  legacyStore: MigrationStore;
+  /** Describe a change for the dry-run report and the user */
+  report(change: string): void;
+}
+
+export interface Migration {
+  id: string;
+  /** Schema version this migration brings the data to; strictly increasing */
+  version: number;
+  description: string;
+  /** Boolean flag used before the registry existed; `true` means already applied */
+  legacyFlag?: string;
+  migrate(context: MigrationContext): void;
+}
+
+export interface AppliedMigration {
+  id: string;
+  version: number;
+  appliedAt: number;
+  changes: string[];
+}
+
+interface MigrationRecord {
+  version: number;
+  applied: AppliedMigration[];
+}
+
+export interface PendingMigrationReport {
+  id: string;
+  version: number;
+  description: string;
+  changes: string[];
+  error?: string;
+}
+
+export interface MigrationReport {
+  currentVersion: number;
+  targetVersion: number;
+  pending: PendingMigrationReport[];
+  stats: {
+    notes: number;
+    organizedNotes: number;
+    unorganizedNotes: number;
+    projects: number;
+    versionHistories: number;
+  };
+}
+
+export interface MigrationRunResult {
+  applied: AppliedMigration[];
+  error?: string;
+}
+
+interface StagedRun {
+  context: MigrationContext;
+  store: StagedStore;
+  legacyStore: StagedStore;
+  // Serialized notes/projects before the run, to detect changes
+  notesJson: string;
+  projectsJson: string;
+  // Changes reported by the migration currently running
+  changes: string[];
+}
+
+interface MigrationBackup {
+  createdAt: number;
+  fromVersion: number;
+  data: string;
+  compressed: boolean;
+}
+
+/**
+ * Copy-on-write view of a store
+ */
+class StagedStore implements MigrationStore {
+  private changes = new Map<string, string | null>();
+
+  constructor(private readonly target: MigrationStore) {}
+
+  getItem(key: string): string | null {
+    return this.changes.has(key) ? this.changes.get(key)! : this.target.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.changes.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.changes.set(key, null);
+  }
+
+  keys(prefix?: string): string[] {
+    const keys = new Set(this.target.keys(prefix));
+    this.changes.forEach((value, key) => {
+      if (prefix && !key.startsWith(prefix)) return;
+      if (value === null) {
+        keys.delete(key);
+      } else {
+        keys.add(key);
+      }
+    });
+    return Array.from(keys);
+  }
+
+  commit(): void {
+    this.changes.forEach((value, key) => {
+      if (value === null) {
+        this.target.removeItem(key);
+      } else {
+        this.target.setItem(key, value);
+      }
+    });
+    this.changes.clear();
+  }
+}
+
+const appStore: MigrationStore = {
+  getItem: key => storageService.getItem(key),
+  setItem: (key, value) => storageService.setItem(key, value),
+  removeItem: key => storageService.removeItem(key),
+  keys: prefix => storageService.keys(prefix),
+};
+
+const localStorageStore: MigrationStore = {
+  getItem: key => localStorage.getItem(key),
+  setItem: (key, value) => localStorage.setItem(key, value),
+  removeItem: key => localStorage.removeItem(key),
+  keys: prefix => {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && (!prefix || key.startsWith(prefix))) keys.push(key);
+    }
+    return keys;
+  },
+};
+
+const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Migration Service
+ */
+export class MigrationService {
+  private static instance: MigrationService;
+  private lastRun: MigrationRunResult | null = null;
+
+  constructor(private readonly migrations: Migration[] = MIGRATIONS) {
+    const versions = migrations.map(migration => migration.version);
+    if (versions.some((version, index) => index > 0 && version <= versions[index - 1])) {
+      throw new Error('Migrations must be registered in increasing version order');
+    }
+  }
+
+  static getInstance(): MigrationService {
+    if (!MigrationService.instance) {
+      MigrationService.instance = new MigrationService();
+    }
+    return MigrationService.instance;
+  }
+
+  /**
+   * Schema version of the stored data
+   */
+  getCurrentVersion(): number {
+    return this.withLegacyFlags(this.readRecord()).version;
+  }
+
+  getTargetVersion(): number {
+    return this.migrations.length > 0 ? this.migrations[this.migrations.length - 1].version : 0;
+  }
+
+  getAppliedMigrations(): AppliedMigration[] {
+    return this.readRecord().applied;
+  }
+
+  /**
+   * Result of the last `runPending` call, returned once so it is reported once
+   */
+  takeLastRun(): MigrationRunResult | null {
+    const lastRun = this.lastRun;
+    this.lastRun = null;
+    return lastRun;
+  }
+
+  /**
+   * Report what pending migrations would change, without writing anything
+   */
+  dryRun(): MigrationReport {
+    const record = this.withLegacyFlags(this.readRecord());
+    const run = this.createRun();
+    const pending: PendingMigrationReport[] = [];
+
+    for (const migration of this.getPending(record)) {
+      run.changes = [];
+      const entry: PendingMigrationReport = {
+        id: migration.id,
+        version: migration.version,
+        description: migration.description,
+        changes: run.changes,
+      };
+      try {
+        migration.migrate(run.context);
+      } catch (error) {
+        entry.error = describeError(error);
+      }
+      pending.push(entry);
+      // Later migrations cannot be predicted once one has failed
+      if (entry.error) break;
+    }
+
+    const notes = this.readNotes();
+    const organizedNotes = notes.filter(note => note.projectId !== undefined && note.projectId !== null).length;
+
+    return {
+      currentVersion: record.version,
+      targetVersion: this.getTargetVersion(),
+      pending,
+      stats: {
+        notes: notes.length,
+        organizedNotes,
+        unorganizedNotes: notes.length - organizedNotes,
+        projects: storageService.getJSON<Project[]>(PROJECTS_STORAGE_KEY, []).length,
+        versionHistories: storageService.keys('stellar-scribe-note-versions-').length,
+      },
+    };
+  }
+
+  /**
+   * Run every pending migration. Nothing is written unless all of them
+   * succeed and a backup could be taken first. Call after `storageService.init()`.
+   */
+  runPending(): MigrationRunResult {
+    const stored = this.readRecord();
+    const record = this.withLegacyFlags(stored);
+    const pending = this.getPending(record);
+    if (pending.length === 0) {
+      if (record !== stored) this.writeRecord(record);
+      this.expireBackup();
+      this.lastRun = { applied: [] };
+      return this.lastRun;
+    }
+
+    const run = this.createRun();
+    const applied: AppliedMigration[] = [];
+
+    for (const migration of pending) {
+      run.changes = [];
+      try {
+        migration.migrate(run.context);
+      } catch (error) {
+        console.error(`Migration "${migration.id}" failed, no changes were saved:`, error);
+        this.lastRun = { applied: [], error: `Migration "${migration.description}" failed: ${describeError(error)}` };
+        return this.lastRun;
+      }
+      applied.push({ id: migration.id, version: migration.version, appliedAt: Date.now(), changes: run.changes });
+    }
+
+    try {
+      this.writeBackup(record.version);
+
+      const notesJson = JSON.stringify(run.context.notes);
+      if (notesJson !== run.notesJson) {
+        storageService.setItem(NOTES_STORAGE_KEY, notesJson);
+      }
+      const projectsJson = JSON.stringify(run.context.projects);
+      if (projectsJson !== run.projectsJson) {
+        storageService.setItem(PROJECTS_STORAGE_KEY, projectsJson);
+      }
+      run.store.commit();
+      run.legacyStore.commit();
+
+      this.writeRecord({
+        version: applied[applied.length - 1].version,
+        applied: [...record.applied, ...applied],
+      });
+    } catch (error) {
+      console.error('Error saving migrated data:', error);
+      this.lastRun = { applied: [], error: `Could not save migrated data: ${describeError(error)}` };
+      return this.lastRun;
+    }
+
+    this.lastRun = { applied };
+    return this.lastRun;
+  }
+
+  /**
+   * When the backup taken before the last migration run was made
+   */
+  getBackupCreatedAt(): number | null {
+    return storageService.getJSON<MigrationBackup | null>(MIGRATION_BACKUP_KEY, null)?.createdAt ?? null;
+  }
+
+  /**
+   * When the pre-migration backup will be dropped automatically
+   */
+  getBackupExpiresAt(): number | null {
+    const createdAt = this.getBackupCreatedAt();
+    return createdAt === null ? null : createdAt + BACKUP_RETENTION_MS;
+  }
+
+  getBackupSize(): number {
+    return storageService.getItemSize(MIGRATION_BACKUP_KEY);
+  }
+
+  /**
+   * Drop the pre-migration backup once the migrated data is known to be good
+   */
+  deleteBackup(): void {
+    storageService.removeItem(MIGRATION_BACKUP_KEY);
+  }
+
+  /**
+   * Put every app key back the way it was before the last migration run.
+   * The page must be reloaded afterwards; the migrations will run again.
+   */
+  restoreBackup(): boolean {
+    const backup = storageService.getJSON<MigrationBackup | null>(MIGRATION_BACKUP_KEY, null);
+    if (!backup) return false;
+
+    try {
+      const entries: Record<string, string> = JSON.parse(decompressText(backup.data, backup.compressed));
+      for (const key of storageService.keys(KEY_PREFIX)) {
+        if (key !== MIGRATION_BACKUP_KEY && !(key in entries)) {
+          storageService.removeItem(key);
+        }
+      }
+      Object.entries(entries).forEach(([key, value]) => storageService.setItem(key, value));
+      return true;
+    } catch (error) {
+      console.error('Error restoring migration backup:', error);
+      return false;
+    }
+  }
+
+  private expireBackup(): void {
+    const expiresAt = this.getBackupExpiresAt();
+    if (expiresAt !== null && Date.now() >= expiresAt) {
+      this.deleteBackup();
+    }
+  }
+
+  private getPending(record: MigrationRecord): Migration[] {
+    const appliedIds = new Set(record.applied.map(entry => entry.id));
+    return this.migrations.filter(migration => !appliedIds.has(migration.id));
+  }
+
+  /**
+   * Treat migrations that ran under the old one-off boolean flags as applied
+   */
+  private withLegacyFlags(record: MigrationRecord): MigrationRecord {
+    const appliedIds = new Set(record.applied.map(entry => entry.id));
+    const adopted: AppliedMigration[] = this.migrations
+      .filter(migration =>
+        migration.legacyFlag &&
+        !appliedIds.has(migration.id) &&
+        storageService.getJSON<boolean>(migration.legacyFlag, false) === true
+      )
+      .map(migration => ({ id: migration.id, version: migration.version, appliedAt: Date.now(), changes: [] }));
+
+    if (adopted.length === 0) return record;
+    return {
+      version: Math.max(record.version, ...adopted.map(entry => entry.version)),
+      applied: [...record.applied, ...adopted],
+    };
+  }
+
+  private createRun(): StagedRun {
+    const notes = this.readNotes();
+    const projects = storageService.getJSON<Project[]>(PROJECTS_STORAGE_KEY, []);
+    const store = new StagedStore(appStore);
+    const legacyStore = new StagedStore(localStorageStore);
+
+    const run: StagedRun = {
+      context: {
+        notes,
+        projects,
+        store,
+        legacyStore,
+        report: change => run.changes.push(change),
+      },
+      store,
+      legacyStore,
+      notesJson: JSON.stringify(notes),
+      projectsJson: JSON.stringify(projects),
+      changes: [],
+    };
+    return run;
+  }
+
+  private readNotes(): Note[] {
+    return storageService.getJSON<Note[]>(NOTES_STORAGE_KEY, []);
+  }
+
+  private readRecord(): MigrationRecord {
+    return storageService.getJSON<MigrationRecord>(MIGRATION_RECORD_KEY, { version: 0, applied: [] });
+  }
+
+  /**
+   * Save the record; the old boolean flags it replaces are no longer needed
+   */
+  private writeRecord(record: MigrationRecord): void {
+    storageService.setJSON(MIGRATION_RECORD_KEY, record);
+    this.migrations.forEach(migration => {
+      if (migration.legacyFlag) storageService.removeItem(migration.legacyFlag);
+    });
+  }
+
+  /**
+   * Snapshot every app key as stored, so the data can be put back even if a
+   * migration produced something the current code cannot read
+   */
+  private writeBackup(fromVersion: number): void {
+    const entries: Record<string, string> = {};
+    for (const key of storageService.keys(KEY_PREFIX)) {
+      if (key === MIGRATION_BACKUP_KEY) continue;
+      const value = storageService.getItem(key);
+      if (value !== null) entries[key] = value;
+    }
+    const backup: MigrationBackup = {
+      createdAt: Date.now(),
+      fromVersion,
+      ...compressText(JSON.stringify(entries)),
+    };
+    storageService.setJSON(MIGRATION_BACKUP_KEY, backup);
+  }
+}
+
+// Export singleton instance
+export const migrationService = MigrationService.getInstance();
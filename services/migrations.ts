@@ -0,0 +1,136 @@
+import { Note, NoteVersion } from '../types';
+import type { Migration } from './migrationService';
+import { ProjectService } from './projectService';
+import {
+  VERSION_STORAGE_KEY,
+  encodeVersionHistory,
+  isStoredHistory,
+  validateVersion,
+} from './versionControlService';
+
+// ============================================================================
+// MIGRATION REGISTRY
+// ============================================================================
+// Ordered list of data migrations. Append new migrations with the next version
+// number; never edit or reorder ones that have shipped, since they are
+// recorded by id once applied.
+
+const LEGACY_NOTE_KEY_PREFIX = 'note_versions_';
+
+/**
+ * Notes saved under per-note `note_versions_*` localStorage keys by the first releases
+ */
+const importLegacyNoteKeys: Migration = {
+  id: 'import-legacy-note-keys',
+  version: 1,
+  description: 'Import notes from the original storage format',
+  legacyFlag: 'stellar-scribe-migrated-v2',
+  migrate(context) {
+    const importedNotes: Note[] = [];
+
+    for (const key of context.legacyStore.keys(LEGACY_NOTE_KEY_PREFIX)) {
+      try {
+        const item = context.legacyStore.getItem(key);
+        if (item) {
+          const parsed = JSON.parse(item);
+          // Check if it's an array of notes or a single note
+          if (Array.isArray(parsed)) {
+            importedNotes.push(...parsed);
+          } else if (parsed && typeof parsed === 'object' && parsed.id && parsed.title && parsed.content) {
+            importedNotes.push(parsed);
+          }
+        }
+      } catch (error) {
+        console.error(`Error parsing old note key ${key}:`, error);
+      }
+      context.legacyStore.removeItem(key);
+    }
+
+    // Also remove the generic 'note_versions' key if it exists and is empty
+    if (context.legacyStore.getItem('note_versions') === '[]') {
+      context.legacyStore.removeItem('note_versions');
+    }
+
+    if (importedNotes.length === 0) return;
+
+    // Imported notes win over existing ones with the same id
+    const notesById = new Map<string, Note>();
+    context.notes.forEach(note => notesById.set(note.id, note));
+    importedNotes.forEach(note => notesById.set(note.id, note));
+    context.notes = Array.from(notesById.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+    context.report(`Migrated ${importedNotes.length} notes from old storage`);
+  },
+};
+
+/**
+ * Notes created before projects existed go into a default project, unless the
+ * user already has projects to organize them into
+ */
+const assignDefaultProject: Migration = {
+  id: 'assign-default-project',
+  version: 2,
+  description: 'Move notes without a project into "General Notes"',
+  legacyFlag: 'stellar-scribe-project-migrated-v1',
+  migrate(context) {
+    const unassigned = context.notes.filter(note => note.projectId === undefined);
+    if (unassigned.length === 0 || context.projects.length > 0) return;
+
+    const defaultProject = ProjectService.createProject({
+      title: 'General Notes',
+      description: 'Your existing notes migrated automatically',
+      color: '#3B82F6', // Blue
+      icon: '📝',
+      isPinned: false,
+      isArchived: false,
+      settings: {},
+    });
+
+    const now = Date.now();
+    context.projects = [...context.projects, defaultProject];
+    context.notes = context.notes.map(note =>
+      note.projectId === undefined ? { ...note, projectId: defaultProject.id, updatedAt: now } : note
+    );
+    context.report(`Created default project for ${unassigned.length} existing notes`);
+  },
+};
+
+/**
+ * Version histories stored as plain arrays of full versions are rewritten as
+ * snapshots plus reverse deltas (previously done lazily on first read)
+ */
+const compactVersionHistories: Migration = {
+  id: 'compact-version-histories',
+  version: 3,
+  description: 'Store version histories as snapshots plus deltas',
+  migrate(context) {
+    let converted = 0;
+
+    for (const key of context.store.keys(`${VERSION_STORAGE_KEY}-`)) {
+      const parsed: unknown = JSON.parse(context.store.getItem(key) || '[]');
+      if (isStoredHistory(parsed) || !Array.isArray(parsed)) continue;
+
+      const seen = new Set<number>();
+      const versions = (parsed as NoteVersion[])
+        .filter(version => validateVersion(version))
+        .filter(version => !seen.has(version.version) && !!seen.add(version.version))
+        .sort((a, b) => b.version - a.version);
+
+      if (versions.length === 0) {
+        context.store.removeItem(key);
+      } else {
+        context.store.setItem(key, JSON.stringify(encodeVersionHistory(versions)));
+      }
+      converted++;
+    }
+
+    if (converted > 0) {
+      context.report(`Converted ${converted} version ${converted === 1 ? 'history' : 'histories'} to the compact format`);
+    }
+  },
+};
+
+export const MIGRATIONS: Migration[] = [
+  importLegacyNoteKeys,
+  assignDefaultProject,
+  compactVersionHistories,
+];
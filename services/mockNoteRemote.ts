@@ -0,0 +1,103 @@
+import { Note } from '../types';
+import { NoteSyncRemote, PushResult, RemoteNoteRecord, SyncBase } from './noteSyncService';
+
+/**
+ * In-memory stand-in for the Supabase `synced_notes` table. It implements the
+ * same compare-and-swap semantics, so the sync engine can be exercised offline
+ * (select it with VITE_NOTE_SYNC_REMOTE=mock).
+ */
+export class MockNoteRemote implements NoteSyncRemote {
+  readonly name = 'mock';
+  private rows: Map<string, RemoteNoteRecord> = new Map();
+  private revision = 0;
+  private listeners: Set<() => void> = new Set();
+
+  // Simulated network conditions
+  latencyMs = 0;
+  offline = false;
+
+  async pullChanges(sinceRevision: number): Promise<RemoteNoteRecord[]> {
+    await this.simulateNetwork();
+    return Array.from(this.rows.values())
+      .filter(row => row.revision > sinceRevision)
+      .sort((a, b) => a.revision - b.revision)
+      .map(row => ({ ...row }));
+  }
+
+  async pushNote(id: string, note: Note | null, base: SyncBase | null): Promise<PushResult> {
+    await this.simulateNetwork();
+    const existing = this.rows.get(id);
+
+    const matches = base
+      ? !!existing && existing.updatedAt === base.updatedAt && existing.version === base.version
+      : !existing;
+    if (existing && !matches) {
+      return { status: 'conflict', remote: { ...existing } };
+    }
+
+    // A missing row is written fresh, whatever base the caller expected
+    return { status: 'ok', record: { ...this.write(id, note) } };
+  }
+
+  subscribe(onChange: () => void): () => void {
+    this.listeners.add(onChange);
+    return () => {
+      this.listeners.delete(onChange);
+    };
+  }
+
+  /**
+   * Write a note as if another device had edited it
+   */
+  simulateRemoteEdit(note: Note): RemoteNoteRecord {
+    const record = this.write(note.id, note);
+    this.notify();
+    return record;
+  }
+
+  /**
+   * Delete a note as if another device had deleted it
+   */
+  simulateRemoteDelete(id: string): RemoteNoteRecord {
+    const record = this.write(id, null);
+    this.notify();
+    return record;
+  }
+
+  getRows(): RemoteNoteRecord[] {
+    return Array.from(this.rows.values()).map(row => ({ ...row }));
+  }
+
+  clear(): void {
+    this.rows.clear();
+    this.revision = 0;
+  }
+
+  private write(id: string, note: Note | null): RemoteNoteRecord {
+    const record: RemoteNoteRecord = note
+      ? { id, note: { ...note }, updatedAt: note.updatedAt, version: note.version ?? 0, deleted: false, revision: ++this.revision }
+      : this.tombstone(id);
+    this.rows.set(id, record);
+    return record;
+  }
+
+  private tombstone(id: string): RemoteNoteRecord {
+    return { id, note: null, updatedAt: Date.now(), version: 0, deleted: true, revision: ++this.revision };
+  }
+
+  private async simulateNetwork(): Promise<void> {
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+    if (this.offline) {
+      throw new Error('Mock remote is offline');
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Shared instance used when the app runs against the mock remote
+export const mockNoteRemote = new MockNoteRemote();
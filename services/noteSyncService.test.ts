@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { Note } from '../types';
+import { SyncResult, applySyncResult } from './noteSyncService';
+
+const note = (id: string, updatedAt = 1, content = ''): Note =>
+  ({ id, title: id, content, createdAt: 1, updatedAt, tags: [], isPinned: false });
+
+const result = (fields: Partial<SyncResult> = {}): SyncResult =>
+  ({ upserts: [], removals: [], conflicts: [], pushed: 0, pulled: 0, ...fields });
+
+describe('applySyncResult', () => {
+  it('returns the same notes when the result changes nothing', () => {
+    const notes = [note('a')];
+    expect(applySyncResult(notes, result({ pushed: 1 }))).toBe(notes);
+  });
+
+  it('returns the same notes when every change is for a note edited since', () => {
+    const notes = [note('a', 5)];
+    const upserts = [{ note: note('a', 3, 'remote'), expectedUpdatedAt: 2, previousBase: null }];
+    expect(applySyncResult(notes, result({ upserts }))).toBe(notes);
+  });
+
+  it('writes and removes the notes the result expects', () => {
+    const notes = [note('a', 1), note('b', 1)];
+    const applied = applySyncResult(notes, result({
+      upserts: [{ note: note('a', 3, 'remote'), expectedUpdatedAt: 1, previousBase: null }],
+      removals: [{ noteId: 'b', expectedUpdatedAt: 1, previousBase: null }],
+    }));
+    expect(applied).toEqual([note('a', 3, 'remote')]);
+  });
+});
@@ -0,0 +1,385 @@
+import { Note } from '../types';
+import { storageService } from './storageService';
+
+// ============================================================================
+// NOTE SYNC ENGINE
+// ============================================================================
+// Two-way sync between local notes and a remote store (Supabase, or the
+// in-memory mock for offline testing). The engine remembers, per note, the
+// `updatedAt`/`version` pair it last agreed on with the remote (the "base").
+// A note whose local pair differs from the base has local edits; a remote row
+// whose pair differs has remote edits. Both at once is a conflict.
+
+const SYNC_STATE_KEY = 'stellar-scribe-note-sync-v1';
+
+// Revisions are taken when a row is written, not when its transaction commits,
+// so a row can turn up below revisions already pulled. Each pull re-reads this
+// many revisions below the cursor; rows already agreed on are skipped.
+const PULL_OVERLAP_REVISIONS = 100;
+
+export type ConflictStrategy = 'last-writer-wins' | 'manual';
+
+/**
+ * The `updatedAt`/`version` pair a note had when it was last synced
+ */
+export interface SyncBase {
+  updatedAt: number;
+  version: number;
+}
+
+/**
+ * A note as stored remotely. `revision` increases with every remote write and
+ * is used to pull only what changed since the last sync.
+ */
+export interface RemoteNoteRecord {
+  id: string;
+  note: Note | null;
+  updatedAt: number;
+  version: number;
+  deleted: boolean;
+  revision: number;
+}
+
+export type PushResult =
+  | { status: 'ok'; record: RemoteNoteRecord }
+  | { status: 'conflict'; remote: RemoteNoteRecord };
+
+/**
+ * Transport used by the engine. `pushNote` must be a compare-and-swap: it only
+ * writes when the remote row still matches `base` (or does not exist when
+ * `base` is null), and otherwise returns the current remote row.
+ */
+export interface NoteSyncRemote {
+  readonly name: string;
+  pullChanges(sinceRevision: number): Promise<RemoteNoteRecord[]>;
+  pushNote(id: string, note: Note | null, base: SyncBase | null): Promise<PushResult>;
+  subscribe?(onChange: () => void): () => void;
+}
+
+export interface NoteConflict {
+  noteId: string;
+  local: Note;
+  remote: RemoteNoteRecord & { note: Note };
+  detectedAt: number;
+}
+
+export type ConflictResolution = 'local' | 'remote' | { title: string; content: string };
+
+export interface SyncResult {
+  // Notes to write locally, with the local `updatedAt` each one expects to replace (null = new note)
+  upserts: Array<{ note: Note; expectedUpdatedAt: number | null; previousBase: SyncBase | null }>;
+  // Notes deleted remotely, with the local `updatedAt` they were deleted at
+  removals: Array<{ noteId: string; expectedUpdatedAt: number; previousBase: SyncBase | null }>;
+  conflicts: NoteConflict[];
+  pushed: number;
+  pulled: number;
+}
+
+interface SyncState {
+  cursor: number;
+  lastSyncedAt: number | null;
+  bases: Record<string, SyncBase>;
+}
+
+const toBase = (item: { updatedAt: number; version?: number }): SyncBase => ({
+  updatedAt: item.updatedAt,
+  version: item.version ?? 0,
+});
+
+const matchesBase = (item: { updatedAt: number; version?: number }, base: SyncBase | undefined): boolean =>
+  !!base && item.updatedAt === base.updatedAt && (item.version ?? 0) === base.version;
+
+const sameContent = (a: Note, b: Note): boolean =>
+  a.title === b.title &&
+  a.content === b.content &&
+  a.isPinned === b.isPinned &&
+  (a.projectId ?? null) === (b.projectId ?? null) &&
+  JSON.stringify(a.tags ?? []) === JSON.stringify(b.tags ?? []);
+
+/**
+ * Remove editor-only fields before a note leaves the device
+ */
+export const toSyncPayload = (note: Note): Note => {
+  const { lastTransaction, ...payload } = note;
+  return payload;
+};
+
+/**
+ * Note Sync Service
+ */
+export class NoteSyncService {
+  private static instance: NoteSyncService;
+  private remote: NoteSyncRemote | null = null;
+  private syncing: Promise<SyncResult> | null = null;
+
+  static getInstance(): NoteSyncService {
+    if (!NoteSyncService.instance) {
+      NoteSyncService.instance = new NoteSyncService();
+    }
+    return NoteSyncService.instance;
+  }
+
+  setRemote(remote: NoteSyncRemote | null): void {
+    this.remote = remote;
+  }
+
+  getRemote(): NoteSyncRemote | null {
+    return this.remote;
+  }
+
+  getLastSyncedAt(): number | null {
+    return this.loadState().lastSyncedAt;
+  }
+
+  /**
+   * Forget all sync state, so the next sync treats every note as new
+   */
+  reset(): void {
+    storageService.removeItem(SYNC_STATE_KEY);
+  }
+
+  /**
+   * Pull remote changes and push local ones. Concurrent calls share one run.
+   */
+  sync(localNotes: Note[], strategy: ConflictStrategy): Promise<SyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.runSync(localNotes, strategy).finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async runSync(localNotes: Note[], strategy: ConflictStrategy): Promise<SyncResult> {
+    const remote = this.requireRemote();
+    const state = this.loadState();
+    const result: SyncResult = { upserts: [], removals: [], conflicts: [], pushed: 0, pulled: 0 };
+
+    // Working copy of local notes as they will be after this sync
+    const local = new Map(localNotes.map(note => [note.id, note]));
+    const originalUpdatedAt = new Map(localNotes.map(note => [note.id, note.updatedAt]));
+    const conflicted = new Set<string>();
+
+    const applyRemote = (record: RemoteNoteRecord) => {
+      const expectedUpdatedAt = originalUpdatedAt.get(record.id) ?? null;
+      const previousBase = state.bases[record.id] ?? null;
+      if (record.deleted || !record.note) {
+        if (local.has(record.id) && expectedUpdatedAt !== null) {
+          result.removals.push({ noteId: record.id, expectedUpdatedAt, previousBase });
+        }
+        local.delete(record.id);
+        delete state.bases[record.id];
+      } else {
+        const note = { ...record.note, id: record.id, updatedAt: record.updatedAt, version: record.version };
+        result.upserts.push({ note, expectedUpdatedAt, previousBase });
+        local.set(record.id, note);
+        state.bases[record.id] = toBase(record);
+      }
+      result.pulled++;
+    };
+
+    /**
+     * Decide what to do when both sides changed. Returns the base to push
+     * the local note against, or null when the local note should not be pushed.
+     */
+    const handleDivergence = (localNote: Note, record: RemoteNoteRecord): SyncBase | null => {
+      // Local edits always win over a remote delete so nothing is lost
+      if (record.deleted || !record.note) {
+        return toBase(record);
+      }
+      if (sameContent(localNote, record.note)) {
+        applyRemote(record);
+        return null;
+      }
+      if (strategy === 'last-writer-wins') {
+        if (localNote.updatedAt >= record.updatedAt) {
+          return toBase(record);
+        }
+        applyRemote(record);
+        return null;
+      }
+      conflicted.add(record.id);
+      result.conflicts.push({
+        noteId: record.id,
+        local: localNote,
+        remote: { ...record, note: record.note },
+        detectedAt: Date.now(),
+      });
+      return null;
+    };
+
+    // 1. Pull
+    const changes = await remote.pullChanges(Math.max(0, state.cursor - PULL_OVERLAP_REVISIONS));
+    const pushBases = new Map<string, SyncBase | null>();
+
+    for (const record of changes) {
+      state.cursor = Math.max(state.cursor, record.revision);
+      const base = state.bases[record.id];
+      const localNote = local.get(record.id);
+
+      // Echo of something we already agreed on
+      if (matchesBase(record, base)) continue;
+      if (!base && !localNote && record.deleted) continue;
+
+      const hasLocalEdits = localNote ? !matchesBase(localNote, base) : false;
+      if (!localNote || !hasLocalEdits) {
+        applyRemote(record);
+      } else {
+        const pushBase = handleDivergence(localNote, record);
+        if (pushBase) pushBases.set(record.id, pushBase);
+      }
+    }
+
+    // 2. Push local edits (and deletions) that the remote has not seen
+    const toPush: Array<{ id: string; note: Note | null; base: SyncBase | null }> = [];
+    for (const note of local.values()) {
+      if (conflicted.has(note.id)) continue;
+      const base = state.bases[note.id];
+      if (pushBases.has(note.id) || !matchesBase(note, base)) {
+        toPush.push({ id: note.id, note, base: pushBases.get(note.id) ?? base ?? null });
+      }
+    }
+    for (const [id, base] of Object.entries(state.bases)) {
+      if (!local.has(id)) {
+        toPush.push({ id, note: null, base });
+      }
+    }
+
+    for (const item of toPush) {
+      let push = await remote.pushNote(item.id, item.note && toSyncPayload(item.note), item.base);
+
+      if (push.status === 'conflict' && item.note) {
+        // Someone else wrote since our pull
+        const retryBase = handleDivergence(item.note, push.remote);
+        if (!retryBase) continue;
+        push = await remote.pushNote(item.id, toSyncPayload(item.note), retryBase);
+      } else if (push.status === 'conflict') {
+        // We deleted locally but the remote changed: keep the remote copy
+        if (!push.remote.deleted) applyRemote(push.remote);
+        else delete state.bases[item.id];
+        continue;
+      }
+
+      if (push.status === 'ok') {
+        if (push.record.deleted) {
+          delete state.bases[item.id];
+        } else {
+          state.bases[item.id] = toBase(push.record);
+        }
+        result.pushed++;
+      }
+    }
+
+    state.lastSyncedAt = Date.now();
+    this.saveState(state);
+    return result;
+  }
+
+  /**
+   * Settle a conflict reported by `sync`. Returns the note to store locally,
+   * or null if the remote changed again and the conflict must be re-synced.
+   */
+  async resolveConflict(conflict: NoteConflict, resolution: ConflictResolution): Promise<Note | null> {
+    const remote = this.requireRemote();
+    const state = this.loadState();
+
+    if (resolution === 'remote') {
+      const note = { ...conflict.remote.note, updatedAt: conflict.remote.updatedAt, version: conflict.remote.version };
+      state.bases[conflict.noteId] = toBase(conflict.remote);
+      this.saveState(state);
+      return note;
+    }
+
+    const resolved: Note = resolution === 'local'
+      ? { ...conflict.local, updatedAt: Date.now() }
+      : { ...conflict.local, title: resolution.title, content: resolution.content, updatedAt: Date.now() };
+
+    const push = await remote.pushNote(conflict.noteId, toSyncPayload(resolved), toBase(conflict.remote));
+    if (push.status !== 'ok') {
+      return null;
+    }
+
+    state.bases[conflict.noteId] = toBase(push.record);
+    this.saveState(state);
+    return resolved;
+  }
+
+  /**
+   * Call with the latest local notes before applying a sync result. Remote
+   * changes that will be skipped because the note was edited meanwhile get
+   * their old base back, so the next sync sees both edits and reports a conflict.
+   */
+  releaseSkippedChanges(notes: Note[], result: SyncResult): void {
+    const current = new Map(notes.map(note => [note.id, note.updatedAt]));
+    const skipped = [
+      ...result.upserts.filter(({ note, expectedUpdatedAt }) => (current.get(note.id) ?? null) !== expectedUpdatedAt)
+        .map(({ note, previousBase }) => ({ noteId: note.id, previousBase })),
+      ...result.removals.filter(({ noteId, expectedUpdatedAt }) => current.has(noteId) && current.get(noteId) !== expectedUpdatedAt),
+    ];
+    if (skipped.length === 0) return;
+
+    const state = this.loadState();
+    for (const { noteId, previousBase } of skipped) {
+      if (previousBase) {
+        state.bases[noteId] = previousBase;
+      } else {
+        delete state.bases[noteId];
+      }
+    }
+    this.saveState(state);
+  }
+
+  private requireRemote(): NoteSyncRemote {
+    if (!this.remote) {
+      throw new Error('Note sync is not configured');
+    }
+    return this.remote;
+  }
+
+  private loadState(): SyncState {
+    return storageService.getJSON<SyncState>(SYNC_STATE_KEY, { cursor: 0, lastSyncedAt: null, bases: {} });
+  }
+
+  private saveState(state: SyncState): void {
+    try {
+      storageService.setJSON(SYNC_STATE_KEY, state);
+    } catch (error) {
+      console.error('Error saving note sync state:', error);
+    }
+  }
+}
+
+/**
+ * Apply a sync result to the current notes. Changes are skipped for notes the
+ * user edited while the sync was running; the next sync picks those up.
+ * Returns `notes` itself when nothing changes.
+ */
+export const applySyncResult = (notes: Note[], result: SyncResult): Note[] => {
+  if (!hasLocalChanges(result)) return notes;
+
+  const byId = new Map(notes.map(note => [note.id, note]));
+  let changed = false;
+  for (const { note, expectedUpdatedAt } of result.upserts) {
+    const current = byId.get(note.id);
+    if ((current?.updatedAt ?? null) === expectedUpdatedAt) {
+      byId.set(note.id, current ? { ...current, ...note } : note);
+      changed = true;
+    }
+  }
+  for (const { noteId, expectedUpdatedAt } of result.removals) {
+    if (byId.get(noteId)?.updatedAt === expectedUpdatedAt) {
+      byId.delete(noteId);
+      changed = true;
+    }
+  }
+  return changed ? Array.from(byId.values()).sort((a, b) => b.updatedAt - a.updatedAt) : notes;
+};
+
+/**
+ * Whether a sync result has notes to write or remove locally
+ */
+export const hasLocalChanges = (result: SyncResult): boolean =>
+  result.upserts.length > 0 || result.removals.length > 0;
+
+// Export singleton instance
+export const noteSyncService = NoteSyncService.getInstance();
@@ -0,0 +1,343 @@
+import { Project } from '../types';
+import { storageService } from './storageService';
+
+// ============================================================================
+// PROJECT OUTBOX
+// ============================================================================
+// Remote project mutations are queued here and replayed in order. The queue
+// is persisted, so changes made offline (or while Supabase is unreachable)
+// survive reloads and are sent once the connection returns.
+//
+// Every tab of the app shares the queue, but only one tab sends it: the one
+// holding the outbox lock (Web Locks). The others only add to the queue, and
+// the sending tab picks their entries up as they are saved.
+
+export const OUTBOX_STORAGE_KEY = 'stellar-scribe-project-outbox-v1';
+const OUTBOX_LOCK_NAME = 'stellar-scribe-project-outbox';
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60 * 1000;
+
+export type ProjectMutation =
+  | { type: 'createProject'; project: Project }
+  | { type: 'updateProject'; projectId: string; updates: Partial<Project> }
+  | { type: 'deleteProject'; projectId: string }
+  | { type: 'recalculateProjectMetadata'; projectId: string };
+
+export interface OutboxEntry {
+  id: string;
+  mutation: ProjectMutation;
+  enqueuedAt: number;
+  attempts: number;
+  status: 'pending' | 'failed';
+  lastError?: string;
+}
+
+/**
+ * Sends a mutation to the remote. Must throw on failure.
+ */
+export type ProjectMutationExecutor = (mutation: ProjectMutation) => Promise<unknown>;
+
+export type OutboxEvent =
+  | { type: 'changed' }
+  // A mutation could not be sent and will be retried
+  | { type: 'deferred'; entry: OutboxEntry }
+  // A mutation was rejected by the remote and will not be retried automatically
+  | { type: 'failed'; entry: OutboxEntry }
+  // Mutations that had been deferred were sent
+  | { type: 'replayed'; count: number };
+
+export type OutboxListener = (event: OutboxEvent) => void;
+
+const getProjectId = (mutation: ProjectMutation): string =>
+  mutation.type === 'createProject' ? mutation.project.id : mutation.projectId;
+
+const hasProperty = <K extends string>(value: unknown, key: K): value is Record<K, unknown> =>
+  typeof value === 'object' && value !== null && key in value;
+
+const describeError = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (hasProperty(error, 'message')) return String(error.message);
+  return String(error);
+};
+
+/**
+ * Network failures and server-side outages are worth retrying; anything the
+ * remote rejected outright (constraint violations, permissions) is not.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  if (error instanceof TypeError) return true;
+
+  const code = hasProperty(error, 'code') ? error.code : undefined;
+  if (!code) {
+    return /fetch|network|timeout|timed out|offline/i.test(describeError(error));
+  }
+  // Postgres classes: connection exception, insufficient resources, operator intervention
+  return /^(08|53|57)/.test(String(code));
+};
+
+/**
+ * Project Outbox Service
+ */
+export class ProjectOutboxService {
+  private static instance: ProjectOutboxService;
+  private executor: ProjectMutationExecutor | null = null;
+  private listeners: Set<OutboxListener> = new Set();
+  private flushing: Promise<void> | null = null;
+  private flushRequested = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private consecutiveFailures = 0;
+  // Number of entries sent since the queue last got stuck
+  private deferredCount = 0;
+  // Entry currently being sent; it must not be rewritten by `enqueue`
+  private inFlightId: string | null = null;
+  // Whether this tab holds the outbox lock and sends the queue
+  private isSender = false;
+  private lockRequested = false;
+
+  static getInstance(): ProjectOutboxService {
+    if (!ProjectOutboxService.instance) {
+      ProjectOutboxService.instance = new ProjectOutboxService();
+    }
+    return ProjectOutboxService.instance;
+  }
+
+  /**
+   * Start sending queued mutations with the given executor (null stops)
+   */
+  setExecutor(executor: ProjectMutationExecutor | null): void {
+    this.executor = executor;
+    this.clearRetryTimer();
+    if (executor) {
+      this.requestSenderLock();
+      this.flush();
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.executor !== null;
+  }
+
+  getEntries(): OutboxEntry[] {
+    return storageService.getJSON<OutboxEntry[]>(OUTBOX_STORAGE_KEY, []);
+  }
+
+  getCounts(): { pending: number; failed: number } {
+    const entries = this.getEntries();
+    return {
+      pending: entries.filter(entry => entry.status === 'pending').length,
+      failed: entries.filter(entry => entry.status === 'failed').length,
+    };
+  }
+
+  /**
+   * Queue a mutation and try to send it right away. Ignored while disabled.
+   */
+  enqueue(mutation: ProjectMutation): void {
+    if (!this.executor) return;
+
+    let entries = this.getEntries();
+    const projectId = getProjectId(mutation);
+    // Entries that were never attempted can still be rewritten, but only the
+    // sending tab knows which entry is in flight
+    const pendingForProject = this.isSender ? entries.filter(
+      entry => entry.status === 'pending' && entry.attempts === 0 && entry.id !== this.inFlightId &&
+        getProjectId(entry.mutation) === projectId
+    ) : [];
+
+    if (mutation.type === 'deleteProject' && pendingForProject.some(entry => entry.mutation.type === 'createProject')) {
+      // The remote never saw this project, so nothing needs to be sent
+      entries = entries.filter(entry => !pendingForProject.includes(entry));
+    } else if (mutation.type === 'updateProject' && pendingForProject.length > 0) {
+      // Fold into the last pending create/update for the same project
+      const last = pendingForProject[pendingForProject.length - 1];
+      if (last.mutation.type === 'createProject') {
+        last.mutation = { ...last.mutation, project: { ...last.mutation.project, ...mutation.updates } };
+      } else if (last.mutation.type === 'updateProject') {
+        last.mutation = { ...last.mutation, updates: { ...last.mutation.updates, ...mutation.updates } };
+      } else {
+        entries.push(this.createEntry(mutation));
+      }
+    } else {
+      entries.push(this.createEntry(mutation));
+    }
+
+    this.saveEntries(entries);
+    this.flush();
+  }
+
+  /**
+   * Send pending mutations in order. Stops at the first retryable failure so
+   * later mutations never overtake earlier ones.
+   */
+  flush(): Promise<void> {
+    // Other tabs wait for the sending tab to go away
+    if (!this.isSender) return Promise.resolve();
+    this.flushRequested = true;
+    if (!this.flushing) {
+      this.flushing = (async () => {
+        // Requests made while a flush is finishing get their own pass
+        while (this.flushRequested) {
+          this.flushRequested = false;
+          await this.runFlush();
+        }
+      })().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Put failed mutations back in the queue
+   */
+  retryFailed(): void {
+    const entries = this.getEntries().map(entry =>
+      entry.status === 'failed' ? { ...entry, status: 'pending' as const, attempts: 0 } : entry
+    );
+    this.saveEntries(entries);
+    this.flush();
+  }
+
+  /**
+   * Drop failed mutations
+   */
+  discardFailed(): void {
+    this.saveEntries(this.getEntries().filter(entry => entry.status !== 'failed'));
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Ask for the outbox lock. It is granted to one tab at a time and held until
+   * that tab closes, when the next tab in line takes over the queue.
+   */
+  private requestSenderLock(): void {
+    if (this.lockRequested) return;
+    this.lockRequested = true;
+
+    storageService.subscribe((key, _value, origin) => {
+      // Entries added or put back by other tabs
+      if (key === OUTBOX_STORAGE_KEY && origin === 'external' && this.executor) {
+        this.flush();
+      }
+    });
+
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      // No Web Locks: every tab sends, as before
+      this.isSender = true;
+      return;
+    }
+    navigator.locks.request(OUTBOX_LOCK_NAME, () => {
+      this.isSender = true;
+      if (this.executor) this.flush();
+      return new Promise<void>(() => {});
+    }).catch(error => {
+      console.error('Error acquiring the project outbox lock:', error);
+    });
+  }
+
+  private async runFlush(): Promise<void> {
+    this.clearRetryTimer();
+
+    while (this.executor) {
+      const entry = this.getEntries().find(item => item.status === 'pending');
+      if (!entry) break;
+
+      this.inFlightId = entry.id;
+      try {
+        await this.executor(entry.mutation);
+        this.removeEntry(entry.id);
+        if (this.consecutiveFailures > 0) {
+          this.deferredCount++;
+        }
+      } catch (error) {
+        const updated: OutboxEntry = { ...entry, attempts: entry.attempts + 1, lastError: describeError(error) };
+
+        if (isRetryableError(error)) {
+          this.updateEntry(updated);
+          if (this.consecutiveFailures === 0) {
+            this.emit({ type: 'deferred', entry: updated });
+          }
+          this.consecutiveFailures++;
+          // Wait for the retry timer instead of hammering a dead connection
+          this.flushRequested = false;
+          this.scheduleRetry();
+          return;
+        }
+
+        updated.status = 'failed';
+        this.updateEntry(updated);
+        this.emit({ type: 'failed', entry: updated });
+      } finally {
+        this.inFlightId = null;
+      }
+    }
+
+    if (this.consecutiveFailures > 0 && this.deferredCount > 0) {
+      this.emit({ type: 'replayed', count: this.deferredCount });
+    }
+    this.consecutiveFailures = 0;
+    this.deferredCount = 0;
+  }
+
+  private scheduleRetry(): void {
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (this.consecutiveFailures - 1), RETRY_MAX_DELAY_MS);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private createEntry(mutation: ProjectMutation): OutboxEntry {
+    return {
+      id: crypto.randomUUID(),
+      mutation,
+      enqueuedAt: Date.now(),
+      attempts: 0,
+      status: 'pending',
+    };
+  }
+
+  private updateEntry(updated: OutboxEntry): void {
+    this.saveEntries(this.getEntries().map(entry => entry.id === updated.id ? updated : entry));
+  }
+
+  private removeEntry(id: string): void {
+    this.saveEntries(this.getEntries().filter(entry => entry.id !== id));
+  }
+
+  private saveEntries(entries: OutboxEntry[]): void {
+    try {
+      storageService.setJSON(OUTBOX_STORAGE_KEY, entries);
+    } catch (error) {
+      console.error('Error saving project outbox:', error);
+    }
+    this.emit({ type: 'changed' });
+  }
+
+  private emit(event: OutboxEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Project outbox listener error:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const projectOutboxService = ProjectOutboxService.getInstance();
@@ -0,0 +1,871 @@
+// ============================================================================
+// STORAGE LAYER
+// ============================================================================
+// All persisted app data (notes, projects, version history, flags) goes through
+// this service instead of touching window.localStorage directly.
+//
+// Reads are synchronous and served from an in-memory mirror that is hydrated
+// once at startup (see `init()`), so callers such as `useLocalStorage` and
+// `VersionControlService` keep their synchronous APIs. Writes update the
+// mirror immediately and are persisted to the active backend in the background.
+//
+// Other tabs of the app keep their own mirror, so every write is also broadcast
+// to them (BroadcastChannel, or `storage` events on the localStorage backend)
+// and reported to listeners with the 'external' origin.
+//
+// A background write that fails (quota, aborted transaction) is reported to
+// write error listeners, so the app can warn that the change will not survive
+// a reload; `flush()` resolves to false until that key is written again.
+//
+// When a cipher is set (workspace encryption), values of sensitive keys are
+// encrypted on their way to the backend and only held in plain text in the
+// mirror while the workspace is unlocked. Their values are never broadcast:
+// other tabs are told the key once it is stored and read it back themselves.
+//
+// Binary files (attachments) are kept apart from the string values, in a
+// store of their own that is read on demand and never mirrored. Only the
+// IndexedDB and memory backends can hold them.
+
+const DB_NAME = 'stellar-scribe';
+const DB_VERSION = 2;
+const DB_STORE = 'kv';
+const DB_FILE_STORE = 'files';
+
+const TAB_CHANNEL_NAME = 'stellar-scribe-storage';
+
+const MIGRATION_FLAG_KEY = 'stellar-scribe-storage-migrated-v1';
+const KEY_PREFIX = 'stellar-scribe-';
+
+// Small UI preferences that are read straight from localStorage before React
+// mounts (theme) or by components outside the storage layer. They are left in
+// place during migration.
+const LOCAL_ONLY_KEYS = new Set<string>([
+  'stellar-scribe-theme',
+  'stellar-scribe-expanded-projects',
+  'stellar-scribe-expanded-sections',
+]);
+
+// Typical per-origin localStorage limit
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+// Used when the browser cannot estimate IndexedDB quota
+const INDEXED_DB_FALLBACK_QUOTA = 500 * 1024 * 1024;
+
+export type StorageBackendName = 'indexeddb' | 'localstorage' | 'memory';
+
+/**
+ * A key/value store that holds serialized (string) values, and binary files
+ * under keys of their own when `canStoreFiles` is set.
+ * `setItem`/`removeItem` may complete synchronously (and throw synchronously,
+ * e.g. QuotaExceededError) or return a promise.
+ */
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+  readonly canStoreFiles: boolean;
+  open(): Promise<void>;
+  loadAll(): Promise<Array<[string, string]>>;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+  fileKeys(): Promise<string[]>;
+  getFile(key: string): Promise<Blob | null>;
+  setFile(key: string, file: Blob): Promise<void>;
+  removeFile(key: string): Promise<void>;
+  estimateQuota(): Promise<number>;
+}
+
+/**
+ * 'local' changes were made in this tab, 'external' ones in another tab
+ */
+export type StorageChangeOrigin = 'local' | 'external';
+
+export type StorageChangeListener = (key: string, value: string | null, origin: StorageChangeOrigin) => void;
+
+export type StorageWriteErrorListener = (key: string, error: unknown) => void;
+
+/**
+ * Encrypts sensitive values at rest (see `encryptionService`)
+ */
+export interface StorageCipher {
+  isSensitiveKey(key: string): boolean;
+  isEncryptedValue(value: string): boolean;
+  // Whether sensitive values can currently be read and written
+  isUnlocked(): boolean;
+  encrypt(value: string): Promise<string>;
+  decrypt(value: string): Promise<string>;
+  isEncryptedFile(file: Blob): boolean;
+  encryptFile(file: Blob): Promise<Blob>;
+  decryptFile(file: Blob): Promise<Blob>;
+}
+
+interface TabMessage {
+  tabId: string;
+  key: string;
+  value: string | null;
+  // The value was left out and must be read from the backend
+  sealed?: boolean;
+}
+
+/**
+ * localStorage backend (legacy behaviour, used when IndexedDB is unavailable)
+ */
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'localstorage' as const;
+  // Files would have to be stored as text and count against the small quota
+  readonly canStoreFiles = false;
+
+  async open(): Promise<void> {
+    // Nothing to open
+  }
+
+  async loadAll(): Promise<Array<[string, string]>> {
+    const entries: Array<[string, string]> = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key) {
+        const value = localStorage.getItem(key);
+        if (value !== null) entries.push([key, value]);
+      }
+    }
+    return entries;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    localStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    localStorage.removeItem(key);
+  }
+
+  async fileKeys(): Promise<string[]> {
+    return [];
+  }
+
+  async getFile(): Promise<Blob | null> {
+    return null;
+  }
+
+  async setFile(): Promise<void> {
+    throw new Error('localStorage cannot store files');
+  }
+
+  async removeFile(): Promise<void> {
+    // Nothing is ever stored
+  }
+
+  async estimateQuota(): Promise<number> {
+    return LOCAL_STORAGE_QUOTA;
+  }
+}
+
+/**
+ * IndexedDB backend - an object store of string values keyed by the same keys
+ * that were previously used in localStorage, and one of Blobs for files.
+ */
+export class IndexedDBBackend implements StorageBackend {
+  readonly name = 'indexeddb' as const;
+  readonly canStoreFiles = true;
+  private db: IDBDatabase | null = null;
+
+  static isSupported(): boolean {
+    try {
+      return typeof indexedDB !== 'undefined' && indexedDB !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DB_STORE)) {
+          db.createObjectStore(DB_STORE);
+        }
+        if (!db.objectStoreNames.contains(DB_FILE_STORE)) {
+          db.createObjectStore(DB_FILE_STORE);
+        }
+      };
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB open blocked'));
+    });
+  }
+
+  loadAll(): Promise<Array<[string, string]>> {
+    return new Promise((resolve, reject) => {
+      const entries: Array<[string, string]> = [];
+      const request = this.getStore('readonly').openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          if (typeof cursor.value === 'string') {
+            entries.push([String(cursor.key), cursor.value]);
+          }
+          cursor.continue();
+        } else {
+          resolve(entries);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  getItem(key: string): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      const request = this.getStore('readonly').get(key);
+      request.onsuccess = () => resolve(typeof request.result === 'string' ? request.result : null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return this.runWrite(store => store.put(value, key));
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.runWrite(store => store.delete(key));
+  }
+
+  fileKeys(): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      const request = this.getStore('readonly', DB_FILE_STORE).getAllKeys();
+      request.onsuccess = () => resolve(request.result.map(String));
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  getFile(key: string): Promise<Blob | null> {
+    return new Promise((resolve, reject) => {
+      const request = this.getStore('readonly', DB_FILE_STORE).get(key);
+      request.onsuccess = () => resolve(request.result instanceof Blob ? request.result : null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  setFile(key: string, file: Blob): Promise<void> {
+    return this.runWrite(store => store.put(file, key), DB_FILE_STORE);
+  }
+
+  removeFile(key: string): Promise<void> {
+    return this.runWrite(store => store.delete(key), DB_FILE_STORE);
+  }
+
+  async estimateQuota(): Promise<number> {
+    try {
+      if (navigator.storage?.estimate) {
+        const { quota } = await navigator.storage.estimate();
+        if (quota) return quota;
+      }
+    } catch (error) {
+      console.warn('Storage estimate unavailable:', error);
+    }
+    return INDEXED_DB_FALLBACK_QUOTA;
+  }
+
+  private getStore(mode: IDBTransactionMode, name: string = DB_STORE): IDBObjectStore {
+    if (!this.db) {
+      throw new Error('IndexedDB is not open');
+    }
+    return this.db.transaction(name, mode).objectStore(name);
+  }
+
+  private runWrite(operation: (store: IDBObjectStore) => IDBRequest, name: string = DB_STORE): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore('readwrite', name);
+      operation(store);
+      store.transaction.oncomplete = () => resolve();
+      store.transaction.onerror = () => reject(store.transaction.error);
+      store.transaction.onabort = () => reject(store.transaction.error);
+    });
+  }
+}
+
+/**
+ * Non-persistent backend (private browsing fallback and tests)
+ */
+export class MemoryBackend implements StorageBackend {
+  readonly name = 'memory' as const;
+  readonly canStoreFiles = true;
+  private data = new Map<string, string>();
+  private files = new Map<string, Blob>();
+
+  async open(): Promise<void> {}
+
+  async loadAll(): Promise<Array<[string, string]>> {
+    return Array.from(this.data.entries());
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.data.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.data.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.data.delete(key);
+  }
+
+  async fileKeys(): Promise<string[]> {
+    return Array.from(this.files.keys());
+  }
+
+  async getFile(key: string): Promise<Blob | null> {
+    return this.files.get(key) ?? null;
+  }
+
+  async setFile(key: string, file: Blob): Promise<void> {
+    this.files.set(key, file);
+  }
+
+  async removeFile(key: string): Promise<void> {
+    this.files.delete(key);
+  }
+
+  async estimateQuota(): Promise<number> {
+    return Number.MAX_SAFE_INTEGER;
+  }
+}
+
+/**
+ * Storage Service
+ */
+export class StorageService {
+  private static instance: StorageService;
+  private backend: StorageBackend = new LocalStorageBackend();
+  private cache: Map<string, string> = new Map();
+  private listeners: Set<StorageChangeListener> = new Set();
+  private writeErrorListeners: Set<StorageWriteErrorListener> = new Set();
+  // Keys whose last background write failed, so the backend holds an older value
+  private failedKeys: Set<string> = new Set();
+  private pendingWrites: Set<Promise<boolean>> = new Set();
+  // Last pending write per key, so async writes of one key land in order
+  private writeChains: Map<string, Promise<unknown>> = new Map();
+  private cipher: StorageCipher | null = null;
+  private initPromise: Promise<void> | null = null;
+  private quota = LOCAL_STORAGE_QUOTA;
+  private ready = false;
+  private channel: BroadcastChannel | null = null;
+  // Latest re-read of each sealed key from another tab, so older reads are dropped
+  private externalReads: Map<string, number> = new Map();
+  private readonly tabId = crypto.randomUUID();
+
+  static getInstance(): StorageService {
+    if (!StorageService.instance) {
+      StorageService.instance = new StorageService();
+    }
+    return StorageService.instance;
+  }
+
+  /**
+   * Pick a backend, hydrate the in-memory mirror and migrate legacy
+   * localStorage data. Must complete before the app renders.
+   */
+  init(backend?: StorageBackend): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.initialize(backend);
+    }
+    return this.initPromise;
+  }
+
+  private async initialize(preferred?: StorageBackend): Promise<void> {
+    const candidates: StorageBackend[] = preferred
+      ? [preferred]
+      : IndexedDBBackend.isSupported()
+        ? [new IndexedDBBackend(), new LocalStorageBackend()]
+        : [new LocalStorageBackend()];
+
+    for (const candidate of candidates) {
+      try {
+        await candidate.open();
+        const entries = await candidate.loadAll();
+        this.backend = candidate;
+        this.cache = new Map(entries);
+        break;
+      } catch (error) {
+        console.error(`Storage backend "${candidate.name}" unavailable:`, error);
+      }
+    }
+
+    if (this.backend.name === 'indexeddb') {
+      await this.migrateFromLocalStorage();
+    }
+
+    this.quota = await this.backend.estimateQuota();
+    this.connectTabs();
+    this.ready = true;
+  }
+
+  /**
+   * Listen for writes made by other tabs. The memory backend is private to
+   * its tab, so it is never shared.
+   */
+  private connectTabs(): void {
+    if (this.backend.name === 'memory') return;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(TAB_CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<TabMessage>) => {
+        const { tabId, key, value, sealed } = event.data || ({} as TabMessage);
+        if (tabId === this.tabId || typeof key !== 'string') return;
+        if (sealed) {
+          this.readExternalChange(key);
+        } else {
+          this.applyExternalChange(key, value);
+        }
+      };
+    } else if (this.backend.name === 'localstorage') {
+      window.addEventListener('storage', event => {
+        if (event.storageArea !== localStorage || event.key === null) return;
+        this.applyExternalChange(event.key, event.newValue);
+      });
+    }
+  }
+
+  /**
+   * Mirror a write another tab has already persisted
+   */
+  private applyExternalChange(key: string, value: string | null): void {
+    if (this.cipher?.isSensitiveKey(key)) {
+      // Re-read from the backend on unlock instead
+      if (!this.cipher.isUnlocked()) return;
+      // `storage` events carry the value as persisted
+      if (value !== null && this.cipher.isEncryptedValue(value)) {
+        this.cipher.decrypt(value)
+          .then(plain => this.applyExternalChange(key, plain))
+          .catch(error => console.error(`Error decrypting "${key}" from another tab:`, error));
+        return;
+      }
+    }
+    if (this.getItem(key) === value) return;
+    if (value === null) {
+      this.cache.delete(key);
+    } else {
+      this.cache.set(key, value);
+    }
+    this.notify(key, value, 'external');
+  }
+
+  /**
+   * Read a sensitive key another tab has stored. Locked tabs read it on unlock.
+   */
+  private readExternalChange(key: string): void {
+    if (this.cipher && !this.cipher.isUnlocked()) return;
+    const read = (this.externalReads.get(key) ?? 0) + 1;
+    this.externalReads.set(key, read);
+    this.backend.getItem(key)
+      .then(async stored => {
+        const value = stored !== null && this.cipher?.isEncryptedValue(stored) ? await this.cipher.decrypt(stored) : stored;
+        if (this.externalReads.get(key) === read) {
+          this.applyExternalChange(key, value);
+        }
+      })
+      .catch(error => console.error(`Error reading "${key}" changed in another tab:`, error));
+  }
+
+  private broadcast(key: string, value: string | null, sealed = false): void {
+    if (!this.channel) return;
+    try {
+      const message: TabMessage = sealed ? { tabId: this.tabId, key, value: null, sealed } : { tabId: this.tabId, key, value };
+      this.channel.postMessage(message);
+    } catch (error) {
+      console.error('Error broadcasting storage change:', error);
+    }
+  }
+
+  /**
+   * One-time copy of existing localStorage data into the active backend.
+   * Keys are only removed from localStorage once the backend has persisted them.
+   */
+  private async migrateFromLocalStorage(): Promise<void> {
+    if (this.cache.has(MIGRATION_FLAG_KEY)) return;
+
+    const keysToMigrate: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(KEY_PREFIX) && !LOCAL_ONLY_KEYS.has(key)) {
+        keysToMigrate.push(key);
+      }
+    }
+
+    try {
+      for (const key of keysToMigrate) {
+        const value = localStorage.getItem(key);
+        // Never overwrite data that already lives in the new backend
+        if (value === null || this.cache.has(key)) continue;
+        await this.backend.setItem(key, value);
+        this.cache.set(key, value);
+      }
+
+      const flag = JSON.stringify({ migratedAt: Date.now(), keys: keysToMigrate.length });
+      await this.backend.setItem(MIGRATION_FLAG_KEY, flag);
+      this.cache.set(MIGRATION_FLAG_KEY, flag);
+
+      keysToMigrate.forEach(key => localStorage.removeItem(key));
+    } catch (error) {
+      // Leave localStorage untouched so the migration is retried next start
+      console.error('Error migrating localStorage data:', error);
+    }
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  getBackendName(): StorageBackendName {
+    return this.backend.name;
+  }
+
+  /**
+   * Approximate number of bytes available to the active backend
+   */
+  getQuota(): number {
+    return this.quota;
+  }
+
+  getItem(key: string): string | null {
+    return this.cache.has(key) ? this.cache.get(key)! : null;
+  }
+
+  /**
+   * Store a serialized value. Synchronous backends (localStorage) throw on
+   * failure, so callers can keep handling QuotaExceededError as before.
+   */
+  setItem(key: string, value: string): void {
+    if (this.cipher?.isSensitiveKey(key) && !this.cipher.isUnlocked()) {
+      console.error(`Cannot write "${key}" while the workspace is locked`);
+      return;
+    }
+    this.writeToBackend(key, value);
+    this.cache.set(key, value);
+    if (!this.cipher?.isSensitiveKey(key)) {
+      this.broadcast(key, value);
+    }
+    this.notify(key, value, 'local');
+  }
+
+  removeItem(key: string): void {
+    if (!this.cache.has(key)) return;
+    if (this.cipher?.isSensitiveKey(key) && !this.cipher.isUnlocked()) {
+      console.error(`Cannot remove "${key}" while the workspace is locked`);
+      return;
+    }
+    this.persist(key, () => this.backend.removeItem(key));
+    this.cache.delete(key);
+    this.broadcast(key, null);
+    this.notify(key, null, 'local');
+  }
+
+  /**
+   * Read and parse a JSON value
+   */
+  getJSON<T>(key: string, fallback: T): T {
+    const item = this.getItem(key);
+    // Check if item is a non-empty string before parsing
+    if (item === null || item === 'undefined' || item === '') return fallback;
+    try {
+      return JSON.parse(item) as T;
+    } catch (error) {
+      console.error(`Error parsing stored value for ${key}:`, error);
+      return fallback;
+    }
+  }
+
+  setJSON<T>(key: string, value: T): void {
+    this.setItem(key, JSON.stringify(value));
+  }
+
+  /**
+   * All keys, optionally limited to a prefix
+   */
+  keys(prefix?: string): string[] {
+    const all = Array.from(this.cache.keys());
+    return prefix ? all.filter(key => key.startsWith(prefix)) : all;
+  }
+
+  /**
+   * Size in bytes of a stored value (0 if missing)
+   */
+  getItemSize(key: string): number {
+    const value = this.getItem(key);
+    return value === null ? 0 : new Blob([value]).size;
+  }
+
+  /**
+   * Subscribe to changes made through this service, in this tab or another
+   * one. Returns an unsubscribe function.
+   */
+  subscribe(listener: StorageChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to background writes that failed to persist. Returns an
+   * unsubscribe function.
+   */
+  onWriteError(listener: StorageWriteErrorListener): () => void {
+    this.writeErrorListeners.add(listener);
+    return () => {
+      this.writeErrorListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Keys whose latest value could not be persisted
+   */
+  getFailedKeys(): string[] {
+    return Array.from(this.failedKeys);
+  }
+
+  // ==========================================================================
+  // FILES
+  // ==========================================================================
+  // Files are read from the backend when asked for and not kept in the mirror
+  // or broadcast. Writers store a file before the value that points to it, so
+  // another tab told about the value can already read the file.
+
+  /**
+   * Whether the active backend can hold binary files
+   */
+  canStoreFiles(): boolean {
+    return this.backend.canStoreFiles;
+  }
+
+  /**
+   * Read a stored file, decrypted. Null if it is missing, cannot be read or
+   * the workspace is locked.
+   */
+  async getFile(key: string): Promise<Blob | null> {
+    if (!this.backend.canStoreFiles) return null;
+    const cipher = this.cipher;
+    if (cipher?.isSensitiveKey(key) && !cipher.isUnlocked()) return null;
+    try {
+      const file = await this.backend.getFile(key);
+      return file && cipher?.isEncryptedFile(file) ? await cipher.decryptFile(file) : file;
+    } catch (error) {
+      console.error(`Error reading file "${key}":`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a file. Resolves to false if the backend cannot hold files, the
+   * workspace is locked or the write failed.
+   */
+  setFile(key: string, file: Blob): Promise<boolean> {
+    if (!this.backend.canStoreFiles) {
+      console.error(`Cannot store file "${key}": ${this.backend.name} storage does not hold files`);
+      return Promise.resolve(false);
+    }
+    const cipher = this.cipher;
+    if (cipher?.isSensitiveKey(key)) {
+      if (!cipher.isUnlocked()) {
+        console.error(`Cannot write "${key}" while the workspace is locked`);
+        return Promise.resolve(false);
+      }
+      // Encrypt with the current key now; the workspace may lock before the write runs
+      const encrypted = cipher.encryptFile(file);
+      return this.persistFile(key, async () => this.backend.setFile(key, await encrypted));
+    }
+    return this.persistFile(key, () => this.backend.setFile(key, file));
+  }
+
+  removeFile(key: string): Promise<boolean> {
+    if (!this.backend.canStoreFiles) return Promise.resolve(true);
+    if (this.cipher?.isSensitiveKey(key) && !this.cipher.isUnlocked()) {
+      console.error(`Cannot remove "${key}" while the workspace is locked`);
+      return Promise.resolve(false);
+    }
+    return this.persistFile(key, () => this.backend.removeFile(key));
+  }
+
+  /**
+   * Keys of every stored file
+   */
+  async fileKeys(): Promise<string[]> {
+    try {
+      return await this.backend.fileKeys();
+    } catch (error) {
+      console.error('Error listing stored files:', error);
+      return [];
+    }
+  }
+
+  // File writes report failure to their caller, and flush waits for them
+  private persistFile(key: string, write: () => Promise<void>): Promise<boolean> {
+    const pending: Promise<boolean> = write()
+      .then(() => true)
+      .catch(error => {
+        console.error(`Failed to persist file "${key}" to ${this.backend.name}:`, error);
+        return false;
+      })
+      .finally(() => {
+        this.pendingWrites.delete(pending);
+      });
+    this.pendingWrites.add(pending);
+    return pending;
+  }
+
+  // ==========================================================================
+  // ENCRYPTION AT REST
+  // ==========================================================================
+
+  setCipher(cipher: StorageCipher | null): void {
+    this.cipher = cipher;
+  }
+
+  /**
+   * Drop the plain text of sensitive keys from the mirror (on lock). Their
+   * encrypted values stay in the backend.
+   */
+  seal(): void {
+    if (!this.cipher) return;
+    for (const key of this.keys()) {
+      if (this.cipher.isSensitiveKey(key)) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Read sensitive keys back from the backend and decrypt them into the
+   * mirror (on unlock). Values still stored in plain text are encrypted.
+   * Resolves to false if any value could not be decrypted.
+   */
+  async unseal(): Promise<boolean> {
+    const cipher = this.cipher;
+    if (!cipher?.isUnlocked()) return false;
+
+    await this.flush();
+    let success = true;
+    for (const [key, value] of await this.backend.loadAll()) {
+      if (!cipher.isSensitiveKey(key)) continue;
+      if (!cipher.isEncryptedValue(value)) {
+        this.cache.set(key, value);
+        this.writeToBackend(key, value);
+        continue;
+      }
+      try {
+        this.cache.set(key, await cipher.decrypt(value));
+      } catch (error) {
+        console.error(`Error decrypting "${key}":`, error);
+        success = false;
+      }
+    }
+    return success;
+  }
+
+  /**
+   * Write every sensitive key and file again through the current cipher, e.g.
+   * after encryption is turned on or off or the passphrase changed.
+   * `readFile` turns a stored file back into plain data, as the previous
+   * cipher wrote it.
+   */
+  async rewriteSensitive(
+    isSensitiveKey: (key: string) => boolean,
+    readFile: (file: Blob) => Promise<Blob> = async file => file
+  ): Promise<void> {
+    for (const key of this.keys()) {
+      if (isSensitiveKey(key)) {
+        this.writeToBackend(key, this.getItem(key)!);
+      }
+    }
+    // One at a time, so only one file is held in memory
+    for (const key of await this.fileKeys()) {
+      if (!isSensitiveKey(key)) continue;
+      try {
+        const stored = await this.backend.getFile(key);
+        if (stored) await this.setFile(key, await readFile(stored));
+      } catch (error) {
+        console.error(`Error rewriting file "${key}":`, error);
+      }
+    }
+    await this.flush();
+  }
+
+  private writeToBackend(key: string, value: string): void {
+    if (this.cipher?.isSensitiveKey(key)) {
+      // Encrypt with the current key now; the workspace may lock before the write runs
+      const encrypted = this.cipher.encrypt(value);
+      this.persist(key, async () => {
+        await this.backend.setItem(key, await encrypted);
+        this.broadcast(key, null, true);
+      });
+    } else {
+      this.persist(key, () => this.backend.setItem(key, value));
+    }
+  }
+
+  /**
+   * Resolve once every write issued so far has finished: true if the backend
+   * holds every value, false if a write failed
+   */
+  async flush(): Promise<boolean> {
+    await Promise.all(Array.from(this.pendingWrites));
+    return this.failedKeys.size === 0;
+  }
+
+  private persist(key: string, write: () => void | Promise<void>): void {
+    const previous = this.writeChains.get(key);
+    const result = previous ? previous.then(write) : write();
+    if (result instanceof Promise) {
+      const pending: Promise<boolean> = result
+        .then(() => {
+          this.failedKeys.delete(key);
+          return true;
+        })
+        .catch(error => {
+          console.error(`Failed to persist "${key}" to ${this.backend.name}:`, error);
+          this.failedKeys.add(key);
+          this.notifyWriteError(key, error);
+          return false;
+        })
+        .finally(() => {
+          this.pendingWrites.delete(pending);
+          if (this.writeChains.get(key) === pending) {
+            this.writeChains.delete(key);
+          }
+        });
+      this.pendingWrites.add(pending);
+      this.writeChains.set(key, pending);
+    } else {
+      this.failedKeys.delete(key);
+    }
+  }
+
+  private notifyWriteError(key: string, error: unknown): void {
+    this.writeErrorListeners.forEach(listener => {
+      try {
+        listener(key, error);
+      } catch (listenerError) {
+        console.error('Storage write error listener error:', listenerError);
+      }
+    });
+  }
+
+  private notify(key: string, value: string | null, origin: StorageChangeOrigin): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(key, value, origin);
+      } catch (error) {
+        console.error('Storage listener error:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const storageService = StorageService.getInstance();
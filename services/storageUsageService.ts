@@ -0,0 +1,323 @@
+import { Note, Project } from '../types';
+import { storageService, StorageBackendName } from './storageService';
+import { versionControlService, VERSION_STORAGE_KEY, VersionSummary } from './versionControlService';
+import { migrationService, NOTES_STORAGE_KEY, PROJECTS_STORAGE_KEY } from './migrationService';
+import { TrashService, TRASH_STORAGE_KEY } from './trashService';
+import { AttachmentService, ATTACHMENT_KEY_PREFIX } from './attachmentService';
+import { UNDO_HISTORY_KEY_PREFIX } from './undoHistoryService';
+
+// ============================================================================
+// STORAGE USAGE
+// ============================================================================
+// Breaks down what the workspace stores and plans cleanups. A cleanup is
+// always planned first, so the user can review exactly which versions go,
+// and then applied from that plan.
+
+const KEY_PREFIX = 'stellar-scribe-';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How many entries the "largest" lists show
+const LARGEST_LIMIT = 10;
+
+export interface NoteStorageUsage {
+  noteId: string;
+  title: string;
+  projectId: string | null;
+  noteSize: number;
+  historySize: number;
+  versionCount: number;
+}
+
+export interface ProjectStorageUsage {
+  // null for notes without a project
+  projectId: string | null;
+  title: string;
+  noteCount: number;
+  noteSize: number;
+  historySize: number;
+}
+
+export interface OrphanedHistoryUsage {
+  noteId: string;
+  historySize: number;
+  versionCount: number;
+}
+
+export interface StorageUsageReport {
+  backend: StorageBackendName;
+  quota: number;
+  totalSize: number;
+  categories: {
+    notes: number;
+    projects: number;
+    versionHistories: number;
+    attachments: number;
+    undoHistories: number;
+    trash: number;
+    other: number;
+  };
+  // Share of the version history budget in use; cleanup kicks in automatically past the threshold
+  versionBudget: {
+    used: number;
+    max: number;
+    usagePercent: number;
+    needsCleanup: boolean;
+  };
+  notes: NoteStorageUsage[];
+  projects: ProjectStorageUsage[];
+  largestNotes: NoteStorageUsage[];
+  largestHistories: NoteStorageUsage[];
+  // Histories left behind by notes that no longer exist (notes in the trash keep theirs)
+  orphanedHistories: OrphanedHistoryUsage[];
+  migrationBackupSize: number;
+}
+
+export type CleanupAction =
+  | { type: 'trim-histories'; keepPerNote: number }
+  | { type: 'remove-old-versions'; olderThanDays: number }
+  | { type: 'remove-orphaned-histories' }
+  | { type: 'clear-note-history'; noteId: string }
+  | { type: 'remove-migration-backup' };
+
+export interface HistoryCleanup {
+  noteId: string;
+  title: string;
+  // The whole history goes, not just some versions
+  removesHistory: boolean;
+  versions: VersionSummary[];
+  bytesFreed: number;
+}
+
+export interface CleanupPlan {
+  action: CleanupAction;
+  histories: HistoryCleanup[];
+  versionCount: number;
+  removesMigrationBackup: boolean;
+  bytesFreed: number;
+}
+
+export interface CleanupResult {
+  versionsRemoved: number;
+  bytesFreed: number;
+}
+
+const getByteSize = (text: string): number => new Blob([text]).size;
+
+/**
+ * Storage Usage Service
+ */
+export class StorageUsageService {
+  /**
+   * Measure everything the workspace stores
+   */
+  static getUsageReport(notes: Note[], projects: Project[]): StorageUsageReport {
+    let totalSize = 0;
+    let versionHistories = 0;
+    let attachments = 0;
+    let undoHistories = 0;
+    for (const key of storageService.keys(KEY_PREFIX)) {
+      let size = storageService.getItemSize(key);
+      if (key.startsWith(ATTACHMENT_KEY_PREFIX)) {
+        // The record points to a file stored apart from it
+        size += AttachmentService.getStoredFileSize(key.slice(ATTACHMENT_KEY_PREFIX.length));
+      }
+      totalSize += size;
+      if (key.startsWith(`${VERSION_STORAGE_KEY}-`)) {
+        versionHistories += size;
+      } else if (key.startsWith(ATTACHMENT_KEY_PREFIX)) {
+        attachments += size;
+      } else if (key.startsWith(UNDO_HISTORY_KEY_PREFIX)) {
+        undoHistories += size;
+      }
+    }
+    const notesSize = storageService.getItemSize(NOTES_STORAGE_KEY);
+    const projectsSize = storageService.getItemSize(PROJECTS_STORAGE_KEY);
+    const trashSize = storageService.getItemSize(TRASH_STORAGE_KEY);
+
+    const noteIds = new Set([...notes.map(note => note.id), ...TrashService.getTrashedNoteIds()]);
+    const noteUsage: NoteStorageUsage[] = notes.map(note => {
+      const history = versionControlService.getHistorySummary(note.id);
+      return {
+        noteId: note.id,
+        title: note.title || 'Untitled',
+        projectId: note.projectId ?? null,
+        noteSize: getByteSize(JSON.stringify(note)),
+        historySize: history.storedSize,
+        versionCount: history.versions.length,
+      };
+    });
+
+    const orphanedHistories: OrphanedHistoryUsage[] = versionControlService
+      .getVersionedNoteIds()
+      .filter(noteId => !noteIds.has(noteId))
+      .map(noteId => {
+        const history = versionControlService.getHistorySummary(noteId);
+        return { noteId, historySize: history.storedSize, versionCount: history.versions.length };
+      })
+      .sort((a, b) => b.historySize - a.historySize);
+
+    const { totalSize: versionBytes } = versionControlService.getStorageSize();
+    const quotaStatus = versionControlService.checkStorageQuota();
+
+    return {
+      backend: storageService.getBackendName(),
+      quota: storageService.getQuota(),
+      totalSize,
+      categories: {
+        notes: notesSize,
+        projects: projectsSize,
+        versionHistories,
+        attachments,
+        undoHistories,
+        trash: trashSize,
+        other: Math.max(0, totalSize - notesSize - projectsSize - versionHistories - attachments - undoHistories - trashSize),
+      },
+      versionBudget: {
+        used: versionBytes,
+        max: versionControlService.getMaxStorageSize(),
+        usagePercent: quotaStatus.usagePercent,
+        needsCleanup: quotaStatus.needsCleanup,
+      },
+      notes: noteUsage,
+      projects: StorageUsageService.groupByProject(noteUsage, projects),
+      largestNotes: [...noteUsage].sort((a, b) => b.noteSize - a.noteSize).slice(0, LARGEST_LIMIT),
+      largestHistories: noteUsage
+        .filter(usage => usage.historySize > 0)
+        .sort((a, b) => b.historySize - a.historySize)
+        .slice(0, LARGEST_LIMIT),
+      orphanedHistories,
+      migrationBackupSize: migrationService.getBackupSize(),
+    };
+  }
+
+  /**
+   * Work out exactly what a cleanup would remove, without removing anything
+   */
+  static planCleanup(action: CleanupAction, notes: Note[]): CleanupPlan {
+    const titles = new Map(notes.map(note => [note.id, note.title || 'Untitled']));
+    const trashedNoteIds = new Set(TrashService.getTrashedNoteIds());
+    const histories: HistoryCleanup[] = [];
+
+    const planRemoval = (noteId: string, select: (versions: VersionSummary[]) => VersionSummary[]) => {
+      const history = versionControlService.getHistorySummary(noteId);
+      const removed = select(history.versions);
+      if (removed.length === 0) return;
+
+      const removesHistory = removed.length === history.versions.length;
+      const removedNumbers = new Set(removed.map(version => version.version));
+      const bytesFreed = removesHistory
+        ? history.storedSize
+        : history.storedSize - versionControlService.estimateHistorySize(
+            versionControlService.getNoteVersions(noteId).filter(version => !removedNumbers.has(version.version))
+          );
+
+      histories.push({
+        noteId,
+        title: titles.get(noteId) ?? 'Deleted note',
+        removesHistory,
+        versions: removed,
+        bytesFreed: Math.max(0, bytesFreed),
+      });
+    };
+
+    switch (action.type) {
+      case 'trim-histories': {
+        // Histories are newest first; the newest version is always kept
+        const keep = Math.max(1, action.keepPerNote);
+        versionControlService.getVersionedNoteIds().forEach(noteId =>
+          planRemoval(noteId, versions => versions.slice(keep))
+        );
+        break;
+      }
+      case 'remove-old-versions': {
+        const cutoff = Date.now() - action.olderThanDays * DAY_MS;
+        versionControlService.getVersionedNoteIds().forEach(noteId =>
+          planRemoval(noteId, versions => versions.slice(1).filter(version => version.createdAt < cutoff))
+        );
+        break;
+      }
+      case 'remove-orphaned-histories':
+        versionControlService.getVersionedNoteIds()
+          .filter(noteId => !titles.has(noteId) && !trashedNoteIds.has(noteId))
+          .forEach(noteId => planRemoval(noteId, versions => versions));
+        break;
+      case 'clear-note-history':
+        planRemoval(action.noteId, versions => versions);
+        break;
+      case 'remove-migration-backup':
+        break;
+    }
+
+    histories.sort((a, b) => b.bytesFreed - a.bytesFreed);
+    const removesMigrationBackup = action.type === 'remove-migration-backup' && migrationService.getBackupSize() > 0;
+
+    return {
+      action,
+      histories,
+      versionCount: histories.reduce((sum, history) => sum + history.versions.length, 0),
+      removesMigrationBackup,
+      bytesFreed: histories.reduce((sum, history) => sum + history.bytesFreed, 0) +
+        (removesMigrationBackup ? migrationService.getBackupSize() : 0),
+    };
+  }
+
+  /**
+   * Remove exactly the versions listed in a plan. Versions saved since the
+   * plan was made are never touched.
+   */
+  static applyCleanup(plan: CleanupPlan): CleanupResult {
+    const sizeBefore = StorageUsageService.getStoredSize();
+    let versionsRemoved = 0;
+
+    for (const history of plan.histories) {
+      try {
+        versionsRemoved += versionControlService.deleteVersions(
+          history.noteId,
+          history.versions.map(version => version.version)
+        );
+      } catch (error) {
+        console.error(`Error cleaning up versions for note ${history.noteId}:`, error);
+      }
+    }
+
+    if (plan.removesMigrationBackup) {
+      migrationService.deleteBackup();
+    }
+
+    return {
+      versionsRemoved,
+      bytesFreed: Math.max(0, sizeBefore - StorageUsageService.getStoredSize()),
+    };
+  }
+
+  private static getStoredSize(): number {
+    return storageService.keys(KEY_PREFIX).reduce((sum, key) => sum + storageService.getItemSize(key), 0);
+  }
+
+  private static groupByProject(noteUsage: NoteStorageUsage[], projects: Project[]): ProjectStorageUsage[] {
+    const projectTitles = new Map(projects.map(project => [project.id, project.title]));
+    const groups = new Map<string | null, ProjectStorageUsage>();
+
+    for (const usage of noteUsage) {
+      // Notes pointing at a deleted project count as unorganized
+      const projectId = usage.projectId && projectTitles.has(usage.projectId) ? usage.projectId : null;
+      let group = groups.get(projectId);
+      if (!group) {
+        group = {
+          projectId,
+          title: projectId ? projectTitles.get(projectId)! : 'No project',
+          noteCount: 0,
+          noteSize: 0,
+          historySize: 0,
+        };
+        groups.set(projectId, group);
+      }
+      group.noteCount++;
+      group.noteSize += usage.noteSize;
+      group.historySize += usage.historySize;
+    }
+
+    return Array.from(groups.values()).sort((a, b) =>
+      (b.noteSize + b.historySize) - (a.noteSize + a.historySize)
+    );
+  }
+}
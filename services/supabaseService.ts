@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import { Note, Project } from '../types';
+import { NoteSyncRemote, PushResult, RemoteNoteRecord, SyncBase } from './noteSyncService';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -57,33 +58,35 @@ export const getNote = async (id: string): Promise<Note | null> => {
 // =====================================================
 
 /**
- * Create a new project
+ * Create a new project. Pass `id` to keep the locally generated ID; creating
+ * the same ID twice is treated as success so queued retries are safe.
+ * Mutations throw on failure so the project outbox can retry them.
  */
-export const createProject = async (project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>): Promise<Project | null> => {
-  try {
-    const { data, error } = await supabase
-      .from('projects')
-      .insert([{
-        title: project.title,
-        description: project.description,
-        color: project.color,
-        icon: project.icon,
-        is_pinned: project.isPinned,
-        is_archived: project.isArchived,
-        settings: project.settings,
-        note_count: project.noteCount || 0,
-        last_activity_at: new Date(project.lastActivityAt).toISOString(),
-      }])
-      .select()
-      .single();
-
-    if (error) throw error;
-
-    return data ? convertSupabaseProject(data) : null;
-  } catch (error) {
-    console.error('Error creating project:', error);
-    return null;
+export const createProject = async (project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }): Promise<Project | null> => {
+  const { data, error } = await supabase
+    .from('projects')
+    .insert([{
+      ...(project.id ? { id: project.id } : {}),
+      title: project.title,
+      description: project.description,
+      color: project.color,
+      icon: project.icon,
+      is_pinned: project.isPinned,
+      is_archived: project.isArchived,
+      settings: project.settings,
+      note_count: project.noteCount || 0,
+      last_activity_at: new Date(project.lastActivityAt).toISOString(),
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    // Already created by an earlier attempt
+    if (error.code === '23505' && project.id) return getProject(project.id);
+    throw error;
   }
+
+  return data ? convertSupabaseProject(data) : null;
 };
 
 /**
@@ -130,70 +133,55 @@ export const getProject = async (id: string): Promise<Project | null> => {
  * Update a project
  */
 export const updateProject = async (id: string, updates: Partial<Project>): Promise<Project | null> => {
-  try {
-    const supabaseUpdates: any = {
-      updated_at: new Date().toISOString(),
-    };
+  const supabaseUpdates: any = {
+    updated_at: new Date().toISOString(),
+  };
 
-    if (updates.title !== undefined) supabaseUpdates.title = updates.title;
-    if (updates.description !== undefined) supabaseUpdates.description = updates.description;
-    if (updates.color !== undefined) supabaseUpdates.color = updates.color;
-    if (updates.icon !== undefined) supabaseUpdates.icon = updates.icon;
-    if (updates.isPinned !== undefined) supabaseUpdates.is_pinned = updates.isPinned;
-    if (updates.isArchived !== undefined) supabaseUpdates.is_archived = updates.isArchived;
-    if (updates.settings !== undefined) supabaseUpdates.settings = updates.settings;
+  if (updates.title !== undefined) supabaseUpdates.title = updates.title;
+  if (updates.description !== undefined) supabaseUpdates.description = updates.description;
+  if (updates.color !== undefined) supabaseUpdates.color = updates.color;
+  if (updates.icon !== undefined) supabaseUpdates.icon = updates.icon;
+  if (updates.isPinned !== undefined) supabaseUpdates.is_pinned = updates.isPinned;
+  if (updates.isArchived !== undefined) supabaseUpdates.is_archived = updates.isArchived;
+  if (updates.settings !== undefined) supabaseUpdates.settings = updates.settings;
 
-    const { data, error } = await supabase
-      .from('projects')
-      .update(supabaseUpdates)
-      .eq('id', id)
-      .select()
-      .single();
+  const { data, error } = await supabase
+    .from('projects')
+    .update(supabaseUpdates)
+    .eq('id', id)
+    .select()
+    .single();
 
-    if (error) throw error;
+  if (error) throw error;
 
-    return data ? convertSupabaseProject(data) : null;
-  } catch (error) {
-    console.error('Error updating project:', error);
-    return null;
-  }
+  return data ? convertSupabaseProject(data) : null;
 };
 
 /**
  * Delete a project
  */
 export const deleteProject = async (id: string): Promise<boolean> => {
-  try {
-    const { error } = await supabase
-      .from('projects')
-      .delete()
-      .eq('id', id);
+  const { error } = await supabase
+    .from('projects')
+    .delete()
+    .eq('id', id);
 
-    if (error) throw error;
+  if (error) throw error;
 
-    return true;
-  } catch (error) {
-    console.error('Error deleting project:', error);
-    return false;
-  }
+  return true;
 };
 
 /**
  * Recalculate project metadata (note count, last activity)
  */
 export const recalculateProjectMetadata = async (projectId: string): Promise<boolean> => {
-  try {
-    const { error } = await supabase.rpc('recalculate_project_metadata', {
-      project_uuid: projectId,
-    });
+  const { error } = await supabase.rpc('recalculate_project_metadata', {
+    project_uuid: projectId,
+  });
 
-    if (error) throw error;
+  if (error) throw error;
 
-    return true;
-  } catch (error) {
-    console.error('Error recalculating project metadata:', error);
-    return false;
-  }
+  return true;
 };
 
 /**
@@ -216,6 +204,119 @@ function convertSupabaseProject(data: any): Project {
   };
 }
 
+// =====================================================
+// Note Sync Functions
+// =====================================================
+// Unlike the CRUD helpers above, these throw on failure so the sync engine
+// can report the error and retry later.
+
+/**
+ * Get synced notes written after the given revision
+ */
+export const fetchNotesChangedSince = async (sinceRevision: number): Promise<RemoteNoteRecord[]> => {
+  const { data, error } = await supabase
+    .from('synced_notes')
+    .select('*')
+    .gt('revision', sinceRevision)
+    .order('revision', { ascending: true });
+
+  if (error) throw error;
+
+  return data ? data.map(convertSupabaseSyncedNote) : [];
+};
+
+/**
+ * Write a note (or a tombstone when `note` is null) only if the remote row
+ * still matches `base`. Returns the current remote row on mismatch.
+ */
+export const pushSyncedNote = async (id: string, note: Note | null, base: SyncBase | null): Promise<PushResult> => {
+  const row = {
+    data: note,
+    updated_at: note ? note.updatedAt : Date.now(),
+    version: note ? note.version ?? 0 : 0,
+    deleted: !note,
+  };
+
+  if (base) {
+    const { data, error } = await supabase
+      .from('synced_notes')
+      .update(row)
+      .eq('id', id)
+      .eq('updated_at', base.updatedAt)
+      .eq('version', base.version)
+      .select();
+
+    if (error) throw error;
+    if (data && data.length === 1) {
+      return { status: 'ok', record: convertSupabaseSyncedNote(data[0]) };
+    }
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('synced_notes')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+  if (existing) {
+    return { status: 'conflict', remote: convertSupabaseSyncedNote(existing) };
+  }
+
+  const { data, error } = await supabase
+    .from('synced_notes')
+    .insert([{ id, ...row }])
+    .select()
+    .single();
+
+  if (error) {
+    // Another device inserted the same note first
+    if (error.code === '23505') return pushSyncedNote(id, note, base);
+    throw error;
+  }
+
+  return { status: 'ok', record: convertSupabaseSyncedNote(data) };
+};
+
+/**
+ * Subscribe to synced note changes
+ */
+export const subscribeToSyncedNotes = (callback: (payload: any) => void) => {
+  return supabase
+    .channel('synced_notes')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'synced_notes' }, callback)
+    .subscribe();
+};
+
+/**
+ * Convert a Supabase synced_notes row to a sync record
+ */
+function convertSupabaseSyncedNote(data: any): RemoteNoteRecord {
+  return {
+    id: data.id,
+    note: data.deleted ? null : data.data,
+    updatedAt: Number(data.updated_at),
+    version: data.version ?? 0,
+    deleted: !!data.deleted,
+    revision: Number(data.revision),
+  };
+}
+
+/**
+ * Note sync transport backed by the `synced_notes` table
+ */
+export const supabaseNoteRemote: NoteSyncRemote = {
+  name: 'supabase',
+  pullChanges: fetchNotesChangedSince,
+  pushNote: pushSyncedNote,
+  subscribe: (onChange) => {
+    const channel = subscribeToSyncedNotes(() => onChange());
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+};
+
 // =====================================================
 // Sync Functions (for future use with real-time sync)
 // =====================================================
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { TaskService } from './taskService';
+
+const note = (...lines: string[]) => lines.join('\n');
+
+// Toggle the n-th task, the way a click on the n-th preview checkbox does
+const toggleNth = (content: string, n: number) => TaskService.toggleTask(content, TaskService.getTasks(content)[n].line);
+
+describe('TaskService.getTasks', () => {
+  it('reads tasks of every list marker', () => {
+    const tasks = TaskService.getTasks(note('- [ ] dash', '* [x] star', '+ [X] plus', '1. [ ] one', '2) [ ] two'));
+    expect(tasks.map(({ checked, text }) => [checked, text])).toEqual([
+      [false, 'dash'],
+      [true, 'star'],
+      [true, 'plus'],
+      [false, 'one'],
+      [false, 'two'],
+    ]);
+  });
+
+  it('reads due dates and leaves them out of the text', () => {
+    expect(TaskService.getTasks('- [ ] Call Sam @due(2025-03-14) today')).toEqual([
+      { line: 0, checked: false, text: 'Call Sam today', due: '2025-03-14' },
+    ]);
+  });
+
+  it('skips front matter, fenced code and items without a checkbox', () => {
+    const content = note('---', 'tags: [a]', '---', '- [ ] real', '```', '- [ ] code', '```', '- plain', '-[ ] squashed');
+    expect(TaskService.getTasks(content).map(({ line }) => line)).toEqual([3]);
+  });
+});
+
+describe('TaskService.toggleTask', () => {
+  it('ticks and unticks tasks with any list marker', () => {
+    expect(TaskService.toggleTask('* [ ] star', 0)).toBe('* [x] star');
+    expect(TaskService.toggleTask('+ [x] plus', 0)).toBe('+ [ ] plus');
+    expect(TaskService.toggleTask('+ [X] plus', 0)).toBe('+ [ ] plus');
+    expect(TaskService.toggleTask('3) [ ] three', 0)).toBe('3) [x] three');
+  });
+
+  it('toggles only the given one of duplicate tasks', () => {
+    const content = note('- [ ] Same', '- [ ] Same', '- [ ] Same');
+    expect(toggleNth(content, 1)).toBe(note('- [ ] Same', '- [x] Same', '- [ ] Same'));
+    expect(toggleNth(toggleNth(content, 2)!, 0)).toBe(note('- [x] Same', '- [ ] Same', '- [x] Same'));
+  });
+
+  it('toggles a nested task without its parent or children', () => {
+    const content = note('- [ ] Parent', '  - [ ] Child', '    * [x] Grandchild', '> - [ ] Quoted');
+    expect(toggleNth(content, 1)).toBe(note('- [ ] Parent', '  - [x] Child', '    * [x] Grandchild', '> - [ ] Quoted'));
+    expect(toggleNth(content, 2)).toBe(note('- [ ] Parent', '  - [ ] Child', '    * [ ] Grandchild', '> - [ ] Quoted'));
+    expect(toggleNth(content, 3)).toBe(note('- [ ] Parent', '  - [ ] Child', '    * [x] Grandchild', '> - [x] Quoted'));
+  });
+
+  it('keeps the task numbering in step with the preview after fenced code', () => {
+    const content = note('```', '- [ ] code', '```', '- [ ] first', '- [ ] second');
+    expect(toggleNth(content, 1)).toBe(note('```', '- [ ] code', '```', '- [ ] first', '- [x] second'));
+  });
+
+  it('leaves lines that are not tasks alone', () => {
+    expect(TaskService.toggleTask('- plain', 0)).toBeNull();
+    expect(TaskService.toggleTask('- [ ] task', 3)).toBeNull();
+  });
+});
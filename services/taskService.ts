@@ -0,0 +1,105 @@
+import { Note, Project } from '../types';
+import { FrontMatterService } from './frontMatterService';
+
+// ============================================================================
+// TASKS
+// ============================================================================
+// Task list items (`- [ ] Call Sam`, `1. [x] Ship it`) in every note. A task
+// can carry a due date as `@due(2025-03-14)` anywhere in its text. Tasks are
+// found the way the preview renders them, leaving out front matter and
+// fenced code, so the n-th task is the n-th checkbox in the preview.
+
+export interface NoteTask {
+  // 0-based line of the task in the note
+  line: number;
+  checked: boolean;
+  // Task text without the checkbox and due date
+  text: string;
+  // YYYY-MM-DD
+  due?: string;
+}
+
+export interface TaskGroup {
+  // null for notes outside any project
+  projectId: string | null;
+  title: string;
+  notes: Array<{ note: Note; tasks: NoteTask[] }>;
+}
+
+export type TaskDueStatus = 'overdue' | 'today' | 'upcoming';
+
+const TASK_PATTERN = /^(\s*(?:>\s?)*\s*(?:[-*+]|\d{1,9}[.)])\s+\[)([ xX])(\] )(.*)$/;
+const DUE_PATTERN = /@due\((\d{4}-\d{2}-\d{2})\)/;
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Task Service
+ */
+export class TaskService {
+  static getTasks(content: string): NoteTask[] {
+    const lines = content.split('\n');
+    const tasks: NoteTask[] = [];
+    let inFence = false;
+
+    for (let line = FrontMatterService.parse(content)?.lineCount ?? 0; line < lines.length; line++) {
+      if (CODE_FENCE_PATTERN.test(lines[line])) inFence = !inFence;
+      const match = inFence ? null : lines[line].match(TASK_PATTERN);
+      if (!match) continue;
+      const due = match[4].match(DUE_PATTERN)?.[1];
+      tasks.push({
+        line,
+        checked: match[2] !== ' ',
+        text: match[4].replace(DUE_PATTERN, '').replace(/\s{2,}/g, ' ').trim(),
+        ...(due && { due }),
+      });
+    }
+    return tasks;
+  }
+
+  /**
+   * Tick or untick the task on a line. Returns null when the line isn't a task.
+   */
+  static toggleTask(content: string, line: number): string | null {
+    const lines = content.split('\n');
+    const match = lines[line]?.match(TASK_PATTERN);
+    if (!match) return null;
+    lines[line] = `${match[1]}${match[2] === ' ' ? 'x' : ' '}${match[3]}${match[4]}`;
+    return lines.join('\n');
+  }
+
+  /**
+   * Notes with tasks, grouped by project in the order the projects are listed,
+   * with notes outside any project last
+   */
+  static groupByProject(notes: Note[], projects: Project[]): TaskGroup[] {
+    const groups = new Map<string | null, TaskGroup>();
+    projects.forEach(project => groups.set(project.id, { projectId: project.id, title: project.title, notes: [] }));
+    groups.set(null, { projectId: null, title: 'Unorganized', notes: [] });
+
+    [...notes]
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .forEach(note => {
+        const tasks = TaskService.getTasks(note.content || '');
+        if (tasks.length === 0) return;
+        // Notes of a project that no longer exists count as unorganized
+        const group = groups.get(note.projectId ?? null) ?? groups.get(null)!;
+        group.notes.push({ note, tasks });
+      });
+
+    return Array.from(groups.values()).filter(group => group.notes.length > 0);
+  }
+
+  /**
+   * Today as YYYY-MM-DD in local time, to compare due dates with
+   */
+  static today(now: Date = new Date()): string {
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  }
+
+  static getDueStatus(due: string, today: string = TaskService.today()): TaskDueStatus {
+    if (due < today) return 'overdue';
+    return due === today ? 'today' : 'upcoming';
+  }
+}
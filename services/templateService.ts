@@ -0,0 +1,206 @@
+import { NoteTemplate } from '../types';
+import { storageService } from './storageService';
+
+// ============================================================================
+// NOTE TEMPLATES
+// ============================================================================
+// Templates give new notes a ready-made structure. Their title and content
+// can use {{variables}}: the built-in ones below are filled in from the note
+// being created, and any other name is a field the user is asked to fill in.
+// A field can have a default value: {{Status|Proposed}}.
+//
+// A few templates ship with the app; the user's own are kept in one storage
+// key next to them.
+
+export const TEMPLATES_STORAGE_KEY = 'stellar-scribe-templates';
+
+export const TEMPLATE_VARIABLES = ['title', 'date', 'time', 'weekday', 'project'] as const;
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}|]+?)\s*(?:\|([^{}]*))?\}\}/g;
+
+export interface TemplateField {
+  name: string;
+  defaultValue: string;
+}
+
+export interface TemplateContext {
+  // Title of the note; when empty, the template's title is used
+  title?: string;
+  project?: string | null;
+  now?: Date;
+}
+
+export type TemplateInput = Pick<NoteTemplate, 'name' | 'description' | 'title' | 'content' | 'tags'>;
+
+export const BUILT_IN_TEMPLATES: NoteTemplate[] = [
+  {
+    id: 'builtin-meeting',
+    name: 'Meeting notes',
+    description: 'Attendees, agenda, notes and action items',
+    title: 'Meeting {{date}}',
+    content: '# {{title}}\n\n**Date:** {{date}}\n**Attendees:** {{Attendees}}\n\n## Agenda\n- \n\n## Notes\n- \n\n## Action items\n- [ ] ',
+    tags: ['meeting'],
+    isBuiltIn: true,
+    createdAt: 0,
+    updatedAt: 0,
+  },
+  {
+    id: 'builtin-decision',
+    name: 'Decision record',
+    description: 'Context, decision and consequences of an architecture decision',
+    title: 'ADR: {{Decision}}',
+    content: '# {{title}}\n\n**Status:** {{Status|Proposed}}\n**Date:** {{date}}\n\n## Context\n\n## Decision\n\n## Consequences\n',
+    tags: ['adr'],
+    isBuiltIn: true,
+    createdAt: 0,
+    updatedAt: 0,
+  },
+  {
+    id: 'builtin-retro',
+    name: 'Retrospective',
+    description: 'What went well, what could be better and what to change',
+    title: 'Retrospective {{date}}',
+    content: '# {{title}}\n\n**Sprint:** {{Sprint}}\n\n## What went well\n- \n\n## What could be better\n- \n\n## Action items\n- [ ] ',
+    tags: ['retro'],
+    isBuiltIn: true,
+    createdAt: 0,
+    updatedAt: 0,
+  },
+];
+
+const isNoteTemplate = (value: unknown): value is NoteTemplate => {
+  const template = value as NoteTemplate;
+  return !!template &&
+    typeof template.id === 'string' &&
+    typeof template.name === 'string' &&
+    typeof template.title === 'string' &&
+    typeof template.content === 'string' &&
+    Array.isArray(template.tags);
+};
+
+const isBuiltInVariable = (name: string): boolean =>
+  (TEMPLATE_VARIABLES as readonly string[]).includes(name.toLowerCase());
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const getVariableValues = (context: TemplateContext): Record<string, string> => {
+  const now = context.now ?? new Date();
+  return {
+    title: context.title ?? '',
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+    weekday: now.toLocaleDateString(undefined, { weekday: 'long' }),
+    project: context.project ?? '',
+  };
+};
+
+const fillIn = (text: string, variables: Record<string, string>, fields: Record<string, string>): string =>
+  text.replace(VARIABLE_PATTERN, (_, name: string, fallback?: string) => {
+    if (isBuiltInVariable(name)) return variables[name.toLowerCase()];
+    return fields[name] ?? fallback?.trim() ?? '';
+  });
+
+/**
+ * Template Service
+ */
+export class TemplateService {
+  /**
+   * Built-in templates first, then the user's by name
+   */
+  static getTemplates(): NoteTemplate[] {
+    const userTemplates = TemplateService.getUserTemplates()
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return [...BUILT_IN_TEMPLATES, ...userTemplates];
+  }
+
+  static getUserTemplates(): NoteTemplate[] {
+    return storageService.getJSON<NoteTemplate[]>(TEMPLATES_STORAGE_KEY, []).filter(isNoteTemplate);
+  }
+
+  static getTemplate(id: string): NoteTemplate | null {
+    return TemplateService.getTemplates().find(template => template.id === id) ?? null;
+  }
+
+  /**
+   * Create a template, or update the user template with the given id.
+   * Returns null for a template without a name or a built-in one.
+   */
+  static saveTemplate(input: TemplateInput, id?: string): NoteTemplate | null {
+    const name = input.name.trim();
+    if (!name || BUILT_IN_TEMPLATES.some(template => template.id === id)) return null;
+
+    const templates = TemplateService.getUserTemplates();
+    const existing = id ? templates.find(template => template.id === id) : undefined;
+    const now = Date.now();
+    const template: NoteTemplate = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name,
+      description: input.description?.trim() || undefined,
+      title: input.title,
+      content: input.content,
+      tags: input.tags.map(tag => tag.trim()).filter(Boolean),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    try {
+      storageService.setJSON(
+        TEMPLATES_STORAGE_KEY,
+        existing ? templates.map(other => other.id === template.id ? template : other) : [...templates, template]
+      );
+      return template;
+    } catch (error) {
+      console.error('Error saving template:', error);
+      return null;
+    }
+  }
+
+  static deleteTemplate(id: string): boolean {
+    try {
+      const templates = TemplateService.getUserTemplates();
+      storageService.setJSON(TEMPLATES_STORAGE_KEY, templates.filter(template => template.id !== id));
+      return true;
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Fields the user is asked to fill in, in the order they first appear
+   */
+  static getFields(template: Pick<NoteTemplate, 'title' | 'content'>): TemplateField[] {
+    const fields = new Map<string, TemplateField>();
+    for (const text of [template.title, template.content]) {
+      for (const [, name, fallback] of text.matchAll(VARIABLE_PATTERN)) {
+        if (isBuiltInVariable(name) || fields.has(name)) continue;
+        fields.set(name, { name, defaultValue: fallback?.trim() ?? '' });
+      }
+    }
+    return Array.from(fields.values());
+  }
+
+  /**
+   * Title a note made from the template gets, falling back to the template's name
+   */
+  static getTitle(template: NoteTemplate, context: TemplateContext, fields: Record<string, string> = {}): string {
+    const variables = getVariableValues({ ...context, title: '' });
+    return fillIn(template.title, variables, fields).trim() || template.name;
+  }
+
+  /**
+   * Title, content and tags of a note made from the template
+   */
+  static apply(
+    template: NoteTemplate,
+    context: TemplateContext,
+    fields: Record<string, string> = {}
+  ): { title: string; content: string; tags: string[] } {
+    const title = context.title?.trim() || TemplateService.getTitle(template, context, fields);
+    return {
+      title,
+      content: fillIn(template.content, getVariableValues({ ...context, title }), fields),
+      tags: [...template.tags],
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { Note, Project, TrashEntry } from '../types';
+import { storageService } from './storageService';
+import { ProjectService } from './projectService';
+import { versionControlService } from './versionControlService';
+import { UndoHistoryService } from './undoHistoryService';
+
+// ============================================================================
+// TRASH
+// ============================================================================
+// Deleted notes and projects are moved to the trash instead of being dropped.
+// Their version and undo histories stay in storage until the entry is deleted
+// for good, either by the user or once it is older than the retention period.
+
+export const TRASH_STORAGE_KEY = 'stellar-scribe-trash-v1';
+export const TRASH_RETENTION_STORAGE_KEY = 'stellar-scribe-trash-retention-days';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashRestoreResult {
+  notes: Note[];
+  // Project to add back, for project entries
+  project?: Project;
+  restoredNotes: Note[];
+  // Restored notes whose project no longer exists and that went to "No project"
+  unassignedCount: number;
+}
+
+/**
+ * Trash Service
+ */
+export class TrashService {
+  static createNoteEntry(note: Note): TrashEntry {
+    return { id: note.id, kind: 'note', deletedAt: Date.now(), note };
+  }
+
+  /**
+   * `notes` are the notes deleted together with the project (the 'delete' strategy)
+   */
+  static createProjectEntry(project: Project, notes: Note[]): TrashEntry {
+    return { id: project.id, kind: 'project', deletedAt: Date.now(), project, notes };
+  }
+
+  /**
+   * Ids of every note held in the given entries
+   */
+  static getNoteIds(entries: TrashEntry[]): string[] {
+    return entries.flatMap(entry => entry.kind === 'note' ? [entry.note.id] : entry.notes.map(note => note.id));
+  }
+
+  /**
+   * Ids of notes currently in the trash, whose histories must be kept
+   */
+  static getTrashedNoteIds(): string[] {
+    return TrashService.getNoteIds(storageService.getJSON<TrashEntry[]>(TRASH_STORAGE_KEY, []));
+  }
+
+  static getTitle(entry: TrashEntry): string {
+    return (entry.kind === 'note' ? entry.note.title : entry.project.title) || 'Untitled';
+  }
+
+  static getExpiresAt(entry: TrashEntry, retentionDays: number): number {
+    return entry.deletedAt + retentionDays * DAY_MS;
+  }
+
+  /**
+   * Split entries into those still within the retention period and those past it
+   */
+  static splitExpired(
+    entries: TrashEntry[],
+    retentionDays: number,
+    now: number = Date.now()
+  ): { kept: TrashEntry[]; expired: TrashEntry[] } {
+    const kept: TrashEntry[] = [];
+    const expired: TrashEntry[] = [];
+    entries.forEach(entry => {
+      (TrashService.getExpiresAt(entry, retentionDays) <= now ? expired : kept).push(entry);
+    });
+    return { kept, expired };
+  }
+
+  /**
+   * Put an entry's notes (and project) back. Notes return to their original
+   * project when it still exists, otherwise to "No project". Restored notes
+   * count as edited so note sync pushes them again.
+   */
+  static restoreEntry(entry: TrashEntry, notes: Note[], projects: Project[]): TrashRestoreResult {
+    const now = Date.now();
+    const projectIds = new Set(projects.map(p => p.id));
+    if (entry.kind === 'project') projectIds.add(entry.project.id);
+
+    let unassignedCount = 0;
+    const restoredNotes = (entry.kind === 'note' ? [entry.note] : entry.notes).map(note => {
+      const keepsProject = !note.projectId || projectIds.has(note.projectId);
+      if (!keepsProject) unassignedCount++;
+      return { ...note, projectId: keepsProject ? note.projectId : null, updatedAt: now };
+    });
+
+    const restoredIds = new Set(restoredNotes.map(note => note.id));
+    const updatedNotes = [...restoredNotes, ...notes.filter(note => !restoredIds.has(note.id))];
+    return {
+      notes: updatedNotes,
+      project: entry.kind === 'project' ? ProjectService.updateProjectMetadata(entry.project, updatedNotes) : undefined,
+      restoredNotes,
+      unassignedCount,
+    };
+  }
+
+  /**
+   * Delete the version and undo histories of entries that are leaving the trash for good
+   */
+  static deleteHistories(entries: TrashEntry[]): void {
+    TrashService.getNoteIds(entries).forEach(noteId => {
+      versionControlService.deleteNoteVersions(noteId);
+      UndoHistoryService.delete(noteId);
+    });
+  }
+}
@@ -0,0 +1,176 @@
+import { storageService } from './storageService';
+import { LineDelta, createLineDelta, applyLineDelta } from '../utils/versionDelta';
+
+// ============================================================================
+// UNDO HISTORY
+// ============================================================================
+// The editor's undo and redo stacks, kept per note so they survive switching
+// notes and reloading the page. This is separate from version history: steps
+// are small and frequent, and old ones are simply dropped.
+//
+// Each note's history is one storage key. Steps are stored as line deltas
+// chained from the note's content, so a long history of small edits stays
+// small. When a history grows past its budget the oldest steps go first, and
+// only the most recently edited notes keep a history at all.
+
+export const UNDO_HISTORY_KEY_PREFIX = 'stellar-scribe-undo-';
+export const MAX_UNDO_STEPS = 100;
+
+// Stored size budget of one note's history, in characters
+const MAX_HISTORY_LENGTH = 200_000;
+// How many notes keep an undo history
+const MAX_STORED_HISTORIES = 25;
+
+export interface UndoStep {
+  content: string;
+  cursorPos: number;
+}
+
+export interface UndoHistory {
+  // Note content the stacks lead away from
+  content: string;
+  cursorPos: number;
+  // Oldest first, so the next step to undo or redo is the last one
+  undo: UndoStep[];
+  redo: UndoStep[];
+}
+
+// A step is a delta from the step after it (or from the content, for the last
+// step of a stack), or the full text when the two differ too much
+interface StoredStep {
+  cursorPos: number;
+  delta?: LineDelta;
+  content?: string;
+}
+
+interface StoredUndoHistory {
+  updatedAt: number;
+  content: string;
+  cursorPos: number;
+  undo: StoredStep[];
+  redo: StoredStep[];
+}
+
+const getStorageKey = (noteId: string): string => `${UNDO_HISTORY_KEY_PREFIX}${noteId}`;
+
+const isStoredUndoHistory = (value: unknown): value is StoredUndoHistory => {
+  const history = value as StoredUndoHistory;
+  return !!history &&
+    typeof history.content === 'string' &&
+    Array.isArray(history.undo) &&
+    Array.isArray(history.redo);
+};
+
+const encodeSteps = (content: string, steps: UndoStep[]): StoredStep[] => {
+  const encoded: StoredStep[] = [];
+  let next = content;
+  for (let i = steps.length - 1; i >= 0; i--) {
+    const step = steps[i];
+    const delta = createLineDelta(next, step.content);
+    encoded.unshift(delta ? { cursorPos: step.cursorPos, delta } : { cursorPos: step.cursorPos, content: step.content });
+    next = step.content;
+  }
+  return encoded;
+};
+
+const decodeSteps = (content: string, steps: StoredStep[]): UndoStep[] => {
+  const decoded: UndoStep[] = [];
+  let next = content;
+  for (let i = steps.length - 1; i >= 0; i--) {
+    const step = steps[i];
+    next = step.delta ? applyLineDelta(next, step.delta) : step.content ?? '';
+    decoded.unshift({ content: next, cursorPos: step.cursorPos });
+  }
+  return decoded;
+};
+
+/**
+ * Undo History Service
+ */
+export class UndoHistoryService {
+  /**
+   * A note's stored undo history, or null if it has none
+   */
+  static load(noteId: string): UndoHistory | null {
+    const stored = storageService.getJSON<StoredUndoHistory | null>(getStorageKey(noteId), null);
+    if (!isStoredUndoHistory(stored)) return null;
+    try {
+      return {
+        content: stored.content,
+        cursorPos: stored.cursorPos || 0,
+        undo: decodeSteps(stored.content, stored.undo),
+        redo: decodeSteps(stored.content, stored.redo),
+      };
+    } catch (error) {
+      console.error(`Error reading undo history for note ${noteId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a note's undo history, dropping the oldest steps past the size budget
+   */
+  static save(noteId: string, history: UndoHistory): boolean {
+    if (history.undo.length === 0 && history.redo.length === 0) {
+      UndoHistoryService.delete(noteId);
+      return true;
+    }
+
+    const stored: StoredUndoHistory = {
+      updatedAt: Date.now(),
+      content: history.content,
+      cursorPos: history.cursorPos,
+      undo: encodeSteps(history.content, history.undo.slice(-MAX_UNDO_STEPS)),
+      redo: encodeSteps(history.content, history.redo.slice(-MAX_UNDO_STEPS)),
+    };
+    // Steps are chained from the content, so the oldest ones can go without re-encoding
+    let serialized = JSON.stringify(stored);
+    while (serialized.length > MAX_HISTORY_LENGTH && (stored.undo.length > 0 || stored.redo.length > 0)) {
+      (stored.undo.length > 0 ? stored.undo : stored.redo).shift();
+      serialized = JSON.stringify(stored);
+    }
+
+    try {
+      storageService.setItem(getStorageKey(noteId), serialized);
+      UndoHistoryService.pruneHistories();
+      return true;
+    } catch (error) {
+      console.error(`Error saving undo history for note ${noteId}:`, error);
+      return false;
+    }
+  }
+
+  static delete(noteId: string): void {
+    storageService.removeItem(getStorageKey(noteId));
+  }
+
+  static getNoteIds(): string[] {
+    return storageService.keys(UNDO_HISTORY_KEY_PREFIX).map(key => key.slice(UNDO_HISTORY_KEY_PREFIX.length));
+  }
+
+  /**
+   * Every text in a note's history, for finding what it references
+   */
+  static getContents(noteId: string): string[] {
+    const history = UndoHistoryService.load(noteId);
+    if (!history) return [];
+    return [...history.undo, ...history.redo].map(step => step.content);
+  }
+
+  /**
+   * Keep only the most recently edited notes' histories
+   */
+  private static pruneHistories(): void {
+    const noteIds = UndoHistoryService.getNoteIds();
+    if (noteIds.length <= MAX_STORED_HISTORIES) return;
+
+    noteIds
+      .map(noteId => ({
+        noteId,
+        updatedAt: storageService.getJSON<Partial<StoredUndoHistory>>(getStorageKey(noteId), {}).updatedAt || 0,
+      }))
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(MAX_STORED_HISTORIES)
+      .forEach(({ noteId }) => UndoHistoryService.delete(noteId));
+  }
+}
@@ -1,6 +1,8 @@
 import { Note, NoteVersion, VersionControlState } from '../types';
+import { storageService } from './storageService';
+import { applyLineDelta, compressText, createLineDelta, decompressText, LineDelta } from '../utils/versionDelta';
 
-const VERSION_STORAGE_KEY = 'stellar-scribe-note-versions';
+export const VERSION_STORAGE_KEY = 'stellar-scribe-note-versions';
 const MAX_VERSIONS_PER_NOTE = 50; // Keep last 50 versions per note
 const AUTO_SAVE_INTERVAL = 300000; // 5 minutes (300 seconds)
 const MIN_TIME_BETWEEN_SAVES = 60000; // Minimum 1 minute between saves
@@ -34,12 +36,116 @@ const CONTENT_COMPARISON_CONFIG = {
 // Storage management configuration
 const STORAGE_CONFIG = {
   maxVersionsPerNote: 50,
-  maxTotalSize: 10 * 1024 * 1024, // 10MB
+  maxTotalSize: 10 * 1024 * 1024, // 10MB (localStorage backend)
+  indexedDBQuotaShare: 0.5, // Share of the browser quota versions may use with IndexedDB
   compressionEnabled: true,
   cleanupStrategy: 'oldest-first' as const,
   storageWarningThreshold: 0.8, // 80% of quota
 } as const;
 
+// ============================================================================
+// HISTORY STORAGE FORMAT
+// ============================================================================
+// Versions are stored newest-first. The newest version, and every version whose
+// number is a multiple of SNAPSHOT_INTERVAL, keeps a full snapshot of its content.
+// All other versions keep a reverse delta against the next newer version, so
+// rebuilding any version never walks back more than a few deltas.
+// Snapshots and deltas are deflated with pako when that makes them smaller.
+const SNAPSHOT_INTERVAL = 10;
+const HISTORY_FORMAT_VERSION = 2;
+
+export interface StoredVersionEntry extends Omit<NoteVersion, 'content'> {
+  kind: 'snapshot' | 'delta';
+  baseId?: string; // Id of the next newer version this entry was encoded against
+  data: string;
+  compressed: boolean;
+  contentSize: number; // Logical (uncompressed) content size in bytes
+}
+
+/**
+ * Everything about a stored version except its content
+ */
+export type VersionSummary = Omit<StoredVersionEntry, 'kind' | 'baseId' | 'data' | 'compressed'>;
+
+export interface StoredVersionHistory {
+  format: typeof HISTORY_FORMAT_VERSION;
+  entries: StoredVersionEntry[];
+}
+
+const getByteSize = (text: string): number => new Blob([text]).size;
+
+/**
+ * Encode versions (newest first) into the stored format.
+ * Entries from `previous` are reused when they were encoded against the same base.
+ */
+export const encodeVersionHistory = (
+  versions: NoteVersion[],
+  previous: StoredVersionEntry[] = []
+): StoredVersionHistory => {
+  const previousById = new Map(previous.map(entry => [entry.id, entry]));
+
+  const entries = versions.map((version, index): StoredVersionEntry => {
+    const newer = index > 0 ? versions[index - 1] : undefined;
+    const wantsSnapshot = !newer || version.version % SNAPSHOT_INTERVAL === 0;
+
+    const existing = previousById.get(version.id);
+    if (existing && existing.baseId === newer?.id && (!wantsSnapshot || existing.kind === 'snapshot')) {
+      return existing;
+    }
+
+    const { content, ...meta } = version;
+    const contentSize = getByteSize(content);
+
+    if (!wantsSnapshot && newer) {
+      const delta = createLineDelta(newer.content, content);
+      if (delta) {
+        const packed = compressText(JSON.stringify(delta));
+        return { ...meta, kind: 'delta', baseId: newer.id, ...packed, contentSize };
+      }
+    }
+
+    // Newest version, periodic snapshot, or the delta was not worthwhile
+    const packed = compressText(content);
+    return { ...meta, kind: 'snapshot', baseId: newer?.id, ...packed, contentSize };
+  });
+
+  return { format: HISTORY_FORMAT_VERSION, entries };
+};
+
+/**
+ * Rebuild full versions (newest first) from stored entries
+ */
+const decodeVersionHistory = (entries: StoredVersionEntry[], noteId: string): NoteVersion[] => {
+  const versions: NoteVersion[] = [];
+
+  for (const entry of entries) {
+    const { kind, baseId, data, compressed, contentSize: _contentSize, ...meta } = entry;
+    try {
+      let content: string;
+      if (kind === 'snapshot') {
+        content = decompressText(data, compressed);
+      } else {
+        const newer = versions[versions.length - 1];
+        if (!newer || newer.id !== baseId) {
+          throw new Error(`missing base version for v${entry.version}`);
+        }
+        const delta: LineDelta = JSON.parse(decompressText(data, compressed));
+        content = applyLineDelta(newer.content, delta);
+      }
+      versions.push({ ...meta, content });
+    } catch (error) {
+      // Older deltas depend on this one, so the rest of the chain is unrecoverable
+      console.error(`Broken version history for note ${noteId}, dropping older versions:`, error);
+      break;
+    }
+  }
+
+  return versions;
+};
+
+export const isStoredHistory = (value: unknown): value is StoredVersionHistory =>
+  !!value && typeof value === 'object' && (value as StoredVersionHistory).format === HISTORY_FORMAT_VERSION;
+
 /**
  * Validate version data integrity
  */
@@ -345,6 +451,7 @@ export class VersionControlService {
   private static instance: VersionControlService;
   private autoSaveTimers: Map<string, NodeJS.Timeout> = new Map();
   private versionCache: Map<string, NoteVersion[]> = new Map();
+  private storedEntries: Map<string, StoredVersionEntry[]> = new Map();
   private lastSaveTimes: Map<string, number> = new Map();
 
   static getInstance(): VersionControlService {
@@ -354,6 +461,31 @@ export class VersionControlService {
     return VersionControlService.instance;
   }
 
+  constructor() {
+    // Histories saved by another tab make our caches stale
+    storageService.subscribe((key, _value, origin) => {
+      if (origin === 'external' && key.startsWith(`${VERSION_STORAGE_KEY}-`)) {
+        this.invalidateNote(key.slice(VERSION_STORAGE_KEY.length + 1));
+      }
+    });
+  }
+
+  /**
+   * Drop cached versions for a note so they are re-read from storage. The
+   * auto-save timer follows the newest stored version, which may have been
+   * saved elsewhere.
+   */
+  invalidateNote(noteId: string): void {
+    this.dropCaches(noteId);
+    const newest = this.readStoredMeta(`${VERSION_STORAGE_KEY}-${noteId}`)
+      .reduce((latest, { createdAt }) => Math.max(latest, createdAt), 0);
+    if (newest > 0) {
+      this.lastSaveTimes.set(noteId, Math.max(this.lastSaveTimes.get(noteId) || 0, newest));
+    } else {
+      this.lastSaveTimes.delete(noteId);
+    }
+  }
+
   /**
    * Get all versions for a note
    */
@@ -364,8 +496,17 @@ export class VersionControlService {
 
     try {
       const storageKey = `${VERSION_STORAGE_KEY}-${noteId}`;
-      const stored = localStorage.getItem(storageKey);
-      let versions: NoteVersion[] = stored ? JSON.parse(stored) : [];
+      const stored = storageService.getItem(storageKey);
+      const parsed: unknown = stored ? JSON.parse(stored) : [];
+      let versions: NoteVersion[];
+      
+      if (isStoredHistory(parsed)) {
+        this.storedEntries.set(noteId, parsed.entries);
+        versions = decodeVersionHistory(parsed.entries, noteId);
+      } else {
+        // Legacy format: plain array of full versions
+        versions = Array.isArray(parsed) ? parsed : [];
+      }
       
       // Validate and clean versions
       versions = this.validateAndCleanVersions(versions, noteId);
@@ -373,6 +514,11 @@ export class VersionControlService {
       // Sort by version number descending (newest first)
       versions.sort((a, b) => b.version - a.version);
       
+      // Convert legacy histories to the compact format on first read
+      if (!isStoredHistory(parsed) && versions.length > 0) {
+        this.writeVersions(noteId, versions);
+      }
+      
       this.versionCache.set(noteId, versions);
       return versions;
     } catch (error) {
@@ -405,6 +551,50 @@ export class VersionControlService {
     return uniqueVersions;
   }
 
+  /**
+   * Encode and persist versions (newest first) for a note, updating caches
+   */
+  private writeVersions(noteId: string, versions: NoteVersion[]): boolean {
+    const storageKey = `${VERSION_STORAGE_KEY}-${noteId}`;
+    const history = encodeVersionHistory(versions, this.storedEntries.get(noteId));
+    const saveResult = this.safeStorageOperation(() => {
+      storageService.setItem(storageKey, JSON.stringify(history));
+      return true;
+    });
+
+    if (!saveResult) {
+      return false;
+    }
+
+    this.storedEntries.set(noteId, history.entries);
+    this.versionCache.set(noteId, versions);
+    return true;
+  }
+
+  /**
+   * Forget cached data for a note
+   */
+  private dropCaches(noteId: string): void {
+    this.versionCache.delete(noteId);
+    this.storedEntries.delete(noteId);
+  }
+
+  /**
+   * Read per-version metadata for a storage key without rebuilding content
+   */
+  private readStoredMeta(storageKey: string): Array<{ createdAt: number; contentSize: number }> {
+    const parsed = storageService.getJSON<unknown>(storageKey, []);
+    if (isStoredHistory(parsed)) {
+      return parsed.entries.map(({ createdAt, contentSize }) => ({ createdAt, contentSize }));
+    }
+    return Array.isArray(parsed)
+      ? parsed.map((version: NoteVersion) => ({
+          createdAt: version.createdAt,
+          contentSize: getByteSize(version.content || ''),
+        }))
+      : [];
+  }
+
   /**
    * Save a new version of a note
    */
@@ -506,21 +696,12 @@ export class VersionControlService {
         versions.splice(MAX_VERSIONS_PER_NOTE);
       }
 
-      // Save to localStorage using safe operation
-      const storageKey = `${VERSION_STORAGE_KEY}-${note.id}`;
-      const saveResult = this.safeStorageOperation(() => {
-        localStorage.setItem(storageKey, JSON.stringify(versions));
-        return true;
-      });
-      
-      if (!saveResult) {
+      // Save to storage (snapshot + reverse deltas) using safe operation
+      if (!this.writeVersions(note.id, versions)) {
         console.error('Failed to save version to storage');
         return null;
       }
       
-      // Update cache
-      this.versionCache.set(note.id, versions);
-      
       // Update last save time
       this.lastSaveTimes.set(note.id, Date.now());
 
@@ -568,15 +749,9 @@ export class VersionControlService {
           },
         };
 
-        // Add restore version to history
+        // Add restore version to history and save
         versions.unshift(restoreVersion);
-        
-        // Save to localStorage
-        const storageKey = `${VERSION_STORAGE_KEY}-${noteId}`;
-        localStorage.setItem(storageKey, JSON.stringify(versions));
-        
-        // Update cache
-        this.versionCache.set(noteId, versions);
+        this.writeVersions(noteId, versions);
 
         isRestoring = false;
         return restoreVersion;
@@ -598,21 +773,91 @@ export class VersionControlService {
   deleteNoteVersions(noteId: string): void {
     try {
       const storageKey = `${VERSION_STORAGE_KEY}-${noteId}`;
-      localStorage.removeItem(storageKey);
-      this.versionCache.delete(noteId);
+      storageService.removeItem(storageKey);
+      this.dropCaches(noteId);
       this.clearAutoSaveTimer(noteId);
     } catch (error) {
       console.error('Error deleting note versions:', error);
     }
   }
 
+  /**
+   * IDs of all notes that have a stored version history
+   */
+  getVersionedNoteIds(): string[] {
+    return storageService
+      .keys(`${VERSION_STORAGE_KEY}-`)
+      .map(key => key.slice(VERSION_STORAGE_KEY.length + 1));
+  }
+
+  /**
+   * Version metadata (no content) and stored size of a note's history, read
+   * without rebuilding any content
+   */
+  getHistorySummary(noteId: string): { storedSize: number; versions: VersionSummary[] } {
+    const storageKey = `${VERSION_STORAGE_KEY}-${noteId}`;
+    const parsed = storageService.getJSON<unknown>(storageKey, []);
+    let versions: VersionSummary[] = [];
+
+    if (isStoredHistory(parsed)) {
+      versions = parsed.entries.map(({ kind: _kind, baseId: _baseId, data: _data, compressed: _compressed, ...meta }) => meta);
+    } else if (Array.isArray(parsed)) {
+      versions = parsed.map(({ content, ...meta }: NoteVersion) => ({ ...meta, contentSize: getByteSize(content || '') }));
+    }
+
+    return { storedSize: storageService.getItemSize(storageKey), versions };
+  }
+
+  /**
+   * Stored size the history would have if only `versions` were kept
+   */
+  estimateHistorySize(versions: NoteVersion[]): number {
+    return versions.length > 0 ? getByteSize(JSON.stringify(encodeVersionHistory(versions))) : 0;
+  }
+
+  /**
+   * Delete several versions of a note at once. Returns how many were removed.
+   */
+  deleteVersions(noteId: string, versionNumbers: number[]): number {
+    const toRemove = new Set(versionNumbers);
+    const versions = this.getNoteVersions(noteId);
+    const remaining = versions.filter(version => !toRemove.has(version.version));
+    const removed = versions.length - remaining.length;
+    if (removed === 0) return 0;
+
+    if (remaining.length === 0) {
+      this.deleteNoteVersions(noteId);
+    } else if (!this.writeVersions(noteId, remaining)) {
+      console.error('Failed to save versions after deletion');
+      return 0;
+    }
+    return removed;
+  }
+
+  /**
+   * Replace a note's stored history with the given versions (e.g. from a backup)
+   */
+  importNoteVersions(noteId: string, versions: NoteVersion[]): boolean {
+    const cleaned = this.validateAndCleanVersions(
+      versions.map(version => ({ ...version, noteId })),
+      noteId
+    ).sort((a, b) => b.version - a.version);
+
+    this.dropCaches(noteId);
+    if (cleaned.length === 0) {
+      storageService.removeItem(`${VERSION_STORAGE_KEY}-${noteId}`);
+      return true;
+    }
+    return this.writeVersions(noteId, cleaned);
+  }
+
   /**
    * Reset version numbering for a note (useful when all versions are deleted)
    */
   resetVersionNumbering(noteId: string): void {
     try {
       // Clear the version cache for this note
-      this.versionCache.delete(noteId);
+      this.dropCaches(noteId);
       
       // The next time saveVersion is called, it will start from v1
       // since there are no versions in the cache
@@ -652,27 +897,15 @@ export class VersionControlService {
         return false; // Version not found
       }
 
-      const storageKey = `${VERSION_STORAGE_KEY}-${noteId}`;
-      
       if (filteredVersions.length === 0) {
         // If all versions are deleted, remove the storage key entirely
-        localStorage.removeItem(storageKey);
-        this.versionCache.delete(noteId);
+        storageService.removeItem(`${VERSION_STORAGE_KEY}-${noteId}`);
         // Reset version numbering for this note
         this.resetVersionNumbering(noteId);
-      } else {
-        // Update with remaining versions using safe storage
-        const saveResult = this.safeStorageOperation(() => {
-          localStorage.setItem(storageKey, JSON.stringify(filteredVersions));
-          return true;
-        });
-        
-        if (!saveResult) {
-          console.error('Failed to save versions after deletion');
-          return false;
-        }
-        
-        this.versionCache.set(noteId, filteredVersions);
+      } else if (!this.writeVersions(noteId, filteredVersions)) {
+        // The neighbour of the deleted version is re-encoded against its new base
+        console.error('Failed to save versions after deletion');
+        return false;
       }
       
       return true;
@@ -755,38 +988,46 @@ export class VersionControlService {
   }
 
   /**
-   * Get storage size for all versions
+   * Get storage size for all versions.
+   * `totalSize` is what is actually stored; `logicalSize` is the size of every
+   * version's full content, i.e. what storage would cost without deltas/compression.
    */
-  getStorageSize(): { totalSize: number; noteCount: number; versionCount: number } {
+  getStorageSize(): { totalSize: number; logicalSize: number; noteCount: number; versionCount: number } {
     let totalSize = 0;
+    let logicalSize = 0;
     let noteCount = 0;
     let versionCount = 0;
     
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(VERSION_STORAGE_KEY)) {
-        const value = localStorage.getItem(key);
-        if (value) {
-          totalSize += new Blob([value]).size;
-          noteCount++;
-          try {
-            const versions = JSON.parse(value);
-            versionCount += versions.length;
-          } catch (error) {
-            console.error('Error parsing version data:', error);
-          }
+    for (const key of storageService.keys(VERSION_STORAGE_KEY)) {
+      const value = storageService.getItem(key);
+      if (value) {
+        totalSize += new Blob([value]).size;
+        noteCount++;
+        try {
+          const meta = this.readStoredMeta(key);
+          versionCount += meta.length;
+          logicalSize += meta.reduce((sum, entry) => sum + entry.contentSize, 0);
+        } catch (error) {
+          console.error('Error parsing version data:', error);
         }
       }
     }
     
-    return { totalSize, noteCount, versionCount };
+    return { totalSize, logicalSize, noteCount, versionCount };
   }
 
   /**
-   * Get the configured maximum total storage size for versions
+   * Get the maximum total storage size for versions.
+   * localStorage keeps the fixed budget; IndexedDB scales with the browser quota.
    */
   getMaxStorageSize(): number {
-    return STORAGE_CONFIG.maxTotalSize;
+    if (storageService.getBackendName() === 'localstorage') {
+      return STORAGE_CONFIG.maxTotalSize;
+    }
+    return Math.max(
+      STORAGE_CONFIG.maxTotalSize,
+      storageService.getQuota() * STORAGE_CONFIG.indexedDBQuotaShare
+    );
   }
 
   /**
@@ -794,7 +1035,7 @@ export class VersionControlService {
    */
   checkStorageQuota(): { isHealthy: boolean; usagePercent: number; needsCleanup: boolean } {
     const { totalSize } = this.getStorageSize();
-    const usagePercent = totalSize / STORAGE_CONFIG.maxTotalSize;
+    const usagePercent = totalSize / this.getMaxStorageSize();
     
     return {
       isHealthy: usagePercent < STORAGE_CONFIG.storageWarningThreshold,
@@ -811,18 +1052,12 @@ export class VersionControlService {
     
     try {
       // Get all version keys
-      const versionKeys: string[] = [];
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith(VERSION_STORAGE_KEY)) {
-          versionKeys.push(key);
-        }
-      }
+      const versionKeys = storageService.keys(VERSION_STORAGE_KEY);
       
       // Sort by last modified time (oldest first)
       versionKeys.sort((a, b) => {
-        const aTime = localStorage.getItem(a) ? JSON.parse(localStorage.getItem(a)!)[0]?.createdAt || 0 : 0;
-        const bTime = localStorage.getItem(b) ? JSON.parse(localStorage.getItem(b)!)[0]?.createdAt || 0 : 0;
+        const aTime = this.readStoredMeta(a)[0]?.createdAt || 0;
+        const bTime = this.readStoredMeta(b)[0]?.createdAt || 0;
         return aTime - bTime;
       });
       
@@ -830,12 +1065,12 @@ export class VersionControlService {
       for (const key of versionKeys) {
         if (this.checkStorageQuota().isHealthy) break;
         
-        localStorage.removeItem(key);
+        storageService.removeItem(key);
         cleanedCount++;
         
         // Update cache
         const noteId = key.replace(`${VERSION_STORAGE_KEY}-`, '');
-        this.versionCache.delete(noteId);
+        this.dropCaches(noteId);
       }
     } catch (error) {
       console.error('Error during emergency cleanup:', error);
@@ -910,16 +1145,12 @@ export class VersionControlService {
     }
     
     const cleanedVersions = versions.slice(0, maxVersions);
-    const storageKey = `${VERSION_STORAGE_KEY}-${noteId}`;
     
-    try {
-      localStorage.setItem(storageKey, JSON.stringify(cleanedVersions));
-      this.versionCache.set(noteId, cleanedVersions);
-      return versions.length - cleanedVersions.length;
-    } catch (error) {
-      console.error('Error cleaning up note versions:', error);
+    if (!this.writeVersions(noteId, cleanedVersions)) {
+      console.error('Error cleaning up note versions');
       return 0;
     }
+    return versions.length - cleanedVersions.length;
   }
 
   /**
@@ -928,26 +1159,15 @@ export class VersionControlService {
   cleanupOldVersions(maxVersionsPerNote: number = 20): number {
     let cleanedCount = 0;
     
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(VERSION_STORAGE_KEY)) {
-        const value = localStorage.getItem(key);
-        if (value) {
-          try {
-            const versions: NoteVersion[] = JSON.parse(value);
-            if (versions.length > maxVersionsPerNote) {
-              const cleanedVersions = versions.slice(0, maxVersionsPerNote);
-              localStorage.setItem(key, JSON.stringify(cleanedVersions));
-              cleanedCount += versions.length - cleanedVersions.length;
-              
-              // Update cache
-              const noteId = key.replace(`${VERSION_STORAGE_KEY}-`, '');
-              this.versionCache.set(noteId, cleanedVersions);
-            }
-          } catch (error) {
-            console.error('Error cleaning up versions:', error);
-          }
+    for (const key of storageService.keys(VERSION_STORAGE_KEY)) {
+      try {
+        // Only rebuild histories that actually need trimming
+        if (this.readStoredMeta(key).length > maxVersionsPerNote) {
+          const noteId = key.replace(`${VERSION_STORAGE_KEY}-`, '');
+          cleanedCount += this.cleanupNoteVersions(noteId, maxVersionsPerNote);
         }
+      } catch (error) {
+        console.error('Error cleaning up versions:', error);
       }
     }
     
@@ -974,6 +1194,16 @@ export class VersionControlService {
     });
     this.autoSaveTimers.clear();
   }
+
+  /**
+   * Forget every cached history and pending auto-save (when the workspace locks)
+   */
+  clearCaches(): void {
+    this.clearAllAutoSaveTimers();
+    this.versionCache.clear();
+    this.storedEntries.clear();
+    this.lastSaveTimes.clear();
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Note } from '../types';
+import { WikiLinkService } from './wikiLinkService';
+
+const note = (id: string, title: string, content = '', createdAt = 1): Note =>
+  ({ id, title, content, createdAt, updatedAt: 1, tags: [], isPinned: false });
+
+// Rename note "n1" from "Old" and return the new content of every changed note, by id
+const rename = (contents: string[], title = 'New', oldTitle = 'Old') => {
+  const notes = [note('n1', title), ...contents.map((content, index) => note(`n${index + 2}`, `Note ${index + 2}`, content))];
+  const changed = WikiLinkService.renameLinks(notes, 'n1', oldTitle);
+  return Object.fromEntries(changed.map(({ id, content }) => [id, content]));
+};
+
+describe('WikiLinkService.parseLinks', () => {
+  it('reads targets, headings and aliases', () => {
+    expect(WikiLinkService.parseLinks('[[Old]] [[Old#Plan]] [[Old#Plan|the plan]] [[#Intro]]')).toEqual([
+      { start: 0, end: 7, target: 'Old', heading: undefined, alias: undefined },
+      { start: 8, end: 20, target: 'Old', heading: 'Plan', alias: undefined },
+      { start: 21, end: 42, target: 'Old', heading: 'Plan', alias: 'the plan' },
+      { start: 43, end: 53, target: '', heading: 'Intro', alias: undefined },
+    ]);
+  });
+
+  it('skips links in code spans and fenced blocks', () => {
+    expect(WikiLinkService.parseLinks('`[[Old]]`\n```\n[[Old]]\n```')).toEqual([]);
+  });
+});
+
+describe('WikiLinkService.renameLinks', () => {
+  it('points links at the new title', () => {
+    expect(rename(['See [[Old]].'])).toEqual({ n2: 'See [[New]].' });
+  });
+
+  it('keeps aliases and heading anchors', () => {
+    expect(rename(['[[Old|the old note]] and [[Old#Plan]] and [[Old#Plan|plan]]'])).toEqual({
+      n2: '[[New|the old note]] and [[New#Plan]] and [[New#Plan|plan]]',
+    });
+  });
+
+  it('leaves links inside code alone', () => {
+    expect(rename(['`[[Old]]` and [[Old]]', '```\n[[Old]]\n```'])).toEqual({ n2: '`[[Old]]` and [[New]]' });
+  });
+
+  it('matches links whatever their case and spacing', () => {
+    expect(rename(['[[old]] [[ OLD ]]'])).toEqual({ n2: '[[New]] [[New]]' });
+  });
+
+  it('renames links in the renamed note itself', () => {
+    const notes = [note('n1', 'New', 'Back to [[Old#Top]]')];
+    expect(WikiLinkService.renameLinks(notes, 'n1', 'Old').map(({ content }) => content)).toEqual(['Back to [[New#Top]]']);
+  });
+
+  it('leaves links to another note with the old title alone', () => {
+    const notes = [note('n0', 'Old', '', 0), note('n1', 'New'), note('n2', 'Links', '[[Old]]')];
+    expect(WikiLinkService.renameLinks(notes, 'n1', 'Old')).toEqual([]);
+  });
+
+  it('does nothing when only the case of the title changed', () => {
+    expect(rename(['[[Old]]'], 'OLD')).toEqual({});
+  });
+});
@@ -0,0 +1,273 @@
+import { Note } from '../types';
+import { FrontMatterService } from './frontMatterService';
+
+// ============================================================================
+// WIKI LINKS
+// ============================================================================
+// Notes reference each other with [[Note Title]] or [[Note Title#Heading]],
+// optionally shown as other text: [[Note Title|text]].
+// Links are matched to notes by title, ignoring case. When several notes share
+// a title the oldest one wins, so a link keeps pointing at the same note as
+// new ones are added. Renaming a note rewrites the links that pointed at it.
+
+export interface WikiLink {
+  start: number;
+  end: number;
+  // Empty for a link to a heading of the same note: [[#Heading]]
+  target: string;
+  heading?: string;
+  // Text shown instead of the target: [[Note|text]]
+  alias?: string;
+}
+
+export interface Backlink {
+  noteId: string;
+  title: string;
+  // Lines of the linking note that contain a link, trimmed
+  contexts: string[];
+}
+
+export interface WikiLinkCompletion {
+  label: string;
+  detail?: string;
+  // Text placed between [[ and ]]
+  value: string;
+}
+
+const WIKI_LINK_PATTERN = /\[\[([^[\]\n#|]*)(?:#([^[\]\n|]*))?(?:\|([^[\]\n]*))?\]\]/g;
+const HEADING_PATTERN = /^ {0,3}#{1,6}[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const UNLINKABLE_TITLE_PATTERN = /[[\]#|\n]/;
+const MAX_COMPLETIONS = 8;
+const MAX_CONTEXT_LENGTH = 160;
+
+const normalizeTitle = (title: string): string => title.trim().toLowerCase();
+
+const isInRanges = (ranges: Array<[number, number]>, index: number): boolean =>
+  ranges.some(([start, end]) => index >= start && index < end);
+
+/**
+ * Ranges of fenced code blocks, where links and headings are plain text
+ */
+const getFenceRanges = (content: string): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+  let fence: { marker: string; start: number } | null = null;
+  let offset = 0;
+
+  for (const line of content.split('\n')) {
+    const match = line.match(FENCE_PATTERN);
+    if (!fence) {
+      if (match) fence = { marker: match[1], start: offset };
+    } else if (match && match[1][0] === fence.marker[0] && match[1].length >= fence.marker.length && !line.trim().slice(match[1].length)) {
+      ranges.push([fence.start, offset + line.length]);
+      fence = null;
+    }
+    offset += line.length + 1;
+  }
+
+  // An unclosed fence runs to the end of the note
+  if (fence) ranges.push([fence.start, content.length]);
+  return ranges;
+};
+
+/**
+ * Ranges of fenced code blocks and inline code spans
+ */
+const getCodeRanges = (content: string): Array<[number, number]> => {
+  const ranges = getFenceRanges(content);
+  const fences = [...ranges];
+  const runPattern = /`+/g;
+  let run: RegExpExecArray | null;
+
+  while ((run = runPattern.exec(content)) !== null) {
+    if (isInRanges(fences, run.index)) continue;
+    // An inline span closes at the next run of the same length
+    const closePattern = new RegExp(`(?<!\`)${run[0]}(?!\`)`, 'g');
+    closePattern.lastIndex = runPattern.lastIndex;
+    const close = closePattern.exec(content);
+    if (!close || isInRanges(fences, close.index)) continue;
+    ranges.push([run.index, close.index + run[0].length]);
+    runPattern.lastIndex = close.index + run[0].length;
+  }
+  return ranges;
+};
+
+/**
+ * Wiki Link Service
+ */
+export class WikiLinkService {
+  /**
+   * Links in the content, in order, leaving out those inside code
+   */
+  static parseLinks(content: string): WikiLink[] {
+    if (!content || !content.includes('[[')) return [];
+    const codeRanges = getCodeRanges(content);
+    const links: WikiLink[] = [];
+    const pattern = new RegExp(WIKI_LINK_PATTERN.source, 'g');
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(content)) !== null) {
+      const target = match[1].trim();
+      const heading = match[2]?.trim();
+      const alias = match[3]?.trim();
+      if (isInRanges(codeRanges, match.index) || (!target && !heading)) continue;
+      links.push({
+        start: match.index,
+        end: match.index + match[0].length,
+        target,
+        heading: heading || undefined,
+        alias: alias || undefined,
+      });
+    }
+    return links;
+  }
+
+  /**
+   * Whether a title can be written inside [[ ]]
+   */
+  static isLinkableTitle(title: string): boolean {
+    return title.trim() !== '' && !UNLINKABLE_TITLE_PATTERN.test(title);
+  }
+
+  /**
+   * The note a link target points at: same title ignoring case, oldest first
+   */
+  static resolve(notes: Note[], target: string): Note | undefined {
+    const key = normalizeTitle(target);
+    if (!key) return undefined;
+    let found: Note | undefined;
+    notes.forEach(note => {
+      if (normalizeTitle(note.title) === key && (!found || note.createdAt < found.createdAt)) {
+        found = note;
+      }
+    });
+    return found;
+  }
+
+  /**
+   * Text and offset of each ATX heading, leaving out front matter and fenced code
+   */
+  static getHeadings(content: string): { text: string; offset: number }[] {
+    const fences = getFenceRanges(content);
+    const bodyStart = FrontMatterService.parse(content)?.bodyStart ?? 0;
+    const headings: { text: string; offset: number }[] = [];
+    let offset = 0;
+    content.split('\n').forEach(line => {
+      const match = line.match(HEADING_PATTERN);
+      if (match && offset >= bodyStart && !isInRanges(fences, offset)) {
+        headings.push({ text: match[1].trim(), offset });
+      }
+      offset += line.length + 1;
+    });
+    return headings;
+  }
+
+  /**
+   * Offset of the first heading with this text (ignoring case), or -1
+   */
+  static findHeadingOffset(content: string, heading: string): number {
+    const key = normalizeTitle(heading);
+    return WikiLinkService.getHeadings(content).find(h => normalizeTitle(h.text) === key)?.offset ?? -1;
+  }
+
+  /**
+   * Notes with at least one link to the given note, most recently updated first
+   */
+  static findBacklinks(notes: Note[], note: Note): Backlink[] {
+    const key = normalizeTitle(note.title);
+    if (!key || WikiLinkService.resolve(notes, note.title)?.id !== note.id) return [];
+
+    return notes
+      .filter(other => other.id !== note.id)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(other => {
+        const content = other.content || '';
+        const contexts = new Set<string>();
+        WikiLinkService.parseLinks(content)
+          .filter(link => normalizeTitle(link.target) === key)
+          .forEach(link => {
+            const lineStart = content.lastIndexOf('\n', link.start - 1) + 1;
+            const lineEnd = content.indexOf('\n', link.end);
+            const line = content.slice(lineStart, lineEnd === -1 ? content.length : lineEnd).trim();
+            contexts.add(line.length > MAX_CONTEXT_LENGTH ? `${line.slice(0, MAX_CONTEXT_LENGTH - 1)}…` : line);
+          });
+        return { noteId: other.id, title: other.title, contexts: [...contexts] };
+      })
+      .filter(backlink => backlink.contexts.length > 0);
+  }
+
+  /**
+   * Completions for the text typed after [[. Before a # these are note
+   * titles, after it the headings of that note (or of the current note).
+   */
+  static getCompletions(notes: Note[], currentNote: Note, query: string): WikiLinkCompletion[] {
+    const hashIndex = query.indexOf('#');
+    if (hashIndex !== -1) {
+      const target = query.slice(0, hashIndex).trim();
+      const headingQuery = normalizeTitle(query.slice(hashIndex + 1));
+      const note = target ? WikiLinkService.resolve(notes, target) : currentNote;
+      if (!note) return [];
+      return WikiLinkService.getHeadings(note.content || '')
+        .filter(heading => !/[[\]]/.test(heading.text) && heading.text.toLowerCase().includes(headingQuery))
+        .slice(0, MAX_COMPLETIONS)
+        .map(heading => ({
+          label: heading.text,
+          detail: target ? note.title : 'This note',
+          value: `${target}#${heading.text}`,
+        }));
+    }
+
+    const key = normalizeTitle(query);
+    const seen = new Set<string>();
+    return notes
+      .filter(note => {
+        const title = normalizeTitle(note.title);
+        if (note.id === currentNote.id || seen.has(title) || !WikiLinkService.isLinkableTitle(note.title) || !title.includes(key)) {
+          return false;
+        }
+        seen.add(title);
+        return true;
+      })
+      .sort((a, b) =>
+        Number(normalizeTitle(b.title).startsWith(key)) - Number(normalizeTitle(a.title).startsWith(key)) ||
+        b.updatedAt - a.updatedAt
+      )
+      .slice(0, MAX_COMPLETIONS)
+      .map(note => ({ label: note.title, value: note.title.trim() }));
+  }
+
+  /**
+   * Point links at a renamed note's new title. Only links that resolved to the
+   * note under its old title are changed. Returns the notes whose content changed.
+   */
+  static renameLinks(notes: Note[], noteId: string, oldTitle: string): Note[] {
+    const renamed = notes.find(note => note.id === noteId);
+    const oldKey = normalizeTitle(oldTitle);
+    if (!renamed || !oldKey || normalizeTitle(renamed.title) === oldKey || !WikiLinkService.isLinkableTitle(renamed.title)) {
+      return [];
+    }
+
+    const before = notes.map(note => note.id === noteId ? { ...note, title: oldTitle } : note);
+    if (WikiLinkService.resolve(before, oldTitle)?.id !== noteId) return [];
+
+    const newTitle = renamed.title.trim();
+    const now = Date.now();
+    const changed: Note[] = [];
+    notes.forEach(note => {
+      const content = note.content || '';
+      const links = WikiLinkService.parseLinks(content).filter(link => normalizeTitle(link.target) === oldKey);
+      if (links.length === 0) return;
+
+      let updated = '';
+      let last = 0;
+      links.forEach(link => {
+        const heading = link.heading ? `#${link.heading}` : '';
+        const alias = link.alias ? `|${link.alias}` : '';
+        updated += content.slice(last, link.start) + `[[${newTitle}${heading}${alias}]]`;
+        last = link.end;
+      });
+      changed.push({ ...note, content: updated + content.slice(last), updatedAt: now });
+    });
+    return changed;
+  }
+}
@@ -0,0 +1,145 @@
+import { Note } from '../types';
+import { ProjectService } from './projectService';
+import { versionControlService } from './versionControlService';
+import { TextMatch, findMatches, replaceMatches } from '../utils/textSearch';
+
+// ============================================================================
+// WORKSPACE SEARCH AND REPLACE
+// ============================================================================
+// Searches the content of every note (or one project's notes) and replaces
+// the matches the user picked. Each note is saved as a 'manual' version before
+// it is changed, so a bulk replacement can be undone from version history.
+
+// Characters of context shown around a match
+const CONTEXT_BEFORE = 40;
+const CONTEXT_AFTER = 60;
+
+export interface WorkspaceMatch extends TextMatch {
+  // Unique across the workspace: `${noteId}:${start}`
+  id: string;
+  // 1-based line of the match
+  line: number;
+  before: string;
+  text: string;
+  after: string;
+}
+
+export interface NoteSearchResult {
+  noteId: string;
+  title: string;
+  // Content the matches were found in, to detect edits made since the search
+  content: string;
+  matches: WorkspaceMatch[];
+}
+
+export interface WorkspaceReplaceResult {
+  // Replaced notes, ready to merge into the notes list
+  changedNotes: Note[];
+  replacedCount: number;
+  // Notes left unchanged because they were edited after the search
+  staleNoteIds: string[];
+  // Notes left unchanged because their current content could not be versioned
+  unversionedNoteIds: string[];
+}
+
+const describeMatch = (noteId: string, content: string, match: TextMatch): WorkspaceMatch => {
+  const lineStart = content.lastIndexOf('\n', match.start - 1) + 1;
+  const lineEndIndex = content.indexOf('\n', match.end);
+  const lineEnd = lineEndIndex === -1 ? content.length : lineEndIndex;
+  const beforeStart = Math.max(lineStart, match.start - CONTEXT_BEFORE);
+  const afterEnd = Math.min(lineEnd, match.end + CONTEXT_AFTER);
+
+  let line = 1;
+  for (let i = content.indexOf('\n'); i !== -1 && i < match.start; i = content.indexOf('\n', i + 1)) {
+    line++;
+  }
+
+  return {
+    ...match,
+    id: `${noteId}:${match.start}`,
+    line,
+    before: (beforeStart > lineStart ? '…' : '') + content.slice(beforeStart, match.start),
+    // A match spanning lines is shown up to the end of its first line
+    text: content.slice(match.start, Math.min(match.end, lineEnd)),
+    after: content.slice(Math.min(match.end, lineEnd), afterEnd) + (afterEnd < lineEnd ? '…' : ''),
+  };
+};
+
+/**
+ * Workspace Search Service
+ */
+export class WorkspaceSearchService {
+  /**
+   * Find matches in the notes of a project ('all' or null for every note,
+   * 'unorganized' for notes without a project). Notes without matches are left out.
+   */
+  static search(notes: Note[], projectId: string | null, pattern: RegExp): NoteSearchResult[] {
+    return ProjectService.getProjectNotes(projectId, notes)
+      .map(note => {
+        const content = note.content || '';
+        return {
+          noteId: note.id,
+          title: note.title,
+          content,
+          matches: findMatches(content, pattern).map(match => describeMatch(note.id, content, match)),
+        };
+      })
+      .filter(result => result.matches.length > 0);
+  }
+
+  static countMatches(results: NoteSearchResult[]): number {
+    return results.reduce((total, result) => total + result.matches.length, 0);
+  }
+
+  /**
+   * Replace the selected matches. Every note that changes is first saved as a
+   * 'manual' version; a note whose current content cannot be kept in its
+   * history is skipped rather than changed without a way back.
+   */
+  static replace(
+    notes: Note[],
+    results: NoteSearchResult[],
+    selectedMatchIds: Set<string>,
+    replacement: string,
+    useRegex: boolean,
+    description: string
+  ): WorkspaceReplaceResult {
+    const notesById = new Map(notes.map(note => [note.id, note]));
+    const result: WorkspaceReplaceResult = {
+      changedNotes: [],
+      replacedCount: 0,
+      staleNoteIds: [],
+      unversionedNoteIds: [],
+    };
+
+    results.forEach(({ noteId, content, matches }) => {
+      const selected = matches.filter(match => selectedMatchIds.has(match.id));
+      if (selected.length === 0) return;
+
+      const note = notesById.get(noteId);
+      if (!note || (note.content || '') !== content) {
+        result.staleNoteIds.push(noteId);
+        return;
+      }
+
+      const version = versionControlService.saveVersion(note, 'manual', description);
+      // No new version is created when the latest one already holds this content
+      const latest = version ?? versionControlService.getNoteVersions(noteId)[0];
+      if (!latest || latest.content !== content) {
+        result.unversionedNoteIds.push(noteId);
+        return;
+      }
+
+      const now = Date.now();
+      result.changedNotes.push({
+        ...note,
+        content: replaceMatches(content, selected, replacement, useRegex),
+        updatedAt: now,
+        ...(version ? { version: version.version, lastVersionedAt: now } : {}),
+      });
+      result.replacedCount += selected.length;
+    });
+
+    return result;
+  }
+}
@@ -36,11 +36,52 @@ export interface Project {
     defaultTags?: string[];
     defaultSorting?: SortOption;
     defaultView?: 'grid' | 'list';
+    // Template new notes in the project start from
+    defaultTemplateId?: string;
   };
   noteCount: number; // Cached count for performance
   lastActivityAt: number; // Last time a note was modified in this project
 }
 
+/**
+ * A reusable note structure. Title and content may contain {{variables}}.
+ */
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  title: string;
+  content: string;
+  tags: string[];
+  // Built-in templates ship with the app and can't be edited
+  isBuiltIn?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A deleted note kept in the trash until it is restored or expires
+ */
+export interface TrashedNote {
+  id: string; // Same as the note id
+  kind: 'note';
+  deletedAt: number;
+  note: Note;
+}
+
+/**
+ * A deleted project, with the notes that were deleted along with it
+ */
+export interface TrashedProject {
+  id: string; // Same as the project id
+  kind: 'project';
+  deletedAt: number;
+  project: Project;
+  notes: Note[];
+}
+
+export type TrashEntry = TrashedNote | TrashedProject;
+
 export interface ProjectStats {
   totalNotes: number;
   pinnedNotes: number;
@@ -20,20 +20,29 @@ export type ShortcutCategory =
   | 'file'
   | 'view'
   | 'search'
-  | 'help';
+  | 'help'
+  | 'keymap';
+
+// A shortcut as listed in the help, which may be one the shortcut listener
+// never runs, like the keys of the editor keymap
+export type ShortcutListing = Omit<KeyboardShortcut, 'action'>;
 
 export interface ShortcutGroup {
   category: ShortcutCategory;
   title: string;
   description: string;
-  shortcuts: KeyboardShortcut[];
+  shortcuts: ShortcutListing[];
 }
 
+// Keys the note editor follows: its own, Vim's or Emacs's
+export type EditorKeymap = 'default' | 'vim' | 'emacs';
+
 export interface KeyboardShortcutConfig {
   enableGlobalShortcuts: boolean;
   enableEditorShortcuts: boolean;
   showHints: boolean;
   customShortcuts: Record<string, Partial<KeyboardShortcut>>;
+  editorKeymap: EditorKeymap;
 }
 
 export interface ShortcutHelpModalProps {
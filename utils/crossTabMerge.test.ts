@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { mergeRecordsById } from './crossTabMerge';
+
+interface Item {
+  id: string;
+  title: string;
+  updatedAt: number;
+}
+
+const item = (id: string, title = id, updatedAt = 1): Item => ({ id, title, updatedAt });
+const ids = (items: Item[]) => items.map(record => record.id);
+
+describe('mergeRecordsById', () => {
+  it('takes the copy of the side that changed a record', () => {
+    const base = [item('a'), item('b')];
+    const local = [item('a', 'mine', 2), item('b')];
+    const incoming = [item('a'), item('b', 'theirs', 2)];
+    expect(mergeRecordsById(base, local, incoming)).toEqual([item('a', 'mine', 2), item('b', 'theirs', 2)]);
+  });
+
+  it('keeps the newer edit when both sides changed a record', () => {
+    const base = [item('a')];
+    expect(mergeRecordsById(base, [item('a', 'mine', 3)], [item('a', 'theirs', 2)])).toEqual([item('a', 'mine', 3)]);
+    expect(mergeRecordsById(base, [item('a', 'mine', 2)], [item('a', 'theirs', 3)])).toEqual([item('a', 'theirs', 3)]);
+  });
+
+  it('gives ties to the incoming copy', () => {
+    expect(mergeRecordsById([item('a')], [item('a', 'mine', 2)], [item('a', 'theirs', 2)])).toEqual([item('a', 'theirs', 2)]);
+  });
+
+  it('keeps records added on either side, local additions first', () => {
+    const base = [item('a')];
+    const merged = mergeRecordsById(base, [item('a'), item('mine')], [item('theirs'), item('a')]);
+    expect(ids(merged)).toEqual(['mine', 'theirs', 'a']);
+  });
+
+  it('applies deletions unless the other side edited the record', () => {
+    const base = [item('a'), item('b')];
+    // Deleted in the other tab
+    expect(ids(mergeRecordsById(base, [item('a'), item('b')], [item('a')]))).toEqual(['a']);
+    expect(ids(mergeRecordsById(base, [item('a'), item('b', 'edited', 2)], [item('a')]))).toEqual(['a', 'b']);
+    // Deleted in this tab
+    expect(ids(mergeRecordsById(base, [item('a')], [item('a'), item('b')]))).toEqual(['a']);
+    expect(ids(mergeRecordsById(base, [item('a')], [item('a'), item('b', 'edited', 2)]))).toEqual(['a', 'b']);
+  });
+
+  it('drops a record both sides deleted', () => {
+    expect(mergeRecordsById([item('a'), item('b')], [item('a')], [item('a')])).toEqual([item('a')]);
+  });
+});
@@ -0,0 +1,72 @@
+// ============================================================================
+// CROSS-TAB MERGE
+// ============================================================================
+// When another tab saves the notes or projects list, its copy is merged with
+// this tab's copy record by record instead of replacing it, so edits made in
+// both tabs at the same time are kept.
+
+export interface MergeableRecord {
+  id: string;
+  updatedAt?: number;
+}
+
+const isSameRecord = (a: MergeableRecord, b: MergeableRecord): boolean =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Three-way merge of record lists by id.
+ *
+ * `base` is the last list both tabs agreed on, `local` is this tab's list and
+ * `incoming` the list just written by another tab.
+ * - A record changed on one side only takes that side's copy.
+ * - A record changed on both sides keeps the newer `updatedAt` (ties go to `incoming`).
+ * - A deletion wins unless the other side edited the record since `base`.
+ *
+ * The result follows `incoming`'s order, with records only this tab added first.
+ */
+export const mergeRecordsById = <T extends MergeableRecord>(base: T[], local: T[], incoming: T[]): T[] => {
+  const baseById = new Map(base.map(record => [record.id, record]));
+  const localById = new Map(local.map(record => [record.id, record]));
+  const incomingIds = new Set(incoming.map(record => record.id));
+
+  const merged: T[] = [];
+
+  // Records added in this tab that the other tab has not seen yet
+  for (const record of local) {
+    if (!incomingIds.has(record.id) && !baseById.has(record.id)) {
+      merged.push(record);
+    }
+  }
+
+  for (const remote of incoming) {
+    const ancestor = baseById.get(remote.id);
+    const mine = localById.get(remote.id);
+
+    if (!mine) {
+      // Deleted here: keep it deleted unless the other tab edited it
+      if (ancestor && isSameRecord(ancestor, remote)) continue;
+      merged.push(remote);
+      continue;
+    }
+
+    const remoteChanged = !ancestor || !isSameRecord(ancestor, remote);
+    const localChanged = !ancestor || !isSameRecord(ancestor, mine);
+
+    if (localChanged && (!remoteChanged || (mine.updatedAt ?? 0) > (remote.updatedAt ?? 0))) {
+      merged.push(mine);
+    } else {
+      merged.push(remote);
+    }
+  }
+
+  // Deleted in the other tab: keep records this tab edited since
+  for (const record of local) {
+    if (incomingIds.has(record.id)) continue;
+    const ancestor = baseById.get(record.id);
+    if (ancestor && !isSameRecord(ancestor, record)) {
+      merged.push(record);
+    }
+  }
+
+  return merged;
+};
@@ -0,0 +1,234 @@
+// ============================================================================
+// MARKDOWN EXTENSIONS
+// ============================================================================
+// Syntax notes can use on top of GFM:
+//
+//   Footnotes     A claim[^1] ...        [^1]: Where it comes from.
+//   Callouts      > [!NOTE] Optional title
+//                 > Body of the callout
+//   Definitions   Term
+//                 : What it means
+//   Highlights    ==marked text==
+//
+// Callouts follow GitHub (NOTE, TIP, IMPORTANT, WARNING, CAUTION) and also
+// take Obsidian's types, drawn as the GitHub type they are closest to. As in
+// Obsidian, `[!TIP]-` makes a callout collapsed and `[!TIP]+` collapsible.
+//
+// The preview reads these with marked extensions; the PDF and DOCX downloads
+// use the same patterns and helpers so a note comes out the same everywhere.
+
+export type CalloutType = 'note' | 'tip' | 'important' | 'warning' | 'caution';
+
+export interface CalloutHeader {
+  type: CalloutType;
+  // The callout's own title, or its type's label
+  title: string;
+  // '-' starts collapsed, '+' starts open, '' can't be collapsed
+  fold: '' | '+' | '-';
+}
+
+export interface DefinitionListItem {
+  terms: string[];
+  definitions: string[];
+}
+
+export interface Footnote {
+  id: string;
+  number: number;
+  text: string;
+}
+
+// Colors as hex without '#', the form docx takes
+export const CALLOUT_TYPES: Record<CalloutType, { label: string; color: string; background: string }> = {
+  note: { label: 'Note', color: '2563EB', background: 'EFF6FF' },
+  tip: { label: 'Tip', color: '16A34A', background: 'F0FDF4' },
+  important: { label: 'Important', color: '9333EA', background: 'FAF5FF' },
+  warning: { label: 'Warning', color: 'D97706', background: 'FFFBEB' },
+  caution: { label: 'Caution', color: 'DC2626', background: 'FEF2F2' },
+};
+
+const CALLOUT_ALIASES: Record<string, CalloutType> = {
+  info: 'note',
+  abstract: 'note',
+  summary: 'note',
+  tldr: 'note',
+  todo: 'note',
+  example: 'note',
+  quote: 'note',
+  cite: 'note',
+  hint: 'tip',
+  success: 'tip',
+  check: 'tip',
+  done: 'tip',
+  question: 'important',
+  help: 'important',
+  faq: 'important',
+  attention: 'warning',
+  danger: 'caution',
+  error: 'caution',
+  bug: 'caution',
+  failure: 'caution',
+  fail: 'caution',
+  missing: 'caution',
+};
+
+const CALLOUT_PATTERN = /^ {0,3}>[ \t]?\[!([\w-]+)\]([+-]?)(?:[ \t]+(.*?))?[ \t]*$/;
+// Quote lines that continue a callout
+export const CALLOUT_LINE_PATTERN = /^ {0,3}>[ \t]?/;
+
+export const FOOTNOTE_REFERENCE_PATTERN = /\[\^([^\]\s]+)\]/g;
+const FOOTNOTE_DEFINITION_PATTERN = /^ {0,3}\[\^([^\]\s]+)\]:[ \t]*(.*)$/;
+// Lines indented under a footnote or a definition carry on its text
+const CONTINUATION_PATTERN = /^(?: {2,}|\t)\S/;
+
+export const HIGHLIGHT_PATTERN = /==(?=[^\s=])([^\n]*?[^\s=])==(?!=)/g;
+
+const DEFINITION_PATTERN = /^ {0,3}:[ \t]+(.*)$/;
+// Lines that start a block of their own and so can't be a term
+const BLOCK_START_PATTERN = /^(?: {4}|\t|\s*(?:#{1,6}(?:\s|$)|>|[-*+][ \t]|\d{1,9}[.)][ \t]|```|~~~|\||<|\[\^[^\]\s]+\]:))/;
+
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Read the first line of a quote as a callout header
+ */
+export const parseCallout = (line: string): CalloutHeader | null => {
+  const match = line.match(CALLOUT_PATTERN);
+  if (!match) return null;
+  const name = match[1].toLowerCase();
+  // Obsidian shows types it doesn't know as notes
+  const type = name in CALLOUT_TYPES ? (name as CalloutType) : CALLOUT_ALIASES[name] ?? 'note';
+  return {
+    type,
+    title: match[3] || CALLOUT_TYPES[type].label,
+    fold: match[2] as CalloutHeader['fold'],
+  };
+};
+
+/**
+ * Read the quote lines of a callout that starts at `start`. Returns the body
+ * without the quote markers and the line after the callout.
+ */
+export const readCallout = (
+  lines: string[],
+  start: number
+): { header: CalloutHeader; body: string[]; end: number } | null => {
+  const header = parseCallout(lines[start]);
+  if (!header) return null;
+  let end = start + 1;
+  while (end < lines.length && CALLOUT_LINE_PATTERN.test(lines[end])) end++;
+  const body = lines.slice(start + 1, end).map(line => line.replace(CALLOUT_LINE_PATTERN, ''));
+  return { header, body, end };
+};
+
+/**
+ * Read a definition list that starts at `start`: one or more terms, each
+ * followed by lines starting with ": ". Returns null when there is none.
+ */
+export const readDefinitionList = (
+  lines: string[],
+  start: number
+): { items: DefinitionListItem[]; end: number } | null => {
+  const items: DefinitionListItem[] = [];
+  let index = start;
+
+  while (index < lines.length) {
+    let cursor = index;
+    // A blank line may separate one term from the next
+    if (items.length > 0 && !lines[cursor].trim()) cursor++;
+
+    const terms: string[] = [];
+    while (cursor < lines.length && lines[cursor].trim() && !DEFINITION_PATTERN.test(lines[cursor])) {
+      if (BLOCK_START_PATTERN.test(lines[cursor])) break;
+      terms.push(lines[cursor].trim());
+      cursor++;
+    }
+
+    const definitions: string[] = [];
+    while (terms.length > 0 && cursor < lines.length) {
+      const definition = lines[cursor].match(DEFINITION_PATTERN);
+      if (!definition) break;
+      let text = definition[1].trim();
+      cursor++;
+      while (cursor < lines.length && CONTINUATION_PATTERN.test(lines[cursor])) {
+        text += ' ' + lines[cursor].trim();
+        cursor++;
+      }
+      definitions.push(text);
+    }
+
+    if (definitions.length === 0) break;
+    items.push({ terms, definitions });
+    index = cursor;
+  }
+
+  return items.length > 0 ? { items, end: index } : null;
+};
+
+/**
+ * Read a footnote definition that starts at `start`, lines indented under it
+ * included
+ */
+export const readFootnoteDefinition = (
+  lines: string[],
+  start: number
+): { id: string; text: string; end: number } | null => {
+  const match = lines[start].match(FOOTNOTE_DEFINITION_PATTERN);
+  if (!match) return null;
+  let text = match[2].trim();
+  let end = start + 1;
+  while (end < lines.length && CONTINUATION_PATTERN.test(lines[end])) {
+    text += ' ' + lines[end].trim();
+    end++;
+  }
+  return { id: match[1], text, end };
+};
+
+/**
+ * Take the footnote definitions out of a note. Footnotes are numbered in the
+ * order they are first referred to; definitions nothing refers to are
+ * dropped. Definitions in fenced code are left where they are.
+ */
+export const extractFootnotes = (content: string): { content: string; footnotes: Footnote[] } => {
+  const lines = content.split('\n');
+  const kept: string[] = [];
+  const definitions = new Map<string, string>();
+  let inFence = false;
+
+  for (let index = 0; index < lines.length; index++) {
+    if (CODE_FENCE_PATTERN.test(lines[index])) inFence = !inFence;
+    const definition = inFence ? null : readFootnoteDefinition(lines, index);
+    if (!definition) {
+      kept.push(lines[index]);
+      continue;
+    }
+    // The first definition of an id wins, as in GitHub
+    if (!definitions.has(definition.id)) definitions.set(definition.id, definition.text);
+    index = definition.end - 1;
+  }
+
+  const remaining = kept.join('\n');
+  if (definitions.size === 0) return { content: remaining, footnotes: [] };
+
+  const footnotes: Footnote[] = [];
+  for (const [, id] of remaining.matchAll(FOOTNOTE_REFERENCE_PATTERN)) {
+    const text = definitions.get(id);
+    if (text === undefined || footnotes.some(footnote => footnote.id === id)) continue;
+    footnotes.push({ id, number: footnotes.length + 1, text });
+  }
+  return { content: remaining, footnotes };
+};
+
+/**
+ * Replace footnote references with `render(number)`. References without a
+ * footnote stay as they are.
+ */
+export const replaceFootnoteReferences = (
+  text: string,
+  footnotes: Footnote[],
+  render: (number: number) => string
+): string =>
+  text.replace(FOOTNOTE_REFERENCE_PATTERN, (match, id: string) => {
+    const footnote = footnotes.find(candidate => candidate.id === id);
+    return footnote ? render(footnote.number) : match;
+  });
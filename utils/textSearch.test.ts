@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SEARCH_OPTIONS, SearchOptions, buildSearchRegex, findMatches, replaceMatches } from './textSearch';
+
+// Matched text for a query with the given toggles
+const search = (text: string, query: string, options: Partial<SearchOptions> = {}) =>
+  findMatches(text, buildSearchRegex(query, { ...DEFAULT_SEARCH_OPTIONS, ...options }))
+    .map(({ start, end }) => text.slice(start, end));
+
+const replaceAll = (text: string, query: string, replacement: string, options: Partial<SearchOptions> = {}) => {
+  const { useRegex } = { ...DEFAULT_SEARCH_OPTIONS, ...options };
+  const regex = buildSearchRegex(query, { ...DEFAULT_SEARCH_OPTIONS, ...options });
+  return replaceMatches(text, findMatches(text, regex), replacement, useRegex);
+};
+
+describe('buildSearchRegex', () => {
+  it('matches plain queries literally', () => {
+    expect(search('a.b axb (a.b)', 'a.b')).toEqual(['a.b', 'a.b']);
+    expect(search('cost $5 or $50', '$5')).toEqual(['$5', '$5']);
+  });
+
+  it('throws a SyntaxError for an invalid pattern in regex mode', () => {
+    expect(() => buildSearchRegex('(unclosed', { ...DEFAULT_SEARCH_OPTIONS, useRegex: true })).toThrow(SyntaxError);
+    expect(() => buildSearchRegex('[a-', { ...DEFAULT_SEARCH_OPTIONS, useRegex: true, wholeWord: true })).toThrow(SyntaxError);
+    expect(() => buildSearchRegex('(unclosed', DEFAULT_SEARCH_OPTIONS)).not.toThrow();
+  });
+
+  it('ignores case unless asked not to', () => {
+    expect(search('Note note NOTE', 'note')).toEqual(['Note', 'note', 'NOTE']);
+    expect(search('Note note NOTE', 'note', { caseSensitive: true })).toEqual(['note']);
+  });
+
+  it('matches whole words only when asked', () => {
+    expect(search('cat concat cat_s cat.', 'cat')).toEqual(['cat', 'cat', 'cat', 'cat']);
+    expect(search('cat concat cat_s cat.', 'cat', { wholeWord: true })).toEqual(['cat', 'cat']);
+  });
+
+  it('applies whole-word to every alternative of a regex', () => {
+    expect(search('a ab b', 'a|b', { useRegex: true, wholeWord: true })).toEqual(['a', 'b']);
+  });
+
+  it('combines whole-word and case', () => {
+    expect(search('Word word words', 'word', { wholeWord: true, caseSensitive: true })).toEqual(['word']);
+  });
+});
+
+describe('findMatches', () => {
+  it('skips empty matches', () => {
+    expect(search('ab\ncd', '^', { useRegex: true })).toEqual([]);
+    expect(search('baab', 'a*', { useRegex: true })).toEqual(['aa']);
+  });
+});
+
+describe('replaceMatches', () => {
+  it('expands numbered groups when replacing all', () => {
+    expect(replaceAll('2024-01-31 and 2025-12-01', '(\\d+)-(\\d+)-(\\d+)', '$3/$2/$1', { useRegex: true }))
+      .toBe('31/01/2024 and 01/12/2025');
+  });
+
+  it('expands named groups, the whole match and escaped dollars', () => {
+    expect(replaceAll('a=1 b=2', '(?<key>\\w)=(\\d)', '$<key>:$2 ($&) $$', { useRegex: true }))
+      .toBe('a:1 (a=1) $ b:2 (b=2) $');
+  });
+
+  it('reads $12 as group 1 followed by 2 when there is one group', () => {
+    expect(replaceAll('x', '(x)', '$12', { useRegex: true })).toBe('x2');
+  });
+
+  it('leaves unmatched groups empty and unknown ones as typed', () => {
+    expect(replaceAll('ab', '(a)(c)?', '[$2]$3', { useRegex: true })).toBe('[]$3b');
+  });
+
+  it('inserts plain replacements as typed', () => {
+    expect(replaceAll('one two', 'o', '$1')).toBe('$1ne tw$1');
+  });
+});
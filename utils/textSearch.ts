@@ -0,0 +1,105 @@
+// ============================================================================
+// TEXT SEARCH
+// ============================================================================
+// Matching and replacing for find/replace. A query is compiled once into a
+// global RegExp according to the case, whole-word and regex toggles; plain
+// queries are escaped so they match literally.
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  useRegex: boolean;
+}
+
+export interface TextMatch {
+  start: number;
+  end: number;
+  // Capture groups, used to expand $1 and $<name> in regex replacements
+  groups: (string | undefined)[];
+  namedGroups?: Record<string, string | undefined>;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  caseSensitive: false,
+  wholeWord: false,
+  useRegex: false,
+};
+
+// Stop counting after this many matches so huge notes stay responsive
+export const MAX_SEARCH_MATCHES = 10000;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compile a query into a global RegExp. Throws a SyntaxError for an invalid
+ * regular expression.
+ */
+export const buildSearchRegex = (query: string, options: SearchOptions): RegExp => {
+  let source = options.useRegex ? query : escapeRegExp(query);
+  if (options.wholeWord) {
+    source = `(?<!\\w)(?:${source})(?!\\w)`;
+  }
+  return new RegExp(source, options.caseSensitive ? 'gm' : 'gim');
+};
+
+/**
+ * All non-empty matches of a regex in the text, in order
+ */
+export const findMatches = (text: string, regex: RegExp): TextMatch[] => {
+  const pattern = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : `${regex.flags}g`);
+  const matches: TextMatch[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null && matches.length < MAX_SEARCH_MATCHES) {
+    if (match[0].length === 0) {
+      // Step past empty matches such as `^` or `a*`
+      pattern.lastIndex++;
+      continue;
+    }
+    matches.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      groups: match.slice(1),
+      namedGroups: match.groups,
+    });
+  }
+  return matches;
+};
+
+/**
+ * Expand `$&`, `$1`…`$99`, `$<name>` and `$$` in a regex replacement
+ */
+export const expandReplacement = (template: string, matchText: string, match: TextMatch): string =>
+  template.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return matchText;
+    if (name !== undefined) {
+      return match.namedGroups && name in match.namedGroups ? match.namedGroups[name] ?? '' : token;
+    }
+    const index = Number(ref);
+    if (index >= 1 && index <= match.groups.length) return match.groups[index - 1] ?? '';
+    // "$12" with a single group means "$1" followed by "2"
+    if (ref.length === 2 && Number(ref[0]) >= 1 && Number(ref[0]) <= match.groups.length) {
+      return (match.groups[Number(ref[0]) - 1] ?? '') + ref[1];
+    }
+    return token;
+  });
+
+/**
+ * Replace the given matches, which must be in order and not overlap
+ */
+export const replaceMatches = (
+  text: string,
+  matches: TextMatch[],
+  replacement: string,
+  useRegex: boolean
+): string => {
+  let result = '';
+  let last = 0;
+  for (const match of matches) {
+    const matchText = text.slice(match.start, match.end);
+    result += text.slice(last, match.start) + (useRegex ? expandReplacement(replacement, matchText, match) : replacement);
+    last = match.end;
+  }
+  return result + text.slice(last);
+};
@@ -0,0 +1,100 @@
+// ============================================================================
+// TEXTAREA CARET
+// ============================================================================
+// Textareas don't expose where a character is drawn. A hidden copy of the
+// textarea with the same text layout is measured instead.
+
+const COPIED_STYLES = [
+  'boxSizing',
+  'width',
+  'borderTopWidth',
+  'borderRightWidth',
+  'borderBottomWidth',
+  'borderLeftWidth',
+  'borderStyle',
+  'paddingTop',
+  'paddingRight',
+  'paddingBottom',
+  'paddingLeft',
+  'fontFamily',
+  'fontSize',
+  'fontStyle',
+  'fontWeight',
+  'letterSpacing',
+  'lineHeight',
+  'tabSize',
+  'textIndent',
+  'textTransform',
+  'wordBreak',
+  'wordSpacing',
+] as const;
+
+export interface CaretCoordinates {
+  top: number;
+  left: number;
+  height: number;
+}
+
+// Hidden element laid out like the textarea, appended to the page
+const createMirror = (textarea: HTMLTextAreaElement, computed: CSSStyleDeclaration): HTMLDivElement => {
+  const mirror = document.createElement('div');
+  COPIED_STYLES.forEach(property => {
+    mirror.style[property] = computed[property];
+  });
+  mirror.style.position = 'absolute';
+  mirror.style.visibility = 'hidden';
+  mirror.style.top = '0';
+  mirror.style.left = '-9999px';
+  mirror.style.whiteSpace = 'pre-wrap';
+  mirror.style.overflowWrap = 'break-word';
+  mirror.style.overflow = 'hidden';
+  // clientWidth leaves out the scrollbar, which also narrows the text
+  mirror.style.width = `${textarea.clientWidth + parseFloat(computed.borderLeftWidth) + parseFloat(computed.borderRightWidth)}px`;
+  document.body.appendChild(mirror);
+  return mirror;
+};
+
+/**
+ * Position of the character at `position`, relative to the textarea's border
+ * box and ignoring its scroll offset
+ */
+export const getCaretCoordinates = (textarea: HTMLTextAreaElement, position: number): CaretCoordinates => {
+  const computed = window.getComputedStyle(textarea);
+  const mirror = createMirror(textarea, computed);
+  mirror.textContent = textarea.value.slice(0, position);
+  const marker = document.createElement('span');
+  // Something must follow the caret for the span to be laid out on its line
+  marker.textContent = textarea.value.slice(position) || '.';
+  mirror.appendChild(marker);
+
+  const lineHeight = parseFloat(computed.lineHeight);
+  const coordinates = {
+    top: marker.offsetTop + parseFloat(computed.borderTopWidth),
+    left: marker.offsetLeft + parseFloat(computed.borderLeftWidth),
+    height: Number.isNaN(lineHeight) ? parseFloat(computed.fontSize) * 1.2 : lineHeight,
+  };
+  document.body.removeChild(mirror);
+  return coordinates;
+};
+
+/**
+ * Top of each of the given (ascending) positions, measured in one layout
+ * pass. Same coordinates as `getCaretCoordinates`.
+ */
+export const getPositionTops = (textarea: HTMLTextAreaElement, positions: number[]): number[] => {
+  const computed = window.getComputedStyle(textarea);
+  const mirror = createMirror(textarea, computed);
+  const value = textarea.value;
+  const markers = positions.map((position, i) => {
+    mirror.append(value.slice(i === 0 ? 0 : positions[i - 1], position));
+    const marker = document.createElement('span');
+    mirror.appendChild(marker);
+    return marker;
+  });
+  mirror.append(value.slice(positions[positions.length - 1] ?? 0) || '.');
+
+  const borderTop = parseFloat(computed.borderTopWidth);
+  const tops = markers.map(marker => marker.offsetTop + borderTop);
+  document.body.removeChild(mirror);
+  return tops;
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyLineDelta,
+  base64ToBytes,
+  bytesToBase64,
+  compressText,
+  createLineDelta,
+  decompressText,
+} from './versionDelta';
+
+const roundTrip = (base: string, target: string) => {
+  const delta = createLineDelta(base, target);
+  expect(delta).not.toBeNull();
+  expect(applyLineDelta(base, delta!)).toBe(target);
+  return delta!;
+};
+
+describe('createLineDelta / applyLineDelta', () => {
+  it('rebuilds the target from the base', () => {
+    roundTrip('a\nb\nc', 'a\nx\nc');
+    roundTrip('a\nb\nc', 'b\nc\nd');
+    roundTrip('', 'one\ntwo');
+    roundTrip('one\ntwo', '');
+    roundTrip('same', 'same');
+    roundTrip('a\n\nb\n', '\na\nb\n\n');
+  });
+
+  it('copies the unchanged prefix and suffix as line counts', () => {
+    const delta = roundTrip('1\n2\n3\n4\n5', '1\n2\nthree\n4\n5');
+    expect(delta).toEqual([2, -1, ['three'], 2]);
+  });
+
+  it('merges consecutive operations of the same kind', () => {
+    const delta = roundTrip('a\nb\nc\nd', 'a\nx\ny\nd');
+    expect(delta.filter(Array.isArray)).toHaveLength(1);
+    expect(delta.filter(item => typeof item === 'number' && item < 0)).toEqual([-2]);
+  });
+
+  it('gives up on texts that are too different', () => {
+    const base = Array.from({ length: 1500 }, (_, i) => `base ${i}`).join('\n');
+    const target = Array.from({ length: 1500 }, (_, i) => `target ${i}`).join('\n');
+    expect(createLineDelta(base, target)).toBeNull();
+  });
+
+  it('handles many scattered edits', () => {
+    const base = Array.from({ length: 300 }, (_, i) => `line ${i}`);
+    const target = base.map((line, i) => (i % 7 === 0 ? `${line} edited` : line));
+    target.splice(150, 0, 'inserted');
+    target.splice(20, 3);
+    roundTrip(base.join('\n'), target.join('\n'));
+  });
+});
+
+describe('base64', () => {
+  it('round-trips bytes, including large buffers', () => {
+    const bytes = new Uint8Array(100000).map((_, i) => (i * 31) % 256);
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+    expect(bytesToBase64(new Uint8Array())).toBe('');
+  });
+});
+
+describe('compressText / decompressText', () => {
+  it('leaves short text uncompressed', () => {
+    expect(compressText('short')).toEqual({ data: 'short', compressed: false });
+  });
+
+  it('compresses long repetitive text and restores it', () => {
+    const text = 'Lorem ipsum dolor sit amet, ünïcödé ✓ '.repeat(50);
+    const { data, compressed } = compressText(text);
+    expect(compressed).toBe(true);
+    expect(data.length).toBeLessThan(text.length);
+    expect(decompressText(data, compressed)).toBe(text);
+  });
+
+  it('keeps text that does not shrink as is', () => {
+    const random = Array.from({ length: 400 }, (_, i) => String.fromCharCode(33 + ((i * 7919) % 90))).join('');
+    const { data, compressed } = compressText(random);
+    expect(decompressText(data, compressed)).toBe(random);
+  });
+});
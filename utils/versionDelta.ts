@@ -0,0 +1,201 @@
+import { deflate, inflate } from 'pako';
+
+/**
+ * A line-based edit script that turns a base text into a target text.
+ * - positive number: copy that many lines from the base
+ * - negative number: skip that many lines of the base
+ * - string[]: insert these lines
+ */
+export type LineDelta = Array<number | string[]>;
+
+// Give up on diffing (caller stores a full snapshot instead) past this many edits
+const MAX_EDIT_DISTANCE = 2000;
+// Payloads shorter than this are stored uncompressed
+const MIN_COMPRESS_LENGTH = 256;
+
+/**
+ * Myers O(ND) diff over lines. Returns the edit operations from start to end,
+ * or null when the edit distance exceeds `maxD`.
+ */
+function diffLines(a: string[], b: string[], maxD: number): Array<'=' | '-' | '+'> | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-d..d] as it was before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, maxD); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, d, n, m);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], maxD: number, n: number, m: number): Array<'=' | '-' | '+'> {
+  const ops: Array<'=' | '-' | '+'> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = maxD; d > 0; d--) {
+    const prev = trace[d];
+    const get = (k: number) => prev[k + d];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && get(k - 1) < get(k + 1))) ? k + 1 : k - 1;
+    const prevX = get(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push('=');
+      x--;
+      y--;
+    }
+    if (x === prevX) {
+      ops.push('+');
+      y--;
+    } else {
+      ops.push('-');
+      x--;
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    ops.push('=');
+    x--;
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Create a delta that rebuilds `target` from `base`.
+ * Returns null when the texts are too different for a delta to be worthwhile.
+ */
+export function createLineDelta(base: string, target: string): LineDelta | null {
+  const a = base.split('\n');
+  const b = target.split('\n');
+
+  // Trim common prefix/suffix so the diff only runs over the changed region
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const aMid = a.slice(prefix, a.length - suffix);
+  const bMid = b.slice(prefix, b.length - suffix);
+  const ops = diffLines(aMid, bMid, MAX_EDIT_DISTANCE);
+  if (!ops) return null;
+
+  const delta: LineDelta = [];
+  const push = (item: number | string[]) => {
+    const last = delta[delta.length - 1];
+    if (typeof item === 'number' && typeof last === 'number' && Math.sign(item) === Math.sign(last)) {
+      delta[delta.length - 1] = last + item;
+    } else if (Array.isArray(item) && Array.isArray(last)) {
+      last.push(...item);
+    } else {
+      delta.push(item);
+    }
+  };
+
+  if (prefix > 0) push(prefix);
+  let bIndex = 0;
+  for (const op of ops) {
+    if (op === '=') {
+      push(1);
+      bIndex++;
+    } else if (op === '-') {
+      push(-1);
+    } else {
+      push([bMid[bIndex]]);
+      bIndex++;
+    }
+  }
+  if (suffix > 0) push(suffix);
+
+  return delta;
+}
+
+/**
+ * Apply a delta produced by `createLineDelta`
+ */
+export function applyLineDelta(base: string, delta: LineDelta): string {
+  const lines = base.split('\n');
+  const result: string[] = [];
+  let cursor = 0;
+
+  for (const item of delta) {
+    if (Array.isArray(item)) {
+      result.push(...item);
+    } else if (item > 0) {
+      result.push(...lines.slice(cursor, cursor + item));
+      cursor += item;
+    } else {
+      cursor -= item;
+    }
+  }
+
+  return result.join('\n');
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Deflate a string with pako. Returns the original text when compression
+ * would not make it smaller.
+ */
+export function compressText(text: string): { data: string; compressed: boolean } {
+  if (text.length < MIN_COMPRESS_LENGTH) {
+    return { data: text, compressed: false };
+  }
+  const encoded = bytesToBase64(deflate(text));
+  return encoded.length < text.length
+    ? { data: encoded, compressed: true }
+    : { data: text, compressed: false };
+}
+
+export function decompressText(data: string, compressed: boolean): string {
+  return compressed ? inflate(base64ToBytes(data), { to: 'string' }) : data;
+}